@@ -10,10 +10,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import Link from "next/link";
 import { useState, useRef } from "react";
 import Image from "next/image";
+import { indonesianCities } from "@/lib/constants/indonesia-cities";
 
 const platforms = ["TikTok", "Shopee"];
 const categories = ["Fashion", "Technology", "Beauty", "Gaming", "Cooking", "Fitness", "Music", "Others"];
-const indonesiaCities = ["Jakarta", "Surabaya", "Bandung", "Medan", "Semarang", "Makassar", "Palembang", "Tangerang"];
 
 export default function StreamerSignUp({ searchParams }: { searchParams: Message }) {
   const [isSigningUp, setIsSigningUp] = useState(false);
@@ -246,8 +246,8 @@ export default function StreamerSignUp({ searchParams }: { searchParams: Message
                       <SelectValue placeholder="Pilih kota" />
                     </SelectTrigger>
                     <SelectContent>
-                      {indonesiaCities.map((city) => (
-                        <SelectItem key={city} value={city}>{city}</SelectItem>
+                      {indonesianCities.map((city) => (
+                        <SelectItem key={city.value} value={city.label}>{city.label}</SelectItem>
                       ))}
                     </SelectContent>
                   </Select>
@@ -7,6 +7,30 @@ import { redirect } from "next/navigation";
 import { revalidatePath } from "next/cache";
 import { cookies } from 'next/headers';
 import { v4 as uuidv4 } from 'uuid';
+import { transitionBooking } from "@/services/booking/booking-transitions";
+import { getRefundDecision } from "@/services/booking/refund-policy";
+import { isPastAcceptanceDeadline } from "@/services/booking/acceptance-deadline";
+import { isBookingStatus } from "@/services/booking/booking-status";
+import { refundBookingPayment } from "@/services/payment/refunds";
+import { postPayoutPaid, postPayoutRejected, releaseStreamerEarnings } from "@/services/payment/ledger";
+import { normalizePromoCode } from "@/services/payment/promo-codes";
+import { createAdminClient } from "@/utils/supabase/admin";
+import {
+  AVAILABILITY_CONFLICT_MESSAGES,
+  AVAILABILITY_EXCEPTION_KINDS,
+  type AvailabilityExceptionKind,
+  type WeeklyAvailability
+} from "@/services/booking/availability";
+import {
+  RESCHEDULABLE_STATUSES,
+  findRescheduleConflict,
+  getRescheduleEnd,
+  postRescheduleMessage,
+  type RescheduleRequest,
+  type RescheduleResponse
+} from "@/services/booking/reschedule";
+import { DEFAULT_TIMEZONE, formatInZone, formatTimeRangeForBoth, getCityTimeZone, zonedTimeToUtc } from "@/lib/timezones";
+import { isSlotMinutes, joinWindows } from "@/services/booking/slots";
 
 // Add this helper function at the top of the file
 function sanitizeFileName(fileName: string): string {
@@ -134,6 +158,10 @@ export const signInAction = async (formData: FormData) => {
     return encodedRedirect("error", "/sign-in", "Error verifying user type");
   }
 
+  if (userData.user_type === 'admin') {
+    return redirect("/admin/payouts");
+  }
+
   if (userData.user_type !== 'client') {
     await supabase.auth.signOut();
     return encodedRedirect("error", "/sign-in", "Please use the streamer login page if you're a streamer");
@@ -320,6 +348,18 @@ export async function updateUserProfile(formData: FormData) {
       updated_at: new Date().toISOString(),
     };
 
+    // Invoice details; only brands send these fields
+    if (formData.has('npwp')) {
+      const npwp = (formData.get('npwp') as string).replace(/[.\-\s]/g, '');
+      if (npwp && !/^\d{15,16}$/.test(npwp)) {
+        return { error: 'NPWP must be 15 or 16 digits' };
+      }
+      updateData.brand_name = (formData.get('brandName') as string)?.trim() || null;
+      updateData.npwp = npwp || null;
+      updateData.npwp_name = (formData.get('npwpName') as string)?.trim() || null;
+      updateData.npwp_address = (formData.get('npwpAddress') as string)?.trim() || null;
+    }
+
     if (profilePictureUrl) {
       updateData.profile_picture_url = profilePictureUrl;
     }
@@ -440,6 +480,7 @@ export async function streamerSignUpAction(formData: FormData) {
           image_url: imageUrl,
           bio,
           location,
+          timezone: getCityTimeZone(location),
           video_url: formData.get('video_url') as string,
           rating: 0, // Add a default rating of 0 for new streamers
         })
@@ -705,6 +746,335 @@ export async function updateStreamerProfile(formData: FormData) {
   }
 }
 
+// Loads the streamer profile of the signed-in user
+async function getSignedInStreamer(supabase: ReturnType<typeof createClient>) {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const { data: streamer, error } = await supabase
+    .from('streamers')
+    .select('id, timezone')
+    .eq('user_id', user.id)
+    .single();
+
+  if (error || !streamer) throw new Error('Streamer profile not found');
+  return streamer;
+}
+
+export async function getMyServicePackages() {
+  try {
+    const supabase = createClient();
+    const streamer = await getSignedInStreamer(supabase);
+
+    const { data, error } = await supabase
+      .from('streamer_packages')
+      .select('*')
+      .eq('streamer_id', streamer.id)
+      .order('sort_order', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return { packages: data };
+  } catch (error) {
+    console.error('Error loading service packages:', error);
+    return { error: error instanceof Error ? error.message : 'Failed to load packages' };
+  }
+}
+
+// Creates a streamer package, or updates it when the form carries an id
+export async function saveServicePackage(formData: FormData) {
+  try {
+    const supabase = createClient();
+    const streamer = await getSignedInStreamer(supabase);
+
+    const id = Number(formData.get('id')) || null;
+    const name = String(formData.get('name') || '').trim();
+    const durationHours = Number(formData.get('duration_hours'));
+    const price = Number(formData.get('price'));
+    const maxProducts = formData.get('max_products') ? Number(formData.get('max_products')) : null;
+    const deliverables = String(formData.get('deliverables') || '')
+      .split('\n')
+      .map(item => item.trim())
+      .filter(Boolean);
+
+    if (!name) return { error: 'Package name is required' };
+    if (!Number.isInteger(durationHours) || durationHours < 1 || durationHours > 24) {
+      return { error: 'Duration must be between 1 and 24 hours' };
+    }
+    if (!Number.isFinite(price) || price <= 0) return { error: 'Price must be greater than zero' };
+    if (maxProducts !== null && (!Number.isInteger(maxProducts) || maxProducts < 1)) {
+      return { error: 'Max products must be a whole number' };
+    }
+
+    const values = {
+      name,
+      description: String(formData.get('description') || '').trim() || null,
+      duration_hours: durationHours,
+      price: Math.round(price),
+      deliverables,
+      max_products: maxProducts,
+      updated_at: new Date().toISOString()
+    };
+
+    const { data, error } = id
+      ? await supabase
+          .from('streamer_packages')
+          .update(values)
+          .eq('id', id)
+          .eq('streamer_id', streamer.id)
+          .select()
+          .single()
+      : await supabase
+          .from('streamer_packages')
+          .insert({ ...values, streamer_id: streamer.id })
+          .select()
+          .single();
+
+    if (error) throw error;
+
+    revalidatePath('/settings');
+    return { success: true, package: data };
+  } catch (error) {
+    console.error('Error saving service package:', error);
+    return { error: error instanceof Error ? error.message : 'Failed to save package' };
+  }
+}
+
+// Hidden packages stay on past bookings but can no longer be bought
+export async function setServicePackageActive(packageId: number, isActive: boolean) {
+  try {
+    const supabase = createClient();
+    const streamer = await getSignedInStreamer(supabase);
+
+    const { error } = await supabase
+      .from('streamer_packages')
+      .update({ is_active: isActive, updated_at: new Date().toISOString() })
+      .eq('id', packageId)
+      .eq('streamer_id', streamer.id);
+
+    if (error) throw error;
+
+    revalidatePath('/settings');
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating service package:', error);
+    return { error: error instanceof Error ? error.message : 'Failed to update package' };
+  }
+}
+
+export async function deleteServicePackage(packageId: number) {
+  try {
+    const supabase = createClient();
+    const streamer = await getSignedInStreamer(supabase);
+
+    const { error } = await supabase
+      .from('streamer_packages')
+      .delete()
+      .eq('id', packageId)
+      .eq('streamer_id', streamer.id);
+
+    if (error) throw error;
+
+    revalidatePath('/settings');
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting service package:', error);
+    return { error: error instanceof Error ? error.message : 'Failed to delete package' };
+  }
+}
+
+// Replaces the signed-in streamer's weekly template and slot length. Windows
+// are HH:mm on the streamer's clock; touching windows are stored as one row.
+export async function saveWeeklyAvailability(weekly: WeeklyAvailability, slotMinutes: number) {
+  try {
+    const supabase = createClient();
+    const streamer = await getSignedInStreamer(supabase);
+
+    if (!isSlotMinutes(slotMinutes)) return { error: 'Invalid slot length' };
+
+    const rows = [];
+    for (let weekday = 0; weekday < 7; weekday++) {
+      const windows = weekly[weekday] ?? [];
+      if (!windows.every(window => /^\d{2}:\d{2}$/.test(window.start) && /^\d{2}:\d{2}$/.test(window.end))) {
+        return { error: 'Invalid availability window' };
+      }
+      for (const window of joinWindows(windows)) {
+        rows.push({ streamer_id: streamer.id, weekday, start_time: window.start, end_time: window.end });
+      }
+    }
+
+    const { error: deleteError } = await supabase
+      .from('streamer_availability')
+      .delete()
+      .eq('streamer_id', streamer.id);
+
+    if (deleteError) throw deleteError;
+
+    if (rows.length > 0) {
+      const { error: insertError } = await supabase
+        .from('streamer_availability')
+        .insert(rows);
+
+      if (insertError) throw insertError;
+    }
+
+    const { error: slotMinutesError } = await supabase
+      .from('streamers')
+      .update({ slot_minutes: slotMinutes })
+      .eq('id', streamer.id);
+
+    if (slotMinutesError) throw slotMinutesError;
+
+    revalidatePath('/streamer-schedule');
+    return { success: true };
+  } catch (error) {
+    console.error('Error saving availability:', error);
+    return { error: error instanceof Error ? error.message : 'Failed to save availability' };
+  }
+}
+
+const isCalendarDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
+const isTimeOfDay = (value: string) => /^\d{2}:\d{2}$/.test(value);
+
+// Takes a single day off, or gives it back; `date` is yyyy-MM-dd on the
+// streamer's clock. Days inside a longer time-off range are changed by
+// editing that range.
+export async function setDayOff(date: string, isDayOff: boolean) {
+  try {
+    const supabase = createClient();
+    const streamer = await getSignedInStreamer(supabase);
+
+    if (!isCalendarDate(date)) return { error: 'Invalid date' };
+
+    if (isDayOff) {
+      const { error } = await supabase
+        .from('streamer_availability_exceptions')
+        .insert({ streamer_id: streamer.id, kind: 'off', start_date: date, end_date: date });
+
+      if (error) throw error;
+    } else {
+      const { data: ranges, error: rangesError } = await supabase
+        .from('streamer_availability_exceptions')
+        .select('start_date, end_date')
+        .eq('streamer_id', streamer.id)
+        .eq('kind', 'off')
+        .is('start_time', null)
+        .lte('start_date', date)
+        .gte('end_date', date);
+
+      if (rangesError) throw rangesError;
+
+      const range = ranges?.find(r => r.start_date !== r.end_date);
+      if (range) {
+        return { error: `This day is part of your time off from ${range.start_date} to ${range.end_date}; edit it under Exceptions` };
+      }
+
+      const { error } = await supabase
+        .from('streamer_availability_exceptions')
+        .delete()
+        .eq('streamer_id', streamer.id)
+        .eq('kind', 'off')
+        .is('start_time', null)
+        .eq('start_date', date)
+        .eq('end_date', date);
+
+      if (error) throw error;
+    }
+
+    revalidatePath('/streamer-schedule');
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating day off:', error);
+    return { error: error instanceof Error ? error.message : 'Failed to update day off' };
+  }
+}
+
+// The signed-in streamer's exceptions that have not ended yet
+export async function getMyAvailabilityExceptions() {
+  try {
+    const supabase = createClient();
+    const streamer = await getSignedInStreamer(supabase);
+
+    const { data, error } = await supabase
+      .from('streamer_availability_exceptions')
+      .select('id, kind, start_date, end_date, start_time, end_time, note')
+      .eq('streamer_id', streamer.id)
+      .gte('end_date', formatInZone(new Date(), streamer.timezone ?? DEFAULT_TIMEZONE, 'yyyy-MM-dd'))
+      .order('start_date', { ascending: true });
+
+    if (error) throw error;
+    return { exceptions: data };
+  } catch (error) {
+    console.error('Error loading availability exceptions:', error);
+    return { error: error instanceof Error ? error.message : 'Failed to load exceptions' };
+  }
+}
+
+export async function createAvailabilityException(formData: FormData) {
+  try {
+    const supabase = createClient();
+    const streamer = await getSignedInStreamer(supabase);
+
+    const kind = String(formData.get('kind') || '') as AvailabilityExceptionKind;
+    const startDate = String(formData.get('start_date') || '');
+    const endDate = String(formData.get('end_date') || '') || startDate;
+    const startTime = String(formData.get('start_time') || '');
+    const endTime = String(formData.get('end_time') || '');
+    const note = String(formData.get('note') || '').trim();
+
+    if (!AVAILABILITY_EXCEPTION_KINDS.includes(kind)) return { error: 'Choose a type of exception' };
+    if (!isCalendarDate(startDate) || !isCalendarDate(endDate)) return { error: 'Invalid date' };
+    if (endDate < startDate) return { error: 'The end date must not be before the start date' };
+
+    const hasTimes = Boolean(startTime || endTime);
+    if (kind !== 'off' && !hasTimes) return { error: 'Enter the hours for this exception' };
+    if (hasTimes && (!isTimeOfDay(startTime) || !isTimeOfDay(endTime) || endTime <= startTime)) {
+      return { error: 'The end time must be after the start time' };
+    }
+
+    const { error } = await supabase
+      .from('streamer_availability_exceptions')
+      .insert({
+        streamer_id: streamer.id,
+        kind,
+        start_date: startDate,
+        end_date: endDate,
+        start_time: hasTimes ? startTime : null,
+        end_time: hasTimes ? endTime : null,
+        note: note || null
+      });
+
+    if (error) throw error;
+
+    revalidatePath('/streamer-schedule');
+    return { success: true };
+  } catch (error) {
+    console.error('Error creating availability exception:', error);
+    return { error: error instanceof Error ? error.message : 'Failed to create exception' };
+  }
+}
+
+export async function deleteAvailabilityException(exceptionId: number) {
+  try {
+    const supabase = createClient();
+    const streamer = await getSignedInStreamer(supabase);
+
+    const { error } = await supabase
+      .from('streamer_availability_exceptions')
+      .delete()
+      .eq('id', exceptionId)
+      .eq('streamer_id', streamer.id);
+
+    if (error) throw error;
+
+    revalidatePath('/streamer-schedule');
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting availability exception:', error);
+    return { error: error instanceof Error ? error.message : 'Failed to delete exception' };
+  }
+}
+
 export async function signOut() {
   const supabase = createClient();
   const { error } = await supabase.auth.signOut();
@@ -716,6 +1086,32 @@ export async function signOut() {
   return true;
 }
 
+// Loads a booking that belongs to the signed-in streamer
+async function getStreamerBooking(supabase: ReturnType<typeof createClient>, userId: string, bookingId: number) {
+  const { data: streamerData, error: streamerError } = await supabase
+    .from('streamers')
+    .select('id, first_name, last_name')
+    .eq('user_id', userId)
+    .single();
+
+  if (streamerError || !streamerData) {
+    throw new Error('Streamer profile not found');
+  }
+
+  const { data: bookingData, error: bookingError } = await supabase
+    .from('bookings')
+    .select('*')
+    .eq('id', bookingId)
+    .eq('streamer_id', streamerData.id)
+    .single();
+
+  if (bookingError || !bookingData) {
+    throw new Error('Booking not found');
+  }
+
+  return { booking: bookingData, streamer: streamerData };
+}
+
 export async function acceptBooking(bookingId: number) {
   const supabase = createClient();
   const { data: { user } } = await supabase.auth.getUser();
@@ -725,50 +1121,31 @@ export async function acceptBooking(bookingId: number) {
   }
 
   try {
-    // Fetch the booking first to get the correct types
-    const { data: bookingData, error: bookingFetchError } = await supabase
-      .from('bookings')
-      .select('*')
-      .eq('id', bookingId)
-      .single();
+    const { booking: bookingData, streamer: streamerData } = await getStreamerBooking(supabase, user.id, bookingId);
 
-    if (bookingFetchError) {
-      console.error('Error fetching booking:', bookingFetchError);
-      throw bookingFetchError;
+    if (bookingData.package_id) {
+      throw new Error('This session is part of a package; accept the package instead');
     }
 
-    // Now update the booking status
-    const { data, error } = await supabase
-      .from('bookings')
-      .update({ status: 'accepted' })
-      .eq('id', bookingId)
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Error updating booking status:', error);
-      throw error;
+    // The deadline job declines it shortly; accepting now would race the refund
+    if (isPastAcceptanceDeadline(bookingData.accept_by)) {
+      throw new Error('The deadline to accept this booking has passed');
     }
 
-    // Create notification for client
-    const { data: userData, error: userError } = await supabase
-      .from('users')
-      .select('first_name, last_name')
-      .eq('id', user.id)
-      .single();
-
-    if (userError) {
-      console.error('User data fetch error:', userError);
-      throw userError;
-    }
+    await transitionBooking(supabase, bookingId, 'accepted', {
+      actor: 'streamer',
+      actorId: user.id
+    });
 
-    const streamerName = userData ? `${userData.first_name} ${userData.last_name}` : 'The streamer';
+    // Create notification for client
+    const streamerName = `${streamerData.first_name} ${streamerData.last_name}`;
     const clientNotificationMessage = `${streamerName} has accepted your booking for ${new Date(bookingData.start_time).toLocaleString()} - ${new Date(bookingData.end_time).toLocaleString()} on ${bookingData.platform}.`;
 
     const { error: notificationError } = await supabase.from('notifications').insert({
       user_id: bookingData.client_id,
       message: clientNotificationMessage,
       type: 'confirmation',
+      booking_id: bookingId,
       is_read: false
     });
 
@@ -794,26 +1171,36 @@ export async function rejectBooking(bookingId: number) {
   }
 
   try {
-    // Update booking status to 'rejected'
-    const { data, error } = await supabase
-      .from('bookings')
-      .update({ status: 'rejected' })
-      .eq('id', bookingId)
-      .select()
-      .single();
+    const { booking: bookingData } = await getStreamerBooking(supabase, user.id, bookingId);
 
-    if (error) {
-      console.error('Booking update error:', error);
-      throw error;
+    if (bookingData.package_id) {
+      throw new Error('This session is part of a package; reject the package instead');
     }
 
+    const data = await transitionBooking(supabase, bookingId, 'rejected', {
+      actor: 'streamer',
+      actorId: user.id
+    });
+
+    // A rejected booking is always refunded in full
+    const refund = await refundBookingPayment(createAdminClient(), {
+      bookingId,
+      percent: 100,
+      amount: Number(data.price),
+      reason: 'rejected_by_streamer',
+      initiatedBy: 'streamer',
+      initiatedById: user.id
+    });
+
     // Create notification for client
-    const clientNotificationMessage = `Your booking for ${new Date(data.start_time).toLocaleString()} - ${new Date(data.end_time).toLocaleString()} on ${data.platform} has been rejected.`;
+    const refundMessage = refund ? ` A full refund of Rp ${refund.amount.toLocaleString()} has been issued.` : '';
+    const clientNotificationMessage = `Your booking for ${new Date(data.start_time).toLocaleString()} - ${new Date(data.end_time).toLocaleString()} on ${data.platform} has been rejected.${refundMessage}`;
 
     const { error: notificationError } = await supabase.from('notifications').insert({
       user_id: data.client_id,
       message: clientNotificationMessage,
       type: 'warning',
+      booking_id: bookingId,
       is_read: false
     });
 
@@ -830,50 +1217,505 @@ export async function rejectBooking(bookingId: number) {
   }
 }
 
-export async function startStream(bookingId: number, streamLink: string) {
+// Loads the sessions of a package booked with the signed-in streamer that are
+// still waiting for an answer
+async function getPendingPackageBookings(supabase: ReturnType<typeof createClient>, userId: string, packageId: number) {
+  const { data: streamerData, error: streamerError } = await supabase
+    .from('streamers')
+    .select('id, first_name, last_name')
+    .eq('user_id', userId)
+    .single();
+
+  if (streamerError || !streamerData) {
+    throw new Error('Streamer profile not found');
+  }
+
+  const { data: bookings, error: bookingsError } = await supabase
+    .from('bookings')
+    .select('*')
+    .eq('package_id', packageId)
+    .eq('streamer_id', streamerData.id)
+    .eq('status', 'pending')
+    .order('start_time', { ascending: true });
+
+  if (bookingsError) throw bookingsError;
+  if (!bookings || bookings.length === 0) {
+    throw new Error('Package has no sessions waiting for an answer');
+  }
+
+  return { bookings, streamer: streamerData };
+}
+
+// Accepts every pending session of a package. Sessions the brand already
+// cancelled stay cancelled; after this each session is managed on its own.
+export async function acceptPackage(packageId: number) {
   const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
 
   try {
-    console.log(`Starting stream for booking ${bookingId} with link ${streamLink}`);
+    const { bookings, streamer: streamerData } = await getPendingPackageBookings(supabase, user.id, packageId);
+
+    if (isPastAcceptanceDeadline(bookings[0].accept_by)) {
+      throw new Error('The deadline to accept this package has passed');
+    }
 
-    // Update the booking with the stream link and change status to 'live'
-    const { data: updatedBooking, error: updateError } = await supabase
+    for (const booking of bookings) {
+      await transitionBooking(supabase, booking.id, 'accepted', {
+        actor: 'streamer',
+        actorId: user.id
+      });
+    }
+
+    const streamerName = `${streamerData.first_name} ${streamerData.last_name}`;
+    const { error: notificationError } = await supabase.from('notifications').insert({
+      user_id: bookings[0].client_id,
+      message: `${streamerName} has accepted your package of ${bookings.length} sessions on ${bookings[0].platform}, starting ${new Date(bookings[0].start_time).toLocaleString()}.`,
+      type: 'confirmation',
+      booking_id: bookings[0].id,
+      is_read: false
+    });
+
+    if (notificationError) {
+      console.error('Notification creation error:', notificationError);
+    }
+
+    revalidatePath('/streamer-dashboard');
+    return { success: true, accepted: bookings.length };
+  } catch (error) {
+    console.error('Error accepting package:', error);
+    return { error: 'Failed to accept package: ' + (error instanceof Error ? error.message : String(error)) };
+  }
+}
+
+// Rejects every pending session of a package and refunds each in full
+export async function rejectPackage(packageId: number) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  try {
+    const { bookings } = await getPendingPackageBookings(supabase, user.id, packageId);
+    let refundTotal = 0;
+
+    for (const booking of bookings) {
+      await transitionBooking(supabase, booking.id, 'rejected', {
+        actor: 'streamer',
+        actorId: user.id
+      });
+
+      const refund = await refundBookingPayment(createAdminClient(), {
+        bookingId: booking.id,
+        percent: 100,
+        amount: Number(booking.price),
+        reason: 'rejected_by_streamer',
+        initiatedBy: 'streamer',
+        initiatedById: user.id
+      });
+      refundTotal += refund?.amount ?? 0;
+    }
+
+    const refundMessage = refundTotal > 0 ? ` A full refund of Rp ${refundTotal.toLocaleString()} has been issued.` : '';
+    const { error: notificationError } = await supabase.from('notifications').insert({
+      user_id: bookings[0].client_id,
+      message: `Your package of ${bookings.length} sessions on ${bookings[0].platform} has been rejected.${refundMessage}`,
+      type: 'warning',
+      booking_id: bookings[0].id,
+      is_read: false
+    });
+
+    if (notificationError) {
+      console.error('Notification creation error:', notificationError);
+    }
+
+    revalidatePath('/streamer-dashboard');
+    return { success: true, refundAmount: refundTotal };
+  } catch (error) {
+    console.error('Error rejecting package:', error);
+    return { error: 'Failed to reject package: ' + (error instanceof Error ? error.message : String(error)) };
+  }
+}
+
+// Cancels a booking on behalf of either participant and refunds the brand
+// according to the refund policy
+export async function cancelBooking(bookingId: number, reason?: string) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  try {
+    const { data: booking, error: bookingError } = await supabase
       .from('bookings')
-      .update({ stream_link: streamLink, status: 'live' })
+      .select(`
+        *,
+        streamer:streamers (
+          id,
+          first_name,
+          last_name,
+          user_id
+        )
+      `)
       .eq('id', bookingId)
-      .select('client_id, streamer_id, start_time, end_time, platform')
       .single();
 
-    if (updateError) {
-      console.error('Error updating booking:', updateError);
-      throw updateError;
+    if (bookingError || !booking) {
+      throw new Error('Booking not found');
     }
 
-    if (!updatedBooking) {
-      console.error('Booking not found');
+    const actor = booking.client_id === user.id ? 'client'
+      : booking.streamer?.user_id === user.id ? 'streamer'
+      : null;
+
+    if (!actor || !isBookingStatus(booking.status)) {
       throw new Error('Booking not found');
     }
 
-    console.log('Updated booking:', updatedBooking);
+    await transitionBooking(supabase, bookingId, 'cancelled', {
+      actor,
+      actorId: user.id,
+      reason: reason || `cancelled_by_${actor}`
+    });
 
-    // Get streamer name
-    const { data: streamerData, error: streamerError } = await supabase
-      .from('streamers')
-      .select('first_name, last_name')
-      .eq('id', updatedBooking.streamer_id)
+    const decision = getRefundDecision({
+      paidAmount: Number(booking.price),
+      startTime: booking.start_time,
+      status: booking.status,
+      cancelledBy: actor
+    });
+
+    const refund = decision.amount > 0
+      ? await refundBookingPayment(createAdminClient(), {
+          bookingId,
+          percent: decision.percent,
+          amount: decision.amount,
+          reason: decision.reason,
+          initiatedBy: actor,
+          initiatedById: user.id
+        })
+      : null;
+
+    // Whatever the brand did not get back compensates the streamer, but only
+    // once the brand's share is back with them; a failed refund is followed
+    // up by hand and the earnings wait for it
+    const isRefundSettled = decision.amount === 0 || refund?.status === 'succeeded';
+    if (decision.percent < 100 && isRefundSettled) {
+      await releaseStreamerEarnings(createAdminClient(), bookingId, booking.streamer_id);
+    }
+
+    const sessionTime = `${new Date(booking.start_time).toLocaleString()} - ${new Date(booking.end_time).toLocaleString()} on ${booking.platform}`;
+    const cancelledBy = actor === 'client'
+      ? `${booking.client_first_name} ${booking.client_last_name}`
+      : `${booking.streamer.first_name} ${booking.streamer.last_name}`;
+    const refundMessage = refund?.status === 'failed'
+      ? ` A refund of Rp ${refund.amount.toLocaleString()} (${decision.percent}%) is owed to the brand and will be processed by our team.`
+      : refund
+        ? ` A refund of Rp ${refund.amount.toLocaleString()} (${decision.percent}%) has been issued to the brand.`
+        : ' No refund applies under the cancellation policy.';
+
+    const { error: notificationError } = await supabase.from('notifications').insert([
+      {
+        user_id: booking.client_id,
+        message: `Your booking for ${sessionTime} was cancelled by ${cancelledBy}.${refundMessage}`,
+        type: 'booking_cancelled',
+        booking_id: bookingId,
+        is_read: false
+      },
+      {
+        user_id: booking.streamer.user_id,
+        streamer_id: booking.streamer_id,
+        message: `The booking for ${sessionTime} was cancelled by ${cancelledBy}.`,
+        type: 'booking_cancelled',
+        booking_id: bookingId,
+        is_read: false
+      }
+    ]);
+
+    if (notificationError) {
+      console.error('Notification creation error:', notificationError);
+    }
+
+    revalidatePath('/client-bookings');
+    revalidatePath('/streamer-dashboard');
+    return { success: true, refundAmount: refund?.amount ?? 0, refundPercent: refund ? decision.percent : 0 };
+  } catch (error) {
+    console.error('Error cancelling booking:', error);
+    return { error: 'Failed to cancel booking: ' + (error instanceof Error ? error.message : String(error)) };
+  }
+}
+
+// Loads a booking the signed-in user takes part in, and which side they are on
+async function getParticipantBooking(supabase: ReturnType<typeof createClient>, userId: string, bookingId: number) {
+  const { data: booking, error } = await supabase
+    .from('bookings')
+    .select(`
+      *,
+      streamer:streamers (
+        id,
+        first_name,
+        last_name,
+        user_id,
+        timezone
+      )
+    `)
+    .eq('id', bookingId)
+    .single();
+
+  const actor = booking?.client_id === userId ? 'client' as const
+    : booking?.streamer?.user_id === userId ? 'streamer' as const
+    : null;
+
+  if (error || !booking || !actor) {
+    throw new Error('Booking not found');
+  }
+
+  return { booking, actor };
+}
+
+// "Sat, 2 Nov 2026 19:00 - 21:00 WIB (20:00 - 22:00 WITA)": the streamer's
+// clock first, then the brand's when it differs
+function describeSessionTime(start: Date | string, end: Date | string, streamerTimeZone: string, clientTimeZone: string | null) {
+  return `${formatInZone(start, streamerTimeZone, 'EEE, d MMM yyyy')} ${formatTimeRangeForBoth(start, end, streamerTimeZone, clientTimeZone)}`;
+}
+
+// Proposes moving an accepted booking; `date` and `time` are on the streamer's
+// clock and the booking keeps its length. The other side is notified and the
+// proposal is posted in the booking's conversation.
+export async function proposeReschedule(bookingId: number, date: string, time: string, note?: string) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  try {
+    if (!isCalendarDate(date) || !isTimeOfDay(time)) {
+      throw new Error('Pick a date and start time');
+    }
+
+    const { booking, actor } = await getParticipantBooking(supabase, user.id, bookingId);
+
+    if (!RESCHEDULABLE_STATUSES.includes(booking.status)) {
+      throw new Error('Only accepted bookings can be rescheduled');
+    }
+
+    const streamerTimeZone = booking.streamer.timezone ?? DEFAULT_TIMEZONE;
+    const start = zonedTimeToUtc(date, time, streamerTimeZone);
+    const end = getRescheduleEnd(booking, start);
+
+    if (start.getTime() === new Date(booking.start_time).getTime()) {
+      throw new Error('The booking is already at that time');
+    }
+
+    const conflict = await findRescheduleConflict(supabase, booking, date, start, end);
+    if (conflict) {
+      throw new Error(AVAILABILITY_CONFLICT_MESSAGES[conflict]);
+    }
+
+    const { data: request, error: requestError } = await supabase
+      .from('booking_reschedule_requests')
+      .insert({
+        booking_id: bookingId,
+        proposed_by: actor,
+        proposed_by_id: user.id,
+        previous_start_time: booking.start_time,
+        previous_end_time: booking.end_time,
+        start_time: start.toISOString(),
+        end_time: end.toISOString(),
+        note: note?.trim() || null
+      })
+      .select()
       .single();
 
-    if (streamerError) {
-      console.error('Error fetching streamer data:', streamerError);
-      throw streamerError;
+    if (requestError) {
+      if (requestError.code === '23505') {
+        throw new Error('A new time has already been proposed for this booking');
+      }
+      throw requestError;
+    }
+
+    const proposerName = actor === 'client'
+      ? `${booking.client_first_name} ${booking.client_last_name}`
+      : `${booking.streamer.first_name} ${booking.streamer.last_name}`;
+    const fromTime = describeSessionTime(booking.start_time, booking.end_time, streamerTimeZone, booking.timezone);
+    const toTime = describeSessionTime(start, end, streamerTimeZone, booking.timezone);
+    const noteMessage = request.note ? ` Note: ${request.note}` : '';
+
+    const { error: notificationError } = await supabase.from('notifications').insert(
+      actor === 'client'
+        ? {
+            user_id: booking.streamer.user_id,
+            streamer_id: booking.streamer_id,
+            message: `${proposerName} asked to move their booking on ${booking.platform} from ${fromTime} to ${toTime}.${noteMessage}`,
+            type: 'reschedule',
+            booking_id: bookingId,
+            is_read: false
+          }
+        : {
+            user_id: booking.client_id,
+            message: `${proposerName} asked to move your booking on ${booking.platform} from ${fromTime} to ${toTime}.${noteMessage}`,
+            type: 'reschedule',
+            booking_id: bookingId,
+            is_read: false
+          }
+    );
+
+    if (notificationError) {
+      console.error('Notification creation error:', notificationError);
+    }
+
+    try {
+      await postRescheduleMessage(supabase, {
+        booking,
+        senderId: user.id,
+        content: `Proposed a new time for the ${booking.platform} session: ${fromTime} → ${toTime}.${noteMessage}`
+      });
+    } catch (error) {
+      console.error('Error posting reschedule message:', error);
     }
 
-    console.log('Streamer data:', streamerData);
+    revalidatePath('/client-bookings');
+    revalidatePath('/streamer-dashboard');
+    return { success: true, request: request as RescheduleRequest };
+  } catch (error) {
+    console.error('Error proposing reschedule:', error);
+    return { error: 'Failed to propose a new time: ' + (error instanceof Error ? error.message : String(error)) };
+  }
+}
+
+const RESCHEDULE_RESPONSE_VERBS: Record<RescheduleResponse, string> = {
+  accepted: 'accepted',
+  declined: 'declined',
+  withdrawn: 'withdrew'
+};
+
+// Accepts or declines the other side's proposal, or withdraws one's own.
+// Accepting moves the booking; its payment stays as it is.
+export async function respondToReschedule(requestId: number, response: RescheduleResponse) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  try {
+    // The schedule may have changed since the time was proposed; the database
+    // only guards against overlapping bookings
+    if (response === 'accepted') {
+      const { data: proposal, error: proposalError } = await supabase
+        .from('booking_reschedule_requests')
+        .select('booking_id, start_time, end_time')
+        .eq('id', requestId)
+        .single();
+
+      if (proposalError) throw proposalError;
+
+      const { booking } = await getParticipantBooking(supabase, user.id, proposal.booking_id);
+      const start = new Date(proposal.start_time);
+      const date = formatInZone(start, booking.streamer.timezone ?? DEFAULT_TIMEZONE, 'yyyy-MM-dd');
+      const conflict = await findRescheduleConflict(supabase, booking, date, start, new Date(proposal.end_time));
+      if (conflict) {
+        throw new Error(AVAILABILITY_CONFLICT_MESSAGES[conflict]);
+      }
+    }
+
+    const { data: request, error: responseError } = await supabase
+      .rpc('respond_booking_reschedule', { p_request_id: requestId, p_status: response })
+      .single<RescheduleRequest>();
+
+    if (responseError) {
+      if (responseError.code === '23P01') {
+        throw new Error(AVAILABILITY_CONFLICT_MESSAGES.booked);
+      }
+      throw new Error(responseError.message);
+    }
+
+    const { booking, actor } = await getParticipantBooking(supabase, user.id, request.booking_id);
+
+    const streamerTimeZone = booking.streamer.timezone ?? DEFAULT_TIMEZONE;
+    const responderName = actor === 'client'
+      ? `${booking.client_first_name} ${booking.client_last_name}`
+      : `${booking.streamer.first_name} ${booking.streamer.last_name}`;
+    const proposedTime = describeSessionTime(request.start_time, request.end_time, streamerTimeZone, booking.timezone);
+    const outcome = response === 'accepted'
+      ? `The session now takes place ${proposedTime}.`
+      : `The session stays at ${describeSessionTime(booking.start_time, booking.end_time, streamerTimeZone, booking.timezone)}.`;
+    const message = `${responderName} ${RESCHEDULE_RESPONSE_VERBS[response]} the new time proposed for the booking on ${booking.platform} (${proposedTime}). ${outcome}`;
+
+    const { error: notificationError } = await supabase.from('notifications').insert(
+      actor === 'client'
+        ? {
+            user_id: booking.streamer.user_id,
+            streamer_id: booking.streamer_id,
+            message,
+            type: 'reschedule',
+            booking_id: booking.id,
+            is_read: false
+          }
+        : {
+            user_id: booking.client_id,
+            message,
+            type: 'reschedule',
+            booking_id: booking.id,
+            is_read: false
+          }
+    );
+
+    if (notificationError) {
+      console.error('Notification creation error:', notificationError);
+    }
+
+    try {
+      await postRescheduleMessage(supabase, {
+        booking,
+        senderId: user.id,
+        content: `${RESCHEDULE_RESPONSE_VERBS[response].charAt(0).toUpperCase()}${RESCHEDULE_RESPONSE_VERBS[response].slice(1)} the new time for the ${booking.platform} session (${proposedTime}). ${outcome}`
+      });
+    } catch (error) {
+      console.error('Error posting reschedule message:', error);
+    }
+
+    revalidatePath('/client-bookings');
+    revalidatePath('/streamer-dashboard');
+    return { success: true, booking };
+  } catch (error) {
+    console.error('Error responding to reschedule:', error);
+    return { error: 'Failed to update the reschedule request: ' + (error instanceof Error ? error.message : String(error)) };
+  }
+}
+
+export async function startStream(bookingId: number, streamLink: string) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  try {
+    console.log(`Starting stream for booking ${bookingId} with link ${streamLink}`);
+
+    const { streamer: streamerData } = await getStreamerBooking(supabase, user.id, bookingId);
+
+    // Store the stream link and go live
+    const updatedBooking = await transitionBooking(supabase, bookingId, 'live', {
+      actor: 'streamer',
+      actorId: user.id,
+      changes: { stream_link: streamLink }
+    });
 
     // Create a notification for the client
     const notificationMessage = `${streamerData.first_name} ${streamerData.last_name} has started their live stream for your booking on ${new Date(updatedBooking.start_time).toLocaleString()} - ${new Date(updatedBooking.end_time).toLocaleString()} on ${updatedBooking.platform}. Join here: ${streamLink}`;
-    
-    console.log('Creating notification with message:', notificationMessage);
 
     const { data: notificationData, error: notificationError } = await supabase
       .from('notifications')
@@ -905,30 +1747,23 @@ export async function startStream(bookingId: number, streamLink: string) {
 
 export async function endStream(bookingId: number) {
   const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
 
-  try {
-    // Update the booking status to 'completed'
-    const { data: updatedBooking, error: updateError } = await supabase
-      .from('bookings')
-      .update({ status: 'completed' })
-      .eq('id', bookingId)
-      .select('client_id, streamer_id, start_time, end_time, platform')
-      .single();
-
-    if (updateError) throw updateError;
+  if (!user) {
+    return { success: false, error: "Not authenticated" };
+  }
 
-    if (!updatedBooking) {
-      throw new Error('Booking not found');
-    }
+  try {
+    const { streamer: streamerData } = await getStreamerBooking(supabase, user.id, bookingId);
 
-    // Get streamer name
-    const { data: streamerData, error: streamerError } = await supabase
-      .from('streamers')
-      .select('first_name, last_name')
-      .eq('id', updatedBooking.streamer_id)
-      .single();
+    const updatedBooking = await transitionBooking(supabase, bookingId, 'completed', {
+      actor: 'streamer',
+      actorId: user.id,
+      changes: { stream_link: null }
+    });
 
-    if (streamerError) throw streamerError;
+    // The session is delivered; the streamer's share becomes available for payout
+    await releaseStreamerEarnings(createAdminClient(), bookingId, updatedBooking.streamer_id);
 
     // Create a notification for the client
     const notificationMessage = `${streamerData.first_name} ${streamerData.last_name} has ended their live stream for your booking on ${new Date(updatedBooking.start_time).toLocaleString()} - ${new Date(updatedBooking.end_time).toLocaleString()} on ${updatedBooking.platform}.`;
@@ -952,4 +1787,324 @@ export async function endStream(bookingId: number) {
     console.error('Error ending stream:', error);
     return { success: false, error: 'Failed to end stream' };
   }
-}
\ No newline at end of file
+}
+
+// Smallest payout we send to a bank account
+const MIN_PAYOUT_AMOUNT = 50000;
+
+export async function requestPayout(formData: FormData) {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  const amount = Number(formData.get('amount'));
+  const bankName = formData.get('bank_name')?.toString().trim();
+  const accountNumber = formData.get('account_number')?.toString().replace(/\s/g, '');
+  const accountHolderName = formData.get('account_holder_name')?.toString().trim();
+
+  if (!bankName || !accountNumber || !accountHolderName) {
+    return { error: 'Bank name, account number and account holder name are required' };
+  }
+
+  if (!/^\d{6,20}$/.test(accountNumber)) {
+    return { error: 'Account number must be 6-20 digits' };
+  }
+
+  if (!Number.isInteger(amount) || amount < MIN_PAYOUT_AMOUNT) {
+    return { error: `Minimum payout is Rp ${MIN_PAYOUT_AMOUNT.toLocaleString('id-ID')}` };
+  }
+
+  // Balance check and ledger posting happen atomically in the database
+  const { data, error } = await supabase.rpc('request_streamer_payout', {
+    p_amount: amount,
+    p_bank_name: bankName,
+    p_account_number: accountNumber,
+    p_account_holder_name: accountHolderName
+  });
+
+  if (error) {
+    console.error('Error requesting payout:', error);
+    return { error: error.code === '22023' ? 'Amount exceeds your available balance' : 'Failed to request payout' };
+  }
+
+  revalidatePath('/streamer-earnings');
+  return { success: true, payoutRequest: data };
+}
+
+// Confirms the signed-in user is an admin; payout processing uses the
+// service-role client because payout_requests has no admin write policy
+async function requireAdmin() {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error('Not authenticated');
+  }
+
+  const { data: userData } = await supabase
+    .from('users')
+    .select('user_type')
+    .eq('id', user.id)
+    .single();
+
+  if (userData?.user_type !== 'admin') {
+    throw new Error('Admin access required');
+  }
+
+  return user;
+}
+
+export async function getPayoutQueue() {
+  try {
+    await requireAdmin();
+
+    const { data, error } = await createAdminClient()
+      .from('payout_requests')
+      .select(`
+        *,
+        streamer:streamers (
+          id,
+          first_name,
+          last_name
+        )
+      `)
+      .eq('status', 'requested')
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return { payouts: data };
+  } catch (error) {
+    console.error('Error loading payout queue:', error);
+    return { error: error instanceof Error ? error.message : 'Failed to load payout queue' };
+  }
+}
+
+export async function markPayoutPaid(payoutRequestId: number) {
+  return processPayout(payoutRequestId, 'paid');
+}
+
+export async function rejectPayout(payoutRequestId: number, note: string) {
+  return processPayout(payoutRequestId, 'rejected', note);
+}
+
+async function processPayout(payoutRequestId: number, status: 'paid' | 'rejected', note?: string) {
+  try {
+    const admin = await requireAdmin();
+    const supabase = createAdminClient();
+
+    // Conditional on 'requested' so a payout is processed once
+    const { data: payout, error } = await supabase
+      .from('payout_requests')
+      .update({
+        status,
+        admin_note: note || null,
+        processed_by: admin.id,
+        processed_at: new Date().toISOString()
+      })
+      .eq('id', payoutRequestId)
+      .eq('status', 'requested')
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!payout) throw new Error('Payout request is no longer pending');
+
+    if (status === 'paid') {
+      await postPayoutPaid(supabase, payout.id, payout.streamer_id, Number(payout.amount));
+    } else {
+      await postPayoutRejected(supabase, payout.id, payout.streamer_id, Number(payout.amount));
+    }
+
+    const { data: streamer } = await supabase
+      .from('streamers')
+      .select('user_id')
+      .eq('id', payout.streamer_id)
+      .single();
+
+    if (streamer) {
+      await supabase.from('notifications').insert({
+        user_id: streamer.user_id,
+        streamer_id: payout.streamer_id,
+        message: status === 'paid'
+          ? `Your payout of Rp ${Number(payout.amount).toLocaleString('id-ID')} has been sent to ${payout.bank_name} ${payout.account_number}.`
+          : `Your payout of Rp ${Number(payout.amount).toLocaleString('id-ID')} was rejected${note ? `: ${note}` : '.'} The amount is back in your available balance.`,
+        type: status === 'paid' ? 'info' : 'warning',
+        is_read: false
+      });
+    }
+
+    revalidatePath('/admin/payouts');
+    return { success: true };
+  } catch (error) {
+    console.error('Error processing payout:', error);
+    return { error: error instanceof Error ? error.message : 'Failed to process payout' };
+  }
+}
+
+export async function getReconciliationReport() {
+  try {
+    await requireAdmin();
+    const supabase = createAdminClient();
+
+    const [{ data: runs, error: runsError }, { data: discrepancies, error: discrepanciesError }] = await Promise.all([
+      supabase
+        .from('reconciliation_runs')
+        .select('*')
+        .order('started_at', { ascending: false })
+        .limit(10),
+      supabase
+        .from('payment_discrepancies')
+        .select(`
+          *,
+          payment:payments (
+            amount,
+            status
+          )
+        `)
+        .is('resolved_at', null)
+        .order('detected_at', { ascending: true })
+    ]);
+
+    if (runsError) throw runsError;
+    if (discrepanciesError) throw discrepanciesError;
+
+    return { runs, discrepancies };
+  } catch (error) {
+    console.error('Error loading reconciliation report:', error);
+    return { error: error instanceof Error ? error.message : 'Failed to load reconciliation report' };
+  }
+}
+
+export async function resolveDiscrepancy(discrepancyId: number, note: string) {
+  try {
+    const admin = await requireAdmin();
+
+    const { data: discrepancy, error } = await createAdminClient()
+      .from('payment_discrepancies')
+      .update({
+        resolved_at: new Date().toISOString(),
+        resolved_by: admin.id,
+        resolution_note: note || null
+      })
+      .eq('id', discrepancyId)
+      .is('resolved_at', null)
+      .select('id')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!discrepancy) throw new Error('Discrepancy is already resolved');
+
+    revalidatePath('/admin/reconciliation');
+    return { success: true };
+  } catch (error) {
+    console.error('Error resolving discrepancy:', error);
+    return { error: error instanceof Error ? error.message : 'Failed to resolve discrepancy' };
+  }
+}
+
+export async function getPromoCodes() {
+  try {
+    await requireAdmin();
+
+    const { data, error } = await createAdminClient()
+      .from('promo_codes')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return { promoCodes: data };
+  } catch (error) {
+    console.error('Error loading promo codes:', error);
+    return { error: error instanceof Error ? error.message : 'Failed to load promo codes' };
+  }
+}
+
+const listField = (formData: FormData, name: string) => {
+  const items = formData.get(name)?.toString().split(',').map(item => item.trim()).filter(Boolean) ?? [];
+  return items.length > 0 ? items : null;
+};
+
+export async function createPromoCode(formData: FormData) {
+  try {
+    const admin = await requireAdmin();
+
+    const code = normalizePromoCode(formData.get('code')?.toString() ?? '');
+    const discountType = formData.get('discount_type')?.toString();
+    const discountValue = Number(formData.get('discount_value'));
+    const fundedBy = formData.get('funded_by')?.toString() || 'platform';
+    const optionalNumber = (name: string) => formData.get(name) ? Number(formData.get(name)) : null;
+    const optionalDate = (name: string) => formData.get(name) ? new Date(formData.get(name) as string).toISOString() : null;
+    const streamerIds = listField(formData, 'streamer_ids');
+
+    if (!/^[A-Z0-9_-]{3,32}$/.test(code)) {
+      return { error: 'Code must be 3-32 letters, digits, dashes or underscores' };
+    }
+    if (discountType !== 'percent' && discountType !== 'fixed') {
+      return { error: 'Discount type must be percent or fixed' };
+    }
+    if (!(discountValue > 0) || (discountType === 'percent' && discountValue > 100)) {
+      return { error: 'Discount must be above 0, and at most 100 for percentages' };
+    }
+    if (fundedBy !== 'platform' && fundedBy !== 'streamer') {
+      return { error: 'Funding must be platform or streamer' };
+    }
+    if (streamerIds?.some(id => !/^\d+$/.test(id))) {
+      return { error: 'Streamer IDs must be numbers' };
+    }
+
+    const { data, error } = await createAdminClient()
+      .from('promo_codes')
+      .insert({
+        code,
+        description: formData.get('description')?.toString().trim() || null,
+        discount_type: discountType,
+        discount_value: discountValue,
+        max_discount: optionalNumber('max_discount'),
+        min_subtotal: optionalNumber('min_subtotal') ?? 0,
+        funded_by: fundedBy,
+        starts_at: optionalDate('starts_at'),
+        ends_at: optionalDate('ends_at'),
+        usage_limit: optionalNumber('usage_limit'),
+        per_brand_limit: optionalNumber('per_brand_limit'),
+        categories: listField(formData, 'categories'),
+        streamer_ids: streamerIds?.map(Number) ?? null,
+        created_by: admin.id
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') return { error: 'A promo code with this code already exists' };
+      if (error.code === '23514') return { error: 'Promo code settings are invalid' };
+      throw error;
+    }
+
+    revalidatePath('/admin/promo-codes');
+    return { success: true, promoCode: data };
+  } catch (error) {
+    console.error('Error creating promo code:', error);
+    return { error: error instanceof Error ? error.message : 'Failed to create promo code' };
+  }
+}
+
+export async function setPromoCodeActive(promoCodeId: number, isActive: boolean) {
+  try {
+    await requireAdmin();
+
+    const { error } = await createAdminClient()
+      .from('promo_codes')
+      .update({ is_active: isActive })
+      .eq('id', promoCodeId);
+
+    if (error) throw error;
+
+    revalidatePath('/admin/promo-codes');
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating promo code:', error);
+    return { error: error instanceof Error ? error.message : 'Failed to update promo code' };
+  }
+}
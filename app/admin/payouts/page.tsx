@@ -0,0 +1,138 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { getPayoutQueue, markPayoutPaid, rejectPayout } from "@/app/actions";
+
+interface QueuedPayout {
+  id: number;
+  amount: number;
+  bank_name: string;
+  account_number: string;
+  account_holder_name: string;
+  created_at: string;
+  streamer: {
+    id: number;
+    first_name: string;
+    last_name: string;
+  };
+}
+
+export default function AdminPayoutsPage() {
+  const [payouts, setPayouts] = useState<QueuedPayout[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [processingId, setProcessingId] = useState<number | null>(null);
+
+  const fetchQueue = useCallback(async () => {
+    const result = await getPayoutQueue();
+
+    if (result.error) {
+      setError(result.error);
+    } else {
+      setPayouts((result.payouts as QueuedPayout[]) || []);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const handleMarkPaid = async (payout: QueuedPayout) => {
+    if (!window.confirm(`Confirm that Rp ${Number(payout.amount).toLocaleString('id-ID')} was transferred to ${payout.bank_name} ${payout.account_number}?`)) return;
+
+    setProcessingId(payout.id);
+    const result = await markPayoutPaid(payout.id);
+    setProcessingId(null);
+
+    if (result.error) {
+      toast.error(result.error);
+    } else {
+      toast.success('Payout marked as paid');
+      fetchQueue();
+    }
+  };
+
+  const handleReject = async (payout: QueuedPayout) => {
+    const note = window.prompt('Reason for rejecting this payout');
+    if (note === null) return;
+
+    setProcessingId(payout.id);
+    const result = await rejectPayout(payout.id, note);
+    setProcessingId(null);
+
+    if (result.error) {
+      toast.error(result.error);
+    } else {
+      toast.success('Payout rejected');
+      fetchQueue();
+    }
+  };
+
+  if (isLoading) {
+    return <div className="container mx-auto p-4 text-sm">Loading...</div>;
+  }
+
+  if (error) {
+    return <div className="container mx-auto p-4 text-red-500 text-sm">Error: {error}</div>;
+  }
+
+  return (
+    <div className="container mx-auto px-4 max-w-4xl py-8 space-y-6">
+      <div className="flex gap-4">
+        <Link href="/admin/reconciliation" className="text-sm text-blue-600 hover:underline">
+          Payment reconciliation →
+        </Link>
+        <Link href="/admin/promo-codes" className="text-sm text-blue-600 hover:underline">
+          Promo codes →
+        </Link>
+      </div>
+
+      <Card className="border-none shadow-xs">
+        <CardHeader className="p-4 sm:p-6 border-b">
+          <CardTitle className="text-lg sm:text-2xl font-bold">Payout Requests</CardTitle>
+        </CardHeader>
+        <CardContent className="p-4 sm:p-6 space-y-3">
+          {payouts.length > 0 ? payouts.map(payout => (
+            <div key={payout.id} className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2 border-b last:border-b-0 pb-3">
+              <div className="text-sm">
+                <p className="font-medium">
+                  {payout.streamer.first_name} {payout.streamer.last_name} · Rp {Number(payout.amount).toLocaleString('id-ID')}
+                </p>
+                <p className="text-gray-600">
+                  {payout.bank_name} {payout.account_number} a.n. {payout.account_holder_name}
+                </p>
+                <p className="text-xs text-gray-500">Requested {format(new Date(payout.created_at), 'dd MMM yyyy HH:mm')}</p>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={processingId === payout.id}
+                  onClick={() => handleReject(payout)}
+                >
+                  Reject
+                </Button>
+                <Button
+                  size="sm"
+                  className="bg-green-600 hover:bg-green-700 text-white"
+                  disabled={processingId === payout.id}
+                  onClick={() => handleMarkPaid(payout)}
+                >
+                  Mark as Paid
+                </Button>
+              </div>
+            </div>
+          )) : (
+            <p className="text-center text-gray-500 py-6 text-sm">No payouts waiting for review.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
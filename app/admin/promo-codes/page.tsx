@@ -0,0 +1,218 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { createPromoCode, getPromoCodes, setPromoCodeActive } from "@/app/actions";
+import type { PromoCode } from '@/services/payment/promo-codes';
+
+interface AdminPromoCode extends PromoCode {
+  created_at: string;
+}
+
+const describeDiscount = (promo: PromoCode) => promo.discount_type === 'percent'
+  ? `${Number(promo.discount_value)}%${promo.max_discount ? ` (max Rp ${Number(promo.max_discount).toLocaleString('id-ID')})` : ''}`
+  : `Rp ${Number(promo.discount_value).toLocaleString('id-ID')}`;
+
+const describeWindow = (promo: PromoCode) => {
+  if (!promo.starts_at && !promo.ends_at) return 'No end date';
+  const start = promo.starts_at ? format(new Date(promo.starts_at), 'dd MMM yyyy') : 'now';
+  const end = promo.ends_at ? format(new Date(promo.ends_at), 'dd MMM yyyy') : 'no end';
+  return `${start} – ${end}`;
+};
+
+export default function AdminPromoCodesPage() {
+  const [promoCodes, setPromoCodes] = useState<AdminPromoCode[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [processingId, setProcessingId] = useState<number | null>(null);
+
+  const fetchPromoCodes = useCallback(async () => {
+    const result = await getPromoCodes();
+
+    if (result.error) {
+      setError(result.error);
+    } else {
+      setPromoCodes((result.promoCodes as AdminPromoCode[]) || []);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchPromoCodes();
+  }, [fetchPromoCodes]);
+
+  const handleCreate = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+
+    setIsSubmitting(true);
+    const result = await createPromoCode(new FormData(form));
+    setIsSubmitting(false);
+
+    if (result.error) {
+      toast.error(result.error);
+      return;
+    }
+
+    toast.success('Promo code created');
+    form.reset();
+    fetchPromoCodes();
+  };
+
+  const handleToggle = async (promo: AdminPromoCode) => {
+    setProcessingId(promo.id);
+    const result = await setPromoCodeActive(promo.id, !promo.is_active);
+    setProcessingId(null);
+
+    if (result.error) {
+      toast.error(result.error);
+    } else {
+      fetchPromoCodes();
+    }
+  };
+
+  if (isLoading) {
+    return <div className="container mx-auto p-4 text-sm">Loading...</div>;
+  }
+
+  if (error) {
+    return <div className="container mx-auto p-4 text-red-500 text-sm">Error: {error}</div>;
+  }
+
+  return (
+    <div className="container mx-auto px-4 max-w-4xl py-8 space-y-6">
+      <Link href="/admin/payouts" className="text-sm text-blue-600 hover:underline">
+        ← Payout requests
+      </Link>
+
+      <Card className="border-none shadow-xs">
+        <CardHeader className="p-4 sm:p-6 border-b">
+          <CardTitle className="text-lg sm:text-2xl font-bold">New Promo Code</CardTitle>
+        </CardHeader>
+        <CardContent className="p-4 sm:p-6">
+          <form onSubmit={handleCreate} className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4 text-sm">
+            <div className="space-y-1">
+              <Label htmlFor="code">Code</Label>
+              <Input id="code" name="code" placeholder="LAUNCH20" required />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="description">Description</Label>
+              <Input id="description" name="description" placeholder="Launch campaign" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="discount_type">Discount type</Label>
+              <Select name="discount_type" defaultValue="percent">
+                <SelectTrigger id="discount_type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percent">Percentage</SelectItem>
+                  <SelectItem value="fixed">Fixed amount (Rp)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="discount_value">Discount</Label>
+              <Input id="discount_value" name="discount_value" type="number" min={1} step="any" required />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="max_discount">Maximum discount (Rp, percentage only)</Label>
+              <Input id="max_discount" name="max_discount" type="number" min={1} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="min_subtotal">Minimum booking subtotal (Rp)</Label>
+              <Input id="min_subtotal" name="min_subtotal" type="number" min={0} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="funded_by">Funded by</Label>
+              <Select name="funded_by" defaultValue="platform">
+                <SelectTrigger id="funded_by">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="platform">Platform (streamer paid in full)</SelectItem>
+                  <SelectItem value="streamer">Streamer (comes out of their rate)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="usage_limit">Total uses</Label>
+              <Input id="usage_limit" name="usage_limit" type="number" min={1} placeholder="Unlimited" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="per_brand_limit">Uses per brand</Label>
+              <Input id="per_brand_limit" name="per_brand_limit" type="number" min={1} placeholder="Unlimited" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="starts_at">Starts</Label>
+              <Input id="starts_at" name="starts_at" type="datetime-local" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="ends_at">Ends</Label>
+              <Input id="ends_at" name="ends_at" type="datetime-local" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="categories">Categories (comma separated)</Label>
+              <Input id="categories" name="categories" placeholder="All categories" />
+            </div>
+            <div className="space-y-1 sm:col-span-2">
+              <Label htmlFor="streamer_ids">Streamer IDs (comma separated)</Label>
+              <Input id="streamer_ids" name="streamer_ids" placeholder="All streamers" />
+            </div>
+            <div className="sm:col-span-2">
+              <Button type="submit" disabled={isSubmitting} className="w-full">
+                {isSubmitting ? 'Creating...' : 'Create Promo Code'}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card className="border-none shadow-xs">
+        <CardHeader className="p-4 sm:p-6 border-b">
+          <CardTitle className="text-lg font-bold">Promo Codes</CardTitle>
+        </CardHeader>
+        <CardContent className="p-4 sm:p-6 space-y-3">
+          {promoCodes.length > 0 ? promoCodes.map(promo => (
+            <div key={promo.id} className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2 border-b last:border-b-0 pb-3">
+              <div className="text-sm">
+                <p className="font-medium">
+                  {promo.code} · {describeDiscount(promo)}
+                  {!promo.is_active && <span className="ml-2 text-xs text-gray-500">(inactive)</span>}
+                </p>
+                <p className="text-gray-600">
+                  {promo.description || 'No description'} · {promo.funded_by === 'platform' ? 'Platform-funded' : 'Streamer-funded'}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {describeWindow(promo)}
+                  {promo.usage_limit && ` · ${promo.usage_limit} uses`}
+                  {promo.per_brand_limit && ` · ${promo.per_brand_limit} per brand`}
+                  {promo.categories?.length ? ` · ${promo.categories.join(', ')}` : ''}
+                  {promo.streamer_ids?.length ? ` · streamers ${promo.streamer_ids.join(', ')}` : ''}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={processingId === promo.id}
+                onClick={() => handleToggle(promo)}
+              >
+                {promo.is_active ? 'Deactivate' : 'Activate'}
+              </Button>
+            </div>
+          )) : (
+            <p className="text-center text-gray-500 py-6 text-sm">No promo codes yet.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { getReconciliationReport, resolveDiscrepancy } from "@/app/actions";
+
+interface ReconciliationRun {
+  id: number;
+  started_at: string;
+  finished_at: string | null;
+  checked: number;
+  applied: number;
+  discrepancies: number;
+  failed: number;
+}
+
+interface Discrepancy {
+  id: number;
+  payment_id: number;
+  booking_id: number | null;
+  order_id: string;
+  kind: 'amount_mismatch' | 'orphan_transaction' | 'duplicate_capture';
+  details: Record<string, unknown>;
+  gateway_status: { transaction_status?: string; gross_amount?: string } | null;
+  detected_at: string;
+  payment: {
+    amount: number;
+    status: string;
+  } | null;
+}
+
+const KIND_LABELS: Record<Discrepancy['kind'], string> = {
+  amount_mismatch: 'Amount mismatch',
+  orphan_transaction: 'Orphan transaction',
+  duplicate_capture: 'Duplicate capture',
+};
+
+export default function AdminReconciliationPage() {
+  const [runs, setRuns] = useState<ReconciliationRun[]>([]);
+  const [discrepancies, setDiscrepancies] = useState<Discrepancy[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [processingId, setProcessingId] = useState<number | null>(null);
+
+  const fetchReport = useCallback(async () => {
+    const result = await getReconciliationReport();
+
+    if (result.error) {
+      setError(result.error);
+    } else {
+      setRuns((result.runs as ReconciliationRun[]) || []);
+      setDiscrepancies((result.discrepancies as Discrepancy[]) || []);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const handleResolve = async (discrepancy: Discrepancy) => {
+    const note = window.prompt('How was this resolved?');
+    if (note === null) return;
+
+    setProcessingId(discrepancy.id);
+    const result = await resolveDiscrepancy(discrepancy.id, note);
+    setProcessingId(null);
+
+    if (result.error) {
+      toast.error(result.error);
+    } else {
+      toast.success('Discrepancy resolved');
+      fetchReport();
+    }
+  };
+
+  if (isLoading) {
+    return <div className="container mx-auto p-4 text-sm">Loading...</div>;
+  }
+
+  if (error) {
+    return <div className="container mx-auto p-4 text-red-500 text-sm">Error: {error}</div>;
+  }
+
+  return (
+    <div className="container mx-auto px-4 max-w-4xl py-8 space-y-6">
+      <Link href="/admin/payouts" className="text-sm text-blue-600 hover:underline">
+        ← Payout requests
+      </Link>
+
+      <Card className="border-none shadow-xs">
+        <CardHeader className="p-4 sm:p-6 border-b">
+          <CardTitle className="text-lg sm:text-2xl font-bold">Payment Discrepancies</CardTitle>
+        </CardHeader>
+        <CardContent className="p-4 sm:p-6 space-y-3">
+          {discrepancies.length > 0 ? discrepancies.map(discrepancy => (
+            <div key={discrepancy.id} className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2 border-b last:border-b-0 pb-3">
+              <div className="text-sm">
+                <p className="font-medium">
+                  {KIND_LABELS[discrepancy.kind]} · {discrepancy.order_id}
+                </p>
+                <p className="text-gray-600">
+                  Stored: {discrepancy.payment ? `Rp ${Number(discrepancy.payment.amount).toLocaleString('id-ID')} (${discrepancy.payment.status})` : '-'}
+                  {' · '}
+                  Gateway: {discrepancy.gateway_status ? `Rp ${Number(discrepancy.gateway_status.gross_amount ?? 0).toLocaleString('id-ID')} (${discrepancy.gateway_status.transaction_status})` : '-'}
+                </p>
+                <p className="text-xs text-gray-500">
+                  Booking #{discrepancy.booking_id ?? '-'} · {JSON.stringify(discrepancy.details)}
+                </p>
+                <p className="text-xs text-gray-500">Detected {format(new Date(discrepancy.detected_at), 'dd MMM yyyy HH:mm')}</p>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={processingId === discrepancy.id}
+                onClick={() => handleResolve(discrepancy)}
+              >
+                Mark Resolved
+              </Button>
+            </div>
+          )) : (
+            <p className="text-center text-gray-500 py-6 text-sm">No open discrepancies.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-none shadow-xs">
+        <CardHeader className="p-4 sm:p-6 border-b">
+          <CardTitle className="text-lg font-bold">Recent Runs</CardTitle>
+        </CardHeader>
+        <CardContent className="p-4 sm:p-6 space-y-2">
+          {runs.length > 0 ? runs.map(run => (
+            <div key={run.id} className="flex justify-between text-sm border-b last:border-b-0 pb-2">
+              <span>{format(new Date(run.started_at), 'dd MMM yyyy HH:mm')}{!run.finished_at && ' (running)'}</span>
+              <span className="text-gray-600">
+                {run.checked} checked · {run.applied} applied · {run.discrepancies} discrepancies · {run.failed} failed
+              </span>
+            </div>
+          )) : (
+            <p className="text-center text-gray-500 py-6 text-sm">The reconciliation job has not run yet.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { AvailabilityRangeError, getAvailability } from '@/services/booking/availability';
+
+// A streamer's bookable windows, days off and booked time for a range of
+// their calendar days, for the booking modal and the schedule editor
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams;
+  const streamerId = Number(params.get('streamerId'));
+
+  if (!Number.isInteger(streamerId) || streamerId <= 0) {
+    return NextResponse.json({ error: 'Invalid availability request' }, { status: 400 });
+  }
+
+  try {
+    const supabase = createClient();
+    const availability = await getAvailability(supabase, streamerId, {
+      from: params.get('from') ?? '',
+      to: params.get('to') ?? ''
+    });
+
+    return NextResponse.json(availability);
+  } catch (error) {
+    if (error instanceof AvailabilityRangeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Availability error:', error);
+    return NextResponse.json({ error: 'Failed to load availability' }, { status: 500 });
+  }
+}
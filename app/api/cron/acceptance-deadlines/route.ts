@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { enforceAcceptanceDeadlines } from '@/services/booking/acceptance-deadline';
+
+// Scheduled job: reminds streamers of paid bookings waiting for them and
+// declines, with a full refund, those not accepted before accept_by.
+// Call every few minutes with `Authorization: Bearer $CRON_SECRET`.
+export async function GET(req: Request) {
+  if (!process.env.CRON_SECRET || req.headers.get('authorization') !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await enforceAcceptanceDeadlines(createAdminClient());
+    console.log('Acceptance deadline run:', result);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Acceptance deadline error:', error);
+    return NextResponse.json({ error: 'Failed to enforce acceptance deadlines' }, { status: 500 });
+  }
+}
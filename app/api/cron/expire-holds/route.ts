@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { expireStaleHolds } from '@/services/booking/hold-expiry';
+
+// Scheduled job: releases unpaid bookings whose slot hold has run out.
+// Call every few minutes with `Authorization: Bearer $CRON_SECRET` (Vercel
+// Cron sends this header automatically, or use pg_cron + pg_net).
+export async function GET(req: Request) {
+  if (!process.env.CRON_SECRET || req.headers.get('authorization') !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await expireStaleHolds(createAdminClient());
+    console.log('Hold expiry run:', result);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Hold expiry error:', error);
+    return NextResponse.json({ error: 'Failed to expire holds' }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { reconcilePayments } from '@/services/payment/reconciliation';
+
+// Scheduled job: settles payments whose webhook was lost and records
+// discrepancies for admins. Call every 15 minutes or so with
+// `Authorization: Bearer $CRON_SECRET`, like the hold expiry job.
+export async function GET(req: Request) {
+  if (!process.env.CRON_SECRET || req.headers.get('authorization') !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await reconcilePayments(createAdminClient());
+    console.log('Payment reconciliation run:', result);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Payment reconciliation error:', error);
+    return NextResponse.json({ error: 'Failed to reconcile payments' }, { status: 500 });
+  }
+}
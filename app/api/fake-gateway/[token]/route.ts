@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { getPaymentGatewayName } from '@/services/payment/payment-gateway';
+import {
+  completeFakeCheckout,
+  FakeCheckoutError,
+  getFakeTransaction,
+  type FakeCheckoutOutcome
+} from '@/services/payment/fake-gateway';
+
+const OUTCOMES: FakeCheckoutOutcome[] = ['settlement', 'pending', 'deny'];
+
+// Backs the /fake-checkout page; only reachable with PAYMENT_GATEWAY=fake
+function isEnabled() {
+  return getPaymentGatewayName() === 'fake';
+}
+
+export async function GET(req: Request, { params }: { params: { token: string } }) {
+  if (!isEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const transaction = getFakeTransaction(params.token);
+  if (!transaction) {
+    return NextResponse.json({ error: 'Transaction not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    orderId: transaction.orderId,
+    amount: transaction.amount,
+    customerName: transaction.customerName,
+    finishUrl: transaction.finishUrl,
+    expiresAt: new Date(transaction.expiresAt).toISOString(),
+    transactionStatus: transaction.transactionStatus
+  });
+}
+
+export async function POST(req: Request, { params }: { params: { token: string } }) {
+  if (!isEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const { outcome } = await req.json().catch(() => ({}));
+  if (!OUTCOMES.includes(outcome)) {
+    return NextResponse.json({ error: 'Invalid outcome' }, { status: 400 });
+  }
+
+  try {
+    const { notification, delivered } = await completeFakeCheckout(
+      params.token,
+      outcome,
+      new URL('/api/payment-webhook', req.url).toString()
+    );
+
+    return NextResponse.json({
+      order_id: notification.order_id,
+      transaction_id: notification.transaction_id,
+      transaction_status: notification.transaction_status,
+      delivered
+    });
+  } catch (error) {
+    if (error instanceof FakeCheckoutError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('Fake checkout error:', error);
+    return NextResponse.json({ error: 'Failed to complete checkout' }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { issueInvoice, renderInvoiceHtml, type InvoiceBooking, type InvoicePaymentStatus } from '@/services/payment/invoices';
+import { getPaymentOwner } from '@/services/payment/booking-payment';
+
+function isInvoicePaymentStatus(status: string): status is InvoicePaymentStatus {
+  return status === 'completed' || status === 'refunded';
+}
+
+export async function GET(req: Request, { params }: { params: { bookingId: string } }) {
+  const bookingId = Number(params.bookingId);
+  if (!Number.isInteger(bookingId)) {
+    return NextResponse.json({ error: 'Invalid booking id' }, { status: 400 });
+  }
+
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const admin = createAdminClient();
+
+  const { data: booking } = await admin
+    .from('bookings')
+    .select(`
+      id,
+      client_id,
+      package_id,
+      start_time,
+      end_time,
+      platform,
+      timezone,
+      streamer:streamers (
+        first_name,
+        last_name
+      )
+    `)
+    .eq('id', bookingId)
+    .single<InvoiceBooking & { client_id: string; package_id: number | null }>();
+
+  const { data: userData } = await supabase
+    .from('users')
+    .select('user_type')
+    .eq('id', user.id)
+    .single();
+
+  // Only the brand that booked (or an admin) can see the invoice
+  if (!booking || (booking.client_id !== user.id && userData?.user_type !== 'admin')) {
+    return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+  }
+
+  const owner = getPaymentOwner(booking);
+  const { data: payment } = await admin
+    .from('payments')
+    .select('status')
+    .eq(owner.column, owner.id)
+    .single<{ status: string }>();
+
+  if (!payment || !isInvoicePaymentStatus(payment.status)) {
+    return NextResponse.json({ error: 'Booking has not been paid' }, { status: 409 });
+  }
+
+  try {
+    const invoice = await issueInvoice(admin, bookingId);
+    const html = renderInvoiceHtml(invoice, booking, payment.status);
+    const download = new URL(req.url).searchParams.get('download') === '1';
+
+    return new Response(html, {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Content-Disposition': `${download ? 'attachment' : 'inline'}; filename="${invoice.invoice_number.replace(/\//g, '-')}.html"`,
+        'Cache-Control': 'private, no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Invoice error:', error);
+    return NextResponse.json({ error: 'Failed to generate invoice' }, { status: 500 });
+  }
+}
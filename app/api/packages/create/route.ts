@@ -0,0 +1,87 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { createPackagePayment, SlotUnavailableError } from '@/services/payment/payment-service';
+import { quotePackage, QuoteError } from '@/services/payment/fee-engine';
+import { checkPackageOccurrences, PackagePatternError, parsePackagePattern } from '@/services/booking/package-schedule';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '@/lib/timezones';
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const supabase = createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const streamerId = Number(body.streamerId);
+    if (!Number.isInteger(streamerId) || streamerId <= 0) {
+      return NextResponse.json({ error: 'Invalid streamer' }, { status: 400 });
+    }
+
+    const pattern = parsePackagePattern(body.pattern ?? {});
+
+    // Every occurrence is validated here, not just when the page was loaded
+    const occurrences = await checkPackageOccurrences(supabase, streamerId, pattern);
+    if (occurrences.length === 0 || occurrences.some(occurrence => occurrence.conflict)) {
+      return NextResponse.json(
+        { error: 'Some sessions are no longer available', occurrences },
+        { status: 409 }
+      );
+    }
+
+    // The streamer's rate and the fees come from the database, never from the request
+    const { sessionBreakdown, total } = await quotePackage(supabase, {
+      streamerId,
+      hours: pattern.hours,
+      sessions: occurrences.length
+    });
+
+    if (Number(body.amount) !== total) {
+      return NextResponse.json(
+        { error: 'Price mismatch', expectedAmount: total },
+        { status: 400 }
+      );
+    }
+
+    const paymentDetails = await createPackagePayment({
+      clientId: user.id,
+      clientName: body.clientName,
+      clientEmail: user.email ?? body.clientEmail,
+      streamerId,
+      pattern,
+      occurrences,
+      sessionBreakdown,
+      platform: body.platform,
+      specialRequest: body.specialRequest,
+      sub_acc_link: body.sub_acc_link,
+      sub_acc_pass: body.sub_acc_pass,
+      firstName: body.firstName,
+      lastName: body.lastName,
+      timeZone: isValidTimeZone(body.timeZone) ? body.timeZone : DEFAULT_TIMEZONE
+    });
+
+    return NextResponse.json({
+      token: paymentDetails.token,
+      redirectUrl: paymentDetails.redirectUrl,
+      gateway: paymentDetails.gateway,
+      packageId: paymentDetails.packageId
+    });
+  } catch (error) {
+    if (error instanceof SlotUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof PackagePatternError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof QuoteError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error('Package payment creation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create payment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { quotePackage, QuoteError } from '@/services/payment/fee-engine';
+import { checkPackageOccurrences, PackagePatternError, parsePackagePattern } from '@/services/booking/package-schedule';
+
+// Occurrences and price for a package on the checkout page. Occurrences with a
+// conflict have to be fixed before the package can be paid for;
+// /api/packages/create checks them again.
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams;
+  const streamerId = Number(params.get('streamerId'));
+
+  if (!Number.isInteger(streamerId) || streamerId <= 0) {
+    return NextResponse.json({ error: 'Invalid quote request' }, { status: 400 });
+  }
+
+  try {
+    const pattern = parsePackagePattern({
+      startDate: params.get('startDate'),
+      weeks: Number(params.get('weeks')),
+      weekdays: (params.get('weekdays') ?? '').split(',').filter(Boolean).map(Number),
+      startHour: Number(params.get('startHour')),
+      hours: Number(params.get('hours'))
+    });
+
+    const supabase = createClient();
+    const occurrences = await checkPackageOccurrences(supabase, streamerId, pattern);
+
+    if (occurrences.length === 0) {
+      return NextResponse.json({ error: 'The pattern has no sessions' }, { status: 400 });
+    }
+
+    const quote = await quotePackage(supabase, { streamerId, hours: pattern.hours, sessions: occurrences.length });
+
+    return NextResponse.json({
+      pattern,
+      occurrences,
+      sessions: quote.sessions,
+      sessionBreakdown: quote.sessionBreakdown,
+      total: quote.total
+    });
+  } catch (error) {
+    if (error instanceof PackagePatternError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof QuoteError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error('Package quote error:', error);
+    return NextResponse.json({ error: 'Failed to calculate price' }, { status: 500 });
+  }
+}
@@ -1,35 +1,110 @@
 import { NextResponse } from 'next/server';
-import { createPayment } from '@/services/payment/payment-service';
+import { createClient } from '@/utils/supabase/server';
+import { createPayment, SlotUnavailableError } from '@/services/payment/payment-service';
+import { getBookedMinutes, MAX_BOOKING_MINUTES } from '@/services/payment/pricing';
+import { quoteBooking, QuoteError } from '@/services/payment/fee-engine';
+import { PromoCodeError } from '@/services/payment/promo-codes';
+import { DEFAULT_TIMEZONE, formatInZone, isValidTimeZone } from '@/lib/timezones';
+import { AVAILABILITY_CONFLICT_MESSAGES, findAvailabilityConflict, getAvailability } from '@/services/booking/availability';
 
 export async function POST(req: Request) {
   try {
     const body = await req.json();
-    
-    // Create payment token first
+    const supabase = createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const { streamerId, startTime, endTime } = body.metadata ?? {};
+
+    const minutes = startTime && endTime ? getBookedMinutes(startTime, endTime) : null;
+    if (!minutes || minutes > MAX_BOOKING_MINUTES) {
+      return NextResponse.json({ error: 'Invalid booking time range' }, { status: 400 });
+    }
+
+    // The streamer's rate and the fees come from the database, never from the request
+    const { streamer, breakdown: priceBreakdown, promo } = await quoteBooking(supabase, {
+      streamerId,
+      minutes,
+      servicePackageId: body.servicePackageId ? Number(body.servicePackageId) : null,
+      promo: body.promoCode ? { code: String(body.promoCode), clientId: user.id } : undefined
+    });
+
+    if (minutes % streamer.slotMinutes !== 0) {
+      return NextResponse.json(
+        { error: `This streamer is booked in ${streamer.slotMinutes}-minute slots` },
+        { status: 400 }
+      );
+    }
+
+    // The modal only offers free slots, but the schedule may have changed
+    // since the brand opened it
+    const start = new Date(startTime);
+    const bookingDate = formatInZone(start, streamer.timeZone, 'yyyy-MM-dd');
+    const availability = await getAvailability(supabase, streamer.id, { from: bookingDate, to: bookingDate });
+    const conflict = findAvailabilityConflict(availability, start, new Date(endTime));
+    if (conflict) {
+      return NextResponse.json(
+        { error: AVAILABILITY_CONFLICT_MESSAGES[conflict] },
+        { status: 409 }
+      );
+    }
+
+    // The page shows the same quote; a different amount means stale
+    // pricing or a tampered request, and the client should re-quote
+    if (Number(body.amount) !== priceBreakdown.total) {
+      return NextResponse.json(
+        { error: 'Price mismatch', expectedAmount: priceBreakdown.total },
+        { status: 400 }
+      );
+    }
+
     const paymentDetails = await createPayment({
-      amount: body.amount,
+      amount: priceBreakdown.total,
       clientName: body.clientName,
-      clientEmail: body.clientEmail,
+      clientEmail: user.email ?? body.clientEmail,
       description: body.description,
-      metadata: body.metadata // Pass through all metadata for later use
+      priceBreakdown,
+      promoCodeId: promo?.promoCodeId ?? null,
+      servicePackageId: priceBreakdown.servicePackage?.id ?? null,
+      metadata: {
+        ...body.metadata,
+        streamerId: String(streamer.id),
+        userId: user.id,
+        price: priceBreakdown.total,
+        timeZone: isValidTimeZone(body.timeZone) ? body.timeZone : DEFAULT_TIMEZONE
+      }
     });
-    
+
     if (!paymentDetails || !paymentDetails.token) {
       return NextResponse.json(
         { error: 'Failed to generate payment token' },
         { status: 500 }
       );
     }
-    
+
     return NextResponse.json({
       token: paymentDetails.token,
+      redirectUrl: paymentDetails.redirectUrl,
+      gateway: paymentDetails.gateway,
       metadata: body.metadata // Return metadata for use after payment success
     });
   } catch (error) {
+    if (error instanceof SlotUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof PromoCodeError) {
+      return NextResponse.json({ error: error.message, promoCode: true }, { status: 400 });
+    }
+    if (error instanceof QuoteError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
     console.error('Payment creation error:', error);
     return NextResponse.json(
       { error: 'Failed to create payment' },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { quoteBooking, QuoteError } from '@/services/payment/fee-engine';
+import { MAX_BOOKING_MINUTES } from '@/services/payment/pricing';
+import { PromoCodeError } from '@/services/payment/promo-codes';
+
+// Price summary for the checkout page. /api/payments/create computes the same
+// quote again and refuses payments that don't match it.
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams;
+  const streamerId = params.get('streamerId');
+  const minutes = Number(params.get('minutes'));
+  const promoCode = params.get('promoCode');
+  const servicePackageId = params.get('servicePackageId') ? Number(params.get('servicePackageId')) : null;
+
+  if (!streamerId || !Number.isInteger(minutes) || minutes < 1 || minutes > MAX_BOOKING_MINUTES ||
+      (servicePackageId !== null && !Number.isInteger(servicePackageId))) {
+    return NextResponse.json({ error: 'Invalid quote request' }, { status: 400 });
+  }
+
+  try {
+    const supabase = createClient();
+
+    // Usage limits are per brand, so promo codes need a signed-in user
+    let promo;
+    if (promoCode) {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+      }
+      promo = { code: promoCode, clientId: user.id };
+    }
+
+    const { streamer, breakdown } = await quoteBooking(supabase, { streamerId, minutes, servicePackageId, promo });
+
+    if (minutes % streamer.slotMinutes !== 0) {
+      return NextResponse.json({ error: `This streamer is booked in ${streamer.slotMinutes}-minute slots` }, { status: 400 });
+    }
+
+    return NextResponse.json(breakdown);
+  } catch (error) {
+    if (error instanceof PromoCodeError) {
+      return NextResponse.json({ error: error.message, promoCode: true }, { status: 400 });
+    }
+    if (error instanceof QuoteError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error('Quote error:', error);
+    return NextResponse.json({ error: 'Failed to calculate price' }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { tryDecodeOrderId } from '@/services/payment/order-id';
+
+// Read-only view of an order for the checkout page. The browser polls this
+// after Snap's onSuccess callback; only the payment webhook changes state.
+export async function GET(req: Request) {
+  const orderId = new URL(req.url).searchParams.get('orderId');
+  const decoded = orderId ? tryDecodeOrderId(orderId) : null;
+
+  if (!decoded) {
+    return NextResponse.json({ error: 'Invalid order id' }, { status: 400 });
+  }
+
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  if (decoded.kind === 'package') {
+    const { data: bookingPackage } = await supabase
+      .from('booking_packages')
+      .select('id, bookings (status)')
+      .eq('id', decoded.packageId)
+      .eq('client_id', user.id)
+      .single();
+
+    if (!bookingPackage) {
+      return NextResponse.json({ error: 'Package not found' }, { status: 404 });
+    }
+
+    const { data: payment } = await supabase
+      .from('payments')
+      .select('status')
+      .eq('package_id', bookingPackage.id)
+      .single();
+
+    const paymentStatus = payment?.status ?? 'pending';
+    const bookingStatuses = (bookingPackage.bookings as { status: string }[]).map(booking => booking.status);
+
+    return NextResponse.json({
+      packageId: bookingPackage.id,
+      bookingStatuses,
+      paymentStatus,
+      confirmed: paymentStatus === 'completed' && !bookingStatuses.includes('payment_pending')
+    });
+  }
+
+  const { data: booking } = await supabase
+    .from('bookings')
+    .select('id, status')
+    .eq('id', decoded.bookingId)
+    .eq('client_id', user.id)
+    .single();
+
+  if (!booking) {
+    return NextResponse.json({ error: 'Booking not found' }, { status: 404 });
+  }
+
+  const { data: payment } = await supabase
+    .from('payments')
+    .select('status')
+    .eq('booking_id', booking.id)
+    .single();
+
+  const paymentStatus = payment?.status ?? 'pending';
+
+  return NextResponse.json({
+    bookingId: booking.id,
+    bookingStatus: booking.status,
+    paymentStatus,
+    confirmed: paymentStatus === 'completed' && booking.status !== 'payment_pending'
+  });
+}
@@ -2,7 +2,7 @@
 
 import { Suspense } from 'react';
 import { Loader2 } from 'lucide-react';
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { createClient } from "@/utils/supabase/client";
 import { Button } from "@/components/ui/button";
@@ -10,11 +10,14 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { format, parseISO, differenceInHours, addHours, isSameDay, startOfDay } from 'date-fns';
+import { format, parseISO, differenceInMinutes } from 'date-fns';
 import toast from 'react-hot-toast';
 import { MapPin, Star, Shield, Clock, Calendar, Monitor, DollarSign, AlertTriangle, Phone, ChevronLeft, Info } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 import { PaymentModal } from '@/components/payment-modal';
+import type { PriceBreakdown } from '@/services/payment/pricing';
+import { DEFAULT_TIMEZONE, formatTimeRange, formatTimeRangeForBoth, getBrowserTimeZone, zonedTimeToUtc } from '@/lib/timezones';
+import { formatDuration } from '@/services/booking/slots';
 import { Navbar } from "@/components/ui/navbar";
 import Image from 'next/image';
 import { Badge } from "@/components/ui/badge";
@@ -30,6 +33,8 @@ interface BookingDetails {
   price: number;
   location: string;
   rating: number;
+  // Streamer's zone; date and hours are their wall-clock time
+  timeZone: string;
 }
 
 interface TimeSlot {
@@ -51,6 +56,10 @@ interface PaymentResult {
   message?: string;
 }
 
+// How long the checkout page waits for the webhook after Snap reports success
+const PAYMENT_STATUS_POLL_INTERVAL_MS = 2000;
+const PAYMENT_STATUS_MAX_POLLS = 15;
+
 const platformStyles = {
   shopee: 'bg-gradient-to-r from-orange-500 to-orange-600',
   tiktok: 'bg-gradient-to-r from-[#00f2ea] to-[#ff0050]',
@@ -76,12 +85,95 @@ function BookingDetailContent() {
   const [specialRequest, setSpecialRequest] = useState<string>('');
   const [subAccountLink, setSubAccountLink] = useState('');
   const [subAccountPassword, setSubAccountPassword] = useState('');
-  const [selectedHours, setSelectedHours] = useState<string[]>([]);
-  const [bookings, setBookings] = useState<any[]>([]);
-  const [activeSchedule, setActiveSchedule] = useState<any>(null);
   const [paymentToken, setPaymentToken] = useState<string | null>(null);
+  const [checkoutUrl, setCheckoutUrl] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [quote, setQuote] = useState<PriceBreakdown | null>(null);
+  const [promoInput, setPromoInput] = useState('');
+  const [appliedPromo, setAppliedPromo] = useState<string | null>(null);
+  const [isApplyingPromo, setIsApplyingPromo] = useState(false);
+
+
+  // The date and times from the booking modal are the streamer's wall-clock time
+  const sessionRange = useMemo(() => {
+    const date = searchParams?.get('date');
+    const startTime = searchParams?.get('startTime');
+    const endTime = searchParams?.get('endTime');
+    if (!date || !startTime || !endTime) return null;
+
+    const timeZone = searchParams?.get('streamerTimeZone') || DEFAULT_TIMEZONE;
+    const start = zonedTimeToUtc(date, startTime, timeZone);
+    const end = zonedTimeToUtc(date, endTime, timeZone);
+    return end > start ? { start, end, minutes: differenceInMinutes(end, start) } : null;
+  }, [searchParams]);
+  const sessionMinutes = sessionRange?.minutes ?? 0;
+
+  const requestQuote = useCallback((promoCode: string | null) => {
+    const streamerId = searchParams?.get('streamerId');
+    const servicePackageId = searchParams?.get('servicePackageId');
+    const promoParam = promoCode ? `&promoCode=${encodeURIComponent(promoCode)}` : '';
+    const packageParam = servicePackageId ? `&servicePackageId=${servicePackageId}` : '';
+    return fetch(`/api/payments/quote?streamerId=${streamerId}&minutes=${sessionMinutes}${packageParam}${promoParam}`);
+  }, [searchParams, sessionMinutes]);
+
+  // Prices come from the server's fee engine; the page only displays them
+  const fetchQuote = useCallback(async () => {
+    const streamerId = searchParams?.get('streamerId');
+    if (!streamerId || sessionMinutes === 0) {
+      setQuote(null);
+      return;
+    }
+
+    const response = await requestQuote(appliedPromo);
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}));
+      if (result.promoCode) {
+        // The code stopped applying, e.g. fewer hours than its minimum
+        toast.error(result.error);
+        setAppliedPromo(null);
+        return;
+      }
+      setQuote(null);
+      toast.error('Failed to calculate price');
+      return;
+    }
+    setQuote(await response.json());
+  }, [searchParams, sessionMinutes, appliedPromo, requestQuote]);
+
+  const handleApplyPromo = async () => {
+    const code = promoInput.trim().toUpperCase();
+    if (!code || sessionMinutes === 0) return;
+
+    setIsApplyingPromo(true);
+    try {
+      const response = await requestQuote(code);
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(result.promoCode ? result.error : 'Failed to apply promo code');
+        return;
+      }
+
+      setQuote(result);
+      setAppliedPromo(code);
+      toast.success('Promo code applied');
+    } catch (error) {
+      console.error('Error applying promo code:', error);
+      toast.error('Failed to apply promo code');
+    } finally {
+      setIsApplyingPromo(false);
+    }
+  };
+
+  const handleRemovePromo = () => {
+    setAppliedPromo(null);
+    setPromoInput('');
+  };
+
+  useEffect(() => {
+    fetchQuote();
+  }, [fetchQuote]);
 
   useEffect(() => {
     if (searchParams) {
@@ -95,133 +187,17 @@ function BookingDetailContent() {
         price: Number(searchParams.get('price')) || 0,
         location: decodeURIComponent(searchParams.get('location') || ''),
         rating: Number(searchParams.get('rating')) || 0,
+        timeZone: searchParams.get('streamerTimeZone') || DEFAULT_TIMEZONE,
       };
       setBookingDetails(details);
       
-      // Initialize selectedHours based on startTime and endTime
-      if (details.startTime && details.endTime) {
-        const start = parseInt(details.startTime.split(':')[0]);
-        const end = parseInt(details.endTime.split(':')[0]);
-        setSelectedHours(
-          Array.from({ length: end - start }, (_, i) => 
-            `${(start + i).toString().padStart(2, '0')}:00`
-          )
-        );
-      }
-
-      fetchBookings();
-      fetchActiveSchedule();
     }
   }, [searchParams]);
 
-  const fetchBookings = async () => {
-    const supabase = createClient();
-    const streamerId = searchParams?.get('streamerId');
-    if (!streamerId) return;
-
-    const { data, error } = await supabase
-      .from('bookings')
-      .select('*')
-      .eq('streamer_id', streamerId)
-      .in('status', ['accepted', 'pending']);
-
-    if (error) {
-      console.error('Error fetching bookings:', error);
-      toast.error('Failed to fetch bookings');
-    } else {
-      setBookings(data || []);
-    }
-
-    // Set up real-time subscription
-    const bookingSubscription = supabase
-      .channel('public:bookings')
-      .on('postgres_changes', 
-        { event: '*', schema: 'public', table: 'bookings', filter: `streamer_id=eq.${streamerId}` },
-        () => {
-          fetchBookings();
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(bookingSubscription);
-    };
-  };
-
-  const fetchActiveSchedule = async () => {
-    const supabase = createClient();
-    const streamerId = searchParams?.get('streamerId');
-    if (!streamerId) return;
-
-    const { data, error } = await supabase
-      .from('streamer_active_schedules')
-      .select('schedule')
-      .eq('streamer_id', streamerId)
-      .single();
-
-    if (error) {
-      console.error('Error fetching active schedule:', error);
-    } else if (data) {
-      setActiveSchedule(JSON.parse(data.schedule));
-    }
-  };
-
-  const isSlotAvailable = useCallback((date: Date, hour: number) => {
-    if (!bookingDetails || !activeSchedule) return false;
-    const daySchedule = activeSchedule[date.getDay()];
-    if (!daySchedule || !daySchedule.slots) return false;
-  
-    const isInSchedule = daySchedule.slots.some((slot: any) => {
-      const start = parseInt(slot.start.split(':')[0]);
-      const end = parseInt(slot.end.split(':')[0]);
-      return hour >= start && hour < end;
-    });
-
-    const bookingExists = bookings.some(booking => {
-      const bookingStart = new Date(booking.start_time);
-      const bookingEnd = new Date(booking.end_time);
-      return (
-        isSameDay(date, bookingStart) &&
-        (
-          (hour >= bookingStart.getHours() && hour < bookingEnd.getHours()) ||
-          (hour === bookingEnd.getHours() && bookingEnd.getHours() > bookingStart.getHours())
-        )
-      );
-    });
-
-    return isInSchedule && !bookingExists;
-  }, [bookingDetails, activeSchedule, bookings]);
-
-  const generateTimeOptions = () => {
-    if (!bookingDetails) return [];
-    const start = parseInt(bookingDetails.startTime.split(':')[0]);
-    const end = parseInt(bookingDetails.endTime.split(':')[0]);
-    const options = Array.from({ length: end - start }, (_, i) => `${(start + i).toString().padStart(2, '0')}:00`);
-    
-    // Filter out hours that are not available
-    return options.filter(hour => isSlotAvailable(new Date(bookingDetails.date), parseInt(hour)));
-  };
-
-  const handleHourSelection = (hour: string) => {
-    setSelectedHours((prevSelected) => {
-      if (prevSelected.includes(hour)) {
-        return prevSelected.filter((h) => h !== hour);
-      } else {
-        const newSelected = [...prevSelected, hour].sort();
-        if (newSelected.length > 1) {
-          const start = newSelected[0];
-          const end = newSelected[newSelected.length - 1];
-          return Array.from({ length: parseInt(end) - parseInt(start) + 1 }, (_, i) => 
-            `${(parseInt(start) + i).toString().padStart(2, '0')}:00`
-          ).filter(h => isSlotAvailable(new Date(bookingDetails!.date), parseInt(h)));
-        }
-        return newSelected;
-      }
-    });
-  };
+  const viewerTimeZone = getBrowserTimeZone();
 
   const handleConfirmBooking = async () => {
-    if (!bookingDetails || isLoading) return;
+    if (!bookingDetails || !quote || !sessionRange || isLoading) return;
 
     try {
       setIsLoading(true);
@@ -243,12 +219,15 @@ function BookingDetailContent() {
           amount: total,
           clientName: `${user.user_metadata.first_name} ${user.user_metadata.last_name}`,
           clientEmail: user.email,
-          description: `Booking with ${bookingDetails.streamerName} for ${format(parseISO(`${bookingDetails.date}T${selectedHours[0]}`), 'PPP')} at ${selectedHours[0]} - ${format(addHours(parseISO(`${bookingDetails.date}T${selectedHours[selectedHours.length - 1]}`), 1), 'HH:mm')}`,
+          promoCode: appliedPromo,
+          servicePackageId: searchParams?.get('servicePackageId'),
+          description: `Booking with ${bookingDetails.streamerName} for ${format(parseISO(bookingDetails.date), 'PPP')} at ${formatTimeRange(sessionRange.start, sessionRange.end, bookingDetails.timeZone)}`,
+          timeZone: viewerTimeZone,
           metadata: {
             streamerId: bookingDetails.streamerId,
             userId: user.id,
-            startTime: `${bookingDetails.date}T${selectedHours[0]}`,
-            endTime: addHours(parseISO(`${bookingDetails.date}T${selectedHours[selectedHours.length - 1]}`), 1).toISOString(),
+            startTime: sessionRange.start.toISOString(),
+            endTime: sessionRange.end.toISOString(),
             platform: bookingDetails.platform,
             specialRequest: specialRequest,
             sub_acc_link: subAccountLink,
@@ -260,7 +239,23 @@ function BookingDetailContent() {
         }),
       });
 
+      if (paymentResponse.status === 409) {
+        toast.error('This time slot was just booked by someone else. Please choose another time.');
+        return;
+      }
+
       if (!paymentResponse.ok) {
+        const { expectedAmount, promoCode, error } = await paymentResponse.json().catch(() => ({}));
+        if (promoCode) {
+          toast.error(error);
+          setAppliedPromo(null);
+          return;
+        }
+        if (expectedAmount) {
+          fetchQuote();
+          toast.error(`The price has changed to Rp ${expectedAmount.toLocaleString()}. Please review your booking.`);
+          return;
+        }
         throw new Error('Failed to create payment token');
       }
 
@@ -269,6 +264,7 @@ function BookingDetailContent() {
         throw new Error('No payment token received');
       }
 
+      setCheckoutUrl(paymentData.gateway === 'fake' ? paymentData.redirectUrl : null);
       setPaymentToken(paymentData.token);
 
     } catch (error) {
@@ -279,80 +275,42 @@ function BookingDetailContent() {
     }
   };
 
+  // Snap's callback is not proof of payment; wait for the webhook to confirm
+  // the order on the server before telling the user it went through.
   const handlePaymentSuccess = async (result: any) => {
+    setPaymentToken(null);
+    setIsProcessing(true);
+
     try {
-      const supabase = createClient();
-      
-      // Extract the booking ID from the order ID
-      const orderIdParts = result.order_id.split('-');
-      const bookingId = parseInt(orderIdParts[1], 10);
-      
-      if (isNaN(bookingId)) {
-        throw new Error('Invalid booking ID format');
-      }
+      for (let attempt = 0; attempt < PAYMENT_STATUS_MAX_POLLS; attempt++) {
+        const response = await fetch(`/api/payments/status?orderId=${encodeURIComponent(result.order_id)}`);
 
-      // Get booking details with streamer info including user_id
-      const { data: booking } = await supabase
-        .from('bookings')
-        .select(`
-          *,
-          streamer:streamers (
-            id,
-            first_name,
-            last_name,
-            user_id
-          )
-        `)
-        .eq('id', bookingId)
-        .single();
-
-      if (!booking) {
-        throw new Error('Booking not found');
-      }
+        if (response.ok) {
+          const status = await response.json();
 
-      // Create notifications for both parties with correct notification type
-      const notifications = [
-        {
-          user_id: booking.streamer.user_id,
-          streamer_id: booking.streamer_id,
-          message: `New booking request from ${booking.client_first_name} ${booking.client_last_name}. Payment confirmed.`,
-          type: 'confirmation',  // Changed from 'booking_request' to 'confirmation'
-          booking_id: bookingId,
-          created_at: new Date().toISOString(),
-          is_read: false
-        },
-        {
-          user_id: booking.client_id,
-          message: `Payment confirmed for booking with ${booking.streamer.first_name} ${booking.streamer.last_name}. Waiting for acceptance.`,
-          type: 'confirmation',  // Changed from 'booking_request' to 'confirmation'
-          booking_id: bookingId,
-          created_at: new Date().toISOString(),
-          is_read: false
-        }
-      ];
+          if (status.confirmed) {
+            toast.success('Payment successful! Booking request has been sent.');
+            router.push('/client-bookings');
+            return;
+          }
 
-      // Insert notifications
-      const { error: notificationError } = await supabase
-        .from('notifications')
-        .insert(notifications);
+          if (status.paymentStatus === 'failed' || status.paymentStatus === 'expired') {
+            toast.error('Payment failed. Please try again.');
+            return;
+          }
+        }
 
-      if (notificationError) {
-        console.error('Error creating notifications:', notificationError);
+        await new Promise(resolve => setTimeout(resolve, PAYMENT_STATUS_POLL_INTERVAL_MS));
       }
 
-      // Update booking status
-      await supabase
-        .from('bookings')
-        .update({ status: 'pending' })
-        .eq('id', bookingId);
-
-      // Show success toast
-      toast.success('Payment successful! Booking request has been sent.');
+      // The webhook can lag behind Snap; the booking list will update once it lands
+      toast.success('Payment received. Your booking will be confirmed shortly.');
       router.push('/client-bookings');
-
     } catch (error) {
-      console.error('Error handling payment success:', error);
-      toast.error('Payment successful but encountered an error. Please contact support.');
+      console.error('Error checking payment status:', error);
+      toast.error('Could not confirm your payment yet. Please check your bookings shortly.');
+    } finally {
+      setIsProcessing(false);
     }
   };
 
@@ -368,8 +326,6 @@ function BookingDetailContent() {
     setPaymentToken(null);
   };
 
-  const isHourSelected = (hour: string) => selectedHours.includes(hour);
-
   const getStatusInfo = (status: string) => {
     switch (status.toLowerCase()) {
       case 'pending':
@@ -391,11 +347,13 @@ function BookingDetailContent() {
     return <div className="container mx-auto p-4">Loading...</div>;
   }
 
-  const subtotal = bookingDetails.price * selectedHours.length;
-  const platformFee = subtotal * 0.30;
-  const subtotalWithPlatformFee = subtotal + platformFee;
-  const tax = subtotalWithPlatformFee * 0.11;
-  const total = Math.round(subtotalWithPlatformFee + tax);
+  const subtotal = quote?.subtotal ?? 0;
+  const discount = quote?.discount ?? 0;
+  const platformFee = quote?.platformFee ?? 0;
+  const serviceFee = quote?.serviceFee ?? 0;
+  const tax = quote?.tax ?? 0;
+  const total = quote?.total ?? 0;
+  const formatRate = (rate: number) => `${Math.round(rate * 1000) / 10}%`;
 
   return (
     <div className="container mx-auto p-3 sm:p-4 max-w-6xl font-sans text-xs sm:text-sm mt-4 sm:mt-8">
@@ -423,11 +381,8 @@ function BookingDetailContent() {
               <div className="flex items-center gap-2 sm:gap-3">
                 <Clock className="h-4 w-4 sm:h-5 sm:w-5 text-blue-600" />
                 <span className="text-sm sm:text-base">
-                  {selectedHours.length > 0 && (
-                    `${selectedHours[0]} - ${format(addHours(parseISO(`${bookingDetails?.date}T${selectedHours[selectedHours.length - 1]}`), 1), 'HH:mm')} (${differenceInHours(
-                      addHours(parseISO(`${bookingDetails?.date}T${selectedHours[selectedHours.length - 1]}`), 1),
-                      parseISO(`${bookingDetails?.date}T${selectedHours[0]}`)
-                    )} jam)`
+                  {sessionRange && (
+                    `${formatTimeRangeForBoth(sessionRange.start, sessionRange.end, viewerTimeZone, bookingDetails?.timeZone)} (${formatDuration(sessionMinutes)})`
                   )}
                 </span>
               </div>
@@ -562,17 +517,62 @@ function BookingDetailContent() {
 
             <div className="h-2 bg-gray-100 -mx-3 sm:-mx-6 my-4" />
 
+            <div className="mb-4">
+              <Label htmlFor="promoCode" className="text-xs text-gray-500 font-bold">Kode Promo</Label>
+              {appliedPromo ? (
+                <div className="flex items-center justify-between mt-2 bg-green-50 px-3 py-2 rounded-lg text-sm">
+                  <span className="text-green-700 font-medium">{appliedPromo}</span>
+                  <button onClick={handleRemovePromo} className="text-xs text-gray-500 hover:text-red-500">
+                    Hapus
+                  </button>
+                </div>
+              ) : (
+                <div className="flex gap-2 mt-2">
+                  <Input
+                    id="promoCode"
+                    value={promoInput}
+                    onChange={(e) => setPromoInput(e.target.value)}
+                    placeholder="Masukkan kode promo"
+                    className="text-sm"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={handleApplyPromo}
+                    disabled={!promoInput.trim() || isApplyingPromo || sessionMinutes === 0}
+                  >
+                    {isApplyingPromo ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Pakai'}
+                  </Button>
+                </div>
+              )}
+            </div>
+
             <div className="space-y-3">
               <div className="flex justify-between text-sm">
-                <span className="text-gray-600 font-bold">{`Rp ${bookingDetails?.price.toLocaleString()} x ${selectedHours.length} jam`}</span>
+                <span className="text-gray-600 font-bold">
+                  {quote?.servicePackage
+                    ? `Paket ${quote.servicePackage.name} (${formatDuration(sessionMinutes)})`
+                    : `Rp ${(quote?.hourlyRate ?? bookingDetails.price).toLocaleString()}/jam x ${formatDuration(sessionMinutes)}`}
+                </span>
                 <span>{`Rp ${subtotal.toLocaleString()}`}</span>
               </div>
+              {discount > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600 font-bold">{`Diskon${quote?.promoCode ? ` (${quote.promoCode})` : ''}`}</span>
+                  <span className="text-green-600">{`- Rp ${discount.toLocaleString()}`}</span>
+                </div>
+              )}
               <div className="flex justify-between text-sm">
-                <span className="text-gray-600 font-bold">Biaya platform (30%)</span>
+                <span className="text-gray-600 font-bold">{`Biaya platform${quote ? ` (${formatRate(quote.rates.commissionRate)})` : ''}`}</span>
                 <span>{`Rp ${platformFee.toLocaleString()}`}</span>
               </div>
+              {serviceFee > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600 font-bold">Biaya layanan</span>
+                  <span>{`Rp ${serviceFee.toLocaleString()}`}</span>
+                </div>
+              )}
               <div className="flex justify-between text-sm">
-                <span className="text-gray-600 font-bold">Pajak (11%)</span>
+                <span className="text-gray-600 font-bold">{`PPN${quote ? ` (${formatRate(quote.rates.vatRate)})` : ''}`}</span>
                 <span>{`Rp ${tax.toLocaleString()}`}</span>
               </div>
             </div>
@@ -587,14 +587,19 @@ function BookingDetailContent() {
             <div className="pt-2">
               <Button 
                 onClick={handleConfirmBooking} 
-                disabled={isLoading}
+                disabled={isLoading || isProcessing || !quote}
                 className={`w-full py-3 rounded-lg text-sm transition-all duration-200 ${
-                  isLoading 
+                  isLoading || isProcessing
                     ? 'bg-gradient-to-r from-[#1e40af] to-[#6b21a8] text-white'
                     : 'bg-gradient-to-r from-[#1e40af] to-[#6b21a8] hover:from-[#1e3a8a] hover:to-[#581c87] text-white'
                 }`}
               >
-                {isLoading ? (
+                {isProcessing ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Memverifikasi pembayaran
+                  </>
+                ) : isLoading ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                     Bayar
@@ -614,6 +619,7 @@ function BookingDetailContent() {
       {paymentToken && (
         <PaymentModal
           token={paymentToken}
+          checkoutUrl={checkoutUrl}
           onSuccess={handlePaymentSuccess}
           onPending={handlePaymentPending}
           onError={handlePaymentError}
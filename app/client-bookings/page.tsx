@@ -4,10 +4,16 @@ import { useEffect, useState, useCallback } from 'react';
 import { createClient } from "@/utils/supabase/client";
 import { format } from 'date-fns';
 import { Button } from "@/components/ui/button";
-import { ChevronLeft, ChevronRight, Clock, DollarSign, Star, Info, RefreshCw } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Clock, DollarSign, Star, Info, RefreshCw, FileText } from 'lucide-react';
 import Image from 'next/image';
 import RatingModal from '@/components/rating-modal';
 import { useRouter } from 'next/navigation';
+import toast from 'react-hot-toast';
+import { cancelBooking } from '@/app/actions';
+import { formatInZone, formatTimeRangeForBoth, getBrowserTimeZone } from '@/lib/timezones';
+import { AcceptanceCountdown } from '@/components/acceptance-countdown';
+import { RescheduleRequestPanel } from '@/components/reschedule-request';
+import { getPendingReschedule, type RescheduleRequest } from '@/services/booking/reschedule';
 
 interface Booking {
   id: number;
@@ -19,6 +25,10 @@ interface Booking {
   price: number;
   special_request: string;
   streamer_id: number;
+  package_id: number | null;
+  // Deadline for the streamer to accept; set once the booking is paid
+  accept_by: string | null;
+  reschedule_requests: RescheduleRequest[];
   streamer: {
     id: number;
     first_name: string;
@@ -26,6 +36,7 @@ interface Booking {
     platform: string;
     rating?: number;
     image_url: string;
+    timezone: string;
   };
 }
 
@@ -37,22 +48,46 @@ interface RatingData {
 const getStatusInfo = (status: string) => {
   switch (status.toLowerCase()) {
     case 'pending':
-      return 'Menunggu streamer menerima pesanan Anda. Biasanya membutuhkan waktu 15-60 menit untuk konfirmasi.';
+      return 'Menunggu streamer menerima pesanan Anda sebelum batas waktu konfirmasi. Jika tidak diterima tepat waktu, pesanan otomatis ditolak dan dana dikembalikan penuh.';
     case 'accepted':
-      return 'Pesanan Anda telah diterima oleh streamer. Silakan tunggu link streaming yang akan diberikan saat waktu yang ditentukan.';
+      return 'Pesanan Anda telah diterima oleh streamer. Silakan tunggu link streaming yang akan diberikan saat waktu yang ditentukan. Jika perlu, Anda dapat mengusulkan waktu baru yang harus disetujui streamer.';
     case 'completed':
       return 'Sesi streaming telah selesai. Terima kasih telah menggunakan layanan kami.';
     case 'rejected':
       return 'Maaf, streamer tidak dapat menerima pesanan Anda. Silakan coba waktu lain atau streamer lainnya.';
     case 'live':
       return 'Sesi streaming sedang berlangsung.';
+    case 'cancelled':
+      return 'Pesanan ini telah dibatalkan. Pengembalian dana, jika ada, diproses sesuai kebijakan pembatalan.';
     default:
       return '';
   }
 };
 
-function BookingEntry({ booking, onRatingSubmit }: { booking: Booking; onRatingSubmit: () => void }) {
+function BookingEntry({ booking, onRatingSubmit, onCancel, onReschedule }: { booking: Booking; onRatingSubmit: () => void; onCancel: () => void; onReschedule: () => void }) {
   const [isRatingModalOpen, setIsRatingModalOpen] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  const canCancel = ['pending', 'accepted'].includes(booking.status.toLowerCase());
+  const hasInvoice = ['pending', 'accepted', 'live', 'completed'].includes(booking.status.toLowerCase());
+
+  const handleCancel = async () => {
+    if (!window.confirm('Batalkan pesanan ini? Pengembalian dana mengikuti kebijakan pembatalan.')) return;
+
+    setIsCancelling(true);
+    const result = await cancelBooking(booking.id);
+    setIsCancelling(false);
+
+    if (result.error) {
+      toast.error(result.error);
+      return;
+    }
+
+    toast.success(result.refundAmount
+      ? `Pesanan dibatalkan. Dana Rp ${result.refundAmount.toLocaleString()} akan dikembalikan.`
+      : 'Pesanan dibatalkan.');
+    onCancel();
+  };
 
   const getStatusColor = (status: string) => {
     switch (status.toLowerCase()) {
@@ -68,6 +103,7 @@ function BookingEntry({ booking, onRatingSubmit }: { booking: Booking; onRatingS
 
   // Parse the rating to ensure it's a number
   const rating = parseFloat(booking.streamer.rating as unknown as string);
+  const viewerTimeZone = getBrowserTimeZone();
 
   return (
     <div className="border rounded-lg shadow-sm p-4 mb-4 text-sm hover:shadow-md transition-shadow">
@@ -88,6 +124,16 @@ function BookingEntry({ booking, onRatingSubmit }: { booking: Booking; onRatingS
         </div>
         <span className="text-gray-500 text-sm">{format(new Date(booking.created_at), 'MMM d, yyyy HH:mm')}</span>
       </div>
+
+      {booking.status.toLowerCase() === 'pending' && booking.accept_by && (
+        <div className="mb-3">
+          <AcceptanceCountdown
+            acceptBy={booking.accept_by}
+            label="Menunggu konfirmasi streamer:"
+            expiredLabel="Batas konfirmasi terlewati, pesanan sedang dibatalkan otomatis"
+          />
+        </div>
+      )}
       
       {/* Middle layer - Removed duplicate name */}
       <div className="flex items-start mb-3 pb-3 border-b">
@@ -100,10 +146,15 @@ function BookingEntry({ booking, onRatingSubmit }: { booking: Booking; onRatingS
         />
         <div className="flex-grow">
           <h3 className="font-medium text-base mb-2">{`${booking.streamer.first_name} ${booking.streamer.last_name}`}</h3>
-          <p className="text-gray-600 mb-2">Livestreaming services on {booking.platform}</p>
+          <p className="text-gray-600 mb-2">
+            Livestreaming services on {booking.platform}
+            {booking.package_id && <span className="ml-2 text-xs bg-blue-50 text-blue-700 px-2 py-0.5 rounded-full">Package #{booking.package_id}</span>}
+          </p>
           <div className="flex items-center mb-2">
             <Clock className="w-4 h-4 mr-2 text-gray-400" />
-            <span className="text-base">{`${format(new Date(booking.start_time), 'HH:mm')} - ${format(new Date(booking.end_time), 'HH:mm')}`}</span>
+            <span className="text-base">
+              {`${formatInZone(booking.start_time, viewerTimeZone, 'd MMM yyyy')} · ${formatTimeRangeForBoth(booking.start_time, booking.end_time, viewerTimeZone, booking.streamer.timezone)}`}
+            </span>
           </div>
           <div className="flex items-center">
             <Star className="w-4 h-4 mr-2 text-yellow-400" />
@@ -118,17 +169,49 @@ function BookingEntry({ booking, onRatingSubmit }: { booking: Booking; onRatingS
           <DollarSign className="w-5 h-5 mr-2 text-green-500" />
           <span className="font-semibold text-lg">Rp {booking.price.toLocaleString()}</span>
         </div>
-        {booking.status.toLowerCase() === 'completed' && (
-          <Button 
-            variant="outline" 
-            size="sm" 
-            className="text-sm py-2 px-4 bg-gradient-to-r from-blue-600 to-blue-800 text-white hover:from-blue-700 hover:to-blue-900 transition-all duration-200 shadow-md hover:shadow-lg transform hover:-translate-y-0.5 hover:text-white"
-            onClick={() => setIsRatingModalOpen(true)}
-          >
-            Give Rating
-          </Button>
-        )}
+        <div className="flex items-center gap-3">
+          {hasInvoice && (
+            <a
+              href={`/api/invoices/${booking.id}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center text-sm text-blue-700 hover:underline"
+            >
+              <FileText className="w-4 h-4 mr-1" />
+              Invoice
+            </a>
+          )}
+          {canCancel && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="text-sm py-2 px-4 text-red-600 border-red-200 hover:bg-red-50 hover:text-red-700"
+              onClick={handleCancel}
+              disabled={isCancelling}
+            >
+              {isCancelling ? 'Membatalkan...' : 'Batalkan'}
+            </Button>
+          )}
+          {booking.status.toLowerCase() === 'completed' && (
+            <Button 
+              variant="outline" 
+              size="sm" 
+              className="text-sm py-2 px-4 bg-gradient-to-r from-blue-600 to-blue-800 text-white hover:from-blue-700 hover:to-blue-900 transition-all duration-200 shadow-md hover:shadow-lg transform hover:-translate-y-0.5 hover:text-white"
+              onClick={() => setIsRatingModalOpen(true)}
+            >
+              Give Rating
+            </Button>
+          )}
+        </div>
       </div>
+      <RescheduleRequestPanel
+        booking={booking}
+        request={getPendingReschedule(booking.reschedule_requests)}
+        viewer="client"
+        streamerTimeZone={booking.streamer.timezone}
+        otherTimeZone={booking.streamer.timezone}
+        onChange={onReschedule}
+      />
       {isRatingModalOpen && (
         <RatingModal 
           isOpen={isRatingModalOpen} 
@@ -188,12 +271,16 @@ export default function ClientBookings() {
           created_at,
           price,
           special_request,
+          package_id,
+          accept_by,
+          reschedule_requests:booking_reschedule_requests (*),
           streamer:streamer_id (
             id,
             first_name,
             last_name,
             platform,
-            image_url
+            image_url,
+            timezone
           )
         `)
         .eq('client_id', user.id)
@@ -303,7 +390,7 @@ export default function ClientBookings() {
 
       <div className="space-y-3">
         {currentBookings.map((booking) => (
-          <BookingEntry key={booking.id} booking={booking} onRatingSubmit={refreshBookings} />
+          <BookingEntry key={booking.id} booking={booking} onRatingSubmit={refreshBookings} onCancel={refreshBookings} onReschedule={refreshBookings} />
         ))}
         {bookings.length === 0 && (
           <p className="text-center mt-4 text-gray-500">No bookings found.</p>
@@ -0,0 +1,144 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+// Checkout page of the local fake payment gateway (PAYMENT_GATEWAY=fake).
+// PaymentModal shows it in a frame and listens for the messages below, the
+// same callbacks Snap would fire; opened directly it redirects to the finish
+// URL like Snap's redirect mode.
+
+interface FakeTransaction {
+  orderId: string;
+  amount: number;
+  customerName: string;
+  finishUrl: string;
+  expiresAt: string;
+  transactionStatus: string | null;
+}
+
+type FakeCheckoutEvent = 'success' | 'pending' | 'error' | 'close';
+
+const OUTCOME_EVENTS: Record<string, FakeCheckoutEvent> = {
+  settlement: 'success',
+  pending: 'pending',
+  deny: 'error',
+};
+
+export default function FakeCheckoutPage({ params }: { params: { token: string } }) {
+  const [transaction, setTransaction] = useState<FakeTransaction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetch(`/api/fake-gateway/${params.token}`)
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Transaction not found');
+        setTransaction(data);
+      })
+      .catch(err => setError(err.message));
+  }, [params.token]);
+
+  const notify = (event: FakeCheckoutEvent, result?: unknown) => {
+    if (window.parent !== window) {
+      window.parent.postMessage({ source: 'fake-checkout', event, result }, window.location.origin);
+    } else if (transaction?.finishUrl) {
+      window.location.href = transaction.finishUrl;
+    }
+  };
+
+  const handleOutcome = async (outcome: keyof typeof OUTCOME_EVENTS) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/fake-gateway/${params.token}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ outcome })
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setError(result.error || 'Checkout failed');
+        return;
+      }
+
+      notify(OUTCOME_EVENTS[outcome], result);
+    } catch (err) {
+      setError('Checkout failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Fake payment gateway</CardTitle>
+          <p className="text-sm text-gray-500">
+            Local test checkout. No real payment is made.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {transaction && (
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-500">Order</span>
+                <span className="font-mono">{transaction.orderId}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">Customer</span>
+                <span>{transaction.customerName}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">Expires</span>
+                <span>{format(new Date(transaction.expiresAt), 'PPp')}</span>
+              </div>
+              <div className="flex justify-between text-base font-semibold pt-2">
+                <span>Total</span>
+                <span>Rp {transaction.amount.toLocaleString()}</span>
+              </div>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="grid gap-2">
+            <Button
+              onClick={() => handleOutcome('settlement')}
+              disabled={!transaction || isSubmitting}
+            >
+              Pay
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => handleOutcome('pending')}
+              disabled={!transaction || isSubmitting}
+            >
+              Leave pending
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => handleOutcome('deny')}
+              disabled={!transaction || isSubmitting}
+            >
+              Decline payment
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={() => notify('close')}
+              disabled={isSubmitting}
+            >
+              Close
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
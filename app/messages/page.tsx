@@ -1,16 +1,30 @@
 "use client";
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback, Suspense } from 'react';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { ChevronLeft, Send, AlertTriangle, XCircle } from "lucide-react";
-import { useRouter } from "next/navigation";
+import { ChevronLeft, Send, AlertTriangle, XCircle, Calendar, Monitor, MessageSquare, Loader2, Check, CheckCheck } from "lucide-react";
+import { useRouter, useSearchParams } from "next/navigation";
 import Image from 'next/image';
 import { createClient } from "@/utils/supabase/client";
-import { getConversations, getMessages, sendMessage } from '@/services/message-service';
+import {
+  getBookingConversation,
+  getConversations,
+  getCounterpart,
+  getInboxParticipant,
+  getMessages,
+  joinTypingPresence,
+  markMessagesRead,
+  sendMessage,
+  subscribeToConversations,
+  subscribeToInboxMessages,
+  subscribeToMessages,
+  type InboxParticipant
+} from '@/services/message-service';
 import { formatMessageTime, formatMessageDate, formatLastMessageTime } from '@/utils/date-format';
 import { toast } from "sonner";
 import { Toaster } from 'sonner';
+import { formatInZone, formatTimeRangeForBoth, getBrowserTimeZone } from '@/lib/timezones';
 
 interface Message {
   id: string;
@@ -21,23 +35,106 @@ interface Message {
   is_read: boolean;
 }
 
+interface ConversationBooking {
+  id: number;
+  start_time: string;
+  end_time: string;
+  platform: string;
+  special_request: string | null;
+  status: string;
+  package_id: number | null;
+  // Brand's zone when they booked
+  timezone: string | null;
+}
+
 interface Conversation {
   id: string;
   streamer_id: number;
   client_id: string;
   created_at: string;
+  // Set for a booking's own thread
+  booking_id: number | null;
   streamer: {
     id: number;
     first_name: string;
     last_name: string;
     image_url: string;
     user_id: string;
+    timezone: string | null;
   };
-  lastMessage?: Message;
+  // The brand, for the streamer's side of the inbox
+  client: {
+    id: string;
+    first_name: string | null;
+    last_name: string | null;
+    brand_name: string | null;
+    profile_picture_url: string | null;
+  } | null;
+  booking: ConversationBooking | null;
+  lastMessage?: Message | null;
+  // Unread messages from the other side
+  unreadCount: number;
+}
+
+// How long after the last keystroke the other side stops seeing "typing"
+const TYPING_IDLE_MS = 3000;
+
+// Realtime also delivers the messages this user sent
+function appendMessage(messages: Message[], message: Message) {
+  return messages.some(existing => existing.id === message.id) ? messages : [...messages, message];
+}
+
+// The booking a thread is about, pinned above its messages
+function BookingContext({ booking, otherTimeZone }: { booking: ConversationBooking; otherTimeZone: string | null }) {
+  const viewerTimeZone = getBrowserTimeZone();
+
+  return (
+    <div className="bg-white px-4 py-3 border-b border-gray-200 text-sm space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium text-gray-900">
+          {booking.package_id ? `Package #${booking.package_id}` : `Booking #${booking.id}`}
+        </span>
+        <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">
+          {booking.status.charAt(0).toUpperCase() + booking.status.slice(1)}
+        </span>
+      </div>
+      <div className="flex items-center gap-2 text-gray-600">
+        <Calendar className="h-4 w-4 text-gray-400 flex-shrink-0" />
+        <span>
+          {booking.package_id && 'First session: '}
+          {`${formatInZone(booking.start_time, viewerTimeZone, 'EEE, d MMM yyyy')} · ${formatTimeRangeForBoth(booking.start_time, booking.end_time, viewerTimeZone, otherTimeZone)}`}
+        </span>
+      </div>
+      <div className="flex items-center gap-2 text-gray-600">
+        <Monitor className="h-4 w-4 text-gray-400 flex-shrink-0" />
+        <span>{booking.platform}</span>
+      </div>
+      {booking.special_request && (
+        <div className="flex items-start gap-2 text-gray-600">
+          <MessageSquare className="h-4 w-4 text-gray-400 flex-shrink-0 mt-0.5" />
+          <span className="line-clamp-3">{booking.special_request}</span>
+        </div>
+      )}
+    </div>
+  );
 }
 
 export default function MessagesPage() {
+  return (
+    <Suspense fallback={
+      <div className="flex items-center justify-center h-screen">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    }>
+      <MessagesContent />
+    </Suspense>
+  );
+}
+
+function MessagesContent() {
   const router = useRouter();
+  // Set when a booking links straight into its thread
+  const bookingParam = useSearchParams().get('booking');
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState('');
@@ -45,7 +142,12 @@ export default function MessagesPage() {
   const [currentUser, setCurrentUser] = useState<any>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const [isMobileChat, setIsMobileChat] = useState(false);
-  const [userType, setUserType] = useState<'streamer' | 'client' | null>(null);
+  const [participant, setParticipant] = useState<InboxParticipant | null>(null);
+  // Other participants typing in the open thread
+  const [typingUserIds, setTypingUserIds] = useState<string[]>([]);
+  const typingPresenceRef = useRef<ReturnType<typeof joinTypingPresence> | null>(null);
+  const isTypingRef = useRef(false);
+  const typingTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
 
   useEffect(() => {
     const initializeChat = async () => {
@@ -57,63 +159,129 @@ export default function MessagesPage() {
         return;
       }
 
-      // Get user type
-      const { data: userData } = await supabase
-        .from('users')
-        .select('user_type')
-        .eq('id', user.id)
-        .single();
-
-      if (userData) {
-        setUserType(userData.user_type);
-      }
-
       setCurrentUser(user);
 
       try {
-        const { data: conversationsData } = await supabase
-          .from('conversations')
-          .select(`
-            *,
-            streamer:streamers (
-              id, first_name, last_name, image_url, user_id
-            ),
-            messages (
-              id, content, created_at, sender_id, conversation_id
-            )
-          `)
-          .eq('client_id', user.id)
-          .order('created_at', { ascending: false });
-
-        if (conversationsData) {
-          const processedConversations = conversationsData.map(conv => {
-            const messages = conv.messages || [];
-            const sortedMessages = messages.sort((a: Message, b: Message) => 
-              new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-            );
-            
-            return {
-              ...conv,
-              lastMessage: sortedMessages[0] || null
-            };
-          });
-
-          console.log('Processed conversations:', processedConversations);
-          setConversations(processedConversations);
-          
-          if (processedConversations.length > 0) {
-            setSelectedConversation(processedConversations[0]);
-            const messagesData = await getMessages(processedConversations[0].id);
-            setMessages(messagesData || []);
+        const inboxParticipant = await getInboxParticipant(user.id);
+        setParticipant(inboxParticipant);
+
+        // Make sure a booking's thread exists before listing the inbox
+        let bookingConversationId: string | null = null;
+        if (bookingParam) {
+          try {
+            bookingConversationId = (await getBookingConversation(Number(bookingParam))).id;
+            setIsMobileChat(true);
+          } catch (error) {
+            toast.error("Gagal membuka percakapan untuk pesanan ini.");
           }
         }
+
+        const conversationsData = await getConversations(inboxParticipant) as Conversation[];
+        console.log('Fetched conversations:', conversationsData);
+        setConversations(conversationsData);
+
+        const initialConversation = conversationsData.find(conv => conv.id === bookingConversationId)
+          ?? conversationsData[0];
+        
+        if (initialConversation) {
+          setSelectedConversation(initialConversation);
+          const messagesData = await getMessages(initialConversation.id);
+          setMessages(messagesData || []);
+        }
       } catch (error) {
         console.error('Error fetching conversations:', error);
       }
     };
 
     initializeChat();
-  }, []);
+  }, [bookingParam]);
+
+  const refreshConversations = useCallback(async () => {
+    if (!participant) return;
+
+    try {
+      setConversations(await getConversations(participant) as Conversation[]);
+    } catch (error) {
+      console.error('Error refreshing conversations:', error);
+    }
+  }, [participant]);
+
+  useEffect(() => {
+    if (!participant) return;
+
+    // New threads, e.g. for a booking that was just paid, and new or read
+    // messages, which move last messages and unread counts in the list
+    const conversationsSubscription = subscribeToConversations(participant, refreshConversations);
+    const messagesSubscription = subscribeToInboxMessages(participant.userId, 'inbox', refreshConversations);
+
+    return () => {
+      conversationsSubscription.unsubscribe();
+      messagesSubscription.unsubscribe();
+    };
+  }, [participant, refreshConversations]);
+
+  // Live messages, read receipts and typing in the open thread
+  useEffect(() => {
+    const conversationId = selectedConversation?.id;
+    const userId = currentUser?.id;
+    if (!conversationId || !userId) return;
+
+    // Only what the user can actually see counts as read
+    const markRead = async () => {
+      if (document.visibilityState !== 'visible') return;
+
+      setConversations(prev => prev.map(conv => conv.id === conversationId ? { ...conv, unreadCount: 0 } : conv));
+      try {
+        await markMessagesRead(conversationId, userId);
+      } catch (error) {
+        console.error('Error updating read receipts:', error);
+      }
+    };
+
+    markRead();
+
+    const messagesSubscription = subscribeToMessages(
+      conversationId,
+      (message) => {
+        setMessages(prev => appendMessage(prev, message));
+        if (message.sender_id !== userId) markRead();
+      },
+      (message) => {
+        setMessages(prev => prev.map(existing => existing.id === message.id ? { ...existing, ...message } : existing));
+      }
+    );
+
+    const typingPresence = joinTypingPresence(conversationId, userId, setTypingUserIds);
+    typingPresenceRef.current = typingPresence;
+    document.addEventListener('visibilitychange', markRead);
+
+    return () => {
+      document.removeEventListener('visibilitychange', markRead);
+      messagesSubscription.unsubscribe();
+      typingPresence.leave();
+      typingPresenceRef.current = null;
+      isTypingRef.current = false;
+      clearTimeout(typingTimeoutRef.current);
+      setTypingUserIds([]);
+    };
+  }, [selectedConversation?.id, currentUser?.id]);
+
+  const setTyping = (isTyping: boolean) => {
+    clearTimeout(typingTimeoutRef.current);
+    if (isTyping) {
+      typingTimeoutRef.current = setTimeout(() => setTyping(false), TYPING_IDLE_MS);
+    }
+
+    // Presence is only updated when the state changes, not on every keystroke
+    if (isTypingRef.current === isTyping) return;
+    isTypingRef.current = isTyping;
+    typingPresenceRef.current?.setTyping(isTyping);
+  };
+
+  const handleMessageChange = (value: string) => {
+    setNewMessage(value);
+    setTyping(value.trim().length > 0);
+  };
 
   useEffect(() => {
     // Scroll to bottom when messages update
@@ -177,17 +345,15 @@ export default function MessagesPage() {
     if (!newMessage.trim() || !selectedConversation || !currentUser) return;
 
     try {
-      await sendMessage({
+      const sentMessage = await sendMessage({
         conversation_id: selectedConversation.id,
         sender_id: currentUser.id,
         content: newMessage.trim()
       });
 
       setNewMessage('');
-      
-      // Refresh messages
-      const messagesData = await getMessages(selectedConversation.id);
-      setMessages(messagesData || []);
+      setTyping(false);
+      setMessages(prev => appendMessage(prev, sentMessage));
     } catch (error) {
       if (error instanceof Error && error.message === "FORBIDDEN_CONTENT") {
         toast.custom((t) => <WarningModal />, {
@@ -245,10 +411,15 @@ export default function MessagesPage() {
               }`}
             >
               <p className="text-sm">{message.content}</p>
-              <p className={`text-xs mt-1 ${
-                message.sender_id === currentUser?.id ? 'text-blue-100' : 'text-gray-500'
+              <p className={`text-xs mt-1 flex items-center gap-1 ${
+                message.sender_id === currentUser?.id ? 'text-blue-100 justify-end' : 'text-gray-500'
               }`}>
                 {formatMessageTime(message.created_at)}
+                {message.sender_id === currentUser?.id && (
+                  message.is_read
+                    ? <CheckCheck className="h-3.5 w-3.5" aria-label="Read" />
+                    : <Check className="h-3.5 w-3.5" aria-label="Sent" />
+                )}
               </p>
             </div>
           </div>
@@ -257,6 +428,9 @@ export default function MessagesPage() {
     });
   };
 
+  const counterpartOf = (conversation: Conversation) =>
+    participant ? getCounterpart(conversation, participant) : { name: '', imageUrl: null };
+
   const renderConversationList = () => (
     conversations.map((conversation) => (
       <div 
@@ -267,8 +441,8 @@ export default function MessagesPage() {
         onClick={() => handleConversationSelect(conversation)}
       >
         <Image
-          src={conversation.streamer.image_url || '/default-avatar.png'}
-          alt={`${conversation.streamer.first_name} ${conversation.streamer.last_name}`}
+          src={counterpartOf(conversation).imageUrl || '/default-avatar.png'}
+          alt={counterpartOf(conversation).name}
           width={48}
           height={48}
           className="rounded-full mr-4"
@@ -276,7 +450,7 @@ export default function MessagesPage() {
         <div className="flex-1">
           <div className="flex justify-between items-start">
             <h3 className="font-semibold text-base">
-              {`${conversation.streamer.first_name} ${conversation.streamer.last_name}`}
+              {counterpartOf(conversation).name}
             </h3>
             {conversation.lastMessage && (
               <span className="text-xs text-gray-500">
@@ -284,16 +458,28 @@ export default function MessagesPage() {
               </span>
             )}
           </div>
-          <p className="text-sm text-gray-500 truncate">
-            {conversation.lastMessage?.content || 'No messages yet'}
-          </p>
+          {conversation.booking && (
+            <p className="text-xs text-blue-700">
+              {conversation.booking.platform} · {formatInZone(conversation.booking.start_time, getBrowserTimeZone(), 'd MMM yyyy')}
+            </p>
+          )}
+          <div className="flex justify-between items-center gap-2">
+            <p className={`text-sm truncate ${conversation.unreadCount > 0 ? 'text-gray-900 font-medium' : 'text-gray-500'}`}>
+              {conversation.lastMessage?.content || 'No messages yet'}
+            </p>
+            {conversation.unreadCount > 0 && (
+              <span className="flex-shrink-0 min-w-[20px] h-5 px-1.5 rounded-full bg-blue-600 text-white text-xs flex items-center justify-center">
+                {conversation.unreadCount}
+              </span>
+            )}
+          </div>
         </div>
       </div>
     ))
   );
 
   const handleBackNavigation = () => {
-    if (userType === 'streamer') {
+    if (participant?.role === 'streamer') {
       router.push('/streamer-dashboard');
     } else {
       router.push('/protected');
@@ -320,7 +506,7 @@ export default function MessagesPage() {
               </Button>
             ) : (
               <Button 
-                onClick={() => router.push('/protected')}
+                onClick={handleBackNavigation}
                 variant="ghost" 
                 size="sm" 
                 className="mr-2 text-blue-600 hover:text-blue-700 hover:bg-blue-50"
@@ -358,18 +544,25 @@ export default function MessagesPage() {
               <div className="bg-white p-4 border-b border-gray-200">
                 <div className="flex items-center">
                   <Image
-                    src={selectedConversation.streamer.image_url || '/default-avatar.png'}
+                    src={counterpartOf(selectedConversation).imageUrl || '/default-avatar.png'}
                     alt="Profile"
                     width={40}
                     height={40}
                     className="rounded-full mr-3"
                   />
                   <span className="font-semibold text-base truncate">
-                    {`${selectedConversation.streamer.first_name} ${selectedConversation.streamer.last_name}`}
+                    {counterpartOf(selectedConversation).name}
                   </span>
                 </div>
               </div>
 
+              {selectedConversation.booking && (
+                <BookingContext
+                  booking={selectedConversation.booking}
+                  otherTimeZone={participant?.role === 'streamer' ? selectedConversation.booking.timezone : selectedConversation.streamer.timezone}
+                />
+              )}
+
               {/* Warning Banner */}
               <div className="bg-blue-50 p-3 text-sm text-blue-800 flex items-start border-b border-blue-100">
                 <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0 mt-0.5" />
@@ -384,6 +577,12 @@ export default function MessagesPage() {
                 <div ref={messagesEndRef} />
               </div>
 
+              {typingUserIds.length > 0 && (
+                <p className="bg-gray-50 px-4 pb-2 text-xs text-gray-500 italic">
+                  {counterpartOf(selectedConversation).name} is typing...
+                </p>
+              )}
+
               {/* Input */}
               <div className="bg-white p-4 border-t border-gray-200">
                 <div className="flex items-center gap-3">
@@ -391,7 +590,7 @@ export default function MessagesPage() {
                     type="text"
                     placeholder="Type a message..."
                     value={newMessage}
-                    onChange={(e) => setNewMessage(e.target.value)}
+                    onChange={(e) => handleMessageChange(e.target.value)}
                     className="flex-1 text-sm"
                     onKeyPress={(e) => e.key === 'Enter' && handleSendMessage()}
                   />
@@ -0,0 +1,436 @@
+"use client";
+
+import { Suspense } from 'react';
+import { Loader2 } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { createClient } from "@/utils/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { DEFAULT_TIMEZONE, formatInZone, formatTimeRangeForBoth, getBrowserTimeZone, getTimeZoneLabel } from '@/lib/timezones';
+import toast from 'react-hot-toast';
+import { MapPin, Star, Shield, Calendar, Monitor, AlertTriangle, ChevronLeft, Repeat, CheckCircle2 } from 'lucide-react';
+import { PaymentModal } from '@/components/payment-modal';
+import type { PriceBreakdown } from '@/services/payment/pricing';
+import type { OccurrenceConflict, PackageOccurrence, PackagePattern } from '@/services/booking/package-schedule';
+
+interface PackageQuote {
+  pattern: PackagePattern;
+  occurrences: PackageOccurrence[];
+  sessions: number;
+  sessionBreakdown: PriceBreakdown;
+  total: number;
+}
+
+// How long the checkout page waits for the webhook after Snap reports success
+const PAYMENT_STATUS_POLL_INTERVAL_MS = 2000;
+const PAYMENT_STATUS_MAX_POLLS = 15;
+
+const WEEKDAY_LABELS = ['Minggu', 'Senin', 'Selasa', 'Rabu', 'Kamis', 'Jumat', 'Sabtu'];
+
+const CONFLICT_LABELS: Record<OccurrenceConflict, string> = {
+  in_past: 'Sudah lewat',
+  outside_schedule: 'Di luar jadwal streamer',
+  off_grid: 'Di luar slot streamer',
+  day_off: 'Streamer libur',
+  booked: 'Sudah dipesan',
+};
+
+export default function PackageDetailPage() {
+  return (
+    <Suspense fallback={
+      <div className="container mx-auto p-4 flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    }>
+      <PackageDetailContent />
+    </Suspense>
+  );
+}
+
+function PackageDetailContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [quote, setQuote] = useState<PackageQuote | null>(null);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+  const [specialRequest, setSpecialRequest] = useState('');
+  const [subAccountLink, setSubAccountLink] = useState('');
+  const [subAccountPassword, setSubAccountPassword] = useState('');
+  const [paymentToken, setPaymentToken] = useState<string | null>(null);
+  const [checkoutUrl, setCheckoutUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const streamerName = searchParams?.get('streamerName') || '';
+  const platform = searchParams?.get('platform') || '';
+  const location = decodeURIComponent(searchParams?.get('location') || '');
+  const rating = Number(searchParams?.get('rating')) || 0;
+  const streamerTimeZone = searchParams?.get('streamerTimeZone') || DEFAULT_TIMEZONE;
+  const viewerTimeZone = getBrowserTimeZone();
+
+  // Occurrences and prices come from the server; the page only displays them
+  const fetchQuote = useCallback(async () => {
+    if (!searchParams) return;
+
+    const params = new URLSearchParams();
+    ['streamerId', 'startDate', 'weeks', 'weekdays', 'startHour', 'hours'].forEach(key => {
+      params.set(key, searchParams.get(key) || '');
+    });
+
+    const response = await fetch(`/api/packages/quote?${params.toString()}`);
+    const result = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      setQuote(null);
+      setQuoteError(result.error || 'Failed to calculate price');
+      return;
+    }
+
+    setQuoteError(null);
+    setQuote(result);
+  }, [searchParams]);
+
+  useEffect(() => {
+    fetchQuote();
+  }, [fetchQuote]);
+
+  const conflicts = quote?.occurrences.filter(occurrence => occurrence.conflict) ?? [];
+
+  const handleConfirmPackage = async () => {
+    if (!quote || conflicts.length > 0 || isLoading) return;
+
+    try {
+      setIsLoading(true);
+      const supabase = createClient();
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        toast.error('You must be logged in to confirm a booking.');
+        return;
+      }
+
+      const paymentResponse = await fetch('/api/packages/create', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          streamerId: searchParams?.get('streamerId'),
+          pattern: quote.pattern,
+          amount: quote.total,
+          clientName: `${user.user_metadata.first_name} ${user.user_metadata.last_name}`,
+          clientEmail: user.email,
+          platform,
+          specialRequest,
+          sub_acc_link: subAccountLink,
+          sub_acc_pass: subAccountPassword,
+          firstName: user.user_metadata.first_name,
+          lastName: user.user_metadata.last_name,
+          timeZone: viewerTimeZone
+        }),
+      });
+
+      if (paymentResponse.status === 409) {
+        toast.error('Some sessions were just booked by someone else. Please review the package.');
+        fetchQuote();
+        return;
+      }
+
+      if (!paymentResponse.ok) {
+        const { expectedAmount, error } = await paymentResponse.json().catch(() => ({}));
+        if (expectedAmount) {
+          fetchQuote();
+          toast.error(`The price has changed to Rp ${expectedAmount.toLocaleString()}. Please review your package.`);
+          return;
+        }
+        throw new Error(error || 'Failed to create payment token');
+      }
+
+      const paymentData = await paymentResponse.json();
+      if (!paymentData.token) {
+        throw new Error('No payment token received');
+      }
+
+      setCheckoutUrl(paymentData.gateway === 'fake' ? paymentData.redirectUrl : null);
+      setPaymentToken(paymentData.token);
+
+    } catch (error) {
+      console.error('Error initiating package payment:', error);
+      toast.error('Failed to initiate payment. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Snap's callback is not proof of payment; wait for the webhook to confirm
+  // every session of the package before telling the user it went through.
+  const handlePaymentSuccess = async (result: any) => {
+    setPaymentToken(null);
+    setIsProcessing(true);
+
+    try {
+      for (let attempt = 0; attempt < PAYMENT_STATUS_MAX_POLLS; attempt++) {
+        const response = await fetch(`/api/payments/status?orderId=${encodeURIComponent(result.order_id)}`);
+
+        if (response.ok) {
+          const status = await response.json();
+
+          if (status.confirmed) {
+            toast.success('Payment successful! Package request has been sent.');
+            router.push('/client-bookings');
+            return;
+          }
+
+          if (status.paymentStatus === 'failed' || status.paymentStatus === 'expired') {
+            toast.error('Payment failed. Please try again.');
+            return;
+          }
+        }
+
+        await new Promise(resolve => setTimeout(resolve, PAYMENT_STATUS_POLL_INTERVAL_MS));
+      }
+
+      toast.success('Payment received. Your package will be confirmed shortly.');
+      router.push('/client-bookings');
+    } catch (error) {
+      console.error('Error checking payment status:', error);
+      toast.error('Could not confirm your payment yet. Please check your bookings shortly.');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handlePaymentPending = () => {
+    toast.success('Payment pending. Please complete the payment.');
+  };
+
+  const handlePaymentError = () => {
+    toast.error('Payment failed. Please try again.');
+  };
+
+  const handlePaymentClose = () => {
+    setPaymentToken(null);
+  };
+
+  if (quoteError) {
+    return (
+      <div className="container mx-auto p-4 max-w-2xl mt-8 text-sm">
+        <p className="text-red-500 mb-4">{quoteError}</p>
+        <Button variant="outline" onClick={() => router.push('/protected')}>Kembali</Button>
+      </div>
+    );
+  }
+
+  if (!quote) {
+    return (
+      <div className="container mx-auto p-4 flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  const { pattern, sessionBreakdown } = quote;
+  // The pattern's hours are the streamer's wall-clock time
+  const sessionTime = `${String(pattern.startHour).padStart(2, '0')}:00 - ${String(pattern.startHour + pattern.hours).padStart(2, '0')}:00 ${getTimeZoneLabel(streamerTimeZone)}`;
+  const formatRate = (rate: number) => `${Math.round(rate * 1000) / 10}%`;
+
+  return (
+    <div className="container mx-auto p-3 sm:p-4 max-w-6xl font-sans text-xs sm:text-sm mt-4 sm:mt-8">
+      <div className="flex items-center gap-3 sm:gap-6 mb-4 sm:mb-8">
+        <ChevronLeft
+          className="h-5 w-5 sm:h-6 sm:w-6 text-red-500 cursor-pointer hover:text-red-600 transition-colors"
+          onClick={() => router.push('/protected')}
+        />
+        <h1 className="text-lg sm:text-2xl">Detail Paket</h1>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-4 sm:gap-6">
+        {/* Left Container */}
+        <div className="flex-1 space-y-4 sm:space-y-6">
+          <div className="border border-gray-200 rounded-lg p-3 sm:p-6">
+            <h2 className="text-base sm:text-xl mb-4 sm:mb-6">Informasi Paket</h2>
+            <div className="space-y-3 sm:space-y-5">
+              <div className="flex items-center gap-2 sm:gap-3">
+                <Repeat className="h-4 w-4 sm:h-5 sm:w-5 text-blue-600" />
+                <span className="text-sm sm:text-base">
+                  {`Setiap ${pattern.weekdays.map(day => WEEKDAY_LABELS[day]).join(', ')} selama ${pattern.weeks} minggu`}
+                </span>
+              </div>
+              <div className="flex items-center gap-2 sm:gap-3">
+                <Calendar className="h-4 w-4 sm:h-5 sm:w-5 text-blue-600" />
+                <span className="text-sm sm:text-base">{`${sessionTime} (${pattern.hours} jam per sesi)`}</span>
+              </div>
+              <div className="flex items-center gap-2 sm:gap-3">
+                <Monitor className="h-4 w-4 sm:h-5 sm:w-5 text-blue-600" />
+                <span className="text-sm sm:text-base">{platform}</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="border border-gray-200 rounded-lg p-3 sm:p-6">
+            <h2 className="text-base sm:text-xl mb-3 sm:mb-4">{`Jadwal Sesi (${quote.sessions})`}</h2>
+            {conflicts.length > 0 && (
+              <p className="mb-3 text-xs sm:text-sm text-red-600 bg-red-50 p-2 sm:p-3 rounded-lg">
+                {`${conflicts.length} sesi tidak tersedia. Ubah hari, jam, atau tanggal mulai paket sebelum melanjutkan.`}
+              </p>
+            )}
+            <div className="divide-y divide-gray-100">
+              {quote.occurrences.map(occurrence => (
+                <div key={occurrence.startTime} className="flex justify-between items-center py-2">
+                  <span>
+                    {formatInZone(occurrence.startTime, viewerTimeZone, 'EEE, d MMM yyyy')} · {formatTimeRangeForBoth(occurrence.startTime, occurrence.endTime, viewerTimeZone, streamerTimeZone)}
+                  </span>
+                  {occurrence.conflict ? (
+                    <span className="text-xs text-red-600">{CONFLICT_LABELS[occurrence.conflict]}</span>
+                  ) : (
+                    <CheckCircle2 className="h-4 w-4 text-green-600" />
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="border border-gray-200 rounded-lg p-3 sm:p-6">
+            <h2 className="text-base sm:text-xl mb-3 sm:mb-4">Permintaan Khusus</h2>
+            <Textarea
+              id="special-request"
+              placeholder="Ada permintaan khusus untuk streamer?"
+              value={specialRequest}
+              onChange={(e) => setSpecialRequest(e.target.value)}
+              className="mt-1 text-xs sm:text-sm"
+            />
+          </div>
+
+          <div className="border border-gray-200 rounded-lg p-3 sm:p-6">
+            <h2 className="text-base sm:text-xl mb-3 sm:mb-4">
+              {platform.toLowerCase() === 'shopee' ? 'Sub Account Details' : 'Login Account (Email/Username/Phone Number)'}
+            </h2>
+            <div className="space-y-3">
+              <div>
+                <Label>{platform.toLowerCase() === 'shopee' ? 'Sub Account ID' : 'Email/Username/Nomor Telepon'}</Label>
+                <Input
+                  className="mt-1 text-xs sm:text-sm"
+                  value={subAccountLink}
+                  onChange={(e) => setSubAccountLink(e.target.value)}
+                />
+              </div>
+              {platform.toLowerCase() === 'shopee' && (
+                <div>
+                  <Label>Sub Account Password</Label>
+                  <Input
+                    type="password"
+                    className="mt-1 text-xs sm:text-sm"
+                    value={subAccountPassword}
+                    onChange={(e) => setSubAccountPassword(e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="border border-gray-200 rounded-lg p-3 sm:p-6">
+            <div className="flex items-start gap-2 sm:gap-3">
+              <AlertTriangle className="h-4 w-4 sm:h-5 sm:w-5 text-red-500 flex-shrink-0 mt-1" />
+              <div>
+                <h2 className="text-base sm:text-xl mb-2">Penting!</h2>
+                <p className="text-xs sm:text-sm text-gray-600 leading-relaxed">
+                  Streamer menerima atau menolak paket sekaligus. Jika ditolak, seluruh pembayaran dikembalikan. Setelah diterima, setiap sesi dapat dibatalkan sendiri-sendiri dengan kebijakan pembatalan yang sama seperti pemesanan biasa.
+                </p>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Right Container */}
+        <div className="w-full md:w-1/3">
+          <div className="rounded-lg p-3 sm:p-6 sticky top-4">
+            <p className="text-xs text-gray-500 mb-2 font-bold">Informasi Streamer</p>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-base sm:text-lg">{streamerName}</h2>
+              <div className="flex items-center bg-yellow-50 px-2 py-1 rounded-lg">
+                <Star className="w-4 h-4 text-yellow-400 fill-current" />
+                <span className="ml-1 text-sm">{rating.toFixed(1)}</span>
+              </div>
+            </div>
+
+            <div className="flex items-center text-sm text-gray-600 mb-4">
+              <MapPin className="h-4 w-4 text-red-500 mr-2" />
+              <span>{location}</span>
+            </div>
+
+            <div className="h-2 bg-gray-100 -mx-3 sm:-mx-6 my-4" />
+
+            <p className="text-xs text-gray-500 mb-2 font-bold">Per sesi</p>
+            <div className="space-y-3">
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600 font-bold">{`Rp ${sessionBreakdown.hourlyRate.toLocaleString()} x ${sessionBreakdown.hours} jam`}</span>
+                <span>{`Rp ${sessionBreakdown.subtotal.toLocaleString()}`}</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600 font-bold">{`Biaya platform (${formatRate(sessionBreakdown.rates.commissionRate)})`}</span>
+                <span>{`Rp ${sessionBreakdown.platformFee.toLocaleString()}`}</span>
+              </div>
+              {sessionBreakdown.serviceFee > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600 font-bold">Biaya layanan</span>
+                  <span>{`Rp ${sessionBreakdown.serviceFee.toLocaleString()}`}</span>
+                </div>
+              )}
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600 font-bold">{`PPN (${formatRate(sessionBreakdown.rates.vatRate)})`}</span>
+                <span>{`Rp ${sessionBreakdown.tax.toLocaleString()}`}</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600 font-bold">{`Rp ${sessionBreakdown.total.toLocaleString()} x ${quote.sessions} sesi`}</span>
+                <span>{`Rp ${quote.total.toLocaleString()}`}</span>
+              </div>
+            </div>
+
+            <div className="h-2 bg-gray-100 -mx-3 sm:-mx-6 my-4" />
+
+            <div className="flex justify-between text-base sm:text-lg mb-6">
+              <span className="font-bold">Total</span>
+              <span className="font-bold">{`Rp ${quote.total.toLocaleString()}`}</span>
+            </div>
+
+            <Button
+              onClick={handleConfirmPackage}
+              disabled={isLoading || isProcessing || conflicts.length > 0}
+              className="w-full py-3 rounded-lg text-sm bg-gradient-to-r from-[#1e40af] to-[#6b21a8] hover:from-[#1e3a8a] hover:to-[#581c87] text-white"
+            >
+              {isProcessing ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Memverifikasi pembayaran
+                </>
+              ) : isLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Bayar
+                </>
+              ) : (
+                <>
+                  <Shield className="mr-2 h-4 w-4" />
+                  Konfirmasi Paket
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {paymentToken && (
+        <PaymentModal
+          token={paymentToken}
+          checkoutUrl={checkoutUrl}
+          onSuccess={handlePaymentSuccess}
+          onPending={handlePaymentPending}
+          onError={handlePaymentError}
+          onClose={handlePaymentClose}
+        />
+      )}
+    </div>
+  );
+}
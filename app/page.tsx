@@ -118,7 +118,7 @@ const faqData = [
   {
     id: 5,
     question: "Berapa biaya layanan Salda?",
-    answer: "Biaya layanan Salda bervariasi tergantung paket yang Anda pilih. Kami menawarkan paket mulai dari Rp500.000 per sesi. Setiap paket mencakup pendampingan, pelatihan, dan dukungan teknis penuh dari tim kami."
+    answer: "Harga sesi mengikuti tarif per jam masing-masing streamer, ditambah biaya platform sesuai kategori streamer dan PPN 11%. Rincian lengkap, termasuk biaya layanan jika ada, selalu ditampilkan di halaman pemesanan sebelum Anda membayar."
   }
 ];
 
@@ -12,6 +12,7 @@ import { Loader2, User, Mail, FileText, Camera, Youtube, AlertCircle, ChevronLef
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useRouter } from 'next/navigation';
 import { toast } from 'react-toastify';
+import { ServicePackagesEditor } from '@/components/service-packages-editor';
 
 const MAX_FILE_SIZE = 1 * 1024 * 1024; // 1MB in bytes
 
@@ -35,6 +36,10 @@ export default function SettingsPage() {
   const [firstName, setFirstName] = useState('');
   const [lastName, setLastName] = useState('');
   const [bio, setBio] = useState('');
+  const [brandName, setBrandName] = useState('');
+  const [npwp, setNpwp] = useState('');
+  const [npwpName, setNpwpName] = useState('');
+  const [npwpAddress, setNpwpAddress] = useState('');
   const [imageUrl, setImageUrl] = useState('');
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
@@ -54,7 +59,7 @@ export default function SettingsPage() {
     if (user) {
       const { data: userData, error: userError } = await supabase
         .from('users')
-        .select('first_name, last_name, bio, profile_picture_url, user_type')
+        .select('first_name, last_name, bio, profile_picture_url, user_type, brand_name, npwp, npwp_name, npwp_address')
         .eq('id', user.id)
         .single();
 
@@ -62,6 +67,10 @@ export default function SettingsPage() {
         setFirstName(userData.first_name || '');
         setLastName(userData.last_name || '');
         setBio(userData.bio || '');
+        setBrandName(userData.brand_name || '');
+        setNpwp(userData.npwp || '');
+        setNpwpName(userData.npwp_name || '');
+        setNpwpAddress(userData.npwp_address || '');
         setUserType(userData.user_type);
 
         if (userData.user_type === 'streamer') {
@@ -312,6 +321,62 @@ export default function SettingsPage() {
                 </p>
               </div>
 
+              {userType === 'client' && (
+                <div className="grid gap-4">
+                  <p className="text-sm font-medium text-gray-700">Invoice details</p>
+                  <div>
+                    <Label htmlFor="brandName" className="flex items-center text-sm text-gray-600">
+                      <FileText className="mr-2 h-4 w-4 text-blue-600" />
+                      Brand Name
+                    </Label>
+                    <Input
+                      id="brandName"
+                      name="brandName"
+                      value={brandName}
+                      onChange={(e) => setBrandName(e.target.value)}
+                      placeholder="Shown as the buyer on your invoices"
+                      className="mt-1 border-gray-200 focus:border-blue-600 focus:ring-blue-600"
+                    />
+                  </div>
+                  <div className="grid sm:grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="npwp" className="text-sm text-gray-600">NPWP</Label>
+                      <Input
+                        id="npwp"
+                        name="npwp"
+                        value={npwp}
+                        onChange={(e) => setNpwp(e.target.value)}
+                        placeholder="15 or 16 digits"
+                        className="mt-1 border-gray-200 focus:border-blue-600 focus:ring-blue-600"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="npwpName" className="text-sm text-gray-600">Name on NPWP</Label>
+                      <Input
+                        id="npwpName"
+                        name="npwpName"
+                        value={npwpName}
+                        onChange={(e) => setNpwpName(e.target.value)}
+                        className="mt-1 border-gray-200 focus:border-blue-600 focus:ring-blue-600"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <Label htmlFor="npwpAddress" className="text-sm text-gray-600">NPWP Address</Label>
+                    <Textarea
+                      id="npwpAddress"
+                      name="npwpAddress"
+                      value={npwpAddress}
+                      onChange={(e) => setNpwpAddress(e.target.value)}
+                      className="mt-1 border-gray-200 focus:border-blue-600 focus:ring-blue-600"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Invoices already issued keep the details they were issued with.
+                    </p>
+                  </div>
+                </div>
+              )}
+
               {userType === 'streamer' && (
                 <>
                   <div>
@@ -409,6 +474,17 @@ export default function SettingsPage() {
           </form>
         </CardContent>
       </Card>
+
+      {userType === 'streamer' && (
+        <Card className="border-0 shadow-lg mt-6">
+          <CardHeader className="border-b border-gray-100 bg-gray-50/50">
+            <CardTitle className="text-lg sm:text-xl font-semibold">Service Packages</CardTitle>
+          </CardHeader>
+          <CardContent className="p-6">
+            <ServicePackagesEditor />
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
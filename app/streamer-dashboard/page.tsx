@@ -5,12 +5,12 @@ import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { signOutAction, acceptBooking, rejectBooking, startStream, endStream } from "@/app/actions";
+import { signOutAction, acceptBooking, rejectBooking, acceptPackage, rejectPackage, startStream, endStream, cancelBooking } from "@/app/actions";
 import { useState, useEffect, useCallback } from 'react';
 import { toast, ToastContainer } from 'react-toastify';
 import 'react-toastify/dist/ReactToastify.css';
-import { format, isToday, isThisWeek, isThisMonth, parseISO, differenceInHours } from 'date-fns';
-import { Calendar, Clock, Monitor, DollarSign, MessageSquare, Link as LinkIcon, AlertTriangle, MapPin, Users, XCircle, Video } from 'lucide-react';
+import { format, isToday, isThisWeek, isThisMonth, parseISO, differenceInMinutes } from 'date-fns';
+import { Calendar, Clock, Monitor, DollarSign, MessageSquare, Link as LinkIcon, AlertTriangle, MapPin, Users, XCircle, Video, Repeat } from 'lucide-react';
 import Link from 'next/link';
 import {
   Dialog,
@@ -24,10 +24,16 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Navbar } from "@/components/ui/navbar";
+import { DEFAULT_TIMEZONE, formatTimeRangeForBoth, getBrowserTimeZone } from '@/lib/timezones';
+import { AcceptanceCountdown } from '@/components/acceptance-countdown';
+import { RescheduleRequestPanel } from '@/components/reschedule-request';
+import { getPendingReschedule, type RescheduleRequest } from '@/services/booking/reschedule';
 
 interface UserData {
   user_type: string;
   first_name: string;
+  // The streamer's own zone, which reschedule times are picked in
+  timezone?: string | null;
 }
 
 interface Booking {
@@ -45,6 +51,12 @@ interface Booking {
   stream_link?: string | null;
   sub_acc_link?: string | null;
   sub_acc_pass?: string | null;
+  package_id?: number | null;
+  // Brand's zone when they booked
+  timezone?: string | null;
+  // Deadline to accept before the booking is declined automatically
+  accept_by?: string | null;
+  reschedule_requests?: RescheduleRequest[];
 }
 
 // Add these utility functions at the top of the file
@@ -88,7 +100,20 @@ function SubAccountLink({ link }: { link: string }) {
   );
 }
 
-function ScheduleCard({ booking, onStreamStart, onStreamEnd }: { booking: Booking, onStreamStart: () => void, onStreamEnd: () => void }) {
+// Opens the booking's conversation with the brand
+function BookingThreadLink({ bookingId }: { bookingId: number }) {
+  return (
+    <Link
+      href={`/messages?booking=${bookingId}`}
+      className="mt-3 flex items-center gap-2 text-xs sm:text-sm text-[#E23744] hover:underline"
+    >
+      <MessageSquare className="h-3 w-3 sm:h-4 sm:w-4" />
+      Message brand
+    </Link>
+  );
+}
+
+function ScheduleCard({ booking, streamerTimeZone, onStreamStart, onStreamEnd, onCancel, onReschedule }: { booking: Booking, streamerTimeZone: string, onStreamStart: () => void, onStreamEnd: () => void, onCancel: () => void, onReschedule: () => void }) {
   console.log('Schedule Card Booking:', booking);
   const [isStartLiveModalOpen, setIsStartLiveModalOpen] = useState(false);
   const [streamLink, setStreamLink] = useState(booking.stream_link || '');
@@ -109,49 +134,26 @@ function ScheduleCard({ booking, onStreamStart, onStreamEnd }: { booking: Bookin
   };
 
   const handleEndStream = async () => {
-    try {
-      const supabase = createClient();
-      
-      // Get streamer data first
-      const { data: streamerData, error: streamerError } = await supabase
-        .from('streamers')
-        .select('first_name, last_name')
-        .eq('id', booking.streamer_id)
-        .single();
-
-      if (streamerError) throw streamerError;
-
-      // Update booking status
-      const { error: bookingError } = await supabase
-        .from('bookings')
-        .update({ 
-          status: 'completed',
-          stream_link: null
-        })
-        .eq('id', booking.id);
-
-      if (bookingError) throw bookingError;
-
-      // Create notification for client using streamerData
-      const { error: notificationError } = await supabase
-        .from('notifications')
-        .insert([{
-          user_id: booking.client_id,
-          message: `Stream session with ${streamerData.first_name} ${streamerData.last_name} has ended.`,
-          type: 'confirmation',
-          booking_id: booking.id,
-          created_at: new Date().toISOString(),
-          is_read: false
-        }]);
-
-      if (notificationError) throw notificationError;
+    const result = await endStream(booking.id);
 
+    if (result.success) {
       toast.success("Stream ended successfully");
       onStreamEnd();
+    } else {
+      toast.error(result.error || "Failed to end stream. Please try again.");
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!window.confirm('Cancel this booking? The brand will receive a full refund.')) return;
 
-    } catch (error) {
-      console.error('Error ending stream:', error);
-      toast.error("Failed to end stream. Please try again.");
+    const result = await cancelBooking(booking.id);
+
+    if (result.success) {
+      toast.success("Booking cancelled");
+      onCancel();
+    } else {
+      toast.error(result.error || "Failed to cancel booking");
     }
   };
 
@@ -190,9 +192,9 @@ function ScheduleCard({ booking, onStreamStart, onStreamEnd }: { booking: Bookin
         <div className="flex items-center gap-2">
           <Clock className="h-3 w-3 sm:h-4 sm:w-4 text-[#E23744]" />
           <span className="text-xs sm:text-sm text-gray-600">
-            {format(new Date(booking.start_time), 'HH:mm')} - {format(new Date(booking.end_time), 'HH:mm')}
+            {formatTimeRangeForBoth(booking.start_time, booking.end_time, getBrowserTimeZone(), booking.timezone)}
             <span className="text-gray-400 ml-1">
-              ({differenceInHours(new Date(booking.end_time), new Date(booking.start_time))} hours)
+              ({differenceInMinutes(new Date(booking.end_time), new Date(booking.start_time)) / 60} hours)
             </span>
           </span>
         </div>
@@ -218,6 +220,8 @@ function ScheduleCard({ booking, onStreamStart, onStreamEnd }: { booking: Bookin
         )}
       </div>
 
+      <BookingThreadLink bookingId={booking.id} />
+
       {/* Add Credentials section here - only for accepted bookings */}
       {booking.status === 'accepted' && booking.platform.toLowerCase() === 'shopee' && (
         <div className="mt-3 border-t border-gray-100 pt-3">
@@ -259,6 +263,26 @@ function ScheduleCard({ booking, onStreamStart, onStreamEnd }: { booking: Bookin
         </Button>
       )}
 
+      {booking.status === 'accepted' && (
+        <Button
+          onClick={handleCancel}
+          variant="outline"
+          className="mt-2 w-full py-1.5 sm:py-2 text-xs sm:text-sm font-medium text-gray-600"
+        >
+          <XCircle className="h-3 w-3 sm:h-4 sm:w-4 mr-2" />
+          Cancel Booking
+        </Button>
+      )}
+
+      <RescheduleRequestPanel
+        booking={booking}
+        request={getPendingReschedule(booking.reschedule_requests)}
+        viewer="streamer"
+        streamerTimeZone={streamerTimeZone}
+        otherTimeZone={booking.timezone}
+        onChange={onReschedule}
+      />
+
       {/* Start Live Modal - update to include credentials */}
       <Dialog open={isStartLiveModalOpen} onOpenChange={setIsStartLiveModalOpen}>
         <DialogContent>
@@ -304,10 +328,13 @@ function ScheduleCard({ booking, onStreamStart, onStreamEnd }: { booking: Bookin
   );
 }
 
-function UpcomingSchedule({ bookings, onStreamStart, onStreamEnd }: { 
+function UpcomingSchedule({ bookings, streamerTimeZone, onStreamStart, onStreamEnd, onCancel, onReschedule }: { 
   bookings: Booking[], 
+  streamerTimeZone: string,
   onStreamStart: () => void, 
-  onStreamEnd: () => void 
+  onStreamEnd: () => void,
+  onCancel: () => void,
+  onReschedule: () => void
 }) {
   // Add console.log to debug the data
   console.log('Upcoming Schedule Bookings:', bookings);
@@ -345,6 +372,9 @@ function UpcomingSchedule({ bookings, onStreamStart, onStreamEnd }: {
             booking={booking} 
             onStreamStart={onStreamStart} 
             onStreamEnd={onStreamEnd}
+            streamerTimeZone={streamerTimeZone}
+            onCancel={onCancel}
+            onReschedule={onReschedule}
           />
         )) : (
           <p className="text-center text-gray-500 py-6 bg-gray-50 rounded-lg text-sm">
@@ -359,6 +389,9 @@ function UpcomingSchedule({ bookings, onStreamStart, onStreamEnd }: {
             booking={booking} 
             onStreamStart={onStreamStart} 
             onStreamEnd={onStreamEnd}
+            streamerTimeZone={streamerTimeZone}
+            onCancel={onCancel}
+            onReschedule={onReschedule}
           />
         )) : (
           <p className="text-center text-gray-500 py-6 bg-gray-50 rounded-lg text-sm">
@@ -373,6 +406,9 @@ function UpcomingSchedule({ bookings, onStreamStart, onStreamEnd }: {
             booking={booking} 
             onStreamStart={onStreamStart} 
             onStreamEnd={onStreamEnd}
+            streamerTimeZone={streamerTimeZone}
+            onCancel={onCancel}
+            onReschedule={onReschedule}
           />
         )) : (
           <p className="text-center text-gray-500 py-6 bg-gray-50 rounded-lg text-sm">
@@ -423,9 +459,9 @@ function BookingCard({ booking, onAccept, onReject }: {
               <Clock className="h-5 w-5 text-gray-400" />
             </div>
             <span>
-              {format(new Date(booking.start_time), 'HH:mm')} - {format(new Date(booking.end_time), 'HH:mm')}
+              {formatTimeRangeForBoth(booking.start_time, booking.end_time, getBrowserTimeZone(), booking.timezone)}
               <span className="text-gray-400 ml-2">
-                ({differenceInHours(new Date(booking.end_time), new Date(booking.start_time))} hours)
+                ({differenceInMinutes(new Date(booking.end_time), new Date(booking.start_time)) / 60} hours)
               </span>
             </span>
           </div>
@@ -454,6 +490,8 @@ function BookingCard({ booking, onAccept, onReject }: {
           </div>
         )}
 
+        <BookingThreadLink bookingId={booking.id} />
+
         {/* Actions */}
         {booking.status === 'pending' && (
           <div className="flex gap-3 mt-6 pt-4 border-t border-gray-100">
@@ -529,7 +567,7 @@ export default function StreamerDashboard() {
       // First, try to get the streamer data
       const { data: streamerData, error: streamerError } = await supabase
         .from('streamers')
-        .select('id, user_id, first_name')
+        .select('id, user_id, first_name, timezone')
         .eq('user_id', user.id)
         .single();
 
@@ -542,7 +580,7 @@ export default function StreamerDashboard() {
       let bookingsQuery;
       if (streamerData) {
         // User is a streamer
-        setUserData({ user_type: 'streamer', first_name: streamerData.first_name });
+        setUserData({ user_type: 'streamer', first_name: streamerData.first_name, timezone: streamerData.timezone });
         bookingsQuery = supabase
           .from('bookings')
           .select(`
@@ -550,7 +588,8 @@ export default function StreamerDashboard() {
             client_first_name,
             client_last_name,
             sub_acc_link,
-            sub_acc_pass
+            sub_acc_pass,
+            reschedule_requests:booking_reschedule_requests (*)
           `)
           .eq('streamer_id', streamerData.id)
           .not('status', 'eq', 'payment_pending')
@@ -657,7 +696,16 @@ export default function StreamerDashboard() {
     };
   }, [fetchData]);
 
-  const pendingBookings = bookings.filter(booking => booking.status === 'pending');
+  // Sessions of a package are answered together, so they are listed per package
+  const pendingBookings = bookings.filter(booking => booking.status === 'pending' && !booking.package_id);
+  const pendingPackages = Object.values(
+    bookings
+      .filter(booking => booking.status === 'pending' && booking.package_id)
+      .reduce<Record<number, Booking[]>>((packages, booking) => {
+        (packages[booking.package_id!] ||= []).push(booking);
+        return packages;
+      }, {})
+  );
   const rejectedBookings = bookings.filter(booking => booking.status === 'rejected');
   const acceptedBookings = bookings.filter(booking => booking.status === 'accepted' || booking.status === 'live');
 
@@ -706,6 +754,26 @@ export default function StreamerDashboard() {
     }
   };
 
+  const handleAcceptPackage = async (packageId: number) => {
+    const result = await acceptPackage(packageId);
+    if (result.success) {
+      toast.success(`Package accepted (${result.accepted} sessions)`);
+      fetchData();
+    } else {
+      toast.error(result.error || "Failed to accept package");
+    }
+  };
+
+  const handleRejectPackage = async (packageId: number) => {
+    const result = await rejectPackage(packageId);
+    if (result.success) {
+      toast.success("Package rejected and refunded");
+      fetchData();
+    } else {
+      toast.error(result.error || "Failed to reject package");
+    }
+  };
+
   const handleStreamStart = useCallback(() => {
     fetchData();
   }, [fetchData]);
@@ -714,6 +782,10 @@ export default function StreamerDashboard() {
     fetchData();
   }, [fetchData]);
 
+  const handleBookingCancelled = useCallback(() => {
+    fetchData();
+  }, [fetchData]);
+
   if (isLoading) {
     return <div>Loading...</div>;
   }
@@ -766,6 +838,11 @@ export default function StreamerDashboard() {
               icon={XCircle}
             />
           </div>
+          <div className="flex justify-end mt-2">
+            <Link href="/streamer-earnings" className="text-xs sm:text-sm text-[#E23744] hover:underline">
+              View earnings &amp; payouts →
+            </Link>
+          </div>
         </div>
 
         {/* Upcoming Schedule Card - Reduced padding and font sizes */}
@@ -776,8 +853,11 @@ export default function StreamerDashboard() {
           <CardContent className="p-3 sm:p-6">
             <UpcomingSchedule 
               bookings={acceptedBookings} 
+              streamerTimeZone={userData.timezone ?? DEFAULT_TIMEZONE}
               onStreamStart={handleStreamStart} 
               onStreamEnd={handleStreamEnd} 
+              onCancel={handleBookingCancelled}
+              onReschedule={fetchData}
             />
           </CardContent>
         </Card>
@@ -807,6 +887,79 @@ export default function StreamerDashboard() {
               {/* Update the booking cards to be more compact */}
               <TabsContent value="pending">
                 <div className="space-y-3 sm:space-y-4">
+                  {pendingPackages.map((sessions) => (
+                    <div key={sessions[0].package_id} className="bg-white rounded-lg shadow-sm border border-gray-100 hover:border-[#E23744]/20 transition-all duration-200 p-3 sm:p-4">
+                      <div className="flex justify-between items-start mb-3">
+                        <div className="space-y-1">
+                          <h3 className="font-bold text-sm sm:text-base">
+                            {sessions[0].client_first_name} {sessions[0].client_last_name}
+                          </h3>
+                          <div className="flex items-center gap-2">
+                            <Repeat className="h-3 w-3 sm:h-4 sm:w-4 text-[#E23744]" />
+                            <span className="text-xs sm:text-sm text-gray-600">Package · {sessions.length} sessions</span>
+                          </div>
+                          {sessions[0].accept_by && (
+                            <AcceptanceCountdown
+                              acceptBy={sessions[0].accept_by}
+                              label="Accept within"
+                              expiredLabel="Deadline passed, declining automatically"
+                              className="flex"
+                            />
+                          )}
+                        </div>
+                        <span className="text-[10px] sm:text-xs px-2 py-1 rounded-full font-medium bg-gradient-to-r from-yellow-500 to-yellow-600 text-white">
+                          Pending
+                        </span>
+                      </div>
+
+                      <div className="space-y-2 text-xs sm:text-sm text-gray-600">
+                        <div className="flex items-center gap-2">
+                          <DollarSign className="h-3 w-3 sm:h-4 sm:w-4 text-[#E23744]" />
+                          <span>Rp {sessions.reduce((sum, session) => sum + session.price, 0).toLocaleString('id-ID')}</span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Monitor className="h-3 w-3 sm:h-4 sm:w-4 text-[#E23744]" />
+                          <span>{sessions[0].platform}</span>
+                        </div>
+                        <ul className="pl-5 space-y-1">
+                          {sessions.map((session) => (
+                            <li key={session.id} className="flex items-center gap-2">
+                              <Calendar className="h-3 w-3 text-gray-400" />
+                              {format(new Date(session.start_time), 'EEE, MMM d')} · {formatTimeRangeForBoth(session.start_time, session.end_time, getBrowserTimeZone(), session.timezone)}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+
+                      {sessions[0].special_request && (
+                        <div className="mt-3 p-2 sm:p-3 bg-gray-50 rounded-lg space-y-1">
+                          <p className="text-xs sm:text-sm font-medium text-gray-700 flex items-center gap-2">
+                            <MessageSquare className="h-3 w-3 sm:h-4 sm:w-4 text-[#E23744]" />
+                            Special Request
+                          </p>
+                          <p className="text-xs sm:text-sm text-gray-600">{sessions[0].special_request}</p>
+                        </div>
+                      )}
+
+                      <BookingThreadLink bookingId={sessions[0].id} />
+
+                      <div className="flex gap-2 mt-4 pt-3 border-t border-gray-100">
+                        <Button
+                          onClick={() => handleAcceptPackage(sessions[0].package_id!)}
+                          className="flex-1 text-xs sm:text-sm py-2 bg-gradient-to-r from-[#E23744] to-[#E23744]/90 hover:from-[#E23744]/90 hover:to-[#E23744] text-white"
+                        >
+                          Accept Package
+                        </Button>
+                        <Button
+                          onClick={() => handleRejectPackage(sessions[0].package_id!)}
+                          variant="outline"
+                          className="flex-1 text-xs sm:text-sm py-2 border-2 border-[#E23744] text-[#E23744] hover:bg-[#E23744]/10"
+                        >
+                          Reject Package
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
                   {pendingBookings.map((booking) => (
                     <div key={booking.id} className="bg-white rounded-lg shadow-sm border border-gray-100 hover:border-[#E23744]/20 transition-all duration-200 p-3 sm:p-4">
                       {/* Header */}
@@ -819,6 +972,14 @@ export default function StreamerDashboard() {
                             <MapPin className="h-3 w-3 sm:h-4 sm:w-4 text-[#E23744]" />
                             <span className="text-xs sm:text-sm text-gray-600">Jakarta, Indonesia</span>
                           </div>
+                          {booking.accept_by && (
+                            <AcceptanceCountdown
+                              acceptBy={booking.accept_by}
+                              label="Accept within"
+                              expiredLabel="Deadline passed, declining automatically"
+                              className="flex"
+                            />
+                          )}
                         </div>
                         <span className="text-[10px] sm:text-xs px-2 py-1 rounded-full font-medium bg-gradient-to-r from-yellow-500 to-yellow-600 text-white">
                           {booking.status.charAt(0).toUpperCase() + booking.status.slice(1)}
@@ -838,9 +999,9 @@ export default function StreamerDashboard() {
                         <div className="flex items-center gap-2">
                           <Clock className="h-3 w-3 sm:h-4 sm:w-4 text-[#E23744]" />
                           <span>
-                            {format(new Date(booking.start_time), 'HH:mm')} - {format(new Date(booking.end_time), 'HH:mm')}
+                            {formatTimeRangeForBoth(booking.start_time, booking.end_time, getBrowserTimeZone(), booking.timezone)}
                             <span className="text-gray-400 ml-1">
-                              ({differenceInHours(new Date(booking.end_time), new Date(booking.start_time))} hours)
+                              ({differenceInMinutes(new Date(booking.end_time), new Date(booking.start_time)) / 60} hours)
                             </span>
                           </span>
                         </div>
@@ -895,6 +1056,8 @@ export default function StreamerDashboard() {
                         </div>
                       )}
 
+                      <BookingThreadLink bookingId={booking.id} />
+
                       {/* Action Buttons */}
                       {booking.status === 'pending' && (
                         <div className="flex gap-2 mt-4 pt-3 border-t border-gray-100">
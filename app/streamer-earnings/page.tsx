@@ -0,0 +1,279 @@
+"use client";
+
+import { createClient } from "@/utils/supabase/client";
+import { useRouter } from "next/navigation";
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { ChevronLeft, Clock, Wallet, Banknote } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Navbar } from "@/components/ui/navbar";
+import { requestPayout } from "@/app/actions";
+
+interface Balance {
+  pending: number;
+  available: number;
+}
+
+interface PayoutRequest {
+  id: number;
+  amount: number;
+  bank_name: string;
+  account_number: string;
+  status: 'requested' | 'paid' | 'rejected';
+  admin_note: string | null;
+  created_at: string;
+}
+
+interface LedgerEntry {
+  id: number;
+  account: string;
+  booking_id: number | null;
+  debit: number;
+  credit: number;
+  created_at: string;
+  journal: {
+    entry_type: string;
+  };
+}
+
+const entryLabels: Record<string, string> = {
+  booking_captured: 'Booking paid',
+  booking_refunded: 'Booking refunded',
+  earnings_released: 'Stream completed',
+  payout_requested: 'Payout requested',
+  payout_rejected: 'Payout rejected',
+};
+
+const payoutStatusStyles: Record<PayoutRequest['status'], string> = {
+  requested: 'bg-yellow-100 text-yellow-800',
+  paid: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+const formatRupiah = (amount: number) => `Rp ${Number(amount).toLocaleString('id-ID')}`;
+
+export default function StreamerEarningsPage() {
+  const router = useRouter();
+  const [balance, setBalance] = useState<Balance>({ pending: 0, available: 0 });
+  const [payouts, setPayouts] = useState<PayoutRequest[]>([]);
+  const [entries, setEntries] = useState<LedgerEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchEarnings = useCallback(async () => {
+    const supabase = createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      router.push('/sign-in');
+      return;
+    }
+
+    const { data: streamer } = await supabase
+      .from('streamers')
+      .select('id')
+      .eq('user_id', user.id)
+      .single();
+
+    if (!streamer) {
+      router.push('/protected');
+      return;
+    }
+
+    const [balanceResult, payoutsResult, entriesResult] = await Promise.all([
+      supabase
+        .from('streamer_balances')
+        .select('pending, available')
+        .eq('streamer_id', streamer.id)
+        .maybeSingle(),
+      supabase
+        .from('payout_requests')
+        .select('id, amount, bank_name, account_number, status, admin_note, created_at')
+        .eq('streamer_id', streamer.id)
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('ledger_entries')
+        .select('id, account, booking_id, debit, credit, created_at, journal:ledger_journals (entry_type)')
+        .eq('streamer_id', streamer.id)
+        .in('account', ['streamer_pending', 'streamer_payable'])
+        .order('created_at', { ascending: false })
+        .limit(50)
+    ]);
+
+    if (balanceResult.error || payoutsResult.error || entriesResult.error) {
+      console.error('Error fetching earnings:', balanceResult.error || payoutsResult.error || entriesResult.error);
+      toast.error('Failed to load earnings');
+    }
+
+    setBalance({
+      pending: Number(balanceResult.data?.pending ?? 0),
+      available: Number(balanceResult.data?.available ?? 0)
+    });
+    setPayouts(payoutsResult.data || []);
+    setEntries((entriesResult.data as unknown as LedgerEntry[]) || []);
+    setIsLoading(false);
+  }, [router]);
+
+  useEffect(() => {
+    fetchEarnings();
+  }, [fetchEarnings]);
+
+  const handlePayoutRequest = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+
+    setIsSubmitting(true);
+    const result = await requestPayout(new FormData(form));
+    setIsSubmitting(false);
+
+    if (result.error) {
+      toast.error(result.error);
+      return;
+    }
+
+    toast.success('Payout requested. We will transfer it after review.');
+    form.reset();
+    fetchEarnings();
+  };
+
+  if (isLoading) {
+    return <div>Loading...</div>;
+  }
+
+  return (
+    <div className="flex flex-col min-h-screen w-full">
+      <Navbar />
+      <div className="flex-grow w-full max-w-4xl mx-auto px-3 sm:px-6 lg:px-8 py-4 sm:py-6 space-y-4 sm:space-y-6">
+        <div className="flex items-center gap-2">
+          <Button
+            onClick={() => router.push('/streamer-dashboard')}
+            variant="ghost"
+            size="sm"
+            className="text-gray-600 hover:text-gray-800 p-0"
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </Button>
+          <h1 className="text-lg sm:text-2xl font-bold">Earnings</h1>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 sm:gap-4">
+          <Card className="border-none shadow-xs">
+            <CardContent className="p-3 sm:p-6">
+              <div className="flex items-center gap-2 text-xs sm:text-sm text-gray-600">
+                <Wallet className="h-4 w-4 text-[#E23744]" />
+                Available
+              </div>
+              <p className="text-lg sm:text-2xl font-bold mt-1">{formatRupiah(balance.available)}</p>
+              <p className="text-[10px] sm:text-xs text-gray-500 mt-1">From completed streams, ready to withdraw</p>
+            </CardContent>
+          </Card>
+          <Card className="border-none shadow-xs">
+            <CardContent className="p-3 sm:p-6">
+              <div className="flex items-center gap-2 text-xs sm:text-sm text-gray-600">
+                <Clock className="h-4 w-4 text-[#E23744]" />
+                Pending
+              </div>
+              <p className="text-lg sm:text-2xl font-bold mt-1">{formatRupiah(balance.pending)}</p>
+              <p className="text-[10px] sm:text-xs text-gray-500 mt-1">Paid bookings that have not streamed yet</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="border-none shadow-xs">
+          <CardHeader className="p-4 sm:p-6 border-b">
+            <CardTitle className="text-base sm:text-lg font-bold flex items-center gap-2">
+              <Banknote className="h-5 w-5 text-[#E23744]" />
+              Request Payout
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-4 sm:p-6">
+            <form onSubmit={handlePayoutRequest} className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="amount">Amount (Rp)</Label>
+                <Input id="amount" name="amount" type="number" min={1} max={balance.available} required />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="bank_name">Bank</Label>
+                <Input id="bank_name" name="bank_name" placeholder="BCA, Mandiri, BNI..." required />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="account_number">Account number</Label>
+                <Input id="account_number" name="account_number" inputMode="numeric" required />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="account_holder_name">Account holder name</Label>
+                <Input id="account_holder_name" name="account_holder_name" required />
+              </div>
+              <div className="sm:col-span-2">
+                <Button
+                  type="submit"
+                  disabled={isSubmitting || balance.available <= 0}
+                  className="w-full bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 text-white text-sm"
+                >
+                  {isSubmitting ? 'Submitting...' : 'Request Payout'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card className="border-none shadow-xs">
+          <CardHeader className="p-4 sm:p-6 border-b">
+            <CardTitle className="text-base sm:text-lg font-bold">Payouts</CardTitle>
+          </CardHeader>
+          <CardContent className="p-4 sm:p-6 space-y-2">
+            {payouts.length > 0 ? payouts.map(payout => (
+              <div key={payout.id} className="flex justify-between items-center border-b last:border-b-0 pb-2">
+                <div>
+                  <p className="text-sm font-medium">{formatRupiah(payout.amount)}</p>
+                  <p className="text-xs text-gray-500">
+                    {payout.bank_name} {payout.account_number} · {format(new Date(payout.created_at), 'dd MMM yyyy')}
+                  </p>
+                  {payout.admin_note && <p className="text-xs text-gray-500">{payout.admin_note}</p>}
+                </div>
+                <span className={`px-2 py-0.5 rounded-full text-xs ${payoutStatusStyles[payout.status]}`}>
+                  {payout.status}
+                </span>
+              </div>
+            )) : (
+              <p className="text-center text-gray-500 py-4 text-sm">No payouts yet.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="border-none shadow-xs">
+          <CardHeader className="p-4 sm:p-6 border-b">
+            <CardTitle className="text-base sm:text-lg font-bold">History</CardTitle>
+          </CardHeader>
+          <CardContent className="p-4 sm:p-6 space-y-2">
+            {entries.length > 0 ? entries.map(entry => {
+              const amount = Number(entry.credit) - Number(entry.debit);
+              return (
+                <div key={entry.id} className="flex justify-between items-center border-b last:border-b-0 pb-2">
+                  <div>
+                    <p className="text-sm">
+                      {entryLabels[entry.journal?.entry_type] ?? entry.journal?.entry_type}
+                      {entry.booking_id && <span className="text-gray-400"> · Booking #{entry.booking_id}</span>}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {entry.account === 'streamer_pending' ? 'Pending' : 'Available'} · {format(new Date(entry.created_at), 'dd MMM yyyy HH:mm')}
+                    </p>
+                  </div>
+                  <span className={`text-sm font-medium ${amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {amount >= 0 ? '+' : '-'}{formatRupiah(Math.abs(amount))}
+                  </span>
+                </div>
+              );
+            }) : (
+              <p className="text-center text-gray-500 py-4 text-sm">No earnings yet.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -4,35 +4,30 @@ import { useEffect, useState, useCallback, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from "@/components/ui/button";
 import { createClient } from "@/utils/supabase/client";
-import { format, startOfWeek, addDays, addWeeks, subWeeks, isSameDay } from 'date-fns';
+import { format, startOfWeek, addDays, addHours, addWeeks, subWeeks } from 'date-fns';
 import { ChevronLeft, ChevronRight, ChevronDown, ChevronUp, Save } from "lucide-react";
 import toast from 'react-hot-toast'; // Update this import
-
-interface ScheduleSlot {
-  id: string;
-  dayOfWeek: number;
-  startTime: string;
-  endTime: string;
-  isAvailable: boolean;
-}
-
-interface DayOff {
-  id: string;
-  date: string;
-}
+import { DEFAULT_TIMEZONE, getTimeZoneLabel, zonedTimeToUtc } from '@/lib/timezones';
+import {
+  DEFAULT_SLOT_MINUTES,
+  formatTimeOfDay,
+  isWithinWindows,
+  joinWindows,
+  SLOT_MINUTE_OPTIONS,
+  subtractWindow,
+  type SlotMinutes
+} from '@/services/booking/slots';
+import type { Availability, AvailabilityDay, WeeklyAvailability } from '@/services/booking/availability';
+import { saveWeeklyAvailability, setDayOff } from '@/app/actions';
+import { AvailabilityExceptionsEditor } from '@/components/availability-exceptions-editor';
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
 interface TimeSlot {
   label: string;
   hours: number[];
 }
 
-interface AcceptedBooking {
-  id: string;
-  booking_date: string;
-  start_time: string;
-  end_time: string;
-}
-
 const timeSlots: TimeSlot[] = [
   { label: "Night", hours: [0, 1, 2, 3, 4, 5] },
   { label: "Morning", hours: [6, 7, 8, 9, 10, 11] },
@@ -41,10 +36,16 @@ const timeSlots: TimeSlot[] = [
 ];
 
 export default function StreamerSchedulePage() {
+  const [streamerId, setStreamerId] = useState<number | null>(null);
   const [streamerName, setStreamerName] = useState('');
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIMEZONE);
+  const [slotMinutes, setSlotMinutes] = useState<SlotMinutes>(DEFAULT_SLOT_MINUTES);
   const [currentWeek, setCurrentWeek] = useState(() => startOfWeek(new Date()));
-  const [schedule, setSchedule] = useState<ScheduleSlot[]>([]);
-  const [daysOff, setDaysOff] = useState<DayOff[]>([]);
+  // Weekly template being edited; saved as a whole with Save Schedule
+  const [weekly, setWeekly] = useState<WeeklyAvailability | null>(null);
+  // Days off and booked time of the week on screen
+  const [days, setDays] = useState<AvailabilityDay[]>([]);
+  const [busy, setBusy] = useState<Availability['busy']>([]);
   const [expandedDay, setExpandedDay] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [selectionStart, setSelectionStart] = useState<number | null>(null);
@@ -52,200 +53,119 @@ export default function StreamerSchedulePage() {
   const router = useRouter();
   const scheduleRef = useRef<HTMLDivElement>(null);
   const [isSaving, setIsSaving] = useState(false);
-  const [acceptedBookings, setAcceptedBookings] = useState<AcceptedBooking[]>([]);
+  const isTemplateLoaded = useRef(false);
+  // Remounts the exceptions list when a day off is toggled from the week view
+  const [exceptionsVersion, setExceptionsVersion] = useState(0);
 
   const fetchStreamerData = useCallback(async () => {
     const supabase = createClient();
     const { data: { user } } = await supabase.auth.getUser();
     
     if (user) {
-      const { data, error } = await supabase
+      const { data } = await supabase
         .from('streamers')
         .select('id, first_name, last_name')
         .eq('user_id', user.id)
         .single();
 
       if (data) {
+        setStreamerId(data.id);
         setStreamerName(`${data.first_name} ${data.last_name}`);
-        return data.id;
+        return;
       }
     }
-    return null;
+    setIsLoading(false);
   }, []);
 
-  const fetchScheduleAndDaysOff = useCallback(async () => {
-    setIsLoading(true);
-    const supabase = createClient();
-    const streamerId = await fetchStreamerData();
-    
-    if (streamerId) {
-      // Fetch schedule
-      const { data: scheduleData, error: scheduleError } = await supabase
-        .from('streamer_schedule')
-        .select('*')
-        .eq('streamer_id', streamerId);
-
-      if (scheduleError) {
-        toast.error("Error fetching schedule: " + scheduleError.message);
-      } else if (scheduleData) {
-        setSchedule(scheduleData.map(slot => ({
-          ...slot,
-          startTime: slot.start_time,
-          endTime: slot.end_time,
-          dayOfWeek: slot.day_of_week,
-          isAvailable: slot.is_available
-        })));
-      }
-
-      // Fetch days off
-      const { data: daysOffData, error: daysOffError } = await supabase
-        .from('streamer_day_offs')
-        .select('*')
-        .eq('streamer_id', streamerId);
-
-      if (daysOffError) {
-        toast.error("Error fetching days off: " + daysOffError.message);
-      } else if (daysOffData) {
-        setDaysOff(daysOffData);
-      }
-
-      // Fetch accepted bookings
-      const weekStart = format(currentWeek, 'yyyy-MM-dd');
-      const weekEnd = format(addDays(currentWeek, 6), 'yyyy-MM-dd');
-      const { data: bookingsData, error: bookingsError } = await supabase
-        .from('accepted_bookings')
-        .select('*')
-        .eq('streamer_id', streamerId)
-        .gte('booking_date', weekStart)
-        .lte('booking_date', weekEnd);
-
-      if (bookingsError) {
-        toast.error("Error fetching accepted bookings: " + bookingsError.message);
-      } else if (bookingsData) {
-        setAcceptedBookings(bookingsData);
+  useEffect(() => {
+    fetchStreamerData();
+  }, [fetchStreamerData]);
+
+  // Unsaved changes to the template survive moving between weeks
+  const fetchAvailability = useCallback(async (resetTemplate = false) => {
+    if (!streamerId) return;
+
+    const query = new URLSearchParams({
+      streamerId: streamerId.toString(),
+      from: format(currentWeek, 'yyyy-MM-dd'),
+      to: format(addDays(currentWeek, 6), 'yyyy-MM-dd'),
+    });
+    const response = await fetch(`/api/availability?${query.toString()}`);
+    const data = await response.json();
+
+    if (!response.ok) {
+      toast.error("Error fetching schedule: " + data.error);
+    } else {
+      const availability = data as Availability;
+      setTimeZone(availability.timeZone);
+      setDays(availability.days);
+      setBusy(availability.busy);
+      if (resetTemplate || !isTemplateLoaded.current) {
+        isTemplateLoaded.current = true;
+        setSlotMinutes(availability.slotMinutes);
+        setWeekly(availability.weekly);
       }
     }
     setIsLoading(false);
-  }, [fetchStreamerData, currentWeek]);
+  }, [streamerId, currentWeek]);
 
   useEffect(() => {
-    fetchScheduleAndDaysOff();
-  }, [fetchScheduleAndDaysOff, currentWeek]);
-
-  const toggleAvailability = useCallback(async (dayOfWeek: number, hour: number) => {
-    const supabase = createClient();
-    const streamerId = await fetchStreamerData();
-    
-    if (streamerId) {
-      const currentDate = addDays(currentWeek, dayOfWeek);
-      const formattedDate = format(currentDate, 'yyyy-MM-dd');
-      const startTime = `${hour.toString().padStart(2, '0')}:00:00`;
-      const endTime = `${(hour + 1).toString().padStart(2, '0')}:00:00`;
-
-      // Check if the slot is booked
-      const isBooked = acceptedBookings.some(b => 
-        b.booking_date === formattedDate &&
-        b.start_time <= startTime &&
-        b.end_time > startTime
-      );
-
-      if (isBooked) {
-        toast.error("Cannot modify a booked slot.");
-        return;
-      }
+    fetchAvailability();
+  }, [fetchAvailability]);
+
+  const isHourAvailable = useCallback((dayOfWeek: number, hour: number) =>
+    isWithinWindows(weekly?.[dayOfWeek] ?? [], hour * 60, (hour + 1) * 60),
+  [weekly]);
+
+  const isHourBooked = useCallback((date: string, hour: number) => {
+    const hourStart = zonedTimeToUtc(date, `${hour.toString().padStart(2, '0')}:00`, timeZone);
+    const hourEnd = addHours(hourStart, 1);
+    return busy.some(booking => new Date(booking.start) < hourEnd && new Date(booking.end) > hourStart);
+  }, [busy, timeZone]);
+
+  const toggleAvailability = useCallback((dayOfWeek: number, hour: number) => {
+    if (!weekly) return;
+
+    const formattedDate = format(addDays(currentWeek, dayOfWeek), 'yyyy-MM-dd');
+    if (isHourBooked(formattedDate, hour)) {
+      toast.error("Cannot modify a booked slot.");
+      return;
+    }
 
-      if (selectionStart === null) {
-        // Start new selection
-        setSelectionStart(hour);
-        setSelectionEnd(hour);
-      } else if (hour === selectionStart) {
-        // Cancel selection if clicking on the start hour again
-        setSelectionStart(null);
-        setSelectionEnd(null);
-      } else {
-        // Complete the selection
-        const startHour = Math.min(selectionStart, hour);
-        const endHour = Math.max(selectionStart, hour);
-
-        const updatedSchedule = [...schedule];
-        
-        // Determine whether to set or unset availability based on the majority
-        const rangeSlots = updatedSchedule.filter(s => 
-          s.dayOfWeek === dayOfWeek && 
-          parseInt(s.startTime) >= startHour && 
-          parseInt(s.startTime) <= endHour
-        );
-        const availableCount = rangeSlots.filter(s => s.isAvailable).length;
-        const isSettingAvailable = availableCount <= rangeSlots.length / 2;
-
-        for (let i = startHour; i <= endHour; i++) {
-          const startTime = `${i.toString().padStart(2, '0')}:00:00`;
-          const endTime = `${(i + 1).toString().padStart(2, '0')}:00:00`;
-
-          const existingSlotIndex = updatedSchedule.findIndex(s => 
-            s.dayOfWeek === dayOfWeek && 
-            s.startTime === startTime && 
-            s.endTime === endTime
-          );
-
-          if (existingSlotIndex !== -1) {
-            updatedSchedule[existingSlotIndex].isAvailable = isSettingAvailable;
-          } else {
-            updatedSchedule.push({
-              id: `temp-${Date.now()}-${i}`,
-              dayOfWeek,
-              startTime,
-              endTime,
-              isAvailable: isSettingAvailable
-            });
-          }
-        }
-
-        setSchedule(updatedSchedule);
-
-        try {
-          const promises = [];
-          for (let i = startHour; i <= endHour; i++) {
-            const startTime = `${i.toString().padStart(2, '0')}:00:00`;
-            const endTime = `${(i + 1).toString().padStart(2, '0')}:00:00`;
-
-            const existingSlot = schedule.find(s => 
-              s.dayOfWeek === dayOfWeek && 
-              s.startTime === startTime && 
-              s.endTime === endTime
-            );
-
-            if (existingSlot) {
-              promises.push(supabase
-                .from('streamer_schedule')
-                .update({ is_available: isSettingAvailable })
-                .eq('id', existingSlot.id));
-            } else {
-              promises.push(supabase
-                .from('streamer_schedule')
-                .insert({
-                  streamer_id: streamerId,
-                  day_of_week: dayOfWeek,
-                  start_time: startTime,
-                  end_time: endTime,
-                  is_available: isSettingAvailable
-                }));
-            }
-          }
-
-          await Promise.all(promises);
-        } catch (error) {
-          console.error('Error toggling availability:', error);
-          toast.error("An unexpected error occurred. Please try again.");
-          fetchScheduleAndDaysOff();
-        }
-
-        // Reset selection
-        setSelectionStart(null);
-        setSelectionEnd(null);
-      }
+    if (selectionStart === null) {
+      // Start new selection
+      setSelectionStart(hour);
+      setSelectionEnd(hour);
+    } else if (hour === selectionStart) {
+      // Cancel selection if clicking on the start hour again
+      setSelectionStart(null);
+      setSelectionEnd(null);
+    } else {
+      // Complete the selection
+      const startHour = Math.min(selectionStart, hour);
+      const endHour = Math.max(selectionStart, hour);
+
+      // Determine whether to set or unset availability based on the majority
+      const rangeHours = Array.from({ length: endHour - startHour + 1 }, (_, i) => startHour + i);
+      const availableCount = rangeHours.filter(h => isHourAvailable(dayOfWeek, h)).length;
+      const isSettingAvailable = availableCount <= rangeHours.length / 2;
+
+      const dayWindows = weekly[dayOfWeek] ?? [];
+      const rangeStart = startHour * 60;
+      const rangeEnd = (endHour + 1) * 60;
+
+      setWeekly({
+        ...weekly,
+        [dayOfWeek]: isSettingAvailable
+          ? joinWindows([...dayWindows, { start: formatTimeOfDay(rangeStart), end: formatTimeOfDay(rangeEnd) }])
+          : subtractWindow(dayWindows, rangeStart, rangeEnd)
+      });
+
+      // Reset selection
+      setSelectionStart(null);
+      setSelectionEnd(null);
     }
-  }, [fetchStreamerData, schedule, fetchScheduleAndDaysOff, selectionStart, currentWeek, acceptedBookings]);
+  }, [weekly, currentWeek, selectionStart, isHourAvailable, isHourBooked]);
 
   const handleHourMouseEnter = useCallback((hour: number) => {
     if (selectionStart !== null) {
@@ -274,161 +194,53 @@ export default function StreamerSchedulePage() {
   const toggleDayOff = useCallback(async (e: React.MouseEvent, date: Date) => {
     e.preventDefault();
     e.stopPropagation();
-    const supabase = createClient();
-    const streamerId = await fetchStreamerData();
-    
-    if (streamerId) {
-      const formattedDate = format(date, 'yyyy-MM-dd');
-      const existingDayOff = daysOff.find(d => d.date === formattedDate);
-
-      try {
-        if (existingDayOff) {
-          // Remove day off (set to working)
-          await supabase
-            .from('streamer_day_offs')
-            .delete()
-            .eq('id', existingDayOff.id);
-          setDaysOff(daysOff.filter(d => d.id !== existingDayOff.id));
-        } else {
-          // Add day off
-          const { data, error } = await supabase
-            .from('streamer_day_offs')
-            .insert({
-              streamer_id: streamerId,
-              date: formattedDate
-            })
-            .select()
-            .single();
-          
-          if (error) throw error;
-          setDaysOff([...daysOff, data]);
-        }
-      } catch (error) {
-        console.error('Error toggling day off:', error);
-        toast.error("An unexpected error occurred. Please try again.");
-      }
+
+    const formattedDate = format(date, 'yyyy-MM-dd');
+    const isDayOff = !days.find(d => d.date === formattedDate)?.isDayOff;
+    const result = await setDayOff(formattedDate, isDayOff);
+
+    if (result.error) {
+      console.error('Error toggling day off:', result.error);
+      toast.error(result.error);
+      return;
     }
-  }, [fetchStreamerData, daysOff]);
+
+    // The day's hours may now come from the template or other exceptions
+    fetchAvailability();
+    setExceptionsVersion(version => version + 1);
+  }, [days, fetchAvailability]);
 
   const saveSchedule = async () => {
+    if (!weekly) return;
+
     setIsSaving(true);
-    const supabase = createClient();
-    const streamerId = await fetchStreamerData();
-    
-    if (streamerId) {
-      try {
-        // Prepare the schedule data
-        const scheduleData = Array.from({ length: 7 }, (_, day) => {
-          const currentDate = addDays(currentWeek, day);
-          const formattedDate = format(currentDate, 'yyyy-MM-dd');
-          const dayBookings = acceptedBookings.filter(b => b.booking_date === formattedDate);
-          
-          return {
-            day,
-            slots: schedule
-              .filter(slot => slot.dayOfWeek === day && slot.isAvailable)
-              .map(slot => ({ 
-                start: slot.startTime, 
-                end: slot.endTime,
-                isBooked: dayBookings.some(b => 
-                  b.start_time <= slot.startTime && b.end_time > slot.startTime
-                )
-              }))
-          };
-        });
-
-        // Check if an active schedule exists
-        const { data: existingSchedule, error: checkError } = await supabase
-          .from('streamer_active_schedules')
-          .select('id')
-          .eq('streamer_id', streamerId)
-          .single();
-
-        if (checkError && checkError.code !== 'PGRST116') {
-          throw checkError;
-        }
-
-        let activeScheduleError;
-        if (existingSchedule) {
-          // Update existing schedule
-          const { error } = await supabase
-            .from('streamer_active_schedules')
-            .update({ schedule: JSON.stringify(scheduleData) })
-            .eq('streamer_id', streamerId);
-          activeScheduleError = error;
-        } else {
-          // Insert new schedule
-          const { error } = await supabase
-            .from('streamer_active_schedules')
-            .insert({ streamer_id: streamerId, schedule: JSON.stringify(scheduleData) });
-          activeScheduleError = error;
-        }
-
-        if (activeScheduleError) throw activeScheduleError;
-
-        // Update streamer_schedule table
-        const { error: deleteError } = await supabase
-          .from('streamer_schedule')
-          .delete()
-          .eq('streamer_id', streamerId);
-
-        if (deleteError) throw deleteError;
-
-        const { error: insertError } = await supabase
-          .from('streamer_schedule')
-          .insert(
-            schedule.map(slot => ({
-              streamer_id: streamerId,
-              day_of_week: slot.dayOfWeek,
-              start_time: slot.startTime,
-              end_time: slot.endTime,
-              is_available: slot.isAvailable
-            }))
-          );
-
-        if (insertError) throw insertError;
-
-        // Update streamer_day_offs table
-        const { error: daysOffError } = await supabase
-          .from('streamer_day_offs')
-          .upsert(
-            daysOff.map(dayOff => ({
-              streamer_id: streamerId,
-              date: dayOff.date
-            })),
-            { onConflict: 'streamer_id,date' }
-          );
-
-        if (daysOffError) throw daysOffError;
-
-        console.log('Schedule saved successfully, showing toast...');
-        
-        toast.success('You\'ve successfully updated your schedule.', {
-          duration: 5000,
-        });
-
-        // Refresh the schedule data after saving
-        fetchScheduleAndDaysOff();
-      } catch (error) {
-        console.error('Error saving schedule:', error);
-        
-        toast.error('Failed to save and activate the schedule. Please try again.', {
-          duration: 5000,
-        });
-      } finally {
-        setIsSaving(false);
-      }
+    const result = await saveWeeklyAvailability(weekly, slotMinutes);
+    setIsSaving(false);
+
+    if (result.error) {
+      console.error('Error saving schedule:', result.error);
+      toast.error('Failed to save and activate the schedule. Please try again.', {
+        duration: 5000,
+      });
+      return;
     }
+
+    toast.success('You\'ve successfully updated your schedule.', {
+      duration: 5000,
+    });
+
+    // Refresh the schedule data after saving
+    fetchAvailability(true);
   };
 
   const renderDaySchedule = useCallback((day: number) => {
     const currentDate = addDays(currentWeek, day);
     const formattedDate = format(currentDate, 'yyyy-MM-dd');
-    const isDayOff = daysOff.some(d => d.date === formattedDate);
+    const availabilityDay = days.find(d => d.date === formattedDate);
+    const isDayOff = availabilityDay?.isDayOff ?? false;
+    const hasExceptions = !isDayOff && (availabilityDay?.exceptions.length ?? 0) > 0;
     const isExpanded = expandedDay === day;
 
-    const dayBookings = acceptedBookings.filter(b => b.booking_date === formattedDate);
-
     const toggleExpand = (e: React.MouseEvent) => {
       e.preventDefault();
       setExpandedDay(isExpanded ? null : day);
@@ -442,6 +254,7 @@ export default function StreamerSchedulePage() {
         >
           <div className="flex items-center">
             <span className="text-sm font-medium text-gray-900">{format(currentDate, 'EEE, MMM d')}</span>
+            {hasExceptions && <span className="ml-2 text-[10px] text-orange-600">Exception</span>}
           </div>
           <div className="flex items-center">
             <Button
@@ -457,16 +270,19 @@ export default function StreamerSchedulePage() {
         </div>
         {isExpanded && !isDayOff && (
           <div className="p-3 bg-white border-t border-gray-200">
+            {hasExceptions && availabilityDay && (
+              <p className="text-xs text-orange-600 mb-3">
+                Exceptions apply on this date. Bookable: {availabilityDay.windows.length > 0
+                  ? availabilityDay.windows.map(w => `${w.start} - ${w.end}`).join(', ')
+                  : 'none'}. The hours below are your weekly schedule.
+              </p>
+            )}
             {timeSlots.map((timeSlot) => (
               <div key={timeSlot.label} className="mb-3">
                 <h4 className="text-xs font-medium text-gray-700 mb-1">{timeSlot.label}</h4>
                 <div className="grid grid-cols-6 gap-1">
                   {timeSlot.hours.map((hour) => {
-                    const startTime = `${hour.toString().padStart(2, '0')}:00:00`;
-                    const slot = schedule.find(s => s.dayOfWeek === day && s.startTime === startTime);
-                    const isBooked = dayBookings.some(b => 
-                      b.start_time <= startTime && b.end_time > startTime
-                    );
+                    const isBooked = isHourBooked(formattedDate, hour);
                     const isInSelectionRange = selectionStart !== null && selectionEnd !== null && 
                       ((hour >= selectionStart && hour <= selectionEnd) || (hour <= selectionStart && hour >= selectionEnd));
                     return (
@@ -477,7 +293,7 @@ export default function StreamerSchedulePage() {
                         className={`p-1 h-8 text-xs ${
                           isBooked
                             ? 'bg-red-500 text-white cursor-not-allowed'
-                            : slot?.isAvailable 
+                            : isHourAvailable(day, hour)
                               ? 'bg-blue-500 text-white hover:bg-blue-600'
                               : isInSelectionRange
                               ? 'bg-blue-200 hover:bg-blue-300'
@@ -498,7 +314,7 @@ export default function StreamerSchedulePage() {
         )}
       </div>
     );
-  }, [currentWeek, daysOff, expandedDay, schedule, toggleAvailability, toggleDayOff, selectionStart, selectionEnd, handleHourMouseEnter, acceptedBookings]);
+  }, [currentWeek, days, expandedDay, isHourAvailable, isHourBooked, toggleAvailability, toggleDayOff, selectionStart, selectionEnd, handleHourMouseEnter]);
 
   if (isLoading) {
     return <div className="text-center py-10 text-sm text-gray-600">Loading...</div>;
@@ -506,7 +322,10 @@ export default function StreamerSchedulePage() {
 
   return (
     <div className="container mx-auto p-4 max-w-3xl" ref={scheduleRef}>
-      <h1 className="text-2xl font-medium text-gray-900 mb-4">{streamerName}'s Schedule</h1>
+      <h1 className="text-2xl font-medium text-gray-900 mb-1">{streamerName}'s Schedule</h1>
+      <p className="text-xs text-gray-500 mb-4">
+        Hours are in {getTimeZoneLabel(timeZone)} ({timeZone}). Brands in other time zones see them converted to their own clock.
+      </p>
       <div className="flex justify-between items-center mb-4">
         <Button 
           onClick={() => setCurrentWeek(subWeeks(currentWeek, 1))}
@@ -531,6 +350,27 @@ export default function StreamerSchedulePage() {
       <div className="space-y-2 mb-4">
         {Array.from({ length: 7 }, (_, day) => renderDaySchedule(day))}
       </div>
+      <div className="mb-4 p-3 border border-gray-200 rounded-md">
+        <h2 className="text-xs font-medium text-gray-700 mb-1">Exceptions</h2>
+        <p className="text-xs text-gray-500 mb-3">Time off, days with different hours, and extra hours outside your weekly schedule.</p>
+        <AvailabilityExceptionsEditor key={exceptionsVersion} onChange={() => fetchAvailability()} />
+      </div>
+      <div className="flex items-center justify-between gap-2 mb-4 p-3 border border-gray-200 rounded-md">
+        <div>
+          <Label htmlFor="slot-minutes" className="text-xs font-medium text-gray-700">Booking slot length</Label>
+          <p className="text-xs text-gray-500">Brands can start and end bookings on this grid within your available hours.</p>
+        </div>
+        <Select value={String(slotMinutes)} onValueChange={(value) => setSlotMinutes(Number(value) as SlotMinutes)}>
+          <SelectTrigger id="slot-minutes" className="w-32 h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SLOT_MINUTE_OPTIONS.map((minutes) => (
+              <SelectItem key={minutes} value={String(minutes)}>{minutes} minutes</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
       <div className="flex justify-between items-center">
         <Button 
           onClick={() => router.push('/streamer-dashboard')} 
@@ -0,0 +1,45 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { Timer } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+// Time left until a pending booking's accept_by, ticking every second
+function formatRemaining(milliseconds: number) {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+}
+
+export function AcceptanceCountdown({ acceptBy, label, expiredLabel, className }: {
+  acceptBy: string;
+  label: string;
+  // Shown once the deadline passes, until the booking is declined
+  expiredLabel: string;
+  className?: string;
+}) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const remaining = new Date(acceptBy).getTime() - now;
+  // The last ten minutes are highlighted
+  const isUrgent = remaining < 10 * 60 * 1000;
+
+  return (
+    <span className={cn(
+      'inline-flex items-center gap-1 text-xs font-medium',
+      isUrgent ? 'text-red-600' : 'text-yellow-700',
+      className
+    )}>
+      <Timer className="h-3.5 w-3.5" />
+      {remaining > 0 ? `${label} ${formatRemaining(remaining)}` : expiredLabel}
+    </span>
+  );
+}
@@ -0,0 +1,179 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import toast from 'react-hot-toast';
+import { format, parseISO } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  createAvailabilityException,
+  deleteAvailabilityException,
+  getMyAvailabilityExceptions
+} from "@/app/actions";
+import type { AvailabilityException, AvailabilityExceptionKind } from '@/services/booking/availability';
+
+const KIND_LABELS: Record<AvailabilityExceptionKind, string> = {
+  off: 'Time off',
+  only: 'Only available',
+  extra: 'Extra hours',
+};
+
+const KIND_HINTS: Record<AvailabilityExceptionKind, string> = {
+  off: 'Leave the hours empty to take whole days off, e.g. for Lebaran.',
+  only: 'On these days brands can only book the hours below, whatever your weekly schedule says.',
+  extra: 'Adds the hours below to your weekly schedule on these days.',
+};
+
+function formatExceptionDates(exception: AvailabilityException) {
+  const start = format(parseISO(exception.start_date), 'EEE, MMM d');
+  return exception.start_date === exception.end_date
+    ? start
+    : `${start} - ${format(parseISO(exception.end_date), 'EEE, MMM d')}`;
+}
+
+function formatExceptionHours(exception: AvailabilityException) {
+  if (!exception.start_time || !exception.end_time) return 'All day';
+  return `${exception.start_time.slice(0, 5)} - ${exception.end_time.slice(0, 5)}`;
+}
+
+// Date-ranged overrides of the weekly schedule. `onChange` runs after every
+// change so the week on screen can be reloaded.
+export function AvailabilityExceptionsEditor({ onChange }: { onChange?: () => void }) {
+  const [exceptions, setExceptions] = useState<AvailabilityException[]>([]);
+  const [kind, setKind] = useState<AvailabilityExceptionKind>('off');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [processingId, setProcessingId] = useState<number | null>(null);
+
+  const fetchExceptions = useCallback(async () => {
+    const result = await getMyAvailabilityExceptions();
+
+    if (result.error) {
+      toast.error(result.error);
+    } else {
+      setExceptions((result.exceptions as AvailabilityException[]) || []);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchExceptions();
+  }, [fetchExceptions]);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+
+    setIsSaving(true);
+    const result = await createAvailabilityException(new FormData(form));
+    setIsSaving(false);
+
+    if (result.error) {
+      toast.error(result.error);
+      return;
+    }
+
+    toast.success('Exception added');
+    form.reset();
+    setKind('off');
+    fetchExceptions();
+    onChange?.();
+  };
+
+  const handleDelete = async (exception: AvailabilityException) => {
+    setProcessingId(exception.id);
+    const result = await deleteAvailabilityException(exception.id);
+    setProcessingId(null);
+
+    if (result.error) {
+      toast.error(result.error);
+      return;
+    }
+
+    fetchExceptions();
+    onChange?.();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {exceptions.length > 0 ? exceptions.map(exception => (
+          <div key={exception.id} className="flex justify-between items-start gap-2 border-b last:border-b-0 pb-2 text-xs">
+            <div>
+              <p className="font-medium text-gray-900">
+                {KIND_LABELS[exception.kind]} · {formatExceptionDates(exception)}
+              </p>
+              <p className="text-gray-500">
+                {formatExceptionHours(exception)}
+                {exception.note && ` · ${exception.note}`}
+              </p>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-6 text-xs text-red-600 border-red-200 hover:bg-red-50"
+              disabled={processingId === exception.id}
+              onClick={() => handleDelete(exception)}
+            >
+              Remove
+            </Button>
+          </div>
+        )) : (
+          <p className="text-center text-gray-500 py-2 text-xs">No upcoming exceptions. Your weekly schedule applies every day.</p>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="grid grid-cols-2 gap-2 text-xs border-t pt-3">
+        <div className="col-span-2 flex gap-1">
+          {(Object.keys(KIND_LABELS) as AvailabilityExceptionKind[]).map(option => (
+            <Button
+              key={option}
+              type="button"
+              variant="outline"
+              size="sm"
+              className={`h-7 text-xs ${kind === option ? 'bg-[#000080] text-white' : ''}`}
+              onClick={() => setKind(option)}
+            >
+              {KIND_LABELS[option]}
+            </Button>
+          ))}
+        </div>
+        <input type="hidden" name="kind" value={kind} />
+        <p className="col-span-2 text-gray-500">{KIND_HINTS[kind]}</p>
+        <div className="space-y-1">
+          <Label htmlFor="exception_start_date" className="text-xs">From</Label>
+          <Input id="exception_start_date" name="start_date" type="date" className="h-8 text-xs" required />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="exception_end_date" className="text-xs">Until (optional)</Label>
+          <Input id="exception_end_date" name="end_date" type="date" className="h-8 text-xs" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="exception_start_time" className="text-xs">Start time</Label>
+          <Input id="exception_start_time" name="start_time" type="time" step={900} className="h-8 text-xs" required={kind !== 'off'} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="exception_end_time" className="text-xs">End time</Label>
+          <Input id="exception_end_time" name="end_time" type="time" step={900} className="h-8 text-xs" required={kind !== 'off'} />
+        </div>
+        <div className="space-y-1 col-span-2">
+          <Label htmlFor="exception_note" className="text-xs">Note (optional)</Label>
+          <Input id="exception_note" name="note" placeholder="Libur Lebaran" className="h-8 text-xs" />
+        </div>
+        <Button type="submit" size="sm" disabled={isSaving} className="col-span-2 text-xs bg-blue-600 hover:bg-blue-700 text-white">
+          {isSaving ? 'Saving...' : 'Add Exception'}
+        </Button>
+      </form>
+    </div>
+  );
+}
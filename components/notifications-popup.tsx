@@ -29,7 +29,7 @@ interface Notification {
   user_id: string;
   message: string;
   created_at: string;
-  type: 'confirmation' | 'info' | 'warning' | 'booking_request' | 'stream_started' | 'stream_ended';
+  type: 'confirmation' | 'info' | 'warning' | 'booking_request' | 'booking_cancelled' | 'stream_started' | 'stream_ended' | 'reschedule';
   is_read: boolean;
 }
 
@@ -139,8 +139,6 @@ export function NotificationsPopup() {
           return `${booking.client_first_name} ${booking.client_last_name} has booked your services for ${format(startTime, 'dd MMMM HH:mm')} - ${format(endTime, 'HH:mm')} (${duration} hours)`;
         case 'booking_payment':
           return `Payment confirmed for booking with ${booking.client_first_name} ${booking.client_last_name} (${format(startTime, 'dd MMMM')})`;
-        case 'booking_cancelled':
-          return `Booking cancelled by ${booking.client_first_name} ${booking.client_last_name} for ${format(startTime, 'dd MMMM')}`;
         default:
           return notification.message;
       }
@@ -222,6 +220,8 @@ export function NotificationsPopup() {
                      notification.type === 'info' && notification.message.includes('has booked your services') ? 'New Booking Request' :
                      notification.type === 'info' ? 'Information' : 
                      notification.type === 'warning' ? 'Warning' : 
+                     notification.type === 'booking_cancelled' ? 'Booking Cancelled' :
+                     notification.type === 'reschedule' ? 'Reschedule Request' :
                      notification.type === 'stream_started' ? 'Stream Started' :
                      notification.type === 'stream_ended' ? 'Stream Ended' :
                      'Notification'}
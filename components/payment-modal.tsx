@@ -5,6 +5,9 @@ import Script from 'next/script';
 
 interface PaymentModalProps {
   token: string;
+  // Set when the fake gateway handles checkout; its page is framed here
+  // instead of opening Snap
+  checkoutUrl?: string | null;
   onSuccess: (result: any) => void;
   onPending: (result: any) => void;
   onError: (result: any) => void;
@@ -17,8 +20,13 @@ declare global {
   }
 }
 
+const SNAP_SCRIPT_URL = process.env.NEXT_PUBLIC_MIDTRANS_IS_PRODUCTION === 'true'
+  ? 'https://app.midtrans.com/snap/snap.js'
+  : 'https://app.sandbox.midtrans.com/snap/snap.js';
+
 export function PaymentModal({
   token,
+  checkoutUrl,
   onSuccess,
   onPending,
   onError,
@@ -27,6 +35,8 @@ export function PaymentModal({
   const snapInitialized = useRef(false);
 
   useEffect(() => {
+    if (checkoutUrl) return;
+
     if (window.snap && token && !snapInitialized.current) {
       snapInitialized.current = true;
       window.snap.pay(token, {
@@ -48,13 +58,52 @@ export function PaymentModal({
         }
       });
     }
-  }, [token, onSuccess, onPending, onError, onClose]);
+  }, [token, checkoutUrl, onSuccess, onPending, onError, onClose]);
+
+  // The fake checkout page reports back with the same events Snap fires
+  useEffect(() => {
+    if (!checkoutUrl) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.origin !== window.location.origin || event.data?.source !== 'fake-checkout') return;
+
+      switch (event.data.event) {
+        case 'success':
+          onSuccess(event.data.result);
+          break;
+        case 'pending':
+          onPending(event.data.result);
+          break;
+        case 'error':
+          onError(event.data.result);
+          break;
+        case 'close':
+          onClose();
+          break;
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [checkoutUrl, onSuccess, onPending, onError, onClose]);
+
+  if (checkoutUrl) {
+    return (
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+        <iframe
+          src={checkoutUrl}
+          title="Payment"
+          className="w-full max-w-md h-[560px] rounded-lg bg-white"
+        />
+      </div>
+    );
+  }
 
   return (
-    <Script 
-      src="https://app.sandbox.midtrans.com/snap/snap.js"
+    <Script
+      src={SNAP_SCRIPT_URL}
       data-client-key={process.env.NEXT_PUBLIC_MIDTRANS_CLIENT_KEY}
       strategy="afterInteractive"
     />
   );
-} 
\ No newline at end of file
+}
@@ -90,15 +90,6 @@ export default function RatingModal({
 
       console.log('Rating added successfully:', ratingData);
 
-      // 4. Update the booking status to 'completed'
-      const { error: bookingError } = await supabase
-        .from('bookings')
-        .update({ status: 'completed' })
-        .eq('id', bookingId);
-
-      if (bookingError) throw bookingError;
-
-      console.log('Booking status updated to completed');
       toast({
         title: "Rating Submitted",
         description: "Thank you for your feedback!"
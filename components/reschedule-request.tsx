@@ -0,0 +1,267 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { CalendarClock, Loader2 } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { proposeReschedule, respondToReschedule } from "@/app/actions";
+import { findAvailabilityConflict, type Availability } from '@/services/booking/availability';
+import { formatTimeOfDay, getSlotStarts } from '@/services/booking/slots';
+import {
+  RESCHEDULABLE_STATUSES,
+  getRescheduleEnd,
+  withoutBooking,
+  type RescheduleRequest,
+  type RescheduleResponse
+} from '@/services/booking/reschedule';
+import type { BookingStatus } from '@/services/booking/booking-status';
+import {
+  formatInZone,
+  formatTimeRangeForBoth,
+  getBrowserTimeZone,
+  getTimeZoneLabel,
+  zonedTimeToUtc
+} from '@/lib/timezones';
+
+interface RescheduleBooking {
+  id: number;
+  streamer_id: number;
+  start_time: string;
+  end_time: string;
+  status: string;
+}
+
+const RESPONSE_TOASTS: Record<RescheduleResponse, string> = {
+  accepted: 'Booking moved to the new time',
+  declined: 'New time declined',
+  withdrawn: 'Proposal withdrawn'
+};
+
+// The pending proposal to move a booking, with the answers open to the
+// viewer, or a way to propose one. Times are picked on the streamer's clock.
+export function RescheduleRequestPanel({ booking, request, viewer, streamerTimeZone, otherTimeZone, onChange }: {
+  booking: RescheduleBooking;
+  // The booking's pending request, if any
+  request?: RescheduleRequest;
+  viewer: RescheduleRequest['proposed_by'];
+  streamerTimeZone: string;
+  // The other party's zone, shown next to the viewer's
+  otherTimeZone?: string | null;
+  onChange: () => void;
+}) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [date, setDate] = useState('');
+  const [availability, setAvailability] = useState<Availability | null>(null);
+  const [isLoadingTimes, setIsLoadingTimes] = useState(false);
+  const [time, setTime] = useState('');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const viewerTimeZone = getBrowserTimeZone();
+  const today = formatInZone(new Date(), streamerTimeZone, 'yyyy-MM-dd');
+
+  useEffect(() => {
+    if (!date) return;
+
+    let isCancelled = false;
+    setIsLoadingTimes(true);
+    setTime('');
+
+    fetch(`/api/availability?streamerId=${booking.streamer_id}&from=${date}&to=${date}`)
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load availability');
+        if (!isCancelled) setAvailability(data);
+      })
+      .catch(error => {
+        console.error('Error fetching availability:', error);
+        if (!isCancelled) setAvailability(null);
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoadingTimes(false);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [date, booking.streamer_id]);
+
+  // Starts on the streamer's slot grid where the whole booking fits
+  const startOptions = (() => {
+    const day = availability?.days.find(d => d.date === date);
+    if (!availability || !day || day.isDayOff) return [];
+
+    const free = withoutBooking(availability, booking);
+    return getSlotStarts(day.windows, availability.slotMinutes)
+      .map(formatTimeOfDay)
+      .filter(option => {
+        const start = zonedTimeToUtc(date, option, streamerTimeZone);
+        return start.getTime() !== new Date(booking.start_time).getTime()
+          && findAvailabilityConflict(free, start, getRescheduleEnd(booking, start)) === null;
+      });
+  })();
+
+  const describe = (start: string | Date, end: string | Date) =>
+    `${formatInZone(start, viewerTimeZone, 'EEE, d MMM yyyy')} · ${formatTimeRangeForBoth(start, end, viewerTimeZone, otherTimeZone)}`;
+
+  const handlePropose = async () => {
+    setIsSaving(true);
+    const result = await proposeReschedule(booking.id, date, time, note);
+    setIsSaving(false);
+
+    if (result.error) {
+      toast.error(result.error);
+      return;
+    }
+
+    toast.success('New time proposed');
+    setIsDialogOpen(false);
+    setDate('');
+    setNote('');
+    onChange();
+  };
+
+  const handleRespond = async (response: RescheduleResponse) => {
+    if (!request) return;
+
+    setIsSaving(true);
+    const result = await respondToReschedule(request.id, response);
+    setIsSaving(false);
+
+    if (result.error) {
+      toast.error(result.error);
+      return;
+    }
+
+    toast.success(RESPONSE_TOASTS[response]);
+    onChange();
+  };
+
+  // Proposals left over once a session went live or was cancelled are moot
+  if (!RESCHEDULABLE_STATUSES.includes(booking.status as BookingStatus)) return null;
+
+  if (request) {
+    const isOwnRequest = request.proposed_by === viewer;
+
+    return (
+      <div className="mt-3 p-3 rounded-lg bg-blue-50 border border-blue-100 text-xs space-y-2">
+        <p className="font-medium text-blue-900 flex items-center gap-1">
+          <CalendarClock className="h-4 w-4" />
+          {isOwnRequest
+            ? 'You proposed a new time'
+            : `The ${request.proposed_by === 'client' ? 'brand' : 'streamer'} proposed a new time`}
+        </p>
+        <p className="text-gray-700">{describe(request.start_time, request.end_time)}</p>
+        {request.note && <p className="text-gray-500">Note: {request.note}</p>}
+        <div className="flex gap-2">
+          {isOwnRequest ? (
+            <Button size="sm" variant="outline" className="h-7 text-xs" disabled={isSaving} onClick={() => handleRespond('withdrawn')}>
+              Withdraw
+            </Button>
+          ) : (
+            <>
+              <Button size="sm" className="h-7 text-xs bg-blue-600 hover:bg-blue-700 text-white" disabled={isSaving} onClick={() => handleRespond('accepted')}>
+                Accept new time
+              </Button>
+              <Button size="sm" variant="outline" className="h-7 text-xs" disabled={isSaving} onClick={() => handleRespond('declined')}>
+                Decline
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="mt-2 w-full text-xs sm:text-sm text-gray-600"
+        onClick={() => setIsDialogOpen(true)}
+      >
+        <CalendarClock className="h-3 w-3 sm:h-4 sm:w-4 mr-2" />
+        Propose New Time
+      </Button>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Propose a New Time</DialogTitle>
+            <DialogDescription>
+              Currently {describe(booking.start_time, booking.end_time)}. The session keeps its length and price;
+              it only moves once the other side accepts.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2 text-sm">
+            <div className="space-y-2">
+              <Label htmlFor={`reschedule_date_${booking.id}`}>Date</Label>
+              <Input
+                id={`reschedule_date_${booking.id}`}
+                type="date"
+                min={today}
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+              />
+            </div>
+            {date && (
+              <div className="space-y-2">
+                <Label>Start time ({getTimeZoneLabel(streamerTimeZone)}, the streamer&apos;s clock)</Label>
+                {isLoadingTimes ? (
+                  <div className="flex justify-center py-2">
+                    <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
+                  </div>
+                ) : startOptions.length > 0 ? (
+                  <div className="grid grid-cols-4 gap-2">
+                    {startOptions.map(option => (
+                      <Button
+                        key={option}
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        className={`text-xs ${time === option ? 'bg-[#000080] text-white' : ''}`}
+                        onClick={() => setTime(option)}
+                      >
+                        {option}
+                      </Button>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-gray-500 text-xs">The streamer has no free time for this session that day.</p>
+                )}
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor={`reschedule_note_${booking.id}`}>Note (optional)</Label>
+              <Input
+                id={`reschedule_note_${booking.id}`}
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={handlePropose}
+              disabled={isSaving || !date || !time}
+              className="w-full bg-blue-600 hover:bg-blue-700 text-white"
+            >
+              {isSaving ? 'Sending...' : 'Send Proposal'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,193 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'react-toastify';
+import { Loader2 } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  deleteServicePackage,
+  getMyServicePackages,
+  saveServicePackage,
+  setServicePackageActive
+} from "@/app/actions";
+import type { StreamerPackage } from '@/types/streamer-package';
+
+export function ServicePackagesEditor() {
+  const [packages, setPackages] = useState<StreamerPackage[]>([]);
+  const [editing, setEditing] = useState<StreamerPackage | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [processingId, setProcessingId] = useState<number | null>(null);
+
+  const fetchPackages = useCallback(async () => {
+    const result = await getMyServicePackages();
+
+    if (result.error) {
+      toast.error(result.error);
+    } else {
+      setPackages((result.packages as StreamerPackage[]) || []);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchPackages();
+  }, [fetchPackages]);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+
+    setIsSaving(true);
+    const result = await saveServicePackage(new FormData(form));
+    setIsSaving(false);
+
+    if (result.error) {
+      toast.error(result.error);
+      return;
+    }
+
+    toast.success(editing ? 'Package updated' : 'Package created');
+    setEditing(null);
+    form.reset();
+    fetchPackages();
+  };
+
+  const handleToggle = async (servicePackage: StreamerPackage) => {
+    setProcessingId(servicePackage.id);
+    const result = await setServicePackageActive(servicePackage.id, !servicePackage.is_active);
+    setProcessingId(null);
+
+    if (result.error) {
+      toast.error(result.error);
+    } else {
+      fetchPackages();
+    }
+  };
+
+  const handleDelete = async (servicePackage: StreamerPackage) => {
+    if (!confirm(`Delete the "${servicePackage.name}" package?`)) return;
+
+    setProcessingId(servicePackage.id);
+    const result = await deleteServicePackage(servicePackage.id);
+    setProcessingId(null);
+
+    if (result.error) {
+      toast.error(result.error);
+    } else {
+      if (editing?.id === servicePackage.id) setEditing(null);
+      fetchPackages();
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-500">
+        Offer fixed-price packages alongside your hourly rate. Brands pick a package when booking and pay its price instead of the hourly total.
+      </p>
+
+      <div className="space-y-3">
+        {packages.length > 0 ? packages.map(servicePackage => (
+          <div key={servicePackage.id} className="flex flex-col sm:flex-row sm:justify-between sm:items-start gap-2 border-b last:border-b-0 pb-3">
+            <div className="text-sm">
+              <p className="font-medium">
+                {servicePackage.name} · {servicePackage.duration_hours} jam · Rp {Number(servicePackage.price).toLocaleString('id-ID')}
+                {!servicePackage.is_active && <span className="ml-2 text-xs text-gray-500">(hidden)</span>}
+              </p>
+              {servicePackage.description && <p className="text-gray-600">{servicePackage.description}</p>}
+              {servicePackage.deliverables.length > 0 && (
+                <ul className="list-disc list-inside text-xs text-gray-500">
+                  {servicePackage.deliverables.map(item => <li key={item}>{item}</li>)}
+                </ul>
+              )}
+              {servicePackage.max_products && (
+                <p className="text-xs text-gray-500">Up to {servicePackage.max_products} products</p>
+              )}
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <Button size="sm" variant="outline" onClick={() => setEditing(servicePackage)}>
+                Edit
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={processingId === servicePackage.id}
+                onClick={() => handleToggle(servicePackage)}
+              >
+                {servicePackage.is_active ? 'Hide' : 'Show'}
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="text-red-600 border-red-200 hover:bg-red-50"
+                disabled={processingId === servicePackage.id}
+                onClick={() => handleDelete(servicePackage)}
+              >
+                Delete
+              </Button>
+            </div>
+          </div>
+        )) : (
+          <p className="text-center text-gray-500 py-4 text-sm">No packages yet. Brands book you by the hour.</p>
+        )}
+      </div>
+
+      {/* Keyed so the uncontrolled inputs pick up the package being edited */}
+      <form key={editing?.id ?? 'new'} onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4 text-sm border-t pt-4">
+        <p className="sm:col-span-2 font-medium">{editing ? `Edit ${editing.name}` : 'New package'}</p>
+        {editing && <input type="hidden" name="id" value={editing.id} />}
+        <div className="space-y-1 sm:col-span-2">
+          <Label htmlFor="package_name">Name</Label>
+          <Input id="package_name" name="name" placeholder="Premium Live + Review" defaultValue={editing?.name} required />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="package_duration">Duration (hours)</Label>
+          <Input id="package_duration" name="duration_hours" type="number" min={1} max={24} defaultValue={editing?.duration_hours ?? 1} required />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="package_price">Price (Rp)</Label>
+          <Input id="package_price" name="price" type="number" min={1} defaultValue={editing?.price} required />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="package_max_products">Max products</Label>
+          <Input id="package_max_products" name="max_products" type="number" min={1} placeholder="No limit" defaultValue={editing?.max_products ?? undefined} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="package_description">Description</Label>
+          <Input id="package_description" name="description" defaultValue={editing?.description ?? undefined} />
+        </div>
+        <div className="space-y-1 sm:col-span-2">
+          <Label htmlFor="package_deliverables">Deliverables (one per line)</Label>
+          <Textarea
+            id="package_deliverables"
+            name="deliverables"
+            rows={3}
+            placeholder={'1 hour live session\nProduct review video'}
+            defaultValue={editing?.deliverables.join('\n')}
+          />
+        </div>
+        <div className="sm:col-span-2 flex gap-2">
+          <Button type="submit" disabled={isSaving} className="flex-1 bg-blue-600 hover:bg-blue-700 text-white">
+            {isSaving ? 'Saving...' : editing ? 'Save Package' : 'Add Package'}
+          </Button>
+          {editing && (
+            <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -7,11 +7,22 @@ import { Input } from "./ui/input";
 import { Label } from "./ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
 import { createClient } from "@/utils/supabase/client";
-import { format, addDays, startOfWeek, addWeeks, isSameDay, endOfWeek, isAfter, isBefore, startOfDay, subWeeks, addHours, parseISO, differenceInHours } from 'date-fns';
+import { format, addDays, startOfWeek, addWeeks, isSameDay, endOfWeek, isAfter, isBefore, startOfDay, subWeeks, addHours, addMinutes, parseISO, differenceInHours } from 'date-fns';
 import { toast } from 'react-hot-toast';
 import { useRouter } from 'next/navigation';
 import { createOrGetConversation } from '@/services/message-service';
 import { BookingCalendar } from './booking-calendar';
+import { findAvailabilityConflict, MAX_AVAILABILITY_DAYS, type Availability } from '@/services/booking/availability';
+import type { StreamerPackage } from '@/types/streamer-package';
+import { DEFAULT_TIMEZONE, formatInZone, formatTimeRange, getBrowserTimeZone, getTimeZoneLabel, zonedTimeToUtc } from '@/lib/timezones';
+import {
+  DEFAULT_SLOT_MINUTES,
+  formatDuration,
+  formatTimeOfDay,
+  getSlotStarts,
+  isSlotMinutes,
+  parseTimeOfDay
+} from '@/services/booking/slots';
 
 // Add this function at the top of your file, outside of the StreamerCard component
 function getYouTubeVideoId(url: string): string | null {
@@ -55,6 +66,10 @@ export interface Streamer {
   image_url: string;
   bio: string;
   location: string;
+  // IANA zone the streamer's schedule is written in
+  timezone: string;
+  // Booking grid in minutes: 15, 30 or 60
+  slot_minutes: number;
   video_url: string | null;
   availableTimeSlots?: string[];
 }
@@ -113,16 +128,25 @@ export function StreamerCard({ streamer }: { streamer: Streamer }) {
   const [isProfileModalOpen, setIsProfileModalOpen] = useState(false);
   const [extendedProfile, setExtendedProfile] = useState<StreamerProfile | null>(null);
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
-  const [selectedHours, setSelectedHours] = useState<string[]>([]);
+  // Start, intermediate slot starts and end of the booking, as HH:mm
+  const [selectedTimes, setSelectedTimes] = useState<string[]>([]);
   const [platform, setPlatform] = useState(streamer.platform);
-  const [activeSchedule, setActiveSchedule] = useState<any>(null);
-  const [daysOff, setDaysOff] = useState<string[]>([]);
+  const [availability, setAvailability] = useState<Availability | null>(null);
   const [currentWeekStart, setCurrentWeekStart] = useState(() => startOfWeek(new Date()));
-  const [bookings, setBookings] = useState<any[]>([]);
   const [averageRating, setAverageRating] = useState(streamer.rating);
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
-
-  const isMinimumBookingMet = selectedHours.length >= 2;
+  const [bookingMode, setBookingMode] = useState<'single' | 'package'>('single');
+  const [packageWeekdays, setPackageWeekdays] = useState<number[]>([]);
+  const [packageStartHour, setPackageStartHour] = useState('19');
+  const [packageHours, setPackageHours] = useState('2');
+  const [packageWeeks, setPackageWeeks] = useState('4');
+  const [servicePackages, setServicePackages] = useState<StreamerPackage[]>([]);
+  const [selectedServicePackage, setSelectedServicePackage] = useState<StreamerPackage | null>(null);
+
+  const isMinimumBookingMet = selectedTimes.length >= 2;
+  const streamerTimeZone = streamer.timezone || DEFAULT_TIMEZONE;
+  const slotMinutes = isSlotMinutes(streamer.slot_minutes) ? streamer.slot_minutes : DEFAULT_SLOT_MINUTES;
+  const viewerTimeZone = getBrowserTimeZone();
 
   useEffect(() => {
     fetchExtendedProfile();
@@ -145,9 +169,8 @@ export function StreamerCard({ streamer }: { streamer: Streamer }) {
   }, [streamer.id]);
 
   useEffect(() => {
-    fetchActiveSchedule();
-    fetchDaysOff();
-    fetchAcceptedBookings();
+    fetchAvailability();
+    fetchServicePackages();
 
     const supabase = createClient();
     
@@ -157,9 +180,7 @@ export function StreamerCard({ streamer }: { streamer: Streamer }) {
       .on('postgres_changes', 
         { event: '*', schema: 'public', table: 'bookings', filter: `streamer_id=eq.${streamer.id}` },
         () => {
-          fetchActiveSchedule();
-          fetchDaysOff();
-          fetchAcceptedBookings();
+          fetchAvailability();
         }
       )
       .subscribe();
@@ -245,131 +266,123 @@ export function StreamerCard({ streamer }: { streamer: Streamer }) {
     });
   };
 
-  const fetchActiveSchedule = async () => {
-    const supabase = createClient();
-    const { data, error } = await supabase
-      .from('streamer_active_schedules')
-      .select('schedule')
-      .eq('streamer_id', streamer.id);
-
-    if (error) {
-      console.error('Error fetching active schedule:', error);
-    } else if (data && data.length > 0) {
-      setActiveSchedule(JSON.parse(data[0].schedule));
-    } else {
-      // Set a default schedule if none is found
-      setActiveSchedule({
-        0: { slots: [{ start: '09:00', end: '17:00' }] },
-        1: { slots: [{ start: '09:00', end: '17:00' }] },
-        2: { slots: [{ start: '09:00', end: '17:00' }] },
-        3: { slots: [{ start: '09:00', end: '17:00' }] },
-        4: { slots: [{ start: '09:00', end: '17:00' }] },
-        5: { slots: [{ start: '09:00', end: '17:00' }] },
-        6: { slots: [{ start: '09:00', end: '17:00' }] },
-      });
-    }
-  };
-
-  const fetchDaysOff = async () => {
-    const supabase = createClient();
-    const { data, error } = await supabase
-      .from('streamer_day_offs')
-      .select('date')
-      .eq('streamer_id', streamer.id);
+  // Everything the modal can show: from today on the streamer's calendar as
+  // far ahead as one availability request reaches
+  const fetchAvailability = async () => {
+    const today = parseISO(formatInZone(new Date(), streamerTimeZone, 'yyyy-MM-dd'));
+    const query = new URLSearchParams({
+      streamerId: streamer.id.toString(),
+      from: format(today, 'yyyy-MM-dd'),
+      to: format(addDays(today, MAX_AVAILABILITY_DAYS - 1), 'yyyy-MM-dd'),
+    });
 
-    if (error) {
-      console.error('Error fetching days off:', error);
-    } else if (data) {
-      setDaysOff(data.map(d => d.date));
+    try {
+      const response = await fetch(`/api/availability?${query.toString()}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setAvailability(data);
+    } catch (error) {
+      console.error('Error fetching availability:', error);
+      toast.error('Failed to fetch availability');
     }
   };
 
-  const fetchAcceptedBookings = async () => {
+  const fetchServicePackages = async () => {
     const supabase = createClient();
     const { data, error } = await supabase
-      .from('bookings')
+      .from('streamer_packages')
       .select('*')
       .eq('streamer_id', streamer.id)
-      .in('status', ['accepted', 'pending']);
+      .eq('is_active', true)
+      .order('sort_order', { ascending: true });
 
     if (error) {
-      console.error('Error fetching bookings:', error);
-      toast.error('Failed to fetch bookings');
+      console.error('Error fetching service packages:', error);
     } else {
-      console.log('Fetched bookings:', data); // Add this line for debugging
-      setBookings(data || []);
+      setServicePackages(data || []);
     }
   };
 
-  const isSlotAvailable = useCallback((date: Date, hour: number) => {
-    if (!activeSchedule) return false;
-    const dayOfWeek = date.getDay();
-    const daySchedule = activeSchedule[dayOfWeek];
-    if (!daySchedule || !daySchedule.slots) return false;
-  
-    const isInSchedule = daySchedule.slots.some((slot: any) => {
-      const start = parseInt(slot.start.split(':')[0]);
-      const end = parseInt(slot.end.split(':')[0]);
-      return hour >= start && hour < end;
-    });
+  const getAvailabilityDay = useCallback((date: Date) =>
+    availability?.days.find(day => day.date === format(date, 'yyyy-MM-dd')),
+  [availability]);
 
-    // Check if there's an accepted or pending booking for this slot
-    const bookingExists = bookings.some(booking => {
-      const bookingStart = new Date(booking.start_time);
-      const bookingEnd = new Date(booking.end_time);
-      return (
-        isSameDay(date, bookingStart) &&
-        (
-          (hour >= bookingStart.getHours() && hour < bookingEnd.getHours()) ||
-          (hour === bookingEnd.getHours() && bookingEnd.getMinutes() > 0)
-        )
-      );
-    });
+  // `minute` is minutes since midnight on the streamer's clock
+  const isSlotAvailable = useCallback((date: Date, minute: number) => {
+    const day = getAvailabilityDay(date);
+    if (!availability || !day) return false;
 
-    return isInSchedule && !bookingExists;
-  }, [activeSchedule, bookings]);
+    // Slot times are the streamer's wall-clock time; bookings are UTC instants
+    const slotStart = zonedTimeToUtc(day.date, formatTimeOfDay(minute), streamerTimeZone);
+    return findAvailabilityConflict(availability, slotStart, addMinutes(slotStart, slotMinutes)) === null;
+  }, [availability, getAvailabilityDay, streamerTimeZone, slotMinutes]);
 
   const handleBooking = () => {
-    if (!selectedDate || selectedHours.length === 0) {
+    if (!selectedDate || selectedTimes.length === 0) {
       alert('Please select a date and time for your booking');
       return;
     }
 
-    const startDateTime = new Date(selectedDate);
-    startDateTime.setHours(parseInt(selectedHours[0]), 0, 0, 0);
-    const endDateTime = new Date(selectedDate);
-    endDateTime.setHours(parseInt(selectedHours[selectedHours.length - 1]), 0, 0, 0);
-
     const queryParams = new URLSearchParams({
       streamerId: streamer.id.toString(),
       streamerName: `${streamer.first_name} ${streamer.last_name}`,
-      date: format(startDateTime, 'yyyy-MM-dd'),
-      startTime: format(startDateTime, 'HH:mm:ss'),
-      endTime: format(endDateTime, 'HH:mm:ss'),
+      date: format(selectedDate, 'yyyy-MM-dd'),
+      startTime: `${selectedTimes[0]}:00`,
+      endTime: `${selectedTimes[selectedTimes.length - 1]}:00`,
       platform: platform,
       price: streamer.price.toString(),
       location: streamer.location,
       rating: streamer.rating.toString(),
+      streamerTimeZone,
     });
+    if (selectedServicePackage) {
+      queryParams.set('servicePackageId', selectedServicePackage.id.toString());
+    }
 
     setIsBookingModalOpen(false);
     router.push(`/booking-detail?${queryParams.toString()}`);
   };
 
-  const generateTimeOptions = () => {
-    if (!selectedDate || !activeSchedule) return [];
-    const dayOfWeek = selectedDate.getDay();
-    const daySchedule = activeSchedule[dayOfWeek];
-    if (!daySchedule || !daySchedule.slots) return [];
-  
-    const options = daySchedule.slots.flatMap((slot: { start: string; end: string }) => {
-      const start = parseInt(slot.start.split(':')[0]);
-      const end = parseInt(slot.end.split(':')[0]);
-      return Array.from({ length: end - start }, (_, i) => `${(start + i).toString().padStart(2, '0')}:00`);
+  // Recurring sessions are checked and priced on the package page
+  const handlePackageBooking = () => {
+    if (!selectedDate || packageWeekdays.length === 0) {
+      alert('Please select a start date and at least one day of the week');
+      return;
+    }
+
+    const queryParams = new URLSearchParams({
+      streamerId: streamer.id.toString(),
+      streamerName: `${streamer.first_name} ${streamer.last_name}`,
+      startDate: format(selectedDate, 'yyyy-MM-dd'),
+      weeks: packageWeeks,
+      weekdays: packageWeekdays.join(','),
+      startHour: packageStartHour,
+      hours: packageHours,
+      platform: platform,
+      location: streamer.location,
+      rating: streamer.rating.toString(),
+      streamerTimeZone,
     });
 
-    // Filter out hours that are not available
-    return options.filter((hour: string) => isSlotAvailable(selectedDate, parseInt(hour)));
+    setIsBookingModalOpen(false);
+    router.push(`/package-detail?${queryParams.toString()}`);
+  };
+
+  const togglePackageWeekday = (day: number) => {
+    setPackageWeekdays((prev) =>
+      prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort()
+    );
+  };
+
+  const generateTimeOptions = () => {
+    if (!selectedDate) return [];
+    const day = getAvailabilityDay(selectedDate);
+    if (!day) return [];
+
+    // Filter out slots that are not available
+    return getSlotStarts(day.windows, slotMinutes)
+      .filter(minute => isSlotAvailable(selectedDate, minute))
+      .map(formatTimeOfDay);
   };
 
   const timeOptions = generateTimeOptions();
@@ -380,35 +393,71 @@ export function StreamerCard({ streamer }: { streamer: Streamer }) {
 
   const weekDays = generateWeekDays(currentWeekStart);
 
-  const handleHourSelection = (hour: string) => {
-    setSelectedHours((prevSelected) => {
-      if (prevSelected.includes(hour)) {
-        return prevSelected.filter((h) => h !== hour);
-      } else {
-        const newSelected = [...prevSelected, hour].sort();
-        if (newSelected.length > 1) {
-          const start = newSelected[0];
-          const end = newSelected[newSelected.length - 1];
-          return Array.from({ length: parseInt(end) - parseInt(start) + 1 }, (_, i) => 
-            `${(parseInt(start) + i).toString().padStart(2, '0')}:00`
-          );
-        }
-        return newSelected;
-      }
-    });
+  // Every slot start from `start` up to and including `end`, as HH:mm
+  const getTimesBetween = (start: number, end: number) =>
+    Array.from({ length: (end - start) / slotMinutes + 1 }, (_, i) => formatTimeOfDay(start + i * slotMinutes));
+
+  // A package has a fixed length, so picking a start time selects the whole session
+  const selectPackageSession = (time: string, servicePackage: StreamerPackage) => {
+    const start = parseTimeOfDay(time);
+    const end = start + servicePackage.duration_hours * 60;
+    const sessionTimes = getTimesBetween(start, end);
+
+    if (end > 24 * 60 || sessionTimes.slice(0, -1).some(isTimeDisabled)) {
+      toast.error(`${servicePackage.name} needs ${servicePackage.duration_hours} free hour${servicePackage.duration_hours > 1 ? 's' : ''} from ${time}`);
+      return;
+    }
+
+    setSelectedTimes(sessionTimes);
   };
 
-  const isHourSelected = (hour: string) => selectedHours.includes(hour);
+  const handleServicePackageSelection = (servicePackage: StreamerPackage | null) => {
+    setSelectedServicePackage(servicePackage);
+    setSelectedTimes([]);
+  };
+
+  // The first and last picked times are the start and end of the booking
+  const handleTimeSelection = (time: string) => {
+    if (selectedServicePackage) {
+      selectPackageSession(time, selectedServicePackage);
+      return;
+    }
+
+    if (selectedTimes.includes(time)) {
+      setSelectedTimes(selectedTimes.filter((t) => t !== time));
+      return;
+    }
+
+    const picked = [...selectedTimes, time].sort();
+    if (picked.length === 1) {
+      setSelectedTimes(picked);
+      return;
+    }
+
+    const range = getTimesBetween(parseTimeOfDay(picked[0]), parseTimeOfDay(picked[picked.length - 1]));
+    // The end time only marks where the booking stops; every slot before it must be free
+    if (range.slice(0, -1).some(isTimeDisabled)) {
+      toast.error('Part of that range is not available');
+      return;
+    }
 
-  const isHourDisabled = (hour: string) => {
-    if (!selectedDate) return true;
-    const selectedDateTime = new Date(selectedDate);
-    selectedDateTime.setHours(parseInt(hour), 0, 0, 0);
-    const now = new Date();
-    return isBefore(selectedDateTime, now) || !isSlotAvailable(selectedDate, parseInt(hour));
+    setSelectedTimes(range);
   };
 
-  const isDayOff = (date: Date) => daysOff.includes(format(date, 'yyyy-MM-dd'));
+  const isTimeSelected = (time: string) => selectedTimes.includes(time);
+
+  // Past slots are unavailable too
+  const isTimeDisabled = (time: string) =>
+    !selectedDate || !isSlotAvailable(selectedDate, parseTimeOfDay(time));
+
+  // Days past the fetched range are not bookable yet. A single session needs
+  // bookable hours that day once exceptions are applied; a package only needs
+  // its first day not to be taken off, since its sessions are checked one by one.
+  const isDayOff = (date: Date) => {
+    const day = getAvailabilityDay(date);
+    if (!day || day.isDayOff) return true;
+    return bookingMode === 'single' && day.windows.length === 0;
+  };
 
   const fullName = `${streamer.first_name} ${streamer.last_name}`;
   
@@ -428,11 +477,21 @@ export function StreamerCard({ streamer }: { streamer: Streamer }) {
   };
 
   const getSelectedTimeRange = () => {
-    if (selectedHours.length === 0) return '';
-    const startTime = selectedHours[0];
-    const endTime = selectedHours[selectedHours.length - 1];
-    const duration = selectedHours.length - 1;
-    return `${startTime} - ${endTime} (${duration} hour${duration !== 1 ? 's' : ''})`;
+    if (selectedTimes.length === 0) return '';
+    const startTime = selectedTimes[0];
+    const endTime = selectedTimes[selectedTimes.length - 1];
+    const range = `${startTime} - ${endTime} ${getTimeZoneLabel(streamerTimeZone)} (${formatDuration(parseTimeOfDay(endTime) - parseTimeOfDay(startTime))})`;
+
+    if (!selectedDate || viewerTimeZone === streamerTimeZone || selectedTimes.length < 2) return range;
+
+    // Brands outside the streamer's zone also see the range on their own clock
+    const date = format(selectedDate, 'yyyy-MM-dd');
+    const localRange = formatTimeRange(
+      zonedTimeToUtc(date, startTime, streamerTimeZone),
+      zonedTimeToUtc(date, endTime, streamerTimeZone),
+      viewerTimeZone
+    );
+    return `${range} · ${localRange} your time`;
   };
 
   const isAvailable = (hour: number) => {
@@ -593,12 +652,35 @@ export function StreamerCard({ streamer }: { streamer: Streamer }) {
                   {streamer.first_name} {streamer.last_name}
                 </DialogTitle>
                 <DialogDescription className="text-sm sm:text-base">
-                  Select your preferred date and time
+                  Select your preferred date and time ({getTimeZoneLabel(streamerTimeZone)}, the streamer&apos;s local time)
                 </DialogDescription>
               </div>
             </div>
           </DialogHeader>
 
+          <div className="grid grid-cols-2 gap-2">
+            {(['single', 'package'] as const).map((mode) => (
+              <Button
+                key={mode}
+                variant={bookingMode === mode ? "default" : "outline"}
+                className={`text-xs sm:text-sm ${
+                  bookingMode === mode
+                    ? 'bg-gradient-to-r from-[#1e40af] to-[#6b21a8] text-white hover:from-[#1e3a8a] hover:to-[#581c87]'
+                    : 'hover:bg-blue-50'
+                }`}
+                onClick={() => setBookingMode(mode)}
+              >
+                {mode === 'single' ? 'Single Session' : 'Weekly Package'}
+              </Button>
+            ))}
+          </div>
+
+          {bookingMode === 'package' && (
+            <p className="text-xs sm:text-sm text-gray-500">
+              Pick the first day of the package on the calendar, then the days and hours it repeats.
+            </p>
+          )}
+
           <BookingCalendar 
             selectedDate={selectedDate}
             setSelectedDate={setSelectedDate}
@@ -608,54 +690,176 @@ export function StreamerCard({ streamer }: { streamer: Streamer }) {
 
           <div className="h-px bg-gray-200" />
 
-          {timeOptions.length > 0 ? (
+          {bookingMode === 'package' ? (
             <div className="space-y-3 sm:space-y-4">
-              {['Morning', 'Afternoon', 'Evening', 'Night'].map((timeOfDay) => (
-                <div key={timeOfDay}>
-                  <h4 className="text-xs sm:text-sm font-semibold mb-2">{timeOfDay}</h4>
-                  <div className="grid grid-cols-4 gap-1 sm:gap-2">
-                    {timeOptions
-                      .filter((hour: string) => {
-                        const hourNum = parseInt(hour.split(':')[0]);
-                        return (
-                          (timeOfDay === 'Night' && (hourNum >= 0 && hourNum < 6)) ||
-                          (timeOfDay === 'Morning' && (hourNum >= 6 && hourNum < 12)) ||
-                          (timeOfDay === 'Afternoon' && (hourNum >= 12 && hourNum < 18)) ||
-                          (timeOfDay === 'Evening' && (hourNum >= 18 && hourNum < 24))
-                        );
-                      })
-                      .map((hour: string) => (
-                        <Button
-                          key={hour}
-                          variant={isHourSelected(hour) ? "default" : "outline"}
-                          className={`text-[10px] sm:text-sm p-1 sm:p-2 h-auto ${
-                            isHourSelected(hour) 
-                              ? 'bg-gradient-to-r from-[#1e40af] to-[#6b21a8] text-white hover:from-[#1e3a8a] hover:to-[#581c87]' 
-                              : 'hover:bg-blue-50'
-                          }`}
-                          onClick={() => handleHourSelection(hour)}
-                          disabled={isHourDisabled(hour)}
-                        >
-                          {hour}
-                        </Button>
+              <div>
+                <h4 className="text-xs sm:text-sm font-semibold mb-2">Repeat on</h4>
+                <div className="grid grid-cols-7 gap-1 sm:gap-2">
+                  {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((label, day) => (
+                    <Button
+                      key={label}
+                      variant={packageWeekdays.includes(day) ? "default" : "outline"}
+                      className={`text-[10px] sm:text-xs p-1 h-auto ${
+                        packageWeekdays.includes(day)
+                          ? 'bg-gradient-to-r from-[#1e40af] to-[#6b21a8] text-white hover:from-[#1e3a8a] hover:to-[#581c87]'
+                          : 'hover:bg-blue-50'
+                      }`}
+                      onClick={() => togglePackageWeekday(day)}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="package-start-hour" className="text-xs sm:text-sm">Start</Label>
+                  <Select onValueChange={setPackageStartHour} value={packageStartHour}>
+                    <SelectTrigger id="package-start-hour" className="h-8 sm:h-10 text-xs sm:text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: 24 }, (_, hour) => (
+                        <SelectItem key={hour} value={String(hour)}>{`${hour.toString().padStart(2, '0')}:00`}</SelectItem>
                       ))}
-                  </div>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="package-hours" className="text-xs sm:text-sm">Hours</Label>
+                  <Select onValueChange={setPackageHours} value={packageHours}>
+                    <SelectTrigger id="package-hours" className="h-8 sm:h-10 text-xs sm:text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: 8 }, (_, i) => (
+                        <SelectItem key={i} value={String(i + 1)}>{`${i + 1} hour${i > 0 ? 's' : ''}`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="package-weeks" className="text-xs sm:text-sm">Weeks</Label>
+                  <Select onValueChange={setPackageWeeks} value={packageWeeks}>
+                    <SelectTrigger id="package-weeks" className="h-8 sm:h-10 text-xs sm:text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: 8 }, (_, i) => (
+                        <SelectItem key={i} value={String(i + 1)}>{`${i + 1} week${i > 0 ? 's' : ''}`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
-              ))}
+              </div>
             </div>
           ) : (
-            <div className="text-center text-xs sm:text-sm text-gray-500">
-              No available slots for this day
-            </div>
-          )}
+            <>
+            {servicePackages.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-xs sm:text-sm font-semibold">Service</h4>
+                <button
+                  type="button"
+                  onClick={() => handleServicePackageSelection(null)}
+                  className={`w-full text-left rounded-lg border p-2 sm:p-3 text-xs sm:text-sm ${
+                    !selectedServicePackage ? 'border-blue-600 bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <span className="font-medium">Hourly</span>
+                  <span className="float-right">Rp {streamer.price.toLocaleString('id-ID')}/jam</span>
+                </button>
+                {servicePackages.map((servicePackage) => {
+                  const hourlyTotal = streamer.price * servicePackage.duration_hours;
+                  const saving = Math.round((1 - Number(servicePackage.price) / hourlyTotal) * 100);
+
+                  return (
+                    <button
+                      key={servicePackage.id}
+                      type="button"
+                      onClick={() => handleServicePackageSelection(servicePackage)}
+                      className={`w-full text-left rounded-lg border p-2 sm:p-3 text-xs sm:text-sm ${
+                        selectedServicePackage?.id === servicePackage.id ? 'border-blue-600 bg-blue-50' : 'hover:bg-gray-50'
+                      }`}
+                    >
+                      <div className="flex justify-between gap-2">
+                        <span className="font-medium">
+                          {servicePackage.name} · {servicePackage.duration_hours} jam
+                          {saving > 0 && (
+                            <span className="ml-2 text-[10px] sm:text-xs font-medium text-blue-600">Hemat {saving}%</span>
+                          )}
+                        </span>
+                        <span>Rp {Number(servicePackage.price).toLocaleString('id-ID')}</span>
+                      </div>
+                      {servicePackage.description && (
+                        <p className="text-gray-500 mt-1">{servicePackage.description}</p>
+                      )}
+                      {servicePackage.deliverables.length > 0 && (
+                        <ul className="list-disc list-inside text-gray-500 mt-1">
+                          {servicePackage.deliverables.map((item) => <li key={item}>{item}</li>)}
+                        </ul>
+                      )}
+                      {servicePackage.max_products && (
+                        <p className="text-gray-500 mt-1">Up to {servicePackage.max_products} products</p>
+                      )}
+                    </button>
+                  );
+                })}
+                {selectedServicePackage && (
+                  <p className="text-xs text-gray-500">Pick a start time; the package books {selectedServicePackage.duration_hours} hour{selectedServicePackage.duration_hours > 1 ? 's' : ''} from there.</p>
+                )}
+              </div>
+            )}
+
+            {timeOptions.length > 0 ? (
+              <div className="space-y-3 sm:space-y-4">
+                {['Morning', 'Afternoon', 'Evening', 'Night'].map((timeOfDay) => (
+                  <div key={timeOfDay}>
+                    <h4 className="text-xs sm:text-sm font-semibold mb-2">{timeOfDay}</h4>
+                    <div className="grid grid-cols-4 gap-1 sm:gap-2">
+                      {timeOptions
+                        .filter((time: string) => {
+                          const hourNum = parseInt(time.split(':')[0]);
+                          return (
+                            (timeOfDay === 'Night' && (hourNum >= 0 && hourNum < 6)) ||
+                            (timeOfDay === 'Morning' && (hourNum >= 6 && hourNum < 12)) ||
+                            (timeOfDay === 'Afternoon' && (hourNum >= 12 && hourNum < 18)) ||
+                            (timeOfDay === 'Evening' && (hourNum >= 18 && hourNum < 24))
+                          );
+                        })
+                        .map((time: string) => (
+                          <Button
+                            key={time}
+                            variant={isTimeSelected(time) ? "default" : "outline"}
+                            className={`text-[10px] sm:text-sm p-1 sm:p-2 h-auto ${
+                              isTimeSelected(time) 
+                                ? 'bg-gradient-to-r from-[#1e40af] to-[#6b21a8] text-white hover:from-[#1e3a8a] hover:to-[#581c87]' 
+                                : 'hover:bg-blue-50'
+                            }`}
+                            onClick={() => handleTimeSelection(time)}
+                            disabled={isTimeDisabled(time)}
+                          >
+                            {time}
+                          </Button>
+                        ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center text-xs sm:text-sm text-gray-500">
+                No available slots for this day
+              </div>
+            )}
 
-          {selectedHours.length > 0 && (
-            <div className="text-xs sm:text-sm font-medium">
-              Selected time: {getSelectedTimeRange()}
-            </div>
-          )}
-          {selectedHours.length === 1 && (
-            <p className="text-xs text-red-500">Minimum booking is 1 hour.</p>
+            {selectedTimes.length > 0 && (
+              <div className="text-xs sm:text-sm font-medium">
+                Selected time: {getSelectedTimeRange()}
+              </div>
+            )}
+            {selectedTimes.length === 1 && (
+              <p className="text-xs text-red-500">Pick an end time to finish your selection.</p>
+            )}
+            </>
           )}
 
           <div className="grid grid-cols-4 items-center gap-2 sm:gap-4">
@@ -672,13 +876,23 @@ export function StreamerCard({ streamer }: { streamer: Streamer }) {
           </div>
 
           <DialogFooter className="mt-4">
-            <Button 
-              onClick={handleBooking} 
-              className="w-full h-10 sm:h-12 text-xs sm:text-sm bg-gradient-to-r from-[#1e40af] to-[#6b21a8] hover:from-[#1e3a8a] hover:to-[#581c87] text-white"
-              disabled={selectedHours.length < 2}
-            >
-              Proceed to Booking Details
-            </Button>
+            {bookingMode === 'package' ? (
+              <Button 
+                onClick={handlePackageBooking} 
+                className="w-full h-10 sm:h-12 text-xs sm:text-sm bg-gradient-to-r from-[#1e40af] to-[#6b21a8] hover:from-[#1e3a8a] hover:to-[#581c87] text-white"
+                disabled={!selectedDate || packageWeekdays.length === 0}
+              >
+                Check Package Availability
+              </Button>
+            ) : (
+              <Button 
+                onClick={handleBooking} 
+                className="w-full h-10 sm:h-12 text-xs sm:text-sm bg-gradient-to-r from-[#1e40af] to-[#6b21a8] hover:from-[#1e3a8a] hover:to-[#581c87] text-white"
+                disabled={selectedTimes.length < 2}
+              >
+                Proceed to Booking Details
+              </Button>
+            )}
           </DialogFooter>
         </DialogContent>
       </Dialog>
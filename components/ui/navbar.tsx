@@ -8,6 +8,7 @@ import { useEffect, useState } from 'react';
 import { Input } from "@/components/ui/input";
 import { usePathname, useRouter } from 'next/navigation';
 import { Bell, MessageSquare, Search } from "lucide-react";
+import { getInboxParticipant, getUnreadMessageCount, subscribeToInboxMessages } from "@/services/message-service";
 
 const NotificationsPopup = dynamic(() => import('@/components/notifications-popup').then(mod => mod.NotificationsPopup), { ssr: false });
 const ProfileButton = dynamic(() => import('@/components/profile-button').then(mod => mod.ProfileButton), { ssr: false });
@@ -22,6 +23,7 @@ export function Navbar({ onFilterChange }: NavbarProps) {
   const [dashboardLink, setDashboardLink] = useState("/");
   const [isSearchFocused, setIsSearchFocused] = useState(false);
   const [userType, setUserType] = useState<'streamer' | 'client' | null>(null);
+  const [unreadMessageCount, setUnreadMessageCount] = useState(0);
   const pathname = usePathname();
   const router = useRouter();
 
@@ -81,6 +83,42 @@ export function Navbar({ onFilterChange }: NavbarProps) {
     fetchUserData();
   }, []);
 
+  // Unread chat messages across all conversations, kept live
+  useEffect(() => {
+    if (!user) return;
+
+    let subscription: ReturnType<typeof subscribeToInboxMessages> | null = null;
+    let isCancelled = false;
+
+    const trackUnreadMessages = async () => {
+      try {
+        const participant = await getInboxParticipant(user.id);
+        const refreshCount = async () => {
+          try {
+            const count = await getUnreadMessageCount(participant);
+            if (!isCancelled) setUnreadMessageCount(count);
+          } catch (error) {
+            console.error('Error refreshing unread messages:', error);
+          }
+        };
+
+        await refreshCount();
+        if (!isCancelled) {
+          subscription = subscribeToInboxMessages(user.id, 'navbar', refreshCount);
+        }
+      } catch (error) {
+        console.error('Error loading unread messages:', error);
+      }
+    };
+
+    trackUnreadMessages();
+
+    return () => {
+      isCancelled = true;
+      subscription?.unsubscribe();
+    };
+  }, [user]);
+
   const isStreamerDashboard = pathname === '/streamer-dashboard';
 
   return (
@@ -132,9 +170,15 @@ export function Navbar({ onFilterChange }: NavbarProps) {
               <>
                 <button 
                   onClick={() => router.push('/messages')} 
-                  className="p-2 rounded-full hover:bg-gray-100 transition-colors"
+                  className="relative p-2 rounded-full hover:bg-gray-100 transition-colors"
+                  aria-label={unreadMessageCount > 0 ? `Messages, ${unreadMessageCount} unread` : 'Messages'}
                 >
                   <MessageSquare size={24} className="text-black" />
+                  {unreadMessageCount > 0 && (
+                    <span className="absolute top-0 right-0 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-medium flex items-center justify-center">
+                      {unreadMessageCount > 99 ? '99+' : unreadMessageCount}
+                    </span>
+                  )}
                 </button>
                 <NotificationsPopup />
                 <div className="h-6 w-px bg-black opacity-10"></div>
@@ -2,37 +2,39 @@ export interface City {
   value: string;
   label: string;
   province: string;
+  // IANA zone: WIB (Asia/Jakarta, Asia/Pontianak), WITA (Asia/Makassar) or WIT (Asia/Jayapura)
+  timeZone: string;
 }
 
 export const indonesianCities: City[] = [
-  { value: "jakarta", label: "Jakarta", province: "DKI Jakarta" },
-  { value: "surabaya", label: "Surabaya", province: "Jawa Timur" },
-  { value: "bandung", label: "Bandung", province: "Jawa Barat" },
-  { value: "medan", label: "Medan", province: "Sumatera Utara" },
-  { value: "semarang", label: "Semarang", province: "Jawa Tengah" },
-  { value: "yogyakarta", label: "Yogyakarta", province: "DI Yogyakarta" },
-  { value: "makassar", label: "Makassar", province: "Sulawesi Selatan" },
-  { value: "denpasar", label: "Denpasar", province: "Bali" },
-  { value: "palembang", label: "Palembang", province: "Sumatera Selatan" },
-  { value: "tangerang", label: "Tangerang", province: "Banten" },
-  { value: "bekasi", label: "Bekasi", province: "Jawa Barat" },
-  { value: "depok", label: "Depok", province: "Jawa Barat" },
-  { value: "malang", label: "Malang", province: "Jawa Timur" },
-  { value: "bogor", label: "Bogor", province: "Jawa Barat" },
-  { value: "batam", label: "Batam", province: "Kepulauan Riau" },
-  { value: "pekanbaru", label: "Pekanbaru", province: "Riau" },
-  { value: "bandar-lampung", label: "Bandar Lampung", province: "Lampung" },
-  { value: "padang", label: "Padang", province: "Sumatera Barat" },
-  { value: "manado", label: "Manado", province: "Sulawesi Utara" },
-  { value: "samarinda", label: "Samarinda", province: "Kalimantan Timur" },
-  { value: "banjarmasin", label: "Banjarmasin", province: "Kalimantan Selatan" },
-  { value: "balikpapan", label: "Balikpapan", province: "Kalimantan Timur" },
-  { value: "pontianak", label: "Pontianak", province: "Kalimantan Barat" },
-  { value: "serang", label: "Serang", province: "Banten" },
-  { value: "cirebon", label: "Cirebon", province: "Jawa Barat" },
-  { value: "sukabumi", label: "Sukabumi", province: "Jawa Barat" },
-  { value: "jambi", label: "Jambi", province: "Jambi" },
-  { value: "ambon", label: "Ambon", province: "Maluku" },
-  { value: "jayapura", label: "Jayapura", province: "Papua" },
-  { value: "mataram", label: "Mataram", province: "Nusa Tenggara Barat" }
-]; 
\ No newline at end of file
+  { value: "jakarta", label: "Jakarta", province: "DKI Jakarta", timeZone: "Asia/Jakarta" },
+  { value: "surabaya", label: "Surabaya", province: "Jawa Timur", timeZone: "Asia/Jakarta" },
+  { value: "bandung", label: "Bandung", province: "Jawa Barat", timeZone: "Asia/Jakarta" },
+  { value: "medan", label: "Medan", province: "Sumatera Utara", timeZone: "Asia/Jakarta" },
+  { value: "semarang", label: "Semarang", province: "Jawa Tengah", timeZone: "Asia/Jakarta" },
+  { value: "yogyakarta", label: "Yogyakarta", province: "DI Yogyakarta", timeZone: "Asia/Jakarta" },
+  { value: "makassar", label: "Makassar", province: "Sulawesi Selatan", timeZone: "Asia/Makassar" },
+  { value: "denpasar", label: "Denpasar", province: "Bali", timeZone: "Asia/Makassar" },
+  { value: "palembang", label: "Palembang", province: "Sumatera Selatan", timeZone: "Asia/Jakarta" },
+  { value: "tangerang", label: "Tangerang", province: "Banten", timeZone: "Asia/Jakarta" },
+  { value: "bekasi", label: "Bekasi", province: "Jawa Barat", timeZone: "Asia/Jakarta" },
+  { value: "depok", label: "Depok", province: "Jawa Barat", timeZone: "Asia/Jakarta" },
+  { value: "malang", label: "Malang", province: "Jawa Timur", timeZone: "Asia/Jakarta" },
+  { value: "bogor", label: "Bogor", province: "Jawa Barat", timeZone: "Asia/Jakarta" },
+  { value: "batam", label: "Batam", province: "Kepulauan Riau", timeZone: "Asia/Jakarta" },
+  { value: "pekanbaru", label: "Pekanbaru", province: "Riau", timeZone: "Asia/Jakarta" },
+  { value: "bandar-lampung", label: "Bandar Lampung", province: "Lampung", timeZone: "Asia/Jakarta" },
+  { value: "padang", label: "Padang", province: "Sumatera Barat", timeZone: "Asia/Jakarta" },
+  { value: "manado", label: "Manado", province: "Sulawesi Utara", timeZone: "Asia/Makassar" },
+  { value: "samarinda", label: "Samarinda", province: "Kalimantan Timur", timeZone: "Asia/Makassar" },
+  { value: "banjarmasin", label: "Banjarmasin", province: "Kalimantan Selatan", timeZone: "Asia/Makassar" },
+  { value: "balikpapan", label: "Balikpapan", province: "Kalimantan Timur", timeZone: "Asia/Makassar" },
+  { value: "pontianak", label: "Pontianak", province: "Kalimantan Barat", timeZone: "Asia/Pontianak" },
+  { value: "serang", label: "Serang", province: "Banten", timeZone: "Asia/Jakarta" },
+  { value: "cirebon", label: "Cirebon", province: "Jawa Barat", timeZone: "Asia/Jakarta" },
+  { value: "sukabumi", label: "Sukabumi", province: "Jawa Barat", timeZone: "Asia/Jakarta" },
+  { value: "jambi", label: "Jambi", province: "Jambi", timeZone: "Asia/Jakarta" },
+  { value: "ambon", label: "Ambon", province: "Maluku", timeZone: "Asia/Jayapura" },
+  { value: "jayapura", label: "Jayapura", province: "Papua", timeZone: "Asia/Jayapura" },
+  { value: "mataram", label: "Mataram", province: "Nusa Tenggara Barat", timeZone: "Asia/Makassar" }
+];
@@ -0,0 +1,79 @@
+import { formatInTimeZone, fromZonedTime } from "date-fns-tz";
+import { indonesianCities } from "./constants/indonesia-cities";
+
+// Bookings are stored as UTC instants. Streamer schedules, days off and the
+// hours picked in the booking modal are wall-clock times in the streamer's
+// zone; these helpers convert between the two and render a booking for both
+// the streamer and the brand.
+
+export const DEFAULT_TIMEZONE = "Asia/Jakarta";
+
+const ZONE_LABELS: Record<string, string> = {
+  "Asia/Jakarta": "WIB",
+  "Asia/Pontianak": "WIB",
+  "Asia/Makassar": "WITA",
+  "Asia/Jayapura": "WIT",
+};
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== "string" || timeZone === "") return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Streamer locations are stored as the city label; unknown cities fall back to WIB
+export function getCityTimeZone(location: string | null | undefined): string {
+  const normalized = (location ?? "").trim().toLowerCase();
+  const city = indonesianCities.find(
+    (c) => c.value === normalized || c.label.toLowerCase() === normalized
+  );
+  return city?.timeZone ?? DEFAULT_TIMEZONE;
+}
+
+// Only meaningful in the browser; on the server this is the host's zone
+export function getBrowserTimeZone(): string {
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+}
+
+export function getTimeZoneLabel(timeZone: string): string {
+  return ZONE_LABELS[timeZone] ?? formatInTimeZone(new Date(), timeZone, "zzz");
+}
+
+// `date` is yyyy-MM-dd and `time` HH:mm or HH:mm:ss, both in `timeZone`
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  return fromZonedTime(`${date}T${time.length === 5 ? `${time}:00` : time}`, timeZone);
+}
+
+// Wall-clock hour of an instant in the given zone
+export function getZonedHour(instant: Date | string, timeZone: string): number {
+  return Number(formatInTimeZone(instant, timeZone, "H"));
+}
+
+export function formatInZone(instant: Date | string, timeZone: string, pattern: string): string {
+  return formatInTimeZone(instant, timeZone, pattern);
+}
+
+export function formatTimeRange(start: Date | string, end: Date | string, timeZone: string): string {
+  return `${formatInTimeZone(start, timeZone, "HH:mm")} - ${formatInTimeZone(end, timeZone, "HH:mm")} ${getTimeZoneLabel(timeZone)}`;
+}
+
+// "19:00 - 21:00 WIB (20:00 - 22:00 WITA)": the viewer's own time first,
+// then the other party's when their clock differs
+export function formatTimeRangeForBoth(
+  start: Date | string,
+  end: Date | string,
+  viewerTimeZone: string,
+  otherTimeZone: string | null | undefined
+): string {
+  const own = formatTimeRange(start, end, viewerTimeZone);
+  if (!otherTimeZone || !isValidTimeZone(otherTimeZone)) return own;
+
+  const other = formatTimeRange(start, end, otherTimeZone);
+  const sameClock = formatInTimeZone(start, viewerTimeZone, "yyyy-MM-dd HH:mm") === formatInTimeZone(start, otherTimeZone, "yyyy-MM-dd HH:mm");
+  return sameClock ? own : `${own} (${other})`;
+}
@@ -0,0 +1,232 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { refundBookingPayment } from '@/services/payment/refunds';
+import { BookingTransitionError, transitionBooking } from './booking-transitions';
+
+// Paid bookings wait in `pending` for the streamer to accept. Each one gets an
+// accept_by deadline when its payment settles; the streamer is reminded as the
+// deadline approaches, and a booking still pending when it passes is declined
+// by the system with a full refund. A package is accepted as a whole, so its
+// occurrences share one deadline and are reminded and declined together.
+// Override with ACCEPTANCE_WINDOW_MINUTES and ACCEPTANCE_REMINDER_MINUTES
+// (minutes before the deadline, comma separated).
+
+function envNumber(value: string | undefined, fallback: number) {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function envNumberList(value: string | undefined, fallback: number[]) {
+  const parsed = (value ?? '').split(',').map(Number).filter(n => Number.isFinite(n) && n > 0);
+  return parsed.length > 0 ? parsed : fallback;
+}
+
+export const ACCEPTANCE_WINDOW_MINUTES = envNumber(process.env.ACCEPTANCE_WINDOW_MINUTES, 60);
+
+// Latest first, so the n-th reminder is due once the n-th entry is reached
+export const ACCEPTANCE_REMINDER_MINUTES = envNumberList(process.env.ACCEPTANCE_REMINDER_MINUTES, [30, 10])
+  .sort((a, b) => b - a);
+
+// Bookings handled per run; the job is idempotent so a backlog drains over runs
+const DEADLINE_BATCH_SIZE = 50;
+
+// The window from payment, but never past the start of the (first) session
+export function getAcceptanceDeadline(startTime: string | Date, paidAt = new Date()): Date {
+  const deadline = new Date(paidAt.getTime() + ACCEPTANCE_WINDOW_MINUTES * 60 * 1000);
+  const start = new Date(startTime);
+  return start < deadline ? start : deadline;
+}
+
+// Bookings paid before deadlines existed have none and can still be accepted
+export function isPastAcceptanceDeadline(acceptBy: string | null | undefined, now = new Date()): boolean {
+  return Boolean(acceptBy) && new Date(acceptBy!) <= now;
+}
+
+// How many reminders should have gone out by `now`
+export function getDueReminderCount(acceptBy: string | Date, now = new Date()): number {
+  const remainingMinutes = (new Date(acceptBy).getTime() - now.getTime()) / 60000;
+  return ACCEPTANCE_REMINDER_MINUTES.filter(minutes => remainingMinutes <= minutes).length;
+}
+
+export interface AcceptanceDeadlineResult {
+  reminded: number[];
+  declined: number[];
+  // Accepted or changed while we looked at them
+  skipped: number[];
+  failed: number[];
+}
+
+interface PendingBooking {
+  id: number;
+  client_id: string;
+  streamer_id: number;
+  package_id: number | null;
+  start_time: string;
+  platform: string;
+  price: number | string;
+  accept_by: string;
+  acceptance_reminders_sent: number;
+  streamer: { user_id: string } | null;
+}
+
+// One entry per standalone booking or per package
+function groupBookings(bookings: PendingBooking[]) {
+  const groups = new Map<string, PendingBooking[]>();
+  for (const booking of bookings) {
+    const key = booking.package_id ? `package-${booking.package_id}` : `booking-${booking.id}`;
+    groups.set(key, [...(groups.get(key) ?? []), booking]);
+  }
+  return Array.from(groups.values());
+}
+
+async function fetchPendingBookings(supabase: SupabaseClient, filter: { dueBy: Date } | { reminderAfter: Date }) {
+  let query = supabase
+    .from('bookings')
+    .select(`
+      id,
+      client_id,
+      streamer_id,
+      package_id,
+      start_time,
+      platform,
+      price,
+      accept_by,
+      acceptance_reminders_sent,
+      streamer:streamers (user_id)
+    `)
+    .eq('status', 'pending')
+    .not('accept_by', 'is', null)
+    .order('accept_by', { ascending: true })
+    .limit(DEADLINE_BATCH_SIZE);
+
+  query = 'dueBy' in filter
+    ? query.lte('accept_by', filter.dueBy.toISOString())
+    : query
+        .gt('accept_by', filter.reminderAfter.toISOString())
+        .lt('acceptance_reminders_sent', ACCEPTANCE_REMINDER_MINUTES.length);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data ?? []) as unknown as PendingBooking[];
+}
+
+async function sendReminder(supabase: SupabaseClient, group: PendingBooking[], now: Date): Promise<boolean> {
+  const [booking] = group;
+  const due = getDueReminderCount(booking.accept_by, now);
+  if (due <= booking.acceptance_reminders_sent) return false;
+
+  // Conditional on the count we read, so concurrent runs remind only once
+  const { data: updated, error } = await supabase
+    .from('bookings')
+    .update({ acceptance_reminders_sent: due })
+    .in('id', group.map(({ id }) => id))
+    .eq('status', 'pending')
+    .eq('acceptance_reminders_sent', booking.acceptance_reminders_sent)
+    .select('id');
+
+  if (error) throw error;
+  if (!updated || updated.length === 0) return false;
+
+  const minutesLeft = Math.max(1, Math.round((new Date(booking.accept_by).getTime() - now.getTime()) / 60000));
+  const what = booking.package_id ? `package of ${group.length} sessions` : 'booking request';
+
+  const { error: notificationError } = await supabase
+    .from('notifications')
+    .insert({
+      user_id: booking.streamer?.user_id ?? null,
+      streamer_id: booking.streamer_id,
+      message: `Reminder: accept or reject the ${what} on ${booking.platform} within ${minutesLeft} minutes, or it will be declined automatically and the brand refunded.`,
+      type: 'warning',
+      booking_id: booking.id,
+      is_read: false
+    });
+
+  if (notificationError) console.error('Error creating acceptance reminder:', notificationError);
+  return true;
+}
+
+async function declineGroup(supabase: SupabaseClient, group: PendingBooking[]): Promise<'declined' | 'skipped'> {
+  let declined = 0;
+  let refundTotal = 0;
+
+  for (const booking of group) {
+    try {
+      await transitionBooking(supabase, booking.id, 'rejected', {
+        actor: 'system',
+        reason: 'acceptance_timeout',
+        expectedFrom: ['pending']
+      });
+    } catch (error) {
+      if (error instanceof BookingTransitionError) continue;
+      throw error;
+    }
+    declined++;
+
+    // A declined booking is always refunded in full
+    const refund = await refundBookingPayment(supabase, {
+      bookingId: booking.id,
+      percent: 100,
+      amount: Number(booking.price),
+      reason: 'acceptance_timeout',
+      initiatedBy: 'system'
+    });
+    refundTotal += refund?.amount ?? 0;
+  }
+
+  if (declined === 0) return 'skipped';
+
+  const [booking] = group;
+  const what = booking.package_id ? `package of ${declined} sessions` : 'booking';
+  const refundMessage = refundTotal > 0 ? ` A full refund of Rp ${refundTotal.toLocaleString()} has been issued.` : '';
+
+  const { error: notificationError } = await supabase
+    .from('notifications')
+    .insert([
+      {
+        user_id: booking.client_id,
+        message: `Your ${what} on ${booking.platform} was not accepted in time and has been declined.${refundMessage}`,
+        type: 'warning',
+        booking_id: booking.id,
+        is_read: false
+      },
+      {
+        user_id: booking.streamer?.user_id ?? null,
+        streamer_id: booking.streamer_id,
+        message: `The ${what} on ${booking.platform} was declined automatically because it was not accepted before the deadline.`,
+        type: 'warning',
+        booking_id: booking.id,
+        is_read: false
+      }
+    ]);
+
+  if (notificationError) console.error('Error creating decline notifications:', notificationError);
+  return 'declined';
+}
+
+// Sends due reminders and declines bookings past their deadline. Needs the
+// service-role client: refunds and other users' notifications are written.
+export async function enforceAcceptanceDeadlines(supabase: SupabaseClient, now = new Date()): Promise<AcceptanceDeadlineResult> {
+  const result: AcceptanceDeadlineResult = { reminded: [], declined: [], skipped: [], failed: [] };
+
+  for (const group of groupBookings(await fetchPendingBookings(supabase, { dueBy: now }))) {
+    const ids = group.map(({ id }) => id);
+    try {
+      const outcome = await declineGroup(supabase, group);
+      result[outcome].push(...ids);
+    } catch (error) {
+      console.error('Failed to decline bookings past their acceptance deadline', ids, error);
+      result.failed.push(...ids);
+    }
+  }
+
+  for (const group of groupBookings(await fetchPendingBookings(supabase, { reminderAfter: now }))) {
+    const ids = group.map(({ id }) => id);
+    try {
+      if (await sendReminder(supabase, group, now)) result.reminded.push(...ids);
+    } catch (error) {
+      console.error('Failed to send acceptance reminder', ids, error);
+      result.failed.push(...ids);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,233 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { addDays, differenceInCalendarDays, differenceInMinutes, format, isAfter, parseISO } from 'date-fns';
+import { SLOT_BLOCKING_STATUSES } from './booking-status';
+import { DEFAULT_TIMEZONE, formatInZone, zonedTimeToUtc } from '@/lib/timezones';
+import {
+  DEFAULT_SLOT_MINUTES,
+  formatTimeOfDay,
+  isSlotMinutes,
+  isWithinWindows,
+  joinWindows,
+  parseTimeOfDay,
+  subtractWindow,
+  type ScheduleWindow,
+  type SlotMinutes
+} from './slots';
+
+// A streamer's availability: the weekly template in streamer_availability,
+// overridden by date-ranged exceptions (time off, only-these-hours days and
+// extra hours), minus the time already taken by bookings. Every screen that
+// shows or checks availability reads it through getAvailability, so the
+// booking modal, the schedule editor, package checks and checkout all agree.
+// A streamer without a weekly template has no bookable time.
+
+// Longest range one request may ask for; covers the longest package
+export const MAX_AVAILABILITY_DAYS = 62;
+
+// 0 (Sunday) - 6 (Saturday) to that day's windows, HH:mm in the streamer's zone
+export type WeeklyAvailability = Record<number, ScheduleWindow[]>;
+
+export interface AvailabilityRange {
+  // First and last calendar day, yyyy-MM-dd in the streamer's zone
+  from: string;
+  to: string;
+}
+
+export type AvailabilityExceptionKind = 'off' | 'only' | 'extra';
+
+export const AVAILABILITY_EXCEPTION_KINDS: AvailabilityExceptionKind[] = ['off', 'only', 'extra'];
+
+// A row of streamer_availability_exceptions. Times are null only for a
+// whole day off.
+export interface AvailabilityException {
+  id: number;
+  kind: AvailabilityExceptionKind;
+  start_date: string;
+  end_date: string;
+  start_time: string | null;
+  end_time: string | null;
+  note: string | null;
+}
+
+export interface AvailabilityDay {
+  date: string;
+  weekday: number;
+  // Taken off entirely by an exception
+  isDayOff: boolean;
+  // Bookable windows that day after exceptions, before bookings are taken out
+  windows: ScheduleWindow[];
+  // Exceptions covering the day
+  exceptions: AvailabilityException[];
+}
+
+export interface Availability {
+  streamerId: number;
+  timeZone: string;
+  slotMinutes: SlotMinutes;
+  weekly: WeeklyAvailability;
+  days: AvailabilityDay[];
+  // Booked or held time in the range, as UTC instants
+  busy: { start: string; end: string }[];
+}
+
+export type AvailabilityConflict = 'in_past' | 'outside_schedule' | 'off_grid' | 'day_off' | 'booked';
+
+export const AVAILABILITY_CONFLICT_MESSAGES: Record<AvailabilityConflict, string> = {
+  in_past: 'That time has already passed',
+  outside_schedule: "That time is outside the streamer's availability",
+  off_grid: "That time does not start on one of the streamer's booking slots",
+  day_off: 'The streamer is off that day',
+  booked: 'The selected time is no longer available'
+};
+
+export class AvailabilityRangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AvailabilityRangeError';
+  }
+}
+
+const isCalendarDate = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(parseISO(value).getTime());
+
+export function emptyWeeklyAvailability(): WeeklyAvailability {
+  return Object.fromEntries(Array.from({ length: 7 }, (_, day) => [day, []]));
+}
+
+// Rows of streamer_availability grouped by weekday, in order
+export function toWeeklyAvailability(rows: { weekday: number; start_time: string; end_time: string }[]): WeeklyAvailability {
+  const weekly = emptyWeeklyAvailability();
+  for (const row of rows) {
+    weekly[row.weekday]?.push({
+      start: formatTimeOfDay(parseTimeOfDay(row.start_time)),
+      end: formatTimeOfDay(parseTimeOfDay(row.end_time))
+    });
+  }
+  for (const windows of Object.values(weekly)) {
+    windows.sort((a, b) => parseTimeOfDay(a.start) - parseTimeOfDay(b.start));
+  }
+  return weekly;
+}
+
+const toWindow = (exception: AvailabilityException): ScheduleWindow => ({
+  start: formatTimeOfDay(parseTimeOfDay(exception.start_time!)),
+  end: formatTimeOfDay(parseTimeOfDay(exception.end_time!))
+});
+
+// One day's windows: 'only' exceptions replace the template, 'extra' ones
+// add to it and 'off' ones take hours, or the whole day, out
+export function applyExceptions(template: ScheduleWindow[], exceptions: AvailabilityException[]) {
+  if (exceptions.some(exception => exception.kind === 'off' && !exception.start_time)) {
+    return { isDayOff: true, windows: [] };
+  }
+
+  const only = exceptions.filter(exception => exception.kind === 'only');
+  const extra = exceptions.filter(exception => exception.kind === 'extra');
+  const off = exceptions.filter(exception => exception.kind === 'off');
+
+  const windows = off.reduce(
+    (current, exception) => subtractWindow(current, parseTimeOfDay(exception.start_time!), parseTimeOfDay(exception.end_time!)),
+    joinWindows([...(only.length > 0 ? only.map(toWindow) : template), ...extra.map(toWindow)])
+  );
+
+  return { isDayOff: false, windows };
+}
+
+export async function getAvailability(
+  supabase: SupabaseClient,
+  streamerId: number,
+  range: AvailabilityRange
+): Promise<Availability> {
+  if (!isCalendarDate(range.from) || !isCalendarDate(range.to)) {
+    throw new AvailabilityRangeError('Invalid date range');
+  }
+
+  const firstDay = parseISO(range.from);
+  const dayCount = differenceInCalendarDays(parseISO(range.to), firstDay) + 1;
+  if (dayCount < 1 || dayCount > MAX_AVAILABILITY_DAYS) {
+    throw new AvailabilityRangeError(`A range covers 1 to ${MAX_AVAILABILITY_DAYS} days`);
+  }
+
+  const { data: streamer, error: streamerError } = await supabase
+    .from('streamers')
+    .select('timezone, slot_minutes')
+    .eq('id', streamerId)
+    .maybeSingle();
+
+  if (streamerError) throw streamerError;
+
+  const timeZone = streamer?.timezone ?? DEFAULT_TIMEZONE;
+  const dates = Array.from({ length: dayCount }, (_, i) => format(addDays(firstDay, i), 'yyyy-MM-dd'));
+  const rangeStart = zonedTimeToUtc(range.from, '00:00', timeZone).toISOString();
+  const rangeEnd = zonedTimeToUtc(format(addDays(firstDay, dayCount), 'yyyy-MM-dd'), '00:00', timeZone).toISOString();
+
+  const [{ data: windowRows, error: windowsError }, { data: exceptions, error: exceptionsError }, { data: bookings, error: bookingsError }] = await Promise.all([
+    supabase
+      .from('streamer_availability')
+      .select('weekday, start_time, end_time')
+      .eq('streamer_id', streamerId),
+    supabase
+      .from('streamer_availability_exceptions')
+      .select('id, kind, start_date, end_date, start_time, end_time, note')
+      .eq('streamer_id', streamerId)
+      .lte('start_date', range.to)
+      .gte('end_date', range.from)
+      .order('start_date', { ascending: true }),
+    supabase
+      .from('bookings')
+      .select('start_time, end_time')
+      .eq('streamer_id', streamerId)
+      .in('status', SLOT_BLOCKING_STATUSES)
+      .lt('start_time', rangeEnd)
+      .gt('end_time', rangeStart)
+  ]);
+
+  if (windowsError) throw windowsError;
+  if (exceptionsError) throw exceptionsError;
+  if (bookingsError) throw bookingsError;
+
+  const weekly = toWeeklyAvailability(windowRows ?? []);
+
+  return {
+    streamerId,
+    timeZone,
+    slotMinutes: isSlotMinutes(streamer?.slot_minutes) ? streamer.slot_minutes : DEFAULT_SLOT_MINUTES,
+    weekly,
+    days: dates.map(date => {
+      const weekday = parseISO(date).getDay();
+      const dayExceptions = ((exceptions ?? []) as AvailabilityException[]).filter(exception =>
+        exception.start_date <= date && exception.end_date >= date
+      );
+      return { date, weekday, ...applyExceptions(weekly[weekday], dayExceptions), exceptions: dayExceptions };
+    }),
+    busy: (bookings ?? []).map(booking => ({
+      start: new Date(booking.start_time).toISOString(),
+      end: new Date(booking.end_time).toISOString()
+    }))
+  };
+}
+
+// Why [start, end) cannot be booked, or null when it can. The range must lie
+// on one of the streamer's days inside the fetched range.
+export function findAvailabilityConflict(
+  availability: Availability,
+  start: Date,
+  end: Date,
+  now = new Date()
+): AvailabilityConflict | null {
+  if (!isAfter(start, now)) return 'in_past';
+
+  const date = formatInZone(start, availability.timeZone, 'yyyy-MM-dd');
+  const startMinute = parseTimeOfDay(formatInZone(start, availability.timeZone, 'HH:mm'));
+  const endMinute = startMinute + differenceInMinutes(end, start);
+  const day = availability.days.find(d => d.date === date);
+
+  if (!day) return 'outside_schedule';
+  if (day.isDayOff) return 'day_off';
+  if (!isWithinWindows(day.windows, startMinute, endMinute)) return 'outside_schedule';
+
+  const isBooked = availability.busy.some(booking =>
+    new Date(booking.start) < end && new Date(booking.end) > start
+  );
+  return isBooked ? 'booked' : null;
+}
@@ -0,0 +1,68 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Every paid booking has its own conversation between the brand and the
+// streamer, so briefs for different campaigns stay apart. The sessions of a
+// package share one thread, scoped to the package's first booking.
+
+export interface ThreadBooking {
+  id: number;
+  package_id: number | null;
+  client_id: string;
+  streamer_id: number;
+}
+
+// The booking a booking's thread is scoped to
+export async function getThreadBookingId(supabase: SupabaseClient, booking: ThreadBooking): Promise<number> {
+  if (!booking.package_id) return booking.id;
+
+  const { data, error } = await supabase
+    .from('bookings')
+    .select('id')
+    .eq('package_id', booking.package_id)
+    .order('id', { ascending: true })
+    .limit(1)
+    .single();
+
+  if (error) throw error;
+  return data.id;
+}
+
+// The booking's conversation, created on first use
+export async function getOrCreateBookingConversation(supabase: SupabaseClient, booking: ThreadBooking): Promise<{ id: string }> {
+  const threadBookingId = await getThreadBookingId(supabase, booking);
+
+  const { data: existing, error: searchError } = await supabase
+    .from('conversations')
+    .select('id')
+    .eq('booking_id', threadBookingId)
+    .maybeSingle();
+
+  if (searchError) throw searchError;
+  if (existing) return existing;
+
+  const { data: created, error: createError } = await supabase
+    .from('conversations')
+    .insert({
+      client_id: booking.client_id,
+      streamer_id: booking.streamer_id,
+      booking_id: threadBookingId,
+      created_at: new Date().toISOString()
+    })
+    .select('id')
+    .single();
+
+  // Created at the same time by the other side
+  if (createError?.code === '23505') {
+    const { data: raced, error: racedError } = await supabase
+      .from('conversations')
+      .select('id')
+      .eq('booking_id', threadBookingId)
+      .single();
+
+    if (racedError) throw racedError;
+    return raced;
+  }
+
+  if (createError) throw createError;
+  return created;
+}
@@ -0,0 +1,76 @@
+// Booking lifecycle shared by the server and the UI. The transition table below
+// decides which status changes are legal; writes go through transitionBooking
+// in ./booking-transitions. The database enforces the same table in
+// booking_transition_allowed, so keep the two in sync.
+
+export type BookingStatus =
+  | 'payment_pending' // created at checkout, waiting for the gateway
+  | 'pending'         // paid, waiting for the streamer to accept
+  | 'accepted'
+  | 'rejected'
+  | 'live'
+  | 'completed'
+  | 'cancelled'
+  | 'expired';        // checkout abandoned or payment expired
+
+export type BookingActor = 'client' | 'streamer' | 'system';
+
+export const BOOKING_STATUSES: BookingStatus[] = [
+  'payment_pending',
+  'pending',
+  'accepted',
+  'rejected',
+  'live',
+  'completed',
+  'cancelled',
+  'expired',
+];
+
+// Statuses that occupy a streamer's time range. Unpaid bookings count as a
+// hold until hold_expires_at; the bookings_no_overlapping_slots constraint
+// enforces the same list in the database.
+export const SLOT_BLOCKING_STATUSES: BookingStatus[] = [
+  'payment_pending',
+  'pending',
+  'accepted',
+  'live',
+];
+
+// from -> to -> actors allowed to make that change
+const BOOKING_TRANSITIONS: Record<BookingStatus, Partial<Record<BookingStatus, BookingActor[]>>> = {
+  payment_pending: {
+    pending: ['system'],
+    cancelled: ['client', 'system'],
+    expired: ['system'],
+  },
+  pending: {
+    accepted: ['streamer'],
+    rejected: ['streamer', 'system'],
+    cancelled: ['client', 'system'],
+  },
+  accepted: {
+    live: ['streamer'],
+    cancelled: ['client', 'streamer', 'system'],
+  },
+  live: {
+    completed: ['streamer', 'system'],
+  },
+  rejected: {},
+  completed: {},
+  cancelled: {},
+  expired: {},
+};
+
+export function isBookingStatus(value: unknown): value is BookingStatus {
+  return typeof value === 'string' && (BOOKING_STATUSES as string[]).includes(value);
+}
+
+export function canTransitionBooking(from: BookingStatus, to: BookingStatus, actor?: BookingActor): boolean {
+  const actors = BOOKING_TRANSITIONS[from]?.[to];
+  if (!actors) return false;
+  return actor ? actors.includes(actor) : true;
+}
+
+export function isTerminalBookingStatus(status: BookingStatus): boolean {
+  return Object.keys(BOOKING_TRANSITIONS[status]).length === 0;
+}
@@ -0,0 +1,100 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  canTransitionBooking,
+  isBookingStatus,
+  type BookingActor,
+  type BookingStatus
+} from './booking-status';
+
+export type BookingTransitionErrorCode =
+  | 'BOOKING_NOT_FOUND'
+  | 'ILLEGAL_TRANSITION'
+  | 'CONCURRENT_UPDATE';
+
+export class BookingTransitionError extends Error {
+  constructor(
+    public readonly code: BookingTransitionErrorCode,
+    public readonly bookingId: number,
+    public readonly from: BookingStatus | null,
+    public readonly to: BookingStatus,
+    message: string
+  ) {
+    super(message);
+    this.name = 'BookingTransitionError';
+  }
+}
+
+interface TransitionOptions {
+  actor: BookingActor;
+  actorId?: string | null;
+  reason?: string;
+  // Extra booking columns written in the same update as the status
+  changes?: Record<string, unknown>;
+  // Only transition when the booking is currently in one of these statuses
+  expectedFrom?: BookingStatus[];
+}
+
+// Moves a booking to a new status. The update is conditional on the status we
+// read, so two concurrent writers cannot both succeed. The status_actor and
+// status_reason columns are copied into booking_status_transitions by a
+// database trigger, which keeps the audit trail in the same transaction.
+export async function transitionBooking(
+  supabase: SupabaseClient,
+  bookingId: number,
+  to: BookingStatus,
+  options: TransitionOptions
+) {
+  const { data: current, error: fetchError } = await supabase
+    .from('bookings')
+    .select('id, status')
+    .eq('id', bookingId)
+    .single();
+
+  if (fetchError || !current) {
+    throw new BookingTransitionError('BOOKING_NOT_FOUND', bookingId, null, to, `Booking ${bookingId} not found`);
+  }
+
+  const from = isBookingStatus(current.status) ? current.status : null;
+
+  if (
+    !from ||
+    (options.expectedFrom && !options.expectedFrom.includes(from)) ||
+    !canTransitionBooking(from, to, options.actor)
+  ) {
+    throw new BookingTransitionError(
+      'ILLEGAL_TRANSITION',
+      bookingId,
+      from,
+      to,
+      `Booking ${bookingId} cannot move from ${current.status} to ${to} (${options.actor})`
+    );
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from('bookings')
+    .update({
+      ...options.changes,
+      status: to,
+      status_actor: options.actor,
+      status_actor_id: options.actorId ?? null,
+      status_reason: options.reason ?? null,
+    })
+    .eq('id', bookingId)
+    .eq('status', from)
+    .select()
+    .maybeSingle();
+
+  if (updateError) throw updateError;
+
+  if (!updated) {
+    throw new BookingTransitionError(
+      'CONCURRENT_UPDATE',
+      bookingId,
+      from,
+      to,
+      `Booking ${bookingId} changed while moving from ${from} to ${to}`
+    );
+  }
+
+  return updated;
+}
@@ -0,0 +1,117 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { BOOKING_HOLD_MINUTES } from '@/services/payment/payment-service';
+import { toPaymentStatus, type MidtransNotification } from '@/services/payment/midtrans-notification';
+import { getPaymentOrderId, getPaymentOwner } from '@/services/payment/booking-payment';
+import { getPaymentGateway } from '@/services/payment/payment-gateway';
+import { BookingTransitionError, transitionBooking } from './booking-transitions';
+
+// Bookings handled per run; the job is idempotent so a backlog drains over runs
+const EXPIRY_BATCH_SIZE = 50;
+
+export interface HoldExpiryResult {
+  expired: number[];
+  // Paid or changed while we looked at them; the webhook will settle these
+  skipped: number[];
+  failed: number[];
+}
+
+// Releases payment_pending bookings whose hold has run out: cancels the
+// gateway transaction, marks the payment expired with a history entry and
+// moves the booking to expired. Safe to run concurrently with the webhook.
+export async function expireStaleHolds(supabase: SupabaseClient, now = new Date()): Promise<HoldExpiryResult> {
+  // Bookings created before holds existed have no hold_expires_at
+  const legacyCutoff = new Date(now.getTime() - BOOKING_HOLD_MINUTES * 60 * 1000);
+
+  const { data: bookings, error } = await supabase
+    .from('bookings')
+    .select('id, created_at, package_id')
+    .eq('status', 'payment_pending')
+    .or(`hold_expires_at.lte.${now.toISOString()},and(hold_expires_at.is.null,created_at.lte.${legacyCutoff.toISOString()})`)
+    .order('created_at', { ascending: true })
+    .limit(EXPIRY_BATCH_SIZE);
+
+  if (error) throw error;
+
+  const result: HoldExpiryResult = { expired: [], skipped: [], failed: [] };
+
+  for (const booking of bookings ?? []) {
+    try {
+      const outcome = await expireHold(supabase, booking);
+      result[outcome].push(booking.id);
+    } catch (error) {
+      console.error('Failed to expire hold for booking', booking.id, error);
+      result.failed.push(booking.id);
+    }
+  }
+
+  return result;
+}
+
+async function expireHold(
+  supabase: SupabaseClient,
+  booking: { id: number; package_id: number | null }
+): Promise<'expired' | 'skipped'> {
+  const bookingId = booking.id;
+  const owner = getPaymentOwner(booking);
+  const { data: payment } = await supabase
+    .from('payments')
+    .select('*')
+    .eq(owner.column, owner.id)
+    .maybeSingle();
+
+  if (payment && (payment.status === 'completed' || payment.status === 'refunded')) {
+    // Paid; the booking will follow via the webhook
+    return 'skipped';
+  }
+
+  // A failed or expired payment has been closed already, e.g. by an earlier
+  // occurrence of the same package; only the booking is left to release
+  if (payment && payment.status === 'pending') {
+    const midtransResponse = await getPaymentGateway().cancel(getPaymentOrderId(payment));
+
+    if (midtransResponse && toPaymentStatus(midtransResponse as MidtransNotification) === 'completed') {
+      // The brand paid just before the hold ran out; let the webhook confirm it
+      return 'skipped';
+    }
+
+    const { data: updatedPayment, error: paymentError } = await supabase
+      .from('payments')
+      .update({
+        status: 'expired',
+        payment_status: 'expire',
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', payment.id)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (paymentError) throw paymentError;
+    if (!updatedPayment || updatedPayment.length === 0) return 'skipped';
+
+    const { error: historyError } = await supabase
+      .from('payment_status_history')
+      .insert({
+        payment_id: payment.id,
+        notification_key: `hold-expiry:${payment.id}`,
+        previous_status: 'pending',
+        new_status: 'expired',
+        midtrans_notification: midtransResponse
+      });
+
+    // A duplicate key means another run already recorded this expiry
+    if (historyError && historyError.code !== '23505') throw historyError;
+  }
+
+  try {
+    await transitionBooking(supabase, bookingId, 'expired', {
+      actor: 'system',
+      reason: 'hold_expired',
+      expectedFrom: ['payment_pending']
+    });
+  } catch (error) {
+    if (error instanceof BookingTransitionError) return 'skipped';
+    throw error;
+  }
+
+  return 'expired';
+}
@@ -0,0 +1,107 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { addDays, addHours, format, parseISO } from 'date-fns';
+import { DEFAULT_TIMEZONE, zonedTimeToUtc } from '@/lib/timezones';
+import { findAvailabilityConflict, getAvailability, type AvailabilityConflict } from './availability';
+
+// Recurring booking packages: a weekly pattern (weekdays at a fixed hour for a
+// number of weeks) expanded into individual bookings. Every occurrence is
+// checked against the streamer's weekly schedule, days off and existing
+// bookings before the brand pays; the database re-checks overlaps when the
+// package is reserved.
+
+export const MAX_PACKAGE_WEEKS = 8;
+export const MAX_PACKAGE_SESSIONS = 40;
+// Longest single session in a package
+export const MAX_PACKAGE_SESSION_HOURS = 12;
+
+export interface PackagePattern {
+  // First day the package may start on, yyyy-MM-dd
+  startDate: string;
+  weeks: number;
+  // 0 (Sunday) - 6 (Saturday), as in streamer_availability
+  weekdays: number[];
+  startHour: number;
+  hours: number;
+}
+
+export type OccurrenceConflict = AvailabilityConflict;
+
+export interface PackageOccurrence {
+  date: string;
+  startTime: string;
+  endTime: string;
+  conflict: OccurrenceConflict | null;
+}
+
+export class PackagePatternError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PackagePatternError';
+  }
+}
+
+const isInteger = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+// Validates a pattern from a request; throws PackagePatternError with a
+// message the brand can be shown
+export function parsePackagePattern(input: Partial<Record<keyof PackagePattern, unknown>>): PackagePattern {
+  const { startDate, weeks, weekdays, startHour, hours } = input;
+
+  if (typeof startDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(startDate) || isNaN(parseISO(startDate).getTime())) {
+    throw new PackagePatternError('Invalid start date');
+  }
+  if (!isInteger(weeks, 1, MAX_PACKAGE_WEEKS)) {
+    throw new PackagePatternError(`A package runs for 1 to ${MAX_PACKAGE_WEEKS} weeks`);
+  }
+  if (!Array.isArray(weekdays) || weekdays.length === 0 || !weekdays.every(day => isInteger(day, 0, 6))) {
+    throw new PackagePatternError('Choose at least one day of the week');
+  }
+  if (!isInteger(startHour, 0, 23)) {
+    throw new PackagePatternError('Invalid start hour');
+  }
+  if (!isInteger(hours, 1, MAX_PACKAGE_SESSION_HOURS) || startHour + hours > 24) {
+    throw new PackagePatternError('Each session must end on the day it starts');
+  }
+
+  const pattern = { startDate, weeks, weekdays: Array.from(new Set(weekdays)).sort(), startHour, hours };
+
+  if (expandPackagePattern(pattern).length > MAX_PACKAGE_SESSIONS) {
+    throw new PackagePatternError(`A package can have at most ${MAX_PACKAGE_SESSIONS} sessions`);
+  }
+
+  return pattern;
+}
+
+// Every session the pattern describes, in order. The pattern's dates and
+// start hour are wall-clock times in the streamer's zone.
+export function expandPackagePattern(pattern: PackagePattern, timeZone = DEFAULT_TIMEZONE) {
+  const firstDay = parseISO(pattern.startDate);
+
+  return Array.from({ length: pattern.weeks * 7 }, (_, i) => addDays(firstDay, i))
+    .filter(day => pattern.weekdays.includes(day.getDay()))
+    .map(day => {
+      const date = format(day, 'yyyy-MM-dd');
+      const start = zonedTimeToUtc(date, `${String(pattern.startHour).padStart(2, '0')}:00`, timeZone);
+      return { date, weekday: day.getDay(), start, end: addHours(start, pattern.hours) };
+    });
+}
+
+export async function checkPackageOccurrences(
+  supabase: SupabaseClient,
+  streamerId: number,
+  pattern: PackagePattern,
+  now = new Date()
+): Promise<PackageOccurrence[]> {
+  const availability = await getAvailability(supabase, streamerId, {
+    from: pattern.startDate,
+    to: format(addDays(parseISO(pattern.startDate), pattern.weeks * 7 - 1), 'yyyy-MM-dd')
+  });
+
+  return expandPackagePattern(pattern, availability.timeZone).map(session => ({
+    date: session.date,
+    startTime: session.start.toISOString(),
+    endTime: session.end.toISOString(),
+    conflict: findAvailabilityConflict(availability, session.start, session.end, now)
+  }));
+}
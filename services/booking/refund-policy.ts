@@ -0,0 +1,60 @@
+import type { BookingActor, BookingStatus } from './booking-status';
+
+// How much of the paid amount goes back to the brand when a booking ends
+// early. Tiers are checked in order; the first whose notice period is met wins.
+// Override with REFUND_FULL_NOTICE_HOURS and REFUND_LATE_PERCENT.
+
+export interface RefundTier {
+  minHoursBeforeStart: number;
+  percent: number;
+}
+
+export interface RefundDecision {
+  percent: number;
+  amount: number;
+  reason: string;
+}
+
+function envNumber(value: string | undefined, fallback: number) {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+export const REFUND_POLICY: RefundTier[] = [
+  { minHoursBeforeStart: envNumber(process.env.REFUND_FULL_NOTICE_HOURS, 24), percent: 100 },
+  { minHoursBeforeStart: 0, percent: envNumber(process.env.REFUND_LATE_PERCENT, 50) },
+];
+
+interface RefundInput {
+  paidAmount: number;
+  startTime: string;
+  // Status the booking was in before it was cancelled or rejected
+  status: BookingStatus;
+  cancelledBy: BookingActor;
+  now?: Date;
+}
+
+export function getRefundDecision({ paidAmount, startTime, status, cancelledBy, now = new Date() }: RefundInput): RefundDecision {
+  if (status === 'live' || status === 'completed') {
+    return { percent: 0, amount: 0, reason: 'stream_started' };
+  }
+
+  // The brand is not penalised for the streamer or the platform backing out,
+  // or for a booking the streamer never accepted
+  if (cancelledBy !== 'client' || status === 'pending') {
+    return { percent: 100, amount: paidAmount, reason: `cancelled_by_${cancelledBy}` };
+  }
+
+  const hoursBeforeStart = (new Date(startTime).getTime() - now.getTime()) / (60 * 60 * 1000);
+  const tier = REFUND_POLICY.find(t => hoursBeforeStart >= t.minHoursBeforeStart);
+
+  if (!tier) {
+    return { percent: 0, amount: 0, reason: 'past_start_time' };
+  }
+
+  return {
+    percent: tier.percent,
+    amount: Math.round(paidAmount * tier.percent / 100),
+    reason: tier.percent === 100 ? 'full_notice' : 'late_cancellation',
+  };
+}
@@ -0,0 +1,110 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { addMinutes, differenceInMinutes } from 'date-fns';
+import { formatInZone } from '@/lib/timezones';
+import {
+  findAvailabilityConflict,
+  getAvailability,
+  type Availability,
+  type AvailabilityConflict
+} from './availability';
+import type { BookingActor, BookingStatus } from './booking-status';
+import { getSlotStarts, parseTimeOfDay } from './slots';
+import { getOrCreateBookingConversation, type ThreadBooking } from './booking-conversation';
+
+// Either side of an accepted booking can propose moving it to another time;
+// the other side accepts or declines. The proposal keeps the booking's length,
+// so the price and payment are untouched. Accepting goes through the
+// respond_booking_reschedule function, which moves the booking and records
+// the answer in one transaction.
+
+export type RescheduleStatus = 'pending' | 'accepted' | 'declined' | 'withdrawn';
+
+export type RescheduleResponse = Exclude<RescheduleStatus, 'pending'>;
+
+// A row of booking_reschedule_requests
+export interface RescheduleRequest {
+  id: number;
+  booking_id: number;
+  proposed_by: Exclude<BookingActor, 'system'>;
+  proposed_by_id: string;
+  previous_start_time: string;
+  previous_end_time: string;
+  start_time: string;
+  end_time: string;
+  note: string | null;
+  status: RescheduleStatus;
+  created_at: string;
+}
+
+// Once a session is live or over it stays where it is
+export const RESCHEDULABLE_STATUSES: BookingStatus[] = ['accepted'];
+
+interface ReschedulableBooking {
+  id: number;
+  streamer_id: number;
+  start_time: string;
+  end_time: string;
+}
+
+// The booking's length, starting at `start`
+export function getRescheduleEnd(booking: ReschedulableBooking, start: Date): Date {
+  return addMinutes(start, differenceInMinutes(new Date(booking.end_time), new Date(booking.start_time)));
+}
+
+// A booking may move into (part of) the time it already holds
+export function withoutBooking(availability: Availability, booking: ReschedulableBooking): Availability {
+  const start = new Date(booking.start_time).getTime();
+  const end = new Date(booking.end_time).getTime();
+
+  return {
+    ...availability,
+    busy: availability.busy.filter(range =>
+      new Date(range.start).getTime() !== start || new Date(range.end).getTime() !== end
+    )
+  };
+}
+
+// Why the booking cannot move to [start, end), or null when it can. `date` is
+// the start's calendar day in the streamer's zone. Like a new booking, the
+// moved one has to start on the streamer's slot grid.
+export async function findRescheduleConflict(
+  supabase: SupabaseClient,
+  booking: ReschedulableBooking,
+  date: string,
+  start: Date,
+  end: Date
+): Promise<AvailabilityConflict | null> {
+  const availability = await getAvailability(supabase, booking.streamer_id, { from: date, to: date });
+  const conflict = findAvailabilityConflict(withoutBooking(availability, booking), start, end);
+  if (conflict) return conflict;
+
+  const day = availability.days.find(d => d.date === date);
+  const startMinute = parseTimeOfDay(formatInZone(start, availability.timeZone, 'HH:mm'));
+  return day && getSlotStarts(day.windows, availability.slotMinutes).includes(startMinute) ? null : 'off_grid';
+}
+
+export function getPendingReschedule(requests: RescheduleRequest[] | null | undefined): RescheduleRequest | undefined {
+  return requests?.find(request => request.status === 'pending');
+}
+
+// Posts a reschedule update into the booking's conversation
+export async function postRescheduleMessage(supabase: SupabaseClient, message: {
+  booking: ThreadBooking;
+  senderId: string;
+  content: string;
+}) {
+  const conversation = await getOrCreateBookingConversation(supabase, message.booking);
+
+  const { error } = await supabase
+    .from('messages')
+    .insert({
+      conversation_id: conversation.id,
+      sender_id: message.senderId,
+      content: message.content,
+      created_at: new Date().toISOString(),
+      is_read: false,
+      message_type: 'reschedule'
+    });
+
+  if (error) throw error;
+}
@@ -0,0 +1,90 @@
+// Booking granularity. A streamer's weekly schedule is a set of HH:mm windows;
+// brands book a start and end on the streamer's slot grid (15, 30 or 60
+// minutes), so a booking can be any whole number of slots long. Times of day
+// are handled as minutes since midnight in the streamer's zone.
+
+export const SLOT_MINUTE_OPTIONS = [15, 30, 60] as const;
+export type SlotMinutes = typeof SLOT_MINUTE_OPTIONS[number];
+
+// Streamers who never changed the setting book by the hour, as before
+export const DEFAULT_SLOT_MINUTES: SlotMinutes = 60;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface ScheduleWindow {
+  start: string;
+  end: string;
+}
+
+export function isSlotMinutes(value: unknown): value is SlotMinutes {
+  return SLOT_MINUTE_OPTIONS.includes(value as SlotMinutes);
+}
+
+// "09:30" -> 570. "24:00" is allowed as the end of a day.
+export function parseTimeOfDay(time: string): number {
+  const [hours, minutes = '0'] = time.split(':');
+  return parseInt(hours) * 60 + parseInt(minutes);
+}
+
+// 570 -> "09:30"
+export function formatTimeOfDay(minutes: number): string {
+  return `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+}
+
+// The schedule editor works in single hours, so touching windows are joined
+// before a booking is fitted into them
+function mergeWindows(windows: ScheduleWindow[]) {
+  const ranges = windows
+    .map(window => ({ start: parseTimeOfDay(window.start), end: Math.min(parseTimeOfDay(window.end), MINUTES_PER_DAY) }))
+    .filter(range => range.end > range.start)
+    .sort((a, b) => a.start - b.start);
+
+  return ranges.reduce<{ start: number; end: number }[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+    return merged;
+  }, []);
+}
+
+// The windows sorted, with overlapping and touching ones joined
+export function joinWindows(windows: ScheduleWindow[]): ScheduleWindow[] {
+  return mergeWindows(windows).map(range => ({ start: formatTimeOfDay(range.start), end: formatTimeOfDay(range.end) }));
+}
+
+// The windows without [startMinute, endMinute)
+export function subtractWindow(windows: ScheduleWindow[], startMinute: number, endMinute: number): ScheduleWindow[] {
+  return mergeWindows(windows).flatMap(range => [
+    { start: range.start, end: Math.min(range.end, startMinute) },
+    { start: Math.max(range.start, endMinute), end: range.end }
+  ])
+    .filter(range => range.end > range.start)
+    .map(range => ({ start: formatTimeOfDay(range.start), end: formatTimeOfDay(range.end) }));
+}
+
+// Whether [startMinute, endMinute) lies inside the day's windows
+export function isWithinWindows(windows: ScheduleWindow[], startMinute: number, endMinute: number): boolean {
+  return mergeWindows(windows).some(range => startMinute >= range.start && endMinute <= range.end);
+}
+
+// Start of every slot that fits inside the day's windows, in order
+export function getSlotStarts(windows: ScheduleWindow[], slotMinutes: number): number[] {
+  return mergeWindows(windows).flatMap(range => {
+    // Slots are aligned to the grid, not to the window start
+    const first = Math.ceil(range.start / slotMinutes) * slotMinutes;
+    return Array.from(
+      { length: Math.max(0, Math.floor((range.end - first) / slotMinutes)) },
+      (_, i) => first + i * slotMinutes
+    );
+  });
+}
+
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} menit`;
+  return rest === 0 ? `${hours} jam` : `${hours} jam ${rest} menit`;
+}
@@ -1,7 +1,9 @@
 import { createClient } from "@/utils/supabase/client";
+import { getOrCreateBookingConversation } from "@/services/booking/booking-conversation";
 
 export interface Message {
   id: string;
+  conversation_id: string;
   sender_id: string;
   receiver_id: string;
   content: string;
@@ -12,10 +14,25 @@ export interface Message {
 
 export interface Conversation {
   id: string;
-  participant1_id: string;
-  participant2_id: string;
-  last_message_id: string;
-  last_message_time: string;
+  client_id: string;
+  streamer_id: number;
+  created_at: string;
+  // Set for a booking's own thread
+  booking_id: number | null;
+}
+
+// Which side of its conversations the signed-in user is on. A streamer's
+// conversations are keyed by their streamer id, a brand's by their user id.
+export interface InboxParticipant {
+  userId: string;
+  role: 'client' | 'streamer';
+  streamerId: number | null;
+}
+
+// The other side of a conversation, as shown in the inbox and thread header
+export interface Counterpart {
+  name: string;
+  imageUrl: string | null;
 }
 
 const FORBIDDEN_PATTERNS = [
@@ -28,12 +45,29 @@ function containsForbiddenContent(message: string): boolean {
   return FORBIDDEN_PATTERNS.some(pattern => pattern.test(message));
 }
 
-export async function getConversations(userId: string) {
+export async function getInboxParticipant(userId: string): Promise<InboxParticipant> {
+  const supabase = createClient();
+
+  const { data: streamer, error } = await supabase
+    .from('streamers')
+    .select('id')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return streamer
+    ? { userId, role: 'streamer', streamerId: streamer.id }
+    : { userId, role: 'client', streamerId: null };
+}
+
+// Conversations from the participant's side, most recently active first, with
+// the brand's profile attached for the streamer's inbox
+export async function getConversations(participant: InboxParticipant) {
   const supabase = createClient();
   
   try {
-    // Get conversations where user is the client
-    const { data: clientConversations, error: clientError } = await supabase
+    const query = supabase
       .from('conversations')
       .select(`
         *,
@@ -42,27 +76,95 @@ export async function getConversations(userId: string) {
           first_name,
           last_name,
           image_url,
-          user_id
+          user_id,
+          timezone
+        ),
+        booking:bookings (
+          id,
+          start_time,
+          end_time,
+          platform,
+          special_request,
+          status,
+          package_id,
+          timezone
         ),
         messages (
           id,
           content,
           created_at,
-          sender_id
+          sender_id,
+          conversation_id,
+          is_read
         )
-      `)
-      .eq('client_id', userId)
-      .order('created_at', { ascending: false });
+      `);
+
+    const { data: conversations, error: conversationsError } = participant.role === 'streamer'
+      ? await query.eq('streamer_id', participant.streamerId)
+      : await query.eq('client_id', participant.userId);
+
+    if (conversationsError) throw conversationsError;
+
+    const clientIds = Array.from(new Set((conversations ?? []).map(conversation => conversation.client_id)));
+    const { data: clients, error: clientsError } = clientIds.length > 0
+      ? await supabase
+          .from('users')
+          .select('id, first_name, last_name, brand_name, profile_picture_url')
+          .in('id', clientIds)
+      : { data: [], error: null };
+
+    if (clientsError) throw clientsError;
 
-    if (clientError) throw clientError;
+    return (conversations ?? [])
+      .map(conversation => {
+        const messages = [...(conversation.messages ?? [])].sort((a, b) =>
+          new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+        );
 
-    return clientConversations;
+        return {
+          ...conversation,
+          client: clients?.find(client => client.id === conversation.client_id) ?? null,
+          lastMessage: messages[0] ?? null,
+          unreadCount: getUnreadCount(messages, participant.userId)
+        };
+      })
+      .sort((a, b) =>
+        new Date(b.lastMessage?.created_at ?? b.created_at).getTime() -
+        new Date(a.lastMessage?.created_at ?? a.created_at).getTime()
+      );
   } catch (error) {
     console.error('Error fetching conversations:', error);
     throw error;
   }
 }
 
+// Messages the other side sent that this user has not read yet
+export function getUnreadCount(messages: Pick<Message, 'sender_id' | 'is_read'>[], userId: string) {
+  return messages.filter(message => message.sender_id !== userId && !message.is_read).length;
+}
+
+export function getCounterpart(
+  conversation: {
+    streamer: { first_name: string; last_name: string; image_url: string | null } | null;
+    client: { first_name: string | null; last_name: string | null; brand_name: string | null; profile_picture_url: string | null } | null;
+  },
+  participant: InboxParticipant
+): Counterpart {
+  if (participant.role === 'client') {
+    return {
+      name: conversation.streamer ? `${conversation.streamer.first_name} ${conversation.streamer.last_name}` : 'Streamer',
+      imageUrl: conversation.streamer?.image_url ?? null
+    };
+  }
+
+  const client = conversation.client;
+  const fullName = [client?.first_name, client?.last_name].filter(Boolean).join(' ');
+  return {
+    name: client?.brand_name || fullName || 'Brand',
+    imageUrl: client?.profile_picture_url ?? null
+  };
+}
+
 export async function getMessages(conversationId: string) {
   const supabase = createClient();
   
@@ -137,10 +239,15 @@ export async function sendMessage(message: {
   }
 }
 
-export function subscribeToMessages(conversationId: string, callback: (message: Message) => void) {
+// New messages in a thread, and changes to them such as read receipts
+export function subscribeToMessages(
+  conversationId: string,
+  callback: (message: Message) => void,
+  onUpdate?: (message: Message) => void
+) {
   const supabase = createClient();
   
-  return supabase
+  const channel = supabase
     .channel(`messages:${conversationId}`)
     .on('postgres_changes', {
       event: 'INSERT',
@@ -149,20 +256,127 @@ export function subscribeToMessages(conversationId: string, callback: (message:
       filter: `conversation_id=eq.${conversationId}`
     }, (payload) => {
       callback(payload.new as Message);
+    });
+
+  if (onUpdate) {
+    channel.on('postgres_changes', {
+      event: 'UPDATE',
+      schema: 'public',
+      table: 'messages',
+      filter: `conversation_id=eq.${conversationId}`
+    }, (payload) => {
+      onUpdate(payload.new as Message);
+    });
+  }
+
+  return channel.subscribe();
+}
+
+// Marks what the other side sent in a thread as read, once the user sees it
+export async function markMessagesRead(conversationId: string, userId: string) {
+  const supabase = createClient();
+
+  const { error } = await supabase
+    .from('messages')
+    .update({ is_read: true })
+    .eq('conversation_id', conversationId)
+    .neq('sender_id', userId)
+    .eq('is_read', false);
+
+  if (error) {
+    console.error('Error marking messages as read:', error);
+    throw error;
+  }
+}
+
+// Unread messages across all of the participant's conversations
+export async function getUnreadMessageCount(participant: InboxParticipant): Promise<number> {
+  const supabase = createClient();
+
+  const query = supabase
+    .from('messages')
+    .select('id, conversations!inner (client_id, streamer_id)', { count: 'exact', head: true })
+    .eq('is_read', false)
+    .neq('sender_id', participant.userId);
+
+  const { count, error } = participant.role === 'streamer'
+    ? await query.eq('conversations.streamer_id', participant.streamerId)
+    : await query.eq('conversations.client_id', participant.userId);
+
+  if (error) {
+    console.error('Error counting unread messages:', error);
+    throw error;
+  }
+
+  return count ?? 0;
+}
+
+// Any message sent or read in the user's conversations; row level security
+// limits the events to threads they take part in. `scope` keeps the channels
+// of components listening at the same time apart.
+export function subscribeToInboxMessages(userId: string, scope: string, callback: () => void) {
+  const supabase = createClient();
+
+  return supabase
+    .channel(`inbox-messages:${scope}:${userId}`)
+    .on('postgres_changes', {
+      event: '*',
+      schema: 'public',
+      table: 'messages'
+    }, () => {
+      callback();
     })
     .subscribe();
 }
 
-export function subscribeToConversations(userId: string, callback: (conversation: any) => void) {
+// Typing indicators ride on realtime presence: each participant tracks
+// whether they are typing in the thread, and `onTypingChange` gets the other
+// users currently typing
+export function joinTypingPresence(
+  conversationId: string,
+  userId: string,
+  onTypingChange: (typingUserIds: string[]) => void
+) {
+  const supabase = createClient();
+  const channel = supabase.channel(`typing:${conversationId}`, {
+    config: { presence: { key: userId } }
+  });
+
+  channel
+    .on('presence', { event: 'sync' }, () => {
+      const state = channel.presenceState<{ typing: boolean }>();
+      onTypingChange(
+        Object.entries(state)
+          .filter(([key, presences]) => key !== userId && presences.some(presence => presence.typing))
+          .map(([key]) => key)
+      );
+    })
+    .subscribe(async (status) => {
+      if (status === 'SUBSCRIBED') {
+        await channel.track({ typing: false });
+      }
+    });
+
+  return {
+    setTyping: (typing: boolean) => channel.track({ typing }),
+    leave: () => supabase.removeChannel(channel)
+  };
+}
+
+// Realtime filters take a single column, so each side listens on its own key
+export function subscribeToConversations(participant: InboxParticipant, callback: (conversation: any) => void) {
   const supabase = createClient();
+  const filter = participant.role === 'streamer'
+    ? `streamer_id=eq.${participant.streamerId}`
+    : `client_id=eq.${participant.userId}`;
   
   return supabase
-    .channel(`conversations:${userId}`)
+    .channel(`conversations:${participant.userId}`)
     .on('postgres_changes', {
       event: '*',
       schema: 'public',
       table: 'conversations',
-      filter: `or(participant1_id.eq.${userId},participant2_id.eq.${userId})`
+      filter
     }, (payload) => {
       callback(payload.new);
     })
@@ -188,6 +402,7 @@ export async function createOrGetConversation(clientId: string, streamerId: numb
       `)
       .eq('client_id', clientId)
       .eq('streamer_id', streamerId)
+      .is('booking_id', null)
       .single();
 
     if (!searchError && existingConversation) {
@@ -223,4 +438,25 @@ export async function createOrGetConversation(clientId: string, streamerId: numb
     console.error('Error in createOrGetConversation:', error);
     throw error;
   }
-} 
\ No newline at end of file
+}
+
+// The thread for a booking (shared by all sessions of a package), created
+// the first time it is opened for bookings paid before threads existed
+export async function getBookingConversation(bookingId: number) {
+  const supabase = createClient();
+
+  try {
+    const { data: booking, error: bookingError } = await supabase
+      .from('bookings')
+      .select('id, package_id, client_id, streamer_id')
+      .eq('id', bookingId)
+      .single();
+
+    if (bookingError) throw bookingError;
+
+    return await getOrCreateBookingConversation(supabase, booking);
+  } catch (error) {
+    console.error('Error in getBookingConversation:', error);
+    throw error;
+  }
+}
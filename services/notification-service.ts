@@ -1,5 +1,5 @@
 import { createClient } from "@/utils/supabase/client";
-import { format } from 'date-fns';
+import { DEFAULT_TIMEZONE, formatInZone, formatTimeRange, getTimeZoneLabel } from '@/lib/timezones';
 
 interface NotificationData {
   user_id?: string | null;
@@ -45,7 +45,7 @@ export async function createBookingNotifications(booking: any, type: string) {
     const supabase = createClient();
     const { data: streamerData, error: streamerError } = await supabase
       .from('streamers')
-      .select('first_name, last_name, user_id')
+      .select('first_name, last_name, user_id, timezone')
       .eq('id', booking.streamer_id)
       .single();
 
@@ -54,6 +54,11 @@ export async function createBookingNotifications(booking: any, type: string) {
       throw streamerError;
     }
 
+    // Messages are read later by the other party, so times are written in the
+    // recipient's zone rather than the sender's
+    const streamerTimeZone = streamerData.timezone || DEFAULT_TIMEZONE;
+    const clientTimeZone = booking.timezone || DEFAULT_TIMEZONE;
+
     const notifications: NotificationData[] = [];
 
     switch (type) {
@@ -61,7 +66,7 @@ export async function createBookingNotifications(booking: any, type: string) {
         notifications.push(
           {
             streamer_id: booking.streamer_id,
-            message: `${booking.client_first_name} ${booking.client_last_name} wants to book your services for ${format(new Date(booking.start_time), 'dd MMMM HH:mm')} - ${format(new Date(booking.end_time), 'HH:mm')}`,
+            message: `${booking.client_first_name} ${booking.client_last_name} wants to book your services for ${formatInZone(booking.start_time, streamerTimeZone, 'dd MMMM')} ${formatTimeRange(booking.start_time, booking.end_time, streamerTimeZone)}`,
             type: 'booking_request',
             booking_id: booking.id
           },
@@ -95,7 +100,7 @@ export async function createBookingNotifications(booking: any, type: string) {
         notifications.push(
           {
             user_id: booking.client_id,
-            message: `${streamerData.first_name} ${streamerData.last_name} has accepted your booking for ${format(new Date(booking.start_time), 'dd MMMM HH:mm')}`,
+            message: `${streamerData.first_name} ${streamerData.last_name} has accepted your booking for ${formatInZone(booking.start_time, clientTimeZone, 'dd MMMM HH:mm')} ${getTimeZoneLabel(clientTimeZone)}`,
             type: 'confirmation',
             booking_id: booking.id
           }
@@ -106,7 +111,7 @@ export async function createBookingNotifications(booking: any, type: string) {
         notifications.push(
           {
             user_id: booking.client_id,
-            message: `Your booking for ${format(new Date(booking.start_time), 'dd MMMM HH:mm')} has been rejected.`,
+            message: `Your booking for ${formatInZone(booking.start_time, clientTimeZone, 'dd MMMM HH:mm')} ${getTimeZoneLabel(clientTimeZone)} has been rejected.`,
             type: 'booking_rejected',
             booking_id: booking.id
           }
@@ -0,0 +1,46 @@
+// Which payment paid for a booking. Bookings in a package share the package's
+// single payment, and each occurrence's share of it is its own price; a
+// standalone booking has a payment of its own.
+
+interface PaidBooking {
+  id: number;
+  price: number | string;
+  package_id?: number | null;
+}
+
+interface PaymentRecord {
+  id: number;
+  booking_id: number | null;
+  package_id?: number | null;
+  amount: number | string;
+  order_id?: string | null;
+  transaction_id?: string | null;
+}
+
+export type PaymentOwner =
+  | { column: 'booking_id'; id: number }
+  | { column: 'package_id'; id: number };
+
+export function getPaymentOwner(booking: Pick<PaidBooking, 'id' | 'package_id'>): PaymentOwner {
+  return booking.package_id
+    ? { column: 'package_id', id: booking.package_id }
+    : { column: 'booking_id', id: booking.id };
+}
+
+export function getPaidAmount(booking: PaidBooking, payment: PaymentRecord) {
+  return booking.package_id ? Number(booking.price) : Number(payment.amount);
+}
+
+export class MissingOrderIdError extends Error {
+  constructor(public readonly paymentId: number) {
+    super(`Payment ${paymentId} has no order id; look the order up by hand`);
+    this.name = 'MissingOrderIdError';
+  }
+}
+
+// Order id the payment was sent to the gateway with. An order id cannot be
+// rebuilt: it carries the moment checkout started.
+export function getPaymentOrderId(payment: PaymentRecord) {
+  if (!payment.order_id) throw new MissingOrderIdError(payment.id);
+  return payment.order_id;
+}
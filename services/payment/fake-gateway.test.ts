@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { completeFakeCheckout, fakeGateway } from './fake-gateway';
+
+// The store outlives each test, so every test checks out its own order
+let nextBookingId = 40;
+
+async function settleCheckout() {
+  const orderId = `SALDA-V1-${++nextBookingId}-1700000000000`;
+  const { token } = await fakeGateway.createTransaction({
+    orderId,
+    amount: 150000,
+    customer: { firstName: 'Rina', email: 'rina@example.com' },
+    expiryMinutes: 30,
+    finishUrl: '/client-bookings'
+  });
+  const { notification } = await completeFakeCheckout(token, 'settlement', 'http://localhost/api/payments/webhook');
+  return { orderId, notification };
+}
+
+describe('fakeGateway', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('ok')));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends the webhook a notification the gateway verifies', async () => {
+    const { orderId, notification } = await settleCheckout();
+
+    expect(notification).toMatchObject({ order_id: orderId, transaction_status: 'settlement', gross_amount: '150000.00' });
+    expect(fakeGateway.verifyNotification(notification)).toBe(true);
+    expect(fakeGateway.verifyNotification({ ...notification, gross_amount: '1.00' })).toBe(false);
+  });
+
+  it('finds a settled payment for refund by its order id', async () => {
+    const { orderId, notification } = await settleCheckout();
+
+    // The transaction id the webhook stores is not an order id
+    await expect(fakeGateway.refund(notification.transaction_id!, { refundKey: 'refund-1', amount: 50000, reason: 'Booking cancelled' }))
+      .rejects.toThrow(/no settled payment/);
+
+    await expect(fakeGateway.refund(orderId, { refundKey: 'refund-1', amount: 50000, reason: 'Booking cancelled' }))
+      .resolves.toMatchObject({ order_id: orderId, transaction_status: 'partial_refund', refund_amount: '50000.00' });
+    await expect(fakeGateway.refund(orderId, { refundKey: 'refund-2', amount: 100000, reason: 'Booking cancelled' }))
+      .resolves.toMatchObject({ transaction_status: 'refund' });
+    await expect(fakeGateway.getStatus(orderId)).resolves.toMatchObject({ transaction_status: 'refund' });
+  });
+
+  it('refuses to refund more than was paid', async () => {
+    const { orderId } = await settleCheckout();
+
+    await expect(fakeGateway.refund(orderId, { refundKey: 'refund-1', amount: 200000, reason: 'Booking cancelled' }))
+      .rejects.toThrow(/exceeds the paid amount/);
+  });
+});
@@ -0,0 +1,192 @@
+import crypto from 'crypto';
+import { signMidtransNotification, verifyMidtransSignature, type MidtransNotification } from './midtrans-notification';
+import type { GatewayTransactionStatus, PaymentGateway } from './payment-gateway';
+
+// In-process stand-in for Midtrans, enabled with PAYMENT_GATEWAY=fake. Checkout
+// happens on /fake-checkout/[token], which settles the transaction here and
+// sends a signed, Midtrans-shaped notification to the payment webhook, so the
+// booking lifecycle runs end to end without network access or sandbox keys.
+// State lives in memory and is lost on restart.
+
+// Notifications are signed with this key instead of the Midtrans server key,
+// so a fake notification is never accepted while Midtrans is the gateway
+const FAKE_GATEWAY_KEY = process.env.FAKE_GATEWAY_KEY || 'fake-gateway-key';
+
+export type FakeCheckoutOutcome = 'settlement' | 'pending' | 'deny';
+
+export interface FakeTransaction {
+  token: string;
+  orderId: string;
+  transactionId: string;
+  amount: number;
+  customerName: string;
+  finishUrl: string;
+  expiresAt: number;
+  // null until the brand picks an outcome on the checkout page, matching
+  // Midtrans, which has no transaction before a payment method is chosen
+  transactionStatus: string | null;
+  refundedAmount: number;
+}
+
+const STATUS_CODES: Record<string, string> = {
+  settlement: '200',
+  pending: '201',
+  deny: '202',
+  cancel: '200',
+  expire: '407',
+  refund: '200',
+  partial_refund: '200',
+};
+
+export class FakeCheckoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FakeCheckoutError';
+  }
+}
+
+// Route handlers are bundled separately in development, so the store hangs
+// off globalThis to be shared between them
+const store = globalThis as typeof globalThis & { fakeGatewayTransactions?: Map<string, FakeTransaction> };
+const transactions = (store.fakeGatewayTransactions ??= new Map());
+
+function findByOrderId(orderId: string) {
+  for (const transaction of Array.from(transactions.values())) {
+    if (transaction.orderId === orderId) return transaction;
+  }
+  return null;
+}
+
+// Pending transactions lapse at their expiry, as they would at Midtrans
+function applyExpiry(transaction: FakeTransaction) {
+  if (transaction.transactionStatus === 'pending' && Date.now() > transaction.expiresAt) {
+    transaction.transactionStatus = 'expire';
+  }
+}
+
+function toStatus(transaction: FakeTransaction): GatewayTransactionStatus {
+  const transactionStatus = transaction.transactionStatus ?? 'pending';
+  return {
+    order_id: transaction.orderId,
+    status_code: STATUS_CODES[transactionStatus] ?? '200',
+    gross_amount: transaction.amount.toFixed(2),
+    transaction_id: transaction.transactionId,
+    transaction_status: transactionStatus,
+    payment_type: 'fake'
+  };
+}
+
+function toNotification(transaction: FakeTransaction): MidtransNotification {
+  const status = toStatus(transaction);
+  const notification = {
+    ...status,
+    gross_amount: status.gross_amount!,
+    transaction_status: status.transaction_status!,
+    transaction_time: new Date().toISOString(),
+    signature_key: ''
+  };
+  notification.signature_key = signMidtransNotification(notification, FAKE_GATEWAY_KEY);
+  return notification;
+}
+
+export function getFakeTransaction(token: string) {
+  const transaction = transactions.get(token);
+  if (transaction) applyExpiry(transaction);
+  return transaction ?? null;
+}
+
+// Records the brand's choice on the checkout page and delivers the matching
+// notification to the webhook, the way Midtrans would after payment.
+export async function completeFakeCheckout(token: string, outcome: FakeCheckoutOutcome, webhookUrl: string) {
+  const transaction = getFakeTransaction(token);
+  if (!transaction) {
+    throw new FakeCheckoutError('Transaction not found');
+  }
+  if (Date.now() > transaction.expiresAt) {
+    throw new FakeCheckoutError('Checkout has expired');
+  }
+  if (transaction.transactionStatus && transaction.transactionStatus !== 'pending') {
+    throw new FakeCheckoutError(`Transaction is already ${transaction.transactionStatus}`);
+  }
+
+  transaction.transactionStatus = outcome;
+  const notification = toNotification(transaction);
+
+  const response = await fetch(webhookUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(notification)
+  });
+
+  if (!response.ok) {
+    console.error('Fake gateway webhook delivery failed:', response.status, await response.text());
+  }
+
+  return { notification, delivered: response.ok };
+}
+
+export const fakeGateway: PaymentGateway = {
+  name: 'fake',
+
+  async createTransaction(input) {
+    const token = `fake-${crypto.randomUUID()}`;
+
+    transactions.set(token, {
+      token,
+      orderId: input.orderId,
+      transactionId: crypto.randomUUID(),
+      amount: input.amount,
+      customerName: input.customer.firstName,
+      finishUrl: input.finishUrl,
+      expiresAt: Date.now() + input.expiryMinutes * 60 * 1000,
+      transactionStatus: null,
+      refundedAmount: 0
+    });
+
+    return { token, redirectUrl: `/fake-checkout/${token}` };
+  },
+
+  async getStatus(orderId) {
+    const transaction = findByOrderId(orderId);
+    if (!transaction || !transaction.transactionStatus) return null;
+
+    applyExpiry(transaction);
+    return toStatus(transaction);
+  },
+
+  // Server-initiated changes do not send notifications; the caller already
+  // records the outcome, as the hold expiry job and refunds do
+  async cancel(orderId) {
+    const transaction = findByOrderId(orderId);
+    if (!transaction || !transaction.transactionStatus) return null;
+
+    applyExpiry(transaction);
+    if (transaction.transactionStatus === 'pending') {
+      transaction.transactionStatus = 'cancel';
+    }
+    return toStatus(transaction);
+  },
+
+  async refund(orderId, input) {
+    const transaction = findByOrderId(orderId);
+    if (!transaction || !['settlement', 'partial_refund'].includes(transaction.transactionStatus ?? '')) {
+      throw new Error(`Fake gateway: order ${orderId} has no settled payment to refund`);
+    }
+    if (transaction.refundedAmount + input.amount > transaction.amount) {
+      throw new Error(`Fake gateway: refund exceeds the paid amount for order ${orderId}`);
+    }
+
+    transaction.refundedAmount += input.amount;
+    transaction.transactionStatus = transaction.refundedAmount === transaction.amount ? 'refund' : 'partial_refund';
+
+    return {
+      ...toStatus(transaction),
+      refund_key: input.refundKey,
+      refund_amount: input.amount.toFixed(2)
+    };
+  },
+
+  verifyNotification(notification) {
+    return verifyMidtransSignature(notification, FAKE_GATEWAY_KEY);
+  }
+};
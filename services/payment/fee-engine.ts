@@ -0,0 +1,179 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { calculateBookingPrice, type FeeRates, type PriceBreakdown, type ServicePackagePrice } from './pricing';
+import { applyPromoCode, type AppliedPromo } from './promo-codes';
+import { DEFAULT_SLOT_MINUTES } from '@/services/booking/slots';
+import { DEFAULT_TIMEZONE } from '@/lib/timezones';
+
+// Decides what a booking costs. Commission comes from commission_rates, most
+// specific match first: the streamer's tier, then their category, then the
+// default row. The brand service fee and PPN are platform-wide settings.
+
+const DEFAULT_COMMISSION_RATE = 0.30;
+const DEFAULT_VAT_RATE = 0.11;
+
+interface CommissionRate {
+  category: string | null;
+  tier: string | null;
+  rate: number | string;
+}
+
+interface QuoteInput {
+  streamerId: number | string;
+  minutes: number;
+  // Streamer package the brand picked; its duration must equal minutes
+  servicePackageId?: number | null;
+  // Promo code entered by the signed-in brand
+  promo?: {
+    code: string;
+    clientId: string;
+  };
+}
+
+export interface BookingQuote {
+  streamer: {
+    id: number;
+    category: string;
+    tier: string | null;
+    // Booking lengths must be a multiple of this
+    slotMinutes: number;
+    // Zone the streamer's availability is written in
+    timeZone: string;
+  };
+  breakdown: PriceBreakdown;
+  promo: AppliedPromo | null;
+}
+
+interface PackageQuoteInput {
+  streamerId: number | string;
+  hours: number;
+  sessions: number;
+}
+
+export interface PackageQuote {
+  streamer: BookingQuote['streamer'];
+  // Price of one session; every occurrence is booked at this price
+  sessionBreakdown: PriceBreakdown;
+  sessions: number;
+  total: number;
+}
+
+export class QuoteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuoteError';
+  }
+}
+
+function envNumber(value: string | undefined, fallback: number) {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function pickCommissionRate(rates: CommissionRate[], category: string, tier: string | null) {
+  const match =
+    (tier && rates.find(r => r.tier === tier)) ||
+    rates.find(r => r.category === category && !r.tier) ||
+    rates.find(r => !r.category && !r.tier);
+
+  return match ? Number(match.rate) : DEFAULT_COMMISSION_RATE;
+}
+
+export async function getFeeRates(supabase: SupabaseClient, streamer: { category: string; tier: string | null }): Promise<FeeRates> {
+  const { data: rates, error } = await supabase
+    .from('commission_rates')
+    .select('category, tier, rate')
+    .eq('is_active', true);
+
+  if (error) throw error;
+
+  return {
+    commissionRate: pickCommissionRate(rates ?? [], streamer.category, streamer.tier),
+    serviceFee: envNumber(process.env.BRAND_SERVICE_FEE, 0),
+    vatRate: envNumber(process.env.VAT_RATE, DEFAULT_VAT_RATE),
+  };
+}
+
+async function getServicePackage(supabase: SupabaseClient, streamerId: number, servicePackageId: number, minutes: number): Promise<ServicePackagePrice> {
+  const { data: servicePackage } = await supabase
+    .from('streamer_packages')
+    .select('id, name, price, duration_hours')
+    .eq('id', servicePackageId)
+    .eq('streamer_id', streamerId)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (!servicePackage) {
+    throw new QuoteError('Package not found');
+  }
+  if (servicePackage.duration_hours * 60 !== minutes) {
+    throw new QuoteError(`This package is ${servicePackage.duration_hours} hours long`);
+  }
+
+  return { id: servicePackage.id, name: servicePackage.name, price: Number(servicePackage.price) };
+}
+
+// Prices a booking from the streamer's stored hourly rate, or from the
+// streamer package the brand picked. Used both for the checkout summary and,
+// authoritatively, when the payment is created. An invalid promo code throws
+// PromoCodeError.
+export async function quoteBooking(supabase: SupabaseClient, { streamerId, minutes, servicePackageId, promo: promoInput }: QuoteInput): Promise<BookingQuote> {
+  const { data: streamer } = await supabase
+    .from('streamers')
+    .select('id, price, category, tier, slot_minutes, timezone')
+    .eq('id', streamerId)
+    .single();
+
+  if (!streamer) {
+    throw new QuoteError('Streamer not found');
+  }
+
+  const rates = await getFeeRates(supabase, streamer);
+  const hourlyRate = Number(streamer.price);
+  const hours = minutes / 60;
+  const servicePackage = servicePackageId
+    ? await getServicePackage(supabase, streamer.id, servicePackageId, minutes)
+    : null;
+
+  const promo = promoInput
+    ? await applyPromoCode(createAdminClient(), promoInput.code, {
+        clientId: promoInput.clientId,
+        streamer,
+        subtotal: servicePackage ? Math.round(servicePackage.price) : Math.round(hourlyRate * hours)
+      })
+    : null;
+
+  return {
+    streamer: {
+      id: streamer.id,
+      category: streamer.category,
+      tier: streamer.tier,
+      slotMinutes: streamer.slot_minutes ?? DEFAULT_SLOT_MINUTES,
+      timeZone: streamer.timezone ?? DEFAULT_TIMEZONE
+    },
+    breakdown: calculateBookingPrice({
+      hourlyRate,
+      hours,
+      rates,
+      discount: promo?.discount,
+      discountFundedBy: promo?.fundedBy,
+      promoCode: promo?.code,
+      servicePackage
+    }),
+    promo
+  };
+}
+
+// Prices a package of identical sessions. Each session is priced like a
+// single hourly booking and the brand pays for all of them at once; promo
+// codes and streamer packages apply to single bookings only.
+export async function quotePackage(supabase: SupabaseClient, { streamerId, hours, sessions }: PackageQuoteInput): Promise<PackageQuote> {
+  const { streamer, breakdown } = await quoteBooking(supabase, { streamerId, minutes: hours * 60 });
+
+  return {
+    streamer,
+    sessionBreakdown: breakdown,
+    sessions,
+    total: breakdown.total * sessions
+  };
+}
@@ -0,0 +1,206 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { addMinutes, differenceInMinutes } from 'date-fns';
+import type { PriceBreakdown } from './pricing';
+import type { PaymentStatus } from './midtrans-notification';
+import { DEFAULT_TIMEZONE, formatInZone, getTimeZoneLabel, isValidTimeZone } from '@/lib/timezones';
+
+// Invoices for paid bookings. Numbers are allocated by the issue_invoice
+// database function; this module issues on demand and renders the printable
+// HTML document (browsers save it as PDF from the print dialog).
+
+const SELLER = {
+  name: process.env.INVOICE_SELLER_NAME || 'PT Salda Digital Indonesia',
+  npwp: process.env.INVOICE_SELLER_NPWP || '',
+  address: process.env.INVOICE_SELLER_ADDRESS || '',
+};
+
+// Only paid payments are invoiced; a fully refunded one keeps its invoice
+export type InvoicePaymentStatus = Extract<PaymentStatus, 'completed' | 'refunded'>;
+
+const PAYMENT_STATUS_LABELS: Record<InvoicePaymentStatus, string> = {
+  completed: 'LUNAS',
+  refunded: 'DIKEMBALIKAN'
+};
+
+export interface Invoice {
+  id: number;
+  invoice_number: string;
+  booking_id: number;
+  payment_id: number;
+  client_id: string;
+  buyer_name: string;
+  buyer_brand_name: string | null;
+  buyer_email: string | null;
+  buyer_npwp: string | null;
+  buyer_npwp_name: string | null;
+  buyer_npwp_address: string | null;
+  price_breakdown: Partial<PriceBreakdown> & { total: number };
+  total: number;
+  issued_at: string;
+}
+
+export interface InvoiceBooking {
+  id: number;
+  start_time: string;
+  end_time: string;
+  platform: string;
+  // Brand's zone when they booked; times on the invoice are in it
+  timezone: string | null;
+  streamer: {
+    first_name: string;
+    last_name: string;
+  };
+}
+
+// Returns the booking's invoice, issuing it first if needed. Needs the
+// service-role client.
+export async function issueInvoice(supabase: SupabaseClient, bookingId: number): Promise<Invoice> {
+  const { data, error } = await supabase
+    .rpc('issue_invoice', { p_booking_id: bookingId })
+    .single<Invoice>();
+
+  // Another request issued it at the same moment; its number stands
+  if (error?.code === '23505') {
+    const { data: existing, error: existingError } = await supabase
+      .from('invoices')
+      .select('*')
+      .eq('booking_id', bookingId)
+      .single<Invoice>();
+
+    if (existingError) throw existingError;
+    return existing;
+  }
+
+  if (error) throw error;
+  return data;
+}
+
+function escapeHtml(value: string | null | undefined) {
+  return (value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const formatRupiah = (amount: number) => `Rp ${Math.round(amount).toLocaleString('id-ID')}`;
+
+function getInvoiceTimeZone(booking: InvoiceBooking) {
+  return isValidTimeZone(booking.timezone) ? booking.timezone : DEFAULT_TIMEZONE;
+}
+
+function formatSession(start: Date, minutes: number, timeZone: string) {
+  return `${formatInZone(start, timeZone, 'dd MMM yyyy HH:mm')}-${formatInZone(addMinutes(start, minutes), timeZone, 'HH:mm')} ${getTimeZoneLabel(timeZone)}`;
+}
+
+function getLineItems(invoice: Invoice, booking: InvoiceBooking) {
+  const breakdown = invoice.price_breakdown;
+  const timeZone = getInvoiceTimeZone(booking);
+  const streamerName = `${booking.streamer.first_name} ${booking.streamer.last_name}`;
+  const start = new Date(booking.start_time);
+
+  if (!breakdown.hourlyRate) {
+    return [{ description: `Livestream ${booking.platform} dengan ${streamerName}`, amount: invoice.total }];
+  }
+
+  const minutes = breakdown.hours ? Math.round(breakdown.hours * 60) : differenceInMinutes(new Date(booking.end_time), start);
+
+  // A streamer package is sold as one item, not by the hour
+  if (breakdown.servicePackage) {
+    return [{
+      description: `Paket ${breakdown.servicePackage.name}: livestream ${booking.platform} dengan ${streamerName}, ${formatSession(start, minutes, timeZone)}`,
+      amount: breakdown.subtotal ?? breakdown.servicePackage.price
+    }];
+  }
+
+  // One line per streamed hour; a trailing part hour is billed pro rata
+  return Array.from({ length: Math.ceil(minutes / 60) }, (_, i) => {
+    const slotStart = addMinutes(start, i * 60);
+    const slotMinutes = Math.min(60, minutes - i * 60);
+    return {
+      description: `Livestream ${booking.platform} dengan ${streamerName}, ${formatSession(slotStart, slotMinutes, timeZone)}`,
+      amount: Math.round(breakdown.hourlyRate! * slotMinutes / 60)
+    };
+  });
+}
+
+export function renderInvoiceHtml(invoice: Invoice, booking: InvoiceBooking, paymentStatus: InvoicePaymentStatus) {
+  const breakdown = invoice.price_breakdown;
+  const lineItems = getLineItems(invoice, booking);
+  const rates = breakdown.rates;
+  const taxBase = invoice.total - (breakdown.tax ?? 0);
+
+  const summaryRows = breakdown.hourlyRate ? [
+    ['Subtotal', formatRupiah(breakdown.subtotal ?? 0)],
+    ...(breakdown.discount ? [[`Diskon${breakdown.promoCode ? ` (${breakdown.promoCode})` : ''}`, `- ${formatRupiah(breakdown.discount)}`]] : []),
+    [`Biaya platform${rates ? ` (${Math.round(rates.commissionRate * 1000) / 10}%)` : ''}`, formatRupiah(breakdown.platformFee ?? 0)],
+    ...(breakdown.serviceFee ? [['Biaya layanan', formatRupiah(breakdown.serviceFee)]] : []),
+    ['Dasar Pengenaan Pajak (DPP)', formatRupiah(taxBase)],
+    [`PPN${rates ? ` ${Math.round(rates.vatRate * 1000) / 10}%` : ''}`, formatRupiah(breakdown.tax ?? 0)],
+  ] : [];
+
+  return `<!DOCTYPE html>
+<html lang="id">
+<head>
+<meta charset="utf-8">
+<title>Invoice ${escapeHtml(invoice.invoice_number)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; color: #111827; font-size: 13px; margin: 40px auto; max-width: 760px; padding: 0 24px; }
+  h1 { font-size: 22px; margin: 0; }
+  .header, .parties { display: flex; justify-content: space-between; gap: 24px; margin-bottom: 24px; }
+  .muted { color: #6b7280; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 16px; }
+  th, td { padding: 8px 0; text-align: left; border-bottom: 1px solid #e5e7eb; }
+  td.amount, th.amount { text-align: right; }
+  .summary td { border-bottom: none; padding: 4px 0; }
+  .total td { font-weight: bold; font-size: 15px; border-top: 2px solid #111827; padding-top: 8px; }
+  .print { margin-bottom: 24px; }
+  @media print { .print { display: none; } body { margin: 0 auto; } }
+</style>
+</head>
+<body>
+  <button class="print" onclick="window.print()">Cetak / Simpan PDF</button>
+  <div class="header">
+    <div>
+      <h1>INVOICE</h1>
+      <div class="muted">${escapeHtml(invoice.invoice_number)}</div>
+    </div>
+    <div style="text-align:right">
+      <div>Tanggal: ${formatInZone(invoice.issued_at, getInvoiceTimeZone(booking), 'dd MMMM yyyy')}</div>
+      <div>Booking #${invoice.booking_id}</div>
+      <div>Status: ${PAYMENT_STATUS_LABELS[paymentStatus]}</div>
+    </div>
+  </div>
+  <div class="parties">
+    <div>
+      <strong>Penjual</strong><br>
+      ${escapeHtml(SELLER.name)}<br>
+      ${SELLER.npwp ? `NPWP: ${escapeHtml(SELLER.npwp)}<br>` : ''}
+      ${escapeHtml(SELLER.address)}
+    </div>
+    <div style="text-align:right">
+      <strong>Pembeli</strong><br>
+      ${escapeHtml(invoice.buyer_brand_name || invoice.buyer_name)}<br>
+      ${invoice.buyer_brand_name ? `u.p. ${escapeHtml(invoice.buyer_name)}<br>` : ''}
+      ${invoice.buyer_email ? `${escapeHtml(invoice.buyer_email)}<br>` : ''}
+      ${invoice.buyer_npwp ? `NPWP: ${escapeHtml(invoice.buyer_npwp)}<br>` : ''}
+      ${invoice.buyer_npwp_name ? `${escapeHtml(invoice.buyer_npwp_name)}<br>` : ''}
+      ${escapeHtml(invoice.buyer_npwp_address)}
+    </div>
+  </div>
+  <table>
+    <thead>
+      <tr><th>Deskripsi</th><th class="amount">Jumlah</th></tr>
+    </thead>
+    <tbody>
+      ${lineItems.map(item => `<tr><td>${escapeHtml(item.description)}</td><td class="amount">${formatRupiah(item.amount)}</td></tr>`).join('\n      ')}
+    </tbody>
+  </table>
+  <table class="summary">
+    ${summaryRows.map(([label, value]) => `<tr><td>${escapeHtml(label)}</td><td class="amount">${value}</td></tr>`).join('\n    ')}
+    <tr class="total"><td>Total</td><td class="amount">${formatRupiah(invoice.total)}</td></tr>
+  </table>
+  <p class="muted">Harga dalam Rupiah (IDR). Pembayaran diterima melalui Midtrans.</p>
+</body>
+</html>`;
+}
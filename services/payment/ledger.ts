@@ -0,0 +1,189 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { LEGACY_FEE_RATES, type PriceBreakdown } from './pricing';
+
+// Double-entry ledger for booking money. Every posting is a balanced journal
+// written through post_ledger_journal, keyed so webhook retries and repeated
+// calls post once. Account meanings are documented in the ledger migration.
+// All functions need the service-role client.
+
+export type LedgerAccount =
+  | 'platform_cash'
+  | 'streamer_pending'
+  | 'streamer_payable'
+  | 'payouts_in_transit'
+  | 'platform_commission'
+  | 'tax_payable'
+  | 'promo_expense';
+
+export type LedgerEntryType =
+  | 'booking_captured'
+  | 'booking_refunded'
+  | 'earnings_released'
+  | 'payout_requested'
+  | 'payout_paid'
+  | 'payout_rejected';
+
+export interface LedgerLine {
+  account: LedgerAccount;
+  streamer_id?: number | null;
+  debit?: number;
+  credit?: number;
+}
+
+interface Journal {
+  key: string;
+  entryType: LedgerEntryType;
+  bookingId?: number | null;
+  payoutRequestId?: number | null;
+  lines: LedgerLine[];
+}
+
+interface LedgerBooking {
+  id: number;
+  streamer_id: number;
+  price: number | string;
+  price_breakdown?: PriceBreakdown | null;
+  package_id?: number | null;
+}
+
+interface BookingSplit {
+  total: number;
+  streamerShare: number;
+  platformFee: number;
+  tax: number;
+  // Platform-funded discount, booked as an expense rather than taken from the streamer
+  promoExpense: number;
+}
+
+export async function postJournal(supabase: SupabaseClient, journal: Journal) {
+  const { data, error } = await supabase.rpc('post_ledger_journal', {
+    p_journal_key: journal.key,
+    p_entry_type: journal.entryType,
+    p_booking_id: journal.bookingId ?? null,
+    p_payout_request_id: journal.payoutRequestId ?? null,
+    p_lines: journal.lines.map(line => ({
+      account: line.account,
+      streamer_id: line.streamer_id ?? null,
+      debit: line.debit ?? 0,
+      credit: line.credit ?? 0
+    }))
+  });
+
+  if (error) throw error;
+  return data as number;
+}
+
+// Splits what the brand paid into the streamer's share, platform revenue
+// (commission plus service fee) and tax, using the rates stored on the booking.
+// Bookings made before price breakdowns were stored are split by the old rates.
+function getBookingSplit(booking: LedgerBooking, paidAmount: number): BookingSplit {
+  const breakdown = booking.price_breakdown;
+
+  if (breakdown && breakdown.total === paidAmount) {
+    const platformFunded = breakdown.discountFundedBy === 'platform';
+    return {
+      total: paidAmount,
+      streamerShare: platformFunded ? breakdown.subtotal : breakdown.subtotal - breakdown.discount,
+      platformFee: breakdown.platformFee + (breakdown.serviceFee ?? 0),
+      tax: breakdown.tax,
+      promoExpense: platformFunded ? breakdown.discount : 0
+    };
+  }
+
+  const { commissionRate, vatRate } = LEGACY_FEE_RATES;
+  const streamerShare = Math.round(paidAmount / ((1 + commissionRate) * (1 + vatRate)));
+  const platformFee = Math.round(streamerShare * commissionRate);
+  return { total: paidAmount, streamerShare, platformFee, tax: paidAmount - streamerShare - platformFee, promoExpense: 0 };
+}
+
+// Payment settled: cash in, streamer share held as pending until the stream ends.
+// A package payment is captured once per occurrence.
+export async function postBookingCaptured(supabase: SupabaseClient, booking: LedgerBooking, paymentId: number, paidAmount: number) {
+  const split = getBookingSplit(booking, paidAmount);
+
+  return postJournal(supabase, {
+    key: booking.package_id ? `booking-captured:${paymentId}:${booking.id}` : `booking-captured:${paymentId}`,
+    entryType: 'booking_captured',
+    bookingId: booking.id,
+    lines: [
+      { account: 'platform_cash', debit: split.total },
+      ...(split.promoExpense > 0 ? [{ account: 'promo_expense' as const, debit: split.promoExpense }] : []),
+      { account: 'streamer_pending', streamer_id: booking.streamer_id, credit: split.streamerShare },
+      { account: 'platform_commission', credit: split.platformFee },
+      { account: 'tax_payable', credit: split.tax }
+    ]
+  });
+}
+
+// Refund issued: reverses the capture in proportion to the refunded amount
+export async function postBookingRefunded(supabase: SupabaseClient, booking: LedgerBooking, refundId: number, paidAmount: number, refundAmount: number) {
+  const split = getBookingSplit(booking, paidAmount);
+  const ratio = refundAmount / split.total;
+  const streamerShare = Math.round(split.streamerShare * ratio);
+  const platformFee = Math.round(split.platformFee * ratio);
+  const promoExpense = Math.round(split.promoExpense * ratio);
+
+  return postJournal(supabase, {
+    key: `booking-refunded:${refundId}`,
+    entryType: 'booking_refunded',
+    bookingId: booking.id,
+    lines: [
+      { account: 'streamer_pending', streamer_id: booking.streamer_id, debit: streamerShare },
+      { account: 'platform_commission', debit: platformFee },
+      { account: 'tax_payable', debit: refundAmount + promoExpense - streamerShare - platformFee },
+      ...(promoExpense > 0 ? [{ account: 'promo_expense' as const, credit: promoExpense }] : []),
+      { account: 'platform_cash', credit: refundAmount }
+    ]
+  });
+}
+
+// Moves whatever is still pending for a booking into the streamer's payable
+// balance. Called when the stream completes, and after a late cancellation
+// where the brand only got part of the money back.
+export async function releaseStreamerEarnings(supabase: SupabaseClient, bookingId: number, streamerId: number) {
+  const { data: lines, error } = await supabase
+    .from('ledger_entries')
+    .select('debit, credit')
+    .eq('booking_id', bookingId)
+    .eq('account', 'streamer_pending');
+
+  if (error) throw error;
+
+  const pending = (lines ?? []).reduce((sum, line) => sum + Number(line.credit) - Number(line.debit), 0);
+  if (pending <= 0) return null;
+
+  return postJournal(supabase, {
+    key: `earnings-released:${bookingId}`,
+    entryType: 'earnings_released',
+    bookingId,
+    lines: [
+      { account: 'streamer_pending', streamer_id: streamerId, debit: pending },
+      { account: 'streamer_payable', streamer_id: streamerId, credit: pending }
+    ]
+  });
+}
+
+export async function postPayoutPaid(supabase: SupabaseClient, payoutRequestId: number, streamerId: number, amount: number) {
+  return postJournal(supabase, {
+    key: `payout-paid:${payoutRequestId}`,
+    entryType: 'payout_paid',
+    payoutRequestId,
+    lines: [
+      { account: 'payouts_in_transit', streamer_id: streamerId, debit: amount },
+      { account: 'platform_cash', credit: amount }
+    ]
+  });
+}
+
+// Rejected payouts go back to the streamer's available balance
+export async function postPayoutRejected(supabase: SupabaseClient, payoutRequestId: number, streamerId: number, amount: number) {
+  return postJournal(supabase, {
+    key: `payout-rejected:${payoutRequestId}`,
+    entryType: 'payout_rejected',
+    payoutRequestId,
+    lines: [
+      { account: 'payouts_in_transit', streamer_id: streamerId, debit: amount },
+      { account: 'streamer_payable', streamer_id: streamerId, credit: amount }
+    ]
+  });
+}
@@ -0,0 +1,94 @@
+import midtransClient from 'midtrans-client';
+import { verifyMidtransSignature, type MidtransNotification } from './midtrans-notification';
+import type { PaymentGateway } from './payment-gateway';
+
+const midtransConfig = {
+  isProduction: process.env.NEXT_PUBLIC_MIDTRANS_IS_PRODUCTION === 'true',
+  serverKey: process.env.MIDTRANS_SERVER_KEY!,
+  clientKey: process.env.NEXT_PUBLIC_MIDTRANS_CLIENT_KEY
+};
+
+// Snap creates the checkout; CoreApi handles status checks, cancellations
+// and refunds server to server.
+const snap = new midtransClient.Snap(midtransConfig);
+const coreApi = new midtransClient.CoreApi(midtransConfig);
+
+// Midtrans answers 404 for orders whose Snap page was opened but never
+// turned into a transaction (no payment method chosen).
+function isMidtransNotFound(error: unknown): boolean {
+  if (!(error instanceof midtransClient.MidtransError)) return false;
+  const response = error.ApiResponse as { status_code?: string } | null;
+  return error.httpStatusCode === 404 || response?.status_code === '404';
+}
+
+async function getStatus(orderId: string) {
+  try {
+    const status = await coreApi.transaction.status(orderId);
+    return { ...status, order_id: status.order_id ?? orderId };
+  } catch (error) {
+    if (isMidtransNotFound(error)) return null;
+    throw error;
+  }
+}
+
+export const midtransGateway: PaymentGateway = {
+  name: 'midtrans',
+
+  async createTransaction(input) {
+    const transaction = await snap.createTransaction({
+      transaction_details: {
+        order_id: input.orderId,
+        gross_amount: input.amount
+      },
+      customer_details: {
+        first_name: input.customer.firstName,
+        email: input.customer.email,
+        phone: input.customer.phone || ''
+      },
+      credit_card: {
+        secure: true
+      },
+      callbacks: {
+        finish: input.finishUrl
+      },
+      expiry: {
+        unit: 'minute',
+        duration: input.expiryMinutes
+      }
+    });
+
+    if (!transaction?.token) {
+      throw new Error('Failed to generate Midtrans token');
+    }
+
+    return { token: transaction.token, redirectUrl: transaction.redirect_url ?? null };
+  },
+
+  getStatus,
+
+  async cancel(orderId) {
+    const status = await getStatus(orderId);
+    if (!status || status.transaction_status !== 'pending') return status;
+
+    try {
+      const cancelled = await coreApi.transaction.cancel(orderId);
+      return { ...cancelled, order_id: cancelled.order_id ?? orderId };
+    } catch (error) {
+      if (isMidtransNotFound(error)) return null;
+      throw error;
+    }
+  },
+
+  async refund(orderId, input) {
+    const response = await coreApi.transaction.refund(orderId, {
+      refund_key: input.refundKey,
+      amount: input.amount,
+      reason: input.reason
+    });
+    return { ...response, order_id: response.order_id ?? orderId };
+  },
+
+  verifyNotification(notification: MidtransNotification) {
+    return verifyMidtransSignature(notification, process.env.MIDTRANS_SERVER_KEY!);
+  }
+};
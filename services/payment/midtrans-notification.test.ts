@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import {
+  canTransitionPayment,
+  getNotificationKey,
+  isMidtransNotification,
+  toPaymentStatus,
+  type MidtransNotification
+} from './midtrans-notification';
+
+function notification(fields: Partial<MidtransNotification>): MidtransNotification {
+  return {
+    order_id: 'SALDA-V1-42-1700000000000',
+    status_code: '200',
+    gross_amount: '150000.00',
+    signature_key: 'signature',
+    transaction_status: 'settlement',
+    ...fields
+  };
+}
+
+describe('toPaymentStatus', () => {
+  it.each([
+    ['settlement', undefined, 'completed'],
+    ['capture', 'accept', 'completed'],
+    ['capture', undefined, 'completed'],
+    ['capture', 'challenge', 'pending'],
+    ['pending', undefined, 'pending'],
+    ['deny', undefined, 'failed'],
+    ['cancel', undefined, 'failed'],
+    ['failure', undefined, 'failed'],
+    ['expire', undefined, 'expired'],
+    ['refund', undefined, 'refunded'],
+    ['partial_refund', undefined, 'refunded'],
+    ['authorize', undefined, null]
+  ])('maps %s (fraud status %s) to %s', (transaction_status, fraud_status, expected) => {
+    expect(toPaymentStatus(notification({ transaction_status, fraud_status }))).toBe(expected);
+  });
+});
+
+describe('getNotificationKey', () => {
+  it('keys on the transaction id and status', () => {
+    expect(getNotificationKey(notification({ transaction_id: 'tx-1' }))).toBe('tx-1:settlement');
+  });
+
+  it('falls back to the order id before the gateway assigns a transaction id', () => {
+    expect(getNotificationKey(notification({ transaction_status: 'pending' })))
+      .toBe('SALDA-V1-42-1700000000000:pending');
+  });
+
+  it('gives a challenged capture and its approval different keys', () => {
+    const challenge = notification({ transaction_id: 'tx-1', transaction_status: 'capture', fraud_status: 'challenge' });
+    const accept = notification({ transaction_id: 'tx-1', transaction_status: 'capture', fraud_status: 'accept' });
+
+    expect(getNotificationKey(challenge)).toBe('tx-1:capture:challenge');
+    expect(getNotificationKey(accept)).toBe('tx-1:capture:accept');
+  });
+
+  it('gives a redelivered notification the same key', () => {
+    const fields = { transaction_id: 'tx-1', transaction_status: 'capture', fraud_status: 'accept' };
+    expect(getNotificationKey(notification(fields))).toBe(getNotificationKey(notification(fields)));
+  });
+});
+
+describe('canTransitionPayment', () => {
+  it('only lets a payment move forward', () => {
+    expect(canTransitionPayment('pending', 'completed')).toBe(true);
+    expect(canTransitionPayment('completed', 'refunded')).toBe(true);
+    expect(canTransitionPayment('completed', 'pending')).toBe(false);
+    expect(canTransitionPayment('expired', 'completed')).toBe(false);
+  });
+});
+
+describe('isMidtransNotification', () => {
+  it('accepts a notification with the required fields', () => {
+    expect(isMidtransNotification(notification({ transaction_id: 'tx-1' }))).toBe(true);
+  });
+
+  it('rejects missing or mistyped fields', () => {
+    const { signature_key, ...unsigned } = notification({});
+    expect(isMidtransNotification(unsigned)).toBe(false);
+    expect(isMidtransNotification({ ...notification({}), gross_amount: 150000 })).toBe(false);
+    expect(isMidtransNotification({ ...notification({}), fraud_status: null })).toBe(false);
+    expect(isMidtransNotification([])).toBe(false);
+    expect(isMidtransNotification(null)).toBe(false);
+  });
+});
@@ -0,0 +1,100 @@
+import crypto from 'crypto';
+
+export interface MidtransNotification {
+  order_id: string;
+  status_code: string;
+  gross_amount: string;
+  signature_key: string;
+  transaction_status: string;
+  transaction_id?: string;
+  fraud_status?: string;
+  payment_type?: string;
+  [key: string]: unknown;
+}
+
+export type PaymentStatus = 'pending' | 'completed' | 'failed' | 'expired' | 'refunded';
+
+// Payment statuses a stored payment may move to. Anything not listed here is
+// treated as a replayed or out-of-order notification and ignored.
+const PAYMENT_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ['completed', 'failed', 'expired'],
+  completed: ['refunded'],
+  failed: [],
+  expired: [],
+  refunded: [],
+};
+
+const REQUIRED_FIELDS = ['order_id', 'status_code', 'gross_amount', 'signature_key', 'transaction_status'] as const;
+const OPTIONAL_FIELDS = ['transaction_id', 'fraud_status', 'payment_type'] as const;
+
+export function isMidtransNotification(body: unknown): body is MidtransNotification {
+  if (body === null || typeof body !== 'object' || Array.isArray(body)) return false;
+
+  const fields = body as Record<string, unknown>;
+  return (
+    REQUIRED_FIELDS.every(field => typeof fields[field] === 'string') &&
+    OPTIONAL_FIELDS.every(field => fields[field] === undefined || typeof fields[field] === 'string')
+  );
+}
+
+// Midtrans signs every notification with
+// SHA512(order_id + status_code + gross_amount + server_key).
+export function signMidtransNotification(
+  notification: Pick<MidtransNotification, 'order_id' | 'status_code' | 'gross_amount'>,
+  serverKey: string
+): string {
+  return crypto
+    .createHash('sha512')
+    .update(`${notification.order_id}${notification.status_code}${notification.gross_amount}${serverKey}`)
+    .digest('hex');
+}
+
+export function verifyMidtransSignature(notification: MidtransNotification, serverKey: string): boolean {
+  const expected = signMidtransNotification(notification, serverKey);
+
+  const received = Buffer.from(notification.signature_key, 'utf8');
+  const computed = Buffer.from(expected, 'utf8');
+
+  return received.length === computed.length && crypto.timingSafeEqual(received, computed);
+}
+
+export function isAmountMatching(notification: MidtransNotification, storedAmount: number | string): boolean {
+  return Math.round(Number(notification.gross_amount)) === Math.round(Number(storedAmount));
+}
+
+export function toPaymentStatus(notification: MidtransNotification): PaymentStatus | null {
+  switch (notification.transaction_status) {
+    case 'capture':
+      // Card captures flagged as "challenge" still need manual review in the dashboard
+      return notification.fraud_status === 'accept' || !notification.fraud_status ? 'completed' : 'pending';
+    case 'settlement':
+      return 'completed';
+    case 'pending':
+      return 'pending';
+    case 'deny':
+    case 'cancel':
+    case 'failure':
+      return 'failed';
+    case 'expire':
+      return 'expired';
+    case 'refund':
+    case 'partial_refund':
+      return 'refunded';
+    default:
+      return null;
+  }
+}
+
+export function canTransitionPayment(from: PaymentStatus, to: PaymentStatus): boolean {
+  return PAYMENT_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+// Midtrans retries the same notification until it gets a 2xx, and may resend a
+// given status more than once. One key per (transaction, status) pair lets the
+// history table reject duplicates. A card capture is sent again once its fraud
+// review ends (challenge, then accept or deny), so the fraud status is part of
+// the key.
+export function getNotificationKey(notification: MidtransNotification): string {
+  const key = `${notification.transaction_id || notification.order_id}:${notification.transaction_status}`;
+  return notification.fraud_status ? `${key}:${notification.fraud_status}` : key;
+}
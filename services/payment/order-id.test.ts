@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import {
+  decodeOrderId,
+  encodeOrderId,
+  encodePackageOrderId,
+  InvalidOrderIdError,
+  tryDecodeOrderId
+} from './order-id';
+
+const issuedAt = new Date('2026-10-18T08:00:00.000Z');
+
+describe('encodeOrderId', () => {
+  it('round-trips a booking order id', () => {
+    const orderId = encodeOrderId(42, issuedAt);
+
+    expect(orderId).toBe(`SALDA-V1-42-${issuedAt.getTime()}`);
+    expect(decodeOrderId(orderId)).toEqual({ kind: 'booking', version: 1, bookingId: 42, issuedAt });
+  });
+
+  it('round-trips a package order id', () => {
+    const orderId = encodePackageOrderId(7, issuedAt);
+
+    expect(orderId).toBe(`SALDA-V1-P7-${issuedAt.getTime()}`);
+    expect(decodeOrderId(orderId)).toEqual({ kind: 'package', version: 1, packageId: 7, issuedAt });
+  });
+
+  it('rejects ids that are not positive integers', () => {
+    expect(() => encodeOrderId(0, issuedAt)).toThrow(InvalidOrderIdError);
+    expect(() => encodeOrderId(1.5, issuedAt)).toThrow(InvalidOrderIdError);
+    expect(() => encodePackageOrderId(-3, issuedAt)).toThrow(InvalidOrderIdError);
+  });
+});
+
+describe('decodeOrderId', () => {
+  it('reads both legacy formats as bookings', () => {
+    expect(decodeOrderId('BOOKING-12-1700000000000')).toEqual({
+      kind: 'booking',
+      version: 'legacy',
+      bookingId: 12,
+      issuedAt: new Date(1700000000000)
+    });
+    expect(decodeOrderId('BOOKING_12_1700000000000')).toMatchObject({ kind: 'booking', bookingId: 12 });
+  });
+
+  it('rejects unknown versions and formats', () => {
+    expect(() => decodeOrderId('SALDA-V2-42-1700000000000')).toThrow(/unsupported version 2/);
+    expect(() => decodeOrderId('ORDER-42')).toThrow(/unrecognised format/);
+    expect(() => decodeOrderId('')).toThrow(/empty order id/);
+    expect(() => decodeOrderId('SALDA-V1-0-1700000000000')).toThrow(/booking id/);
+  });
+});
+
+describe('tryDecodeOrderId', () => {
+  it('returns null instead of throwing for an invalid order id', () => {
+    expect(tryDecodeOrderId('not-an-order')).toBeNull();
+    expect(tryDecodeOrderId(encodeOrderId(5, issuedAt))).toMatchObject({ bookingId: 5 });
+  });
+});
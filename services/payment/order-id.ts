@@ -0,0 +1,129 @@
+// Midtrans order ids for bookings and booking packages. Every payment path
+// (payment service, webhook, client callbacks) must go through
+// encodeOrderId/decodeOrderId instead of splitting strings by hand.
+//
+// Current format:  SALDA-V1-{bookingId}-{issuedAt}
+//                  SALDA-V1-P{packageId}-{issuedAt}  (one payment for a package)
+// Legacy formats:  BOOKING-{bookingId}-{issuedAt}  (payment service before V1)
+//                  BOOKING_{bookingId}_{issuedAt}  (format the webhook used to expect)
+
+export const ORDER_ID_PREFIX = 'SALDA';
+export const ORDER_ID_VERSION = 1;
+
+// Midtrans rejects order ids longer than 50 characters
+const MAX_ORDER_ID_LENGTH = 50;
+
+const CURRENT_PATTERN = /^SALDA-V(\d+)-(P?)(\d+)-(\d+)$/;
+const LEGACY_PATTERNS = [
+  /^BOOKING-(\d+)-(\d+)$/,
+  /^BOOKING_(\d+)_(\d+)$/,
+];
+
+export type DecodedOrderId =
+  | {
+      kind: 'booking';
+      version: number | 'legacy';
+      bookingId: number;
+      issuedAt: Date;
+    }
+  | {
+      kind: 'package';
+      version: number;
+      packageId: number;
+      issuedAt: Date;
+    };
+
+export class InvalidOrderIdError extends Error {
+  constructor(public readonly orderId: string, reason: string) {
+    super(`Invalid order id "${orderId}": ${reason}`);
+    this.name = 'InvalidOrderIdError';
+  }
+}
+
+function parsePositiveInt(value: string, orderId: string, field: string): number {
+  const parsed = Number(value);
+  if (!Number.isSafeInteger(parsed) || parsed <= 0) {
+    throw new InvalidOrderIdError(orderId, `${field} must be a positive integer`);
+  }
+  return parsed;
+}
+
+function formatOrderId(reference: string, issuedAt: Date): string {
+  const orderId = `${ORDER_ID_PREFIX}-V${ORDER_ID_VERSION}-${reference}-${issuedAt.getTime()}`;
+
+  if (orderId.length > MAX_ORDER_ID_LENGTH) {
+    throw new InvalidOrderIdError(orderId, `longer than ${MAX_ORDER_ID_LENGTH} characters`);
+  }
+
+  return orderId;
+}
+
+export function encodeOrderId(bookingId: number, issuedAt: Date = new Date()): string {
+  if (!Number.isSafeInteger(bookingId) || bookingId <= 0) {
+    throw new InvalidOrderIdError(String(bookingId), 'booking id must be a positive integer');
+  }
+
+  return formatOrderId(String(bookingId), issuedAt);
+}
+
+export function encodePackageOrderId(packageId: number, issuedAt: Date = new Date()): string {
+  if (!Number.isSafeInteger(packageId) || packageId <= 0) {
+    throw new InvalidOrderIdError(String(packageId), 'package id must be a positive integer');
+  }
+
+  return formatOrderId(`P${packageId}`, issuedAt);
+}
+
+export function decodeOrderId(orderId: string): DecodedOrderId {
+  if (typeof orderId !== 'string' || orderId.length === 0) {
+    throw new InvalidOrderIdError(String(orderId), 'empty order id');
+  }
+
+  const current = orderId.match(CURRENT_PATTERN);
+  if (current) {
+    const version = parsePositiveInt(current[1], orderId, 'version');
+    if (version !== ORDER_ID_VERSION) {
+      throw new InvalidOrderIdError(orderId, `unsupported version ${version}`);
+    }
+    const issuedAt = new Date(parsePositiveInt(current[4], orderId, 'timestamp'));
+
+    if (current[2] === 'P') {
+      return {
+        kind: 'package',
+        version,
+        packageId: parsePositiveInt(current[3], orderId, 'package id'),
+        issuedAt,
+      };
+    }
+
+    return {
+      kind: 'booking',
+      version,
+      bookingId: parsePositiveInt(current[3], orderId, 'booking id'),
+      issuedAt,
+    };
+  }
+
+  for (const pattern of LEGACY_PATTERNS) {
+    const legacy = orderId.match(pattern);
+    if (legacy) {
+      return {
+        kind: 'booking',
+        version: 'legacy',
+        bookingId: parsePositiveInt(legacy[1], orderId, 'booking id'),
+        issuedAt: new Date(parsePositiveInt(legacy[2], orderId, 'timestamp')),
+      };
+    }
+  }
+
+  throw new InvalidOrderIdError(orderId, 'unrecognised format');
+}
+
+export function tryDecodeOrderId(orderId: string): DecodedOrderId | null {
+  try {
+    return decodeOrderId(orderId);
+  } catch (error) {
+    if (error instanceof InvalidOrderIdError) return null;
+    throw error;
+  }
+}
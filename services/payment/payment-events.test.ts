@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { applyPaymentNotification } from './payment-events';
+import { postBookingCaptured } from './ledger';
+import { transitionBooking } from '@/services/booking/booking-transitions';
+import type { MidtransNotification } from './midtrans-notification';
+
+vi.mock('./ledger', () => ({ postBookingCaptured: vi.fn() }));
+vi.mock('./invoices', () => ({ issueInvoice: vi.fn() }));
+vi.mock('@/services/booking/booking-conversation', () => ({ getOrCreateBookingConversation: vi.fn() }));
+vi.mock('@/services/booking/booking-transitions', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@/services/booking/booking-transitions')>(),
+  transitionBooking: vi.fn()
+}));
+
+interface QueryCall {
+  table: string;
+  // The first method called on the table: select, insert, update, delete or upsert
+  action: string;
+  payload?: unknown;
+  filters: [string, unknown][];
+}
+
+type Responder = (call: QueryCall) => { data?: unknown; error?: unknown };
+
+// Just enough of the query builder for applyPaymentNotification: every call is
+// recorded, and awaiting the chain asks `respond` for the result
+function createSupabase(respond: Responder) {
+  const calls: QueryCall[] = [];
+
+  const from = (table: string) => {
+    const call: QueryCall = { table, action: '', filters: [] };
+    calls.push(call);
+
+    const builder: Record<string, unknown> = {
+      then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+        Promise.resolve({ data: null, error: null, ...respond(call) }).then(resolve, reject)
+    };
+    for (const action of ['select', 'insert', 'update', 'delete', 'upsert']) {
+      builder[action] = (payload?: unknown) => {
+        if (!call.action) {
+          call.action = action;
+          call.payload = payload;
+        }
+        return builder;
+      };
+    }
+    for (const filter of ['eq', 'neq', 'in', 'order', 'limit', 'single', 'maybeSingle']) {
+      builder[filter] = (column?: string, value?: unknown) => {
+        call.filters.push([filter === 'eq' ? String(column) : filter, value]);
+        return builder;
+      };
+    }
+    return builder;
+  };
+
+  return { supabase: { from } as unknown as SupabaseClient, calls };
+}
+
+const booking = {
+  id: 42,
+  status: 'payment_pending',
+  package_id: null,
+  price: 150000,
+  start_time: '2026-10-20T03:00:00.000Z',
+  end_time: '2026-10-20T04:00:00.000Z',
+  client_id: 'client-1',
+  client_first_name: 'Rina',
+  client_last_name: 'Wijaya',
+  streamer_id: 3,
+  streamer: { id: 3, first_name: 'Budi', last_name: 'Santoso', user_id: 'streamer-1' }
+};
+
+const payment = {
+  id: 9,
+  booking_id: 42,
+  amount: 150000,
+  status: 'pending',
+  payment_status: null,
+  transaction_id: null,
+  order_id: 'SALDA-V1-42-1700000000000'
+};
+
+const settlement: MidtransNotification = {
+  order_id: payment.order_id,
+  status_code: '200',
+  gross_amount: '150000.00',
+  signature_key: 'signature',
+  transaction_status: 'settlement',
+  transaction_id: 'tx-1'
+};
+
+function respondTo(call: QueryCall) {
+  if (call.table === 'bookings') return { data: [booking] };
+  if (call.table === 'payments' && call.action === 'select') return { data: payment };
+  if (call.table === 'payments' && call.action === 'update') return { data: [{ id: payment.id }] };
+  if (call.table === 'payment_status_history' && call.action === 'insert') return { data: { id: 77 } };
+  return {};
+}
+
+describe('applyPaymentNotification', () => {
+  beforeEach(() => {
+    vi.mocked(transitionBooking).mockReset().mockResolvedValue(undefined as never);
+    vi.mocked(postBookingCaptured).mockReset().mockResolvedValue(undefined as never);
+  });
+
+  it('settles the payment and confirms the booking', async () => {
+    const { supabase, calls } = createSupabase(respondTo);
+
+    const outcome = await applyPaymentNotification(supabase, settlement);
+
+    expect(outcome).toEqual({ result: 'applied', paymentId: 9, bookingIds: [42], status: 'completed', bookingMoved: true });
+    expect(transitionBooking).toHaveBeenCalledWith(supabase, 42, 'pending', expect.objectContaining({ actor: 'system' }));
+    expect(postBookingCaptured).toHaveBeenCalledWith(supabase, booking, 9, 150000);
+    expect(calls.some(call => call.table === 'payment_status_history' && call.action === 'delete')).toBe(false);
+  });
+
+  it('puts the payment back and forgets the notification when a later step fails', async () => {
+    vi.mocked(postBookingCaptured).mockRejectedValue(new Error('ledger unavailable'));
+    const { supabase, calls } = createSupabase(respondTo);
+
+    await expect(applyPaymentNotification(supabase, settlement)).rejects.toThrow('ledger unavailable');
+
+    const paymentUpdates = calls.filter(call => call.table === 'payments' && call.action === 'update');
+    expect(paymentUpdates).toHaveLength(2);
+    expect(paymentUpdates[1].payload).toMatchObject({ status: 'pending', payment_status: null, transaction_id: null });
+    expect(paymentUpdates[1].filters).toEqual([['id', 9], ['status', 'completed']]);
+
+    const historyDelete = calls.find(call => call.table === 'payment_status_history' && call.action === 'delete');
+    expect(historyDelete?.filters).toEqual([['id', 77]]);
+  });
+
+  it('only forgets the notification when the payment update itself fails', async () => {
+    const { supabase, calls } = createSupabase(call =>
+      call.table === 'payments' && call.action === 'update'
+        ? { error: new Error('update failed') }
+        : respondTo(call)
+    );
+
+    await expect(applyPaymentNotification(supabase, settlement)).rejects.toThrow('update failed');
+
+    expect(calls.filter(call => call.table === 'payments' && call.action === 'update')).toHaveLength(1);
+    expect(calls.some(call => call.table === 'payment_status_history' && call.action === 'delete')).toBe(true);
+    expect(transitionBooking).not.toHaveBeenCalled();
+  });
+
+  it('ignores a notification that was already recorded', async () => {
+    const { supabase, calls } = createSupabase(call =>
+      call.table === 'payment_status_history' && call.action === 'insert'
+        ? { error: { code: '23505' } }
+        : respondTo(call)
+    );
+
+    await expect(applyPaymentNotification(supabase, settlement))
+      .resolves.toEqual({ result: 'ignored', reason: 'already_processed' });
+    expect(calls.some(call => call.table === 'payments' && call.action === 'update')).toBe(false);
+  });
+});
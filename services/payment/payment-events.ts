@@ -0,0 +1,333 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  canTransitionPayment,
+  getNotificationKey,
+  isAmountMatching,
+  toPaymentStatus,
+  type MidtransNotification,
+  type PaymentStatus
+} from './midtrans-notification';
+import { tryDecodeOrderId } from './order-id';
+import { postBookingCaptured } from './ledger';
+import { getPaidAmount } from './booking-payment';
+import { issueInvoice } from './invoices';
+import { BookingTransitionError, transitionBooking } from '@/services/booking/booking-transitions';
+import type { BookingStatus } from '@/services/booking/booking-status';
+import { getAcceptanceDeadline } from '@/services/booking/acceptance-deadline';
+import { getOrCreateBookingConversation } from '@/services/booking/booking-conversation';
+
+// Applies a gateway status change to a payment and its booking, or to every
+// occurrence of a package paid in one checkout. The payment webhook calls this
+// for every authenticated notification, and the reconciliation job for
+// statuses it fetched itself, so both paths record history, post to the ledger
+// and move bookings the same way. Needs the service-role client.
+
+export type PaymentEventOutcome =
+  | {
+      result: 'applied';
+      paymentId: number;
+      bookingIds: number[];
+      status: PaymentStatus;
+      // False when no booking was still in payment_pending, e.g. a payment
+      // that settled after its hold expired
+      bookingMoved: boolean;
+    }
+  | {
+      result: 'ignored';
+      reason: 'unsupported_status' | 'already_processed' | 'out_of_order' | 'concurrent_update';
+    }
+  | {
+      result: 'rejected';
+      reason: 'invalid_order_id' | 'booking_not_found' | 'payment_not_found' | 'amount_mismatch';
+    };
+
+// Statuses a booking can only reach after its payment settled
+const PAID_BOOKING_STATUSES: BookingStatus[] = ['pending', 'accepted', 'live', 'completed'];
+
+// Money captured for bookings that are no longer active goes to the admin
+// discrepancy report, the same one reconciliation fills
+async function recordInactiveBookingPayment(
+  supabase: SupabaseClient,
+  paymentId: number,
+  orderId: string,
+  bookingIds: number[],
+  notification: MidtransNotification
+) {
+  const { error } = await supabase
+    .from('payment_discrepancies')
+    .upsert({
+      payment_id: paymentId,
+      booking_id: bookingIds[0],
+      order_id: orderId,
+      kind: 'orphan_transaction',
+      details: { reason: 'booking_inactive', booking_ids: bookingIds },
+      gateway_status: notification
+    }, { onConflict: 'payment_id,kind', ignoreDuplicates: true });
+
+  if (error) throw error;
+}
+
+// Applies a payment-driven booking transition. Returns false when the booking
+// has already moved past the point this notification applies to.
+async function moveBooking(
+  supabase: SupabaseClient,
+  bookingId: number,
+  to: BookingStatus,
+  reason: string,
+  changes?: Record<string, unknown>
+) {
+  try {
+    await transitionBooking(supabase, bookingId, to, {
+      actor: 'system',
+      reason,
+      changes,
+      expectedFrom: ['payment_pending']
+    });
+    return true;
+  } catch (error) {
+    if (error instanceof BookingTransitionError && error.code !== 'BOOKING_NOT_FOUND') {
+      console.log('Skipping booking transition:', error.message);
+      return false;
+    }
+    throw error;
+  }
+}
+
+export async function applyPaymentNotification(
+  supabase: SupabaseClient,
+  notification: MidtransNotification
+): Promise<PaymentEventOutcome> {
+  const { order_id, transaction_id } = notification;
+  const newStatus = toPaymentStatus(notification);
+
+  if (!newStatus) {
+    console.log('Ignoring unsupported transaction status:', notification.transaction_status);
+    return { result: 'ignored', reason: 'unsupported_status' };
+  }
+
+  const decodedOrderId = tryDecodeOrderId(order_id);
+  if (!decodedOrderId) {
+    console.error('Payment event rejected: unrecognised order id', order_id);
+    return { result: 'rejected', reason: 'invalid_order_id' };
+  }
+
+  // Get booking details with streamer info; a package order covers all of
+  // its occurrences
+  const bookingsQuery = supabase
+    .from('bookings')
+    .select(`
+      *,
+      streamer:streamers (
+        id,
+        first_name,
+        last_name,
+        user_id
+      )
+    `)
+    .order('start_time', { ascending: true });
+
+  const { data: bookings } = decodedOrderId.kind === 'package'
+    ? await bookingsQuery.eq('package_id', decodedOrderId.packageId)
+    : await bookingsQuery.eq('id', decodedOrderId.bookingId);
+
+  if (!bookings || bookings.length === 0) {
+    console.error('Booking not found for order:', order_id);
+    return { result: 'rejected', reason: 'booking_not_found' };
+  }
+
+  const booking = bookings[0];
+
+  const { data: payment } = decodedOrderId.kind === 'package'
+    ? await supabase.from('payments').select('*').eq('package_id', decodedOrderId.packageId).single()
+    : await supabase.from('payments').select('*').eq('booking_id', booking.id).single();
+
+  if (!payment) {
+    console.error('Payment not found for order:', order_id);
+    return { result: 'rejected', reason: 'payment_not_found' };
+  }
+
+  if (!isAmountMatching(notification, payment.amount)) {
+    console.error('Payment event rejected: amount mismatch', {
+      order_id,
+      notified: notification.gross_amount,
+      stored: payment.amount
+    });
+    return { result: 'rejected', reason: 'amount_mismatch' };
+  }
+
+  const previousStatus = payment.status as PaymentStatus;
+
+  // Record the notification first; the unique notification_key makes
+  // Midtrans retries and replays fall through here as already processed.
+  const { data: historyEntry, error: historyError } = await supabase
+    .from('payment_status_history')
+    .insert({
+      payment_id: payment.id,
+      notification_key: getNotificationKey(notification),
+      previous_status: previousStatus,
+      new_status: newStatus,
+      midtrans_notification: notification
+    })
+    .select('id')
+    .single();
+
+  if (historyError) {
+    if (historyError.code === '23505') {
+      console.log('Notification already processed:', getNotificationKey(notification));
+      return { result: 'ignored', reason: 'already_processed' };
+    }
+    throw historyError;
+  }
+
+  if (!canTransitionPayment(previousStatus, newStatus)) {
+    console.log(`Ignoring out-of-order notification: ${previousStatus} -> ${newStatus}`);
+    return { result: 'ignored', reason: 'out_of_order' };
+  }
+
+  let bookingMoved = false;
+  let paymentUpdated = false;
+
+  try {
+    // Conditional on the status we read so concurrent notifications cannot
+    // both apply.
+    const { data: updatedPayment, error: paymentError } = await supabase
+      .from('payments')
+      .update({
+        status: newStatus,
+        payment_status: notification.transaction_status,
+        transaction_id,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', payment.id)
+      .eq('status', previousStatus)
+      .select('id');
+
+    if (paymentError) throw paymentError;
+
+    if (!updatedPayment || updatedPayment.length === 0) {
+      console.log('Payment changed concurrently, skipping:', payment.id);
+      return { result: 'ignored', reason: 'concurrent_update' };
+    }
+    paymentUpdated = true;
+
+    if (newStatus === 'completed') {
+      console.log('Processing successful payment...');
+
+      // Only an unpaid booking can be confirmed; anything further along
+      // (accepted, live, completed) must not move backwards. The streamer has
+      // until accept_by to accept; a package shares one deadline.
+      const acceptBy = getAcceptanceDeadline(booking.start_time).toISOString();
+      const inactiveBookingIds: number[] = [];
+
+      for (const paidBooking of bookings) {
+        const moved = await moveBooking(supabase, paidBooking.id, 'pending', `payment_${notification.transaction_status}`, {
+          accept_by: acceptBy
+        });
+        bookingMoved = bookingMoved || moved;
+
+        // A booking already past pending was confirmed by this payment on an
+        // earlier attempt that failed partway; its postings are keyed
+        if (!moved && !PAID_BOOKING_STATUSES.includes(paidBooking.status)) {
+          inactiveBookingIds.push(paidBooking.id);
+          continue;
+        }
+
+        await postBookingCaptured(supabase, paidBooking, payment.id, getPaidAmount(paidBooking, payment));
+
+        // The invoice can also be issued on first download, so a failure here
+        // should not make Midtrans retry the payment
+        try {
+          await issueInvoice(supabase, paidBooking.id);
+        } catch (invoiceError) {
+          console.error('Error issuing invoice:', invoiceError);
+        }
+      }
+
+      // Paid after the hold expired or the booking was cancelled: no earnings
+      // or invoice, and an admin decides between a refund and rebooking
+      if (inactiveBookingIds.length > 0) {
+        await recordInactiveBookingPayment(supabase, payment.id, order_id, inactiveBookingIds, notification);
+      }
+
+      if (bookingMoved) {
+        // This is the only place that announces a paid booking; the browser
+        // just polls /api/payments/status after checkout closes.
+        const what = booking.package_id ? `package of ${bookings.length} sessions` : 'booking';
+        const notifications = [
+          {
+            user_id: booking.streamer.user_id,
+            streamer_id: booking.streamer_id,
+            message: `New ${what} request from ${booking.client_first_name} ${booking.client_last_name}. Payment confirmed. Accept or reject it before the deadline on your dashboard, or it will be declined automatically.`,
+            type: 'confirmation',
+            booking_id: booking.id,
+            created_at: new Date().toISOString(),
+            is_read: false
+          },
+          {
+            user_id: booking.client_id,
+            message: `Payment confirmed for ${what} with ${booking.streamer.first_name} ${booking.streamer.last_name}. Waiting for acceptance.`,
+            type: 'confirmation',
+            booking_id: booking.id,
+            created_at: new Date().toISOString(),
+            is_read: false
+          }
+        ];
+
+        const { error: notificationError } = await supabase
+          .from('notifications')
+          .insert(notifications);
+
+        if (notificationError) {
+          console.error('Error creating notifications:', notificationError);
+        }
+
+        // The booking's thread; opening it from either side creates it too,
+        // so a failure here should not make Midtrans retry the payment
+        try {
+          await getOrCreateBookingConversation(supabase, booking);
+        } catch (conversationError) {
+          console.error('Error creating booking conversation:', conversationError);
+        }
+      }
+    } else if (newStatus === 'failed' || newStatus === 'expired') {
+      for (const unpaidBooking of bookings) {
+        const moved = await moveBooking(
+          supabase,
+          unpaidBooking.id,
+          newStatus === 'expired' ? 'expired' : 'cancelled',
+          `payment_${notification.transaction_status}`
+        );
+        bookingMoved = bookingMoved || moved;
+      }
+    }
+  } catch (error) {
+    // Put the payment back and drop the history entry so the retry applies
+    // the notification again. The ledger postings are keyed, so the steps
+    // that already ran are not repeated.
+    if (paymentUpdated) {
+      await supabase
+        .from('payments')
+        .update({
+          status: previousStatus,
+          payment_status: payment.payment_status,
+          transaction_id: payment.transaction_id,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', payment.id)
+        .eq('status', newStatus);
+    }
+    await supabase
+      .from('payment_status_history')
+      .delete()
+      .eq('id', historyEntry.id);
+    throw error;
+  }
+
+  return {
+    result: 'applied',
+    paymentId: payment.id,
+    bookingIds: bookings.map(({ id }) => id),
+    status: newStatus,
+    bookingMoved
+  };
+}
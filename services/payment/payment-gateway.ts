@@ -0,0 +1,69 @@
+import type { MidtransNotification } from './midtrans-notification';
+import { midtransGateway } from './midtrans-gateway';
+import { fakeGateway } from './fake-gateway';
+
+// The payment provider behind checkout, status checks, cancellations, refunds
+// and webhook authentication. Selected with PAYMENT_GATEWAY: 'midtrans' (the
+// default) or 'fake', an in-process gateway for running the booking flow
+// locally without Midtrans. Both speak Midtrans' notification format, so the
+// webhook and status helpers in ./midtrans-notification serve either one.
+
+export type PaymentGatewayName = 'midtrans' | 'fake';
+
+export interface CreateTransactionInput {
+  orderId: string;
+  amount: number;
+  customer: {
+    firstName: string;
+    email: string;
+    phone?: string;
+  };
+  // Checkout stops accepting payment after this many minutes
+  expiryMinutes: number;
+  // Where the provider sends the brand once checkout is done
+  finishUrl: string;
+}
+
+export interface GatewayCheckout {
+  token: string;
+  redirectUrl: string | null;
+}
+
+// The provider's view of a transaction, in Midtrans' status vocabulary
+export interface GatewayTransactionStatus {
+  order_id: string;
+  status_code: string;
+  gross_amount?: string;
+  transaction_id?: string;
+  transaction_status?: string;
+  fraud_status?: string;
+  [key: string]: unknown;
+}
+
+export interface RefundInput {
+  // Providers deduplicate on this key
+  refundKey: string;
+  amount: number;
+  reason: string;
+}
+
+export interface PaymentGateway {
+  readonly name: PaymentGatewayName;
+  createTransaction(input: CreateTransactionInput): Promise<GatewayCheckout>;
+  // null when the provider never saw a payment attempt for the order
+  getStatus(orderId: string): Promise<GatewayTransactionStatus | null>;
+  // Cancels the transaction if it is still pending and returns its final
+  // status, or null when there was no payment attempt to cancel
+  cancel(orderId: string): Promise<GatewayTransactionStatus | null>;
+  refund(orderId: string, input: RefundInput): Promise<GatewayTransactionStatus>;
+  // True when the webhook body was really sent by this provider
+  verifyNotification(notification: MidtransNotification): boolean;
+}
+
+export function getPaymentGatewayName(): PaymentGatewayName {
+  return process.env.PAYMENT_GATEWAY === 'fake' ? 'fake' : 'midtrans';
+}
+
+export function getPaymentGateway(): PaymentGateway {
+  return getPaymentGatewayName() === 'fake' ? fakeGateway : midtransGateway;
+}
@@ -1,12 +1,38 @@
-import { createClient } from "@/utils/supabase/client";
-import midtransClient from 'midtrans-client';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from "@/utils/supabase/admin";
+import { encodeOrderId, encodePackageOrderId } from './order-id';
+import { getPaymentGateway } from './payment-gateway';
+import { PROMO_CODE_UNAVAILABLE, PromoCodeError } from './promo-codes';
+import type { PriceBreakdown } from './pricing';
+import type { PackagePattern } from '@/services/booking/package-schedule';
 
-// Initialize Snap client
-const snap = new midtransClient.Snap({
-  isProduction: false,
-  serverKey: process.env.MIDTRANS_SERVER_KEY!,
-  clientKey: process.env.NEXT_PUBLIC_MIDTRANS_CLIENT_KEY
-});
+const DEFAULT_HOLD_MINUTES = 30;
+// reserve_booking_slot and reserve_booking_package refuse longer holds
+const MAX_HOLD_MINUTES = 60;
+
+function getHoldMinutes(value: string | undefined) {
+  const minutes = Math.floor(Number(value));
+  if (!value || !Number.isFinite(minutes) || minutes < 1) return DEFAULT_HOLD_MINUTES;
+
+  if (minutes > MAX_HOLD_MINUTES) {
+    console.warn(`BOOKING_HOLD_MINUTES=${value} is above ${MAX_HOLD_MINUTES}; holding slots for ${MAX_HOLD_MINUTES} minutes`);
+    return MAX_HOLD_MINUTES;
+  }
+  return minutes;
+}
+
+// How long an unpaid booking holds its slot; also the Snap token lifetime
+export const BOOKING_HOLD_MINUTES = getHoldMinutes(process.env.BOOKING_HOLD_MINUTES);
+
+// Postgres exclusion_violation, raised by bookings_no_overlapping_slots
+const EXCLUSION_VIOLATION = '23P01';
+
+export class SlotUnavailableError extends Error {
+  constructor() {
+    super('The selected time is no longer available');
+    this.name = 'SlotUnavailableError';
+  }
+}
 
 interface PaymentDetails {
   amount: number;
@@ -14,8 +40,13 @@ interface PaymentDetails {
   clientEmail: string;
   clientPhone?: string;
   description: string;
+  // Server-computed price; amount must equal priceBreakdown.total
+  priceBreakdown: PriceBreakdown;
+  promoCodeId?: number | null;
+  servicePackageId?: number | null;
   metadata: {
     streamerId: string;
+    // The signed-in brand; the booking is made in their name
     userId: string;
     startTime: string;
     endTime: string;
@@ -26,83 +57,134 @@ interface PaymentDetails {
     firstName: string;
     lastName: string;
     price: number;
+    // Brand's IANA zone, sent by their browser
+    timeZone: string;
   };
 }
 
+interface PackagePaymentDetails {
+  // The signed-in brand; the package is booked in their name
+  clientId: string;
+  clientName: string;
+  clientEmail: string;
+  clientPhone?: string;
+  streamerId: number;
+  pattern: PackagePattern;
+  occurrences: { startTime: string; endTime: string }[];
+  // Server-computed price of one session; the brand pays it once per occurrence
+  sessionBreakdown: PriceBreakdown;
+  platform: string;
+  specialRequest?: string;
+  sub_acc_link?: string;
+  sub_acc_pass?: string;
+  firstName: string;
+  lastName: string;
+  // Brand's IANA zone, sent by their browser
+  timeZone: string;
+}
+
+interface CheckoutRequest {
+  orderId: string;
+  amount: number;
+  customer: { firstName: string; email: string; phone?: string };
+  // Payment row owner: a booking or a package
+  owner: { booking_id: number } | { package_id: number };
+  // Releases the reservation if the gateway cannot start a checkout
+  release: () => PromiseLike<unknown>;
+}
+
+async function startCheckout(supabase: SupabaseClient, request: CheckoutRequest) {
+  const gateway = getPaymentGateway();
+
+  let checkout;
+  try {
+    checkout = await gateway.createTransaction({
+      orderId: request.orderId,
+      amount: request.amount,
+      customer: request.customer,
+      // The token dies with the hold so nobody can pay for a released slot
+      expiryMinutes: BOOKING_HOLD_MINUTES,
+      finishUrl: `${process.env.NEXT_PUBLIC_SITE_URL}/client-bookings`
+    });
+  } catch (error) {
+    await request.release();
+    throw error;
+  }
+
+  // Without the payment row a webhook for this order could not be matched, so
+  // the brand must not be sent to pay
+  const { error: paymentError } = await supabase
+    .from('payments')
+    .insert({
+      ...request.owner,
+      amount: request.amount,
+      status: 'pending',
+      payment_method: gateway.name,
+      payment_token: checkout.token,
+      order_id: request.orderId
+    });
+
+  if (paymentError) {
+    await request.release();
+    throw paymentError;
+  }
+
+  return { token: checkout.token, redirectUrl: checkout.redirectUrl, gateway: gateway.name };
+}
+
+// Callers validate the request and compute the price first: reserve_booking_slot
+// is only open to the service role, so the booking is written as given here.
 export async function createPayment(details: PaymentDetails) {
-  const supabase = createClient();
+  const supabase = createAdminClient();
   
   try {
-    // Create booking first
+    // Reserve the slot and create the booking in one statement; the database
+    // rejects ranges that overlap another active booking or unexpired hold
     const { data: bookingData, error: bookingError } = await supabase
-      .from('bookings')
-      .insert({
-        client_id: details.metadata.userId,
-        streamer_id: parseInt(details.metadata.streamerId),
-        start_time: details.metadata.startTime,
-        end_time: details.metadata.endTime,
-        platform: details.metadata.platform,
-        status: 'payment_pending',
-        special_request: details.metadata.specialRequest,
-        sub_acc_link: details.metadata.sub_acc_link,
-        sub_acc_pass: details.metadata.sub_acc_pass,
-        price: details.metadata.price,
-        client_first_name: details.metadata.firstName,
-        client_last_name: details.metadata.lastName,
-        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone
+      .rpc('reserve_booking_slot', {
+        p_client_id: details.metadata.userId,
+        p_streamer_id: parseInt(details.metadata.streamerId),
+        p_start_time: details.metadata.startTime,
+        p_end_time: details.metadata.endTime,
+        p_hold_minutes: BOOKING_HOLD_MINUTES,
+        p_platform: details.metadata.platform,
+        p_special_request: details.metadata.specialRequest ?? null,
+        p_sub_acc_link: details.metadata.sub_acc_link ?? null,
+        p_sub_acc_pass: details.metadata.sub_acc_pass ?? null,
+        p_price: details.priceBreakdown.total,
+        p_price_breakdown: details.priceBreakdown,
+        p_client_first_name: details.metadata.firstName,
+        p_client_last_name: details.metadata.lastName,
+        p_timezone: details.metadata.timeZone,
+        p_promo_code_id: details.promoCodeId ?? null,
+        p_service_package_id: details.servicePackageId ?? null
       })
-      .select()
-      .single();
+      .single<{ id: number }>();
 
+    if (bookingError?.code === EXCLUSION_VIOLATION) {
+      throw new SlotUnavailableError();
+    }
+    if (bookingError?.code === PROMO_CODE_UNAVAILABLE) {
+      throw new PromoCodeError('This promo code is no longer available');
+    }
     if (bookingError) throw bookingError;
 
-    // Generate Midtrans token with finish URL
-    const transactionDetails = {
-      transaction_details: {
-        order_id: `BOOKING-${bookingData.id}-${Date.now()}`,
-        gross_amount: details.amount
-      },
-      customer_details: {
-        first_name: details.clientName,
+    const orderId = encodeOrderId(bookingData.id);
+
+    const checkout = await startCheckout(supabase, {
+      orderId,
+      amount: details.priceBreakdown.total,
+      customer: {
+        firstName: details.clientName,
         email: details.clientEmail,
-        phone: details.clientPhone || ''
+        phone: details.clientPhone
       },
-      credit_card: {
-        secure: true
-      },
-      callbacks: {
-        finish: `${process.env.NEXT_PUBLIC_SITE_URL}/client-bookings`
-      }
-    };
-
-    const transaction = await snap.createTransaction(transactionDetails);
-
-    if (!transaction || !transaction.token) {
+      owner: { booking_id: bookingData.id },
       // Clean up the booking if payment token creation fails
-      await supabase
-        .from('bookings')
-        .delete()
-        .eq('id', bookingData.id);
-      throw new Error('Failed to generate Midtrans token');
-    }
+      release: () => supabase.from('bookings').delete().eq('id', bookingData.id)
+    });
 
-    // Create payment record
-    await supabase
-      .from('payments')
-      .insert({
-        booking_id: bookingData.id,
-        amount: details.amount,
-        status: 'pending',
-        payment_method: 'midtrans',
-        payment_token: transaction.token,
-        transaction_id: transactionDetails.transaction_details.order_id
-      });
-
-    return {
-      token: transaction.token,
-      bookingId: bookingData.id,
-      orderId: transactionDetails.transaction_details.order_id
-    };
+    return { ...checkout, bookingId: bookingData.id, orderId };
 
   } catch (error) {
     console.error('Payment creation error:', error);
@@ -110,47 +192,61 @@ export async function createPayment(details: PaymentDetails) {
   }
 }
 
-export async function updatePaymentStatus(orderId: string, status: string, transactionDetails: any) {
-  const supabase = createClient();
+// Reserves every occurrence of a package and opens one checkout for all of
+// them. Throws SlotUnavailableError if any occurrence was taken meanwhile.
+// Like createPayment, it writes through the service role, so callers price the
+// package first.
+export async function createPackagePayment(details: PackagePaymentDetails) {
+  const supabase = createAdminClient();
+
   try {
-    // Extract booking ID from order ID (format: BOOKING-{id}-{timestamp})
-    const bookingId = orderId.split('-')[1];
-    
-    if (!bookingId) throw new Error('Invalid order ID format');
-
-    // Update booking status
-    await supabase
-      .from('bookings')
-      .update({ 
-        status: status === 'settlement' ? 'pending' : 'payment_pending',
-        payment_status: status
+    const { data: packageData, error: packageError } = await supabase
+      .rpc('reserve_booking_package', {
+        p_client_id: details.clientId,
+        p_streamer_id: details.streamerId,
+        p_occurrences: details.occurrences.map(occurrence => ({
+          start_time: occurrence.startTime,
+          end_time: occurrence.endTime
+        })),
+        p_hold_minutes: BOOKING_HOLD_MINUTES,
+        p_pattern: details.pattern,
+        p_hours_per_session: details.pattern.hours,
+        p_platform: details.platform,
+        p_special_request: details.specialRequest ?? null,
+        p_sub_acc_link: details.sub_acc_link ?? null,
+        p_sub_acc_pass: details.sub_acc_pass ?? null,
+        p_session_price: details.sessionBreakdown.total,
+        p_session_price_breakdown: details.sessionBreakdown,
+        p_client_first_name: details.firstName,
+        p_client_last_name: details.lastName,
+        p_timezone: details.timeZone
       })
-      .eq('id', parseInt(bookingId));
-
-    // Update payment record
-    const { data: payment } = await supabase
-      .from('payments')
-      .update({
-        status: status,
-        midtrans_response: transactionDetails
-      })
-      .eq('booking_id', parseInt(bookingId))
-      .select()
-      .single();
-
-    if (payment) {
-      // Record status history
-      await supabase
-        .from('payment_status_history')
-        .insert({
-          payment_id: payment.id,
-          new_status: status,
-          midtrans_notification: transactionDetails
-        });
+      .single<{ id: number; price: number | string }>();
+
+    if (packageError?.code === EXCLUSION_VIOLATION) {
+      throw new SlotUnavailableError();
     }
+    if (packageError) throw packageError;
+
+    const orderId = encodePackageOrderId(packageData.id);
+
+    const checkout = await startCheckout(supabase, {
+      orderId,
+      amount: Number(packageData.price),
+      customer: {
+        firstName: details.clientName,
+        email: details.clientEmail,
+        phone: details.clientPhone
+      },
+      owner: { package_id: packageData.id },
+      // Deleting the package removes its occurrences with it
+      release: () => supabase.from('booking_packages').delete().eq('id', packageData.id)
+    });
+
+    return { ...checkout, packageId: packageData.id, orderId };
 
   } catch (error) {
-    console.error('Payment status update error:', error);
+    console.error('Package payment creation error:', error);
     throw error;
   }
-} 
\ No newline at end of file
+}
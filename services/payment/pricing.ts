@@ -0,0 +1,114 @@
+// Booking price calculation. Pure so the same arithmetic runs wherever a
+// quote is needed; the rates come from the fee engine in ./fee-engine, which
+// is the only place that decides them. All amounts are whole rupiah, which is
+// what Midtrans expects for gross_amount.
+
+// Longest single booking we accept; a whole day
+export const MAX_BOOKING_HOURS = 24;
+export const MAX_BOOKING_MINUTES = MAX_BOOKING_HOURS * 60;
+
+// Finest slot a streamer can offer; every booking length is a multiple of it
+const BOOKING_MINUTE_STEP = 15;
+
+export interface FeeRates {
+  // Platform commission charged to the brand on top of the streamer's rate
+  commissionRate: number;
+  // Fixed per-booking brand service fee
+  serviceFee: number;
+  // PPN, applied to everything the brand pays
+  vatRate: number;
+}
+
+// Rates in force before the fee engine existed; used to split legacy bookings
+export const LEGACY_FEE_RATES: FeeRates = {
+  commissionRate: 0.30,
+  serviceFee: 0,
+  vatRate: 0.11,
+};
+
+// Who gives up revenue for a discount. Platform-funded discounts come out of
+// the platform's fees and the streamer is paid their full rate.
+export type DiscountFunding = 'platform' | 'streamer';
+
+// Streamer package a booking was priced as, copied from streamer_packages
+export interface ServicePackagePrice {
+  id: number;
+  name: string;
+  price: number;
+}
+
+export interface PriceBreakdown {
+  hourlyRate: number;
+  // Fractional for bookings on a sub-hour slot grid, e.g. 1.5
+  hours: number;
+  // Set when the booking is a streamer package; its price replaces hourlyRate x hours
+  servicePackage: ServicePackagePrice | null;
+  subtotal: number;
+  discount: number;
+  discountFundedBy: DiscountFunding;
+  promoCode: string | null;
+  platformFee: number;
+  serviceFee: number;
+  tax: number;
+  total: number;
+  currency: 'IDR';
+  // Rates the booking was priced with, so later rate changes leave it alone
+  rates: FeeRates;
+}
+
+interface PriceInput {
+  hourlyRate: number;
+  hours: number;
+  rates: FeeRates;
+  discount?: number;
+  discountFundedBy?: DiscountFunding;
+  promoCode?: string | null;
+  servicePackage?: ServicePackagePrice | null;
+}
+
+export function calculateBookingPrice({
+  hourlyRate,
+  hours,
+  rates,
+  discount = 0,
+  discountFundedBy = 'streamer',
+  promoCode = null,
+  servicePackage = null
+}: PriceInput): PriceBreakdown {
+  const subtotal = servicePackage ? Math.round(servicePackage.price) : Math.round(hourlyRate * hours);
+  const appliedDiscount = Math.min(Math.max(Math.round(discount), 0), subtotal);
+  // A streamer-funded discount lowers the rate commission is charged on
+  const commissionBase = discountFundedBy === 'streamer' ? subtotal - appliedDiscount : subtotal;
+  const platformFee = Math.round(commissionBase * rates.commissionRate);
+  const serviceFee = Math.round(rates.serviceFee);
+  const taxBase = subtotal - appliedDiscount + platformFee + serviceFee;
+  const tax = Math.round(taxBase * rates.vatRate);
+
+  return {
+    hourlyRate,
+    hours,
+    servicePackage,
+    subtotal,
+    discount: appliedDiscount,
+    discountFundedBy,
+    promoCode: appliedDiscount > 0 ? promoCode : null,
+    platformFee,
+    serviceFee,
+    tax,
+    total: taxBase + tax,
+    currency: 'IDR',
+    rates,
+  };
+}
+
+// Minutes between two instants, or null when the range is not a positive
+// multiple of the finest slot. Whether it fits the streamer's own slot size is
+// checked against their quote.
+export function getBookedMinutes(startTime: string, endTime: string): number | null {
+  const start = new Date(startTime).getTime();
+  const end = new Date(endTime).getTime();
+  if (Number.isNaN(start) || Number.isNaN(end)) return null;
+
+  const minutes = (end - start) / (60 * 1000);
+  return Number.isInteger(minutes) && minutes > 0 && minutes % BOOKING_MINUTE_STEP === 0 ? minutes : null;
+}
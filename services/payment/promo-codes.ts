@@ -0,0 +1,118 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { DiscountFunding } from './pricing';
+
+// Promo codes for brand checkout. Codes are checked here when a price is
+// quoted; reserve_booking_slot re-checks the usage limits atomically when the
+// booking is created. Needs the service-role client: codes and other brands'
+// bookings are not readable by the brand applying one.
+
+// Raised by reserve_booking_slot when the code ran out during checkout
+export const PROMO_CODE_UNAVAILABLE = 'PR001';
+
+export interface PromoCode {
+  id: number;
+  code: string;
+  description: string | null;
+  discount_type: 'percent' | 'fixed';
+  discount_value: number | string;
+  max_discount: number | string | null;
+  min_subtotal: number | string;
+  funded_by: DiscountFunding;
+  starts_at: string | null;
+  ends_at: string | null;
+  usage_limit: number | null;
+  per_brand_limit: number | null;
+  categories: string[] | null;
+  streamer_ids: number[] | null;
+  is_active: boolean;
+}
+
+export interface AppliedPromo {
+  promoCodeId: number;
+  code: string;
+  discount: number;
+  fundedBy: DiscountFunding;
+}
+
+interface PromoContext {
+  clientId: string;
+  streamer: { id: number; category: string };
+  subtotal: number;
+  now?: Date;
+}
+
+export class PromoCodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromoCodeError';
+  }
+}
+
+export function normalizePromoCode(code: string) {
+  return code.trim().toUpperCase();
+}
+
+export function getPromoDiscount(promo: PromoCode, subtotal: number) {
+  const value = Number(promo.discount_value);
+  const discount = promo.discount_type === 'percent'
+    ? Math.round(subtotal * value / 100)
+    : Math.round(value);
+  const capped = promo.max_discount ? Math.min(discount, Number(promo.max_discount)) : discount;
+  return Math.min(capped, subtotal);
+}
+
+async function countUses(supabase: SupabaseClient, promoCodeId: number, clientId?: string) {
+  const { data, error } = await supabase.rpc('count_promo_code_uses', {
+    p_promo_code_id: promoCodeId,
+    p_client_id: clientId ?? null
+  });
+
+  if (error) throw error;
+  return data as number;
+}
+
+// Resolves a code for a booking, or throws PromoCodeError with a message the
+// brand can be shown.
+export async function applyPromoCode(supabase: SupabaseClient, code: string, context: PromoContext): Promise<AppliedPromo> {
+  const now = context.now ?? new Date();
+
+  const { data: promo, error } = await supabase
+    .from('promo_codes')
+    .select('*')
+    .eq('code', normalizePromoCode(code))
+    .maybeSingle<PromoCode>();
+
+  if (error) throw error;
+
+  if (!promo || !promo.is_active) {
+    throw new PromoCodeError('Promo code not found');
+  }
+  if (promo.starts_at && new Date(promo.starts_at) > now) {
+    throw new PromoCodeError('This promo code is not active yet');
+  }
+  if (promo.ends_at && new Date(promo.ends_at) <= now) {
+    throw new PromoCodeError('This promo code has expired');
+  }
+  if (promo.categories?.length && !promo.categories.includes(context.streamer.category)) {
+    throw new PromoCodeError('This promo code does not apply to this streamer');
+  }
+  if (promo.streamer_ids?.length && !promo.streamer_ids.map(Number).includes(context.streamer.id)) {
+    throw new PromoCodeError('This promo code does not apply to this streamer');
+  }
+  if (context.subtotal < Number(promo.min_subtotal)) {
+    throw new PromoCodeError(`This promo code needs a booking of at least Rp ${Number(promo.min_subtotal).toLocaleString('id-ID')}`);
+  }
+  if (promo.usage_limit && await countUses(supabase, promo.id) >= promo.usage_limit) {
+    throw new PromoCodeError('This promo code has been fully used');
+  }
+  if (promo.per_brand_limit && await countUses(supabase, promo.id, context.clientId) >= promo.per_brand_limit) {
+    throw new PromoCodeError('You have already used this promo code');
+  }
+
+  return {
+    promoCodeId: promo.id,
+    code: promo.code,
+    discount: getPromoDiscount(promo, context.subtotal),
+    fundedBy: promo.funded_by
+  };
+}
@@ -0,0 +1,226 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { isAmountMatching, toPaymentStatus, type MidtransNotification } from './midtrans-notification';
+import { getPaymentOrderId } from './booking-payment';
+import { getPaymentGateway, type GatewayTransactionStatus } from './payment-gateway';
+import { applyPaymentNotification } from './payment-events';
+
+// Catches payments whose webhook never arrived. Each run asks the gateway for
+// the status of payments still pending and applies it exactly as the webhook
+// would, then re-checks recently failed or expired payments for money that was
+// captured anyway. Anything that cannot be applied safely is recorded in
+// payment_discrepancies for an admin. Needs the service-role client.
+
+// Payments handled per run and per pass; the job is idempotent
+const RECONCILIATION_BATCH_SIZE = 50;
+// Fresh payments are left to the webhook
+const RECONCILIATION_GRACE_MINUTES = 10;
+// How long failed and expired payments are watched for a late capture
+const RECONCILIATION_LOOKBACK_DAYS = 7;
+
+export type DiscrepancyKind = 'amount_mismatch' | 'orphan_transaction' | 'duplicate_capture';
+
+interface ReconciledPayment {
+  id: number;
+  booking_id: number | null;
+  package_id: number | null;
+  amount: number | string;
+  status: string;
+  order_id: string | null;
+}
+
+export interface ReconciliationResult {
+  runId: number;
+  checked: number;
+  applied: number[];
+  discrepancies: { paymentId: number; kind: DiscrepancyKind }[];
+  failed: number[];
+}
+
+type PaymentOutcome = 'unchanged' | 'applied' | { discrepancy: DiscrepancyKind };
+
+const PAYMENT_COLUMNS = 'id, booking_id, package_id, amount, status, order_id';
+
+// Gateway status responses carry the notification fields; they come from our
+// own server-to-server call, so there is no signature to check
+function toNotification(status: GatewayTransactionStatus): MidtransNotification {
+  return {
+    ...status,
+    gross_amount: status.gross_amount ?? '',
+    transaction_status: status.transaction_status ?? '',
+    signature_key: ''
+  };
+}
+
+async function recordDiscrepancy(
+  supabase: SupabaseClient,
+  runId: number,
+  payment: ReconciledPayment,
+  kind: DiscrepancyKind,
+  details: Record<string, unknown>,
+  gatewayStatus: GatewayTransactionStatus | null
+): Promise<PaymentOutcome> {
+  const { error } = await supabase
+    .from('payment_discrepancies')
+    .upsert({
+      payment_id: payment.id,
+      booking_id: payment.booking_id,
+      order_id: getPaymentOrderId(payment),
+      kind,
+      details,
+      gateway_status: gatewayStatus,
+      run_id: runId
+    }, { onConflict: 'payment_id,kind', ignoreDuplicates: true });
+
+  if (error) throw error;
+  return { discrepancy: kind };
+}
+
+async function reconcilePendingPayment(supabase: SupabaseClient, runId: number, payment: ReconciledPayment): Promise<PaymentOutcome> {
+  const gatewayStatus = await getPaymentGateway().getStatus(getPaymentOrderId(payment));
+
+  // No payment attempt yet; the hold expiry job releases these
+  if (!gatewayStatus) return 'unchanged';
+
+  const notification = toNotification(gatewayStatus);
+  const newStatus = toPaymentStatus(notification);
+  if (!newStatus || newStatus === 'pending') return 'unchanged';
+
+  if (!isAmountMatching(notification, payment.amount)) {
+    return recordDiscrepancy(supabase, runId, payment, 'amount_mismatch', {
+      stored_amount: Number(payment.amount),
+      gateway_amount: Number(notification.gross_amount)
+    }, gatewayStatus);
+  }
+
+  if (newStatus === 'completed') {
+    const { data: captured, error } = await supabase
+      .from('payments')
+      .select('id')
+      .eq(payment.package_id ? 'package_id' : 'booking_id', payment.package_id ?? payment.booking_id)
+      .in('status', ['completed', 'refunded'])
+      .neq('id', payment.id);
+
+    if (error) throw error;
+
+    if (captured && captured.length > 0) {
+      return recordDiscrepancy(supabase, runId, payment, 'duplicate_capture', {
+        captured_payment_ids: captured.map(row => row.id)
+      }, gatewayStatus);
+    }
+  }
+
+  const outcome = await applyPaymentNotification(supabase, notification);
+
+  if (outcome.result === 'rejected') {
+    if (outcome.reason === 'booking_not_found') {
+      return recordDiscrepancy(supabase, runId, payment, 'orphan_transaction', { reason: outcome.reason }, gatewayStatus);
+    }
+    throw new Error(`Gateway status for payment ${payment.id} rejected: ${outcome.reason}`);
+  }
+
+  if (outcome.result === 'ignored') return 'unchanged';
+
+  // Paid, but the booking had already been released or cancelled
+  if (outcome.status === 'completed' && !outcome.bookingMoved) {
+    await recordDiscrepancy(supabase, runId, payment, 'orphan_transaction', {
+      reason: 'booking_inactive'
+    }, gatewayStatus);
+  }
+
+  return 'applied';
+}
+
+// A payment we gave up on (hold expired, failed) that the gateway reports as
+// settled means the brand was charged for a booking that no longer exists
+async function checkClosedPayment(supabase: SupabaseClient, runId: number, payment: ReconciledPayment): Promise<PaymentOutcome> {
+  const gatewayStatus = await getPaymentGateway().getStatus(getPaymentOrderId(payment));
+  if (!gatewayStatus || toPaymentStatus(toNotification(gatewayStatus)) !== 'completed') return 'unchanged';
+
+  return recordDiscrepancy(supabase, runId, payment, 'orphan_transaction', {
+    reason: 'captured_after_close',
+    stored_status: payment.status
+  }, gatewayStatus);
+}
+
+export async function reconcilePayments(supabase: SupabaseClient, now = new Date()): Promise<ReconciliationResult> {
+  const { data: run, error: runError } = await supabase
+    .from('reconciliation_runs')
+    .insert({ started_at: now.toISOString() })
+    .select('id')
+    .single();
+
+  if (runError) throw runError;
+
+  const graceCutoff = new Date(now.getTime() - RECONCILIATION_GRACE_MINUTES * 60 * 1000);
+  const lookbackCutoff = new Date(now.getTime() - RECONCILIATION_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+  const [{ data: pending, error: pendingError }, { data: closed, error: closedError }] = await Promise.all([
+    supabase
+      .from('payments')
+      .select(PAYMENT_COLUMNS)
+      .eq('status', 'pending')
+      .lte('created_at', graceCutoff.toISOString())
+      // Least recently checked first, so payments that stay pending rotate
+      // through the batch instead of filling it on every run
+      .order('reconciled_at', { ascending: true, nullsFirst: true })
+      .order('created_at', { ascending: true })
+      .limit(RECONCILIATION_BATCH_SIZE),
+    supabase
+      .from('payments')
+      .select(PAYMENT_COLUMNS)
+      .in('status', ['failed', 'expired'])
+      .gte('updated_at', lookbackCutoff.toISOString())
+      .order('updated_at', { ascending: false })
+      .limit(RECONCILIATION_BATCH_SIZE)
+  ]);
+
+  if (pendingError) throw pendingError;
+  if (closedError) throw closedError;
+
+  const result: ReconciliationResult = { runId: run.id, checked: 0, applied: [], discrepancies: [], failed: [] };
+
+  const passes: [ReconciledPayment[], typeof reconcilePendingPayment][] = [
+    [pending ?? [], reconcilePendingPayment],
+    [closed ?? [], checkClosedPayment]
+  ];
+
+  for (const [payments, reconcile] of passes) {
+    for (const payment of payments) {
+      result.checked++;
+      try {
+        const outcome = await reconcile(supabase, run.id, payment);
+        if (outcome === 'applied') {
+          result.applied.push(payment.id);
+        } else if (outcome !== 'unchanged') {
+          result.discrepancies.push({ paymentId: payment.id, kind: outcome.discrepancy });
+        }
+      } catch (error) {
+        console.error('Failed to reconcile payment', payment.id, error);
+        result.failed.push(payment.id);
+      }
+    }
+  }
+
+  const checkedPendingIds = (pending ?? []).map(payment => payment.id);
+  if (checkedPendingIds.length > 0) {
+    const { error: cursorError } = await supabase
+      .from('payments')
+      .update({ reconciled_at: now.toISOString() })
+      .in('id', checkedPendingIds);
+
+    if (cursorError) console.error('Failed to record reconciled payments:', cursorError);
+  }
+
+  await supabase
+    .from('reconciliation_runs')
+    .update({
+      finished_at: new Date().toISOString(),
+      checked: result.checked,
+      applied: result.applied.length,
+      discrepancies: result.discrepancies.length,
+      failed: result.failed.length
+    })
+    .eq('id', run.id);
+
+  return result;
+}
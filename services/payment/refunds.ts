@@ -0,0 +1,141 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { BookingActor } from '@/services/booking/booking-status';
+import { postBookingRefunded } from './ledger';
+import { getPaidAmount, getPaymentOrderId, getPaymentOwner } from './booking-payment';
+import { getPaymentGateway } from './payment-gateway';
+
+export type RefundStatus = 'pending' | 'succeeded' | 'failed';
+
+interface RefundRequest {
+  bookingId: number;
+  percent: number;
+  amount: number;
+  reason: string;
+  initiatedBy: BookingActor;
+  initiatedById?: string | null;
+}
+
+async function getRefundedTotal(supabase: SupabaseClient, paymentId: number) {
+  const { data: refunds, error } = await supabase
+    .from('refunds')
+    .select('amount')
+    .eq('payment_id', paymentId)
+    .eq('status', 'succeeded');
+
+  if (error) throw error;
+  return (refunds ?? []).reduce((sum, refund) => sum + Number(refund.amount), 0);
+}
+
+// Refunds the completed payment for a booking through the payment gateway and
+// records the attempt in refunds. Needs the service-role client: refunds and
+// payments are not writable by participants. Returns null when there is nothing to refund.
+// An occurrence of a package is refunded out of the package payment, up to
+// its own price.
+// A failed gateway call is kept as a 'failed' row for manual follow-up rather
+// than thrown, so the cancellation itself still goes through.
+export async function refundBookingPayment(supabase: SupabaseClient, request: RefundRequest) {
+  const { data: booking, error: bookingError } = await supabase
+    .from('bookings')
+    .select('id, streamer_id, price, price_breakdown, package_id')
+    .eq('id', request.bookingId)
+    .single();
+
+  if (bookingError) throw bookingError;
+
+  const owner = getPaymentOwner(booking);
+  const { data: payment, error: paymentError } = await supabase
+    .from('payments')
+    .select('*')
+    .eq(owner.column, owner.id)
+    .eq('status', 'completed')
+    .maybeSingle();
+
+  if (paymentError) throw paymentError;
+  if (!payment || request.amount <= 0) return null;
+
+  const paidAmount = getPaidAmount(booking, payment);
+  const amount = Math.min(request.amount, paidAmount);
+  // The gateway deduplicates on refund_key; one refund per payment, or per
+  // occurrence of a package
+  const refundKey = booking.package_id ? `refund-${payment.id}-${booking.id}` : `refund-${payment.id}`;
+
+  const { data: refund, error: refundError } = await supabase
+    .from('refunds')
+    .insert({
+      payment_id: payment.id,
+      booking_id: request.bookingId,
+      amount,
+      refund_percent: request.percent,
+      reason: request.reason,
+      refund_key: refundKey,
+      status: 'pending',
+      initiated_by: request.initiatedBy,
+      initiated_by_id: request.initiatedById ?? null
+    })
+    .select()
+    .single();
+
+  if (refundError) {
+    if (refundError.code === '23505') {
+      console.log('Refund already requested for payment:', payment.id);
+      return null;
+    }
+    throw refundError;
+  }
+
+  let status: RefundStatus = 'succeeded';
+  let midtransResponse: unknown;
+
+  try {
+    midtransResponse = await getPaymentGateway().refund(getPaymentOrderId(payment), {
+      refundKey,
+      amount,
+      reason: request.reason
+    });
+  } catch (error) {
+    console.error('Gateway refund failed for payment', payment.id, error);
+    status = 'failed';
+    midtransResponse = { error: error instanceof Error ? error.message : String(error) };
+  }
+
+  await supabase
+    .from('refunds')
+    .update({
+      status,
+      midtrans_response: midtransResponse,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', refund.id);
+
+  if (status === 'succeeded') {
+    await postBookingRefunded(supabase, booking, refund.id, paidAmount, amount);
+  }
+
+  if (status === 'succeeded' && await getRefundedTotal(supabase, payment.id) >= Number(payment.amount)) {
+    // Partial refunds leave the payment completed; the refunds rows carry the amounts
+    const { data: updatedPayment } = await supabase
+      .from('payments')
+      .update({
+        status: 'refunded',
+        payment_status: 'refund',
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', payment.id)
+      .eq('status', 'completed')
+      .select('id');
+
+    if (updatedPayment && updatedPayment.length > 0) {
+      await supabase
+        .from('payment_status_history')
+        .insert({
+          payment_id: payment.id,
+          notification_key: `refund:${refund.id}`,
+          previous_status: 'completed',
+          new_status: 'refunded',
+          midtrans_notification: midtransResponse
+        });
+    }
+  }
+
+  return { ...refund, status, amount };
+}
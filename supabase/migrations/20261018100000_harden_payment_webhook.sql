@@ -0,0 +1,23 @@
+-- Migration: Harden payment webhook processing
+-- Description: Lets the Midtrans webhook record each notification exactly once and keeps
+--              the status it moved the payment from, so replays and out-of-order
+--              notifications can be detected.
+-- Affected tables: payment_status_history
+-- Special considerations: Existing history rows keep a null notification_key; the unique
+--                         index only applies to rows written by the hardened webhook.
+
+-- One key per (transaction, transaction_status, fraud_status) sent by Midtrans
+alter table public.payment_status_history
+  add column if not exists notification_key text;
+
+-- The payment status before the notification was applied
+alter table public.payment_status_history
+  add column if not exists previous_status text;
+
+-- Reject duplicate deliveries of the same notification
+create unique index if not exists payment_status_history_notification_key_idx
+  on public.payment_status_history (notification_key)
+  where notification_key is not null;
+
+comment on column public.payment_status_history.notification_key is 'Idempotency key for a gateway notification: transaction id (or order id), transaction status and fraud status when present.';
+comment on column public.payment_status_history.previous_status is 'Payment status before this notification was processed.';
@@ -0,0 +1,102 @@
+-- Migration: Booking status state machine
+-- Description: Restricts bookings.status to the BookingStatus union used by the app and
+--              records every status change in an audit table.
+-- Affected tables: bookings, booking_status_transitions (new)
+-- Special considerations: Rewrites the legacy 'confirmed' status written by the old
+--                         payment webhook to 'pending' (paid, awaiting the streamer).
+--                         This migration only constrains the value set and keeps the
+--                         audit trail; 20261019060000 enforces the transitions.
+
+-- 'confirmed' and 'pending' both meant "paid, waiting for the streamer"
+update public.bookings
+set status = 'pending'
+where status = 'confirmed';
+
+alter table public.bookings
+  add constraint bookings_status_check check (
+    status in (
+      'payment_pending',
+      'pending',
+      'accepted',
+      'rejected',
+      'live',
+      'completed',
+      'cancelled',
+      'expired'
+    )
+  );
+
+-- Who made the latest status change and why; copied into the audit table by trigger
+alter table public.bookings
+  add column if not exists status_actor text,
+  add column if not exists status_actor_id uuid,
+  add column if not exists status_reason text;
+
+create table public.booking_status_transitions (
+  id bigint generated always as identity primary key,
+  booking_id bigint not null references public.bookings (id) on delete cascade,
+  from_status text,
+  to_status text not null,
+  actor_type text not null default 'unknown',
+  actor_id uuid,
+  reason text,
+  created_at timestamptz not null default now()
+);
+
+comment on table public.booking_status_transitions is 'Audit trail of every booking status change, written by trigger from bookings.';
+
+create index booking_status_transitions_booking_id_idx
+  on public.booking_status_transitions (booking_id, created_at);
+
+alter table public.booking_status_transitions enable row level security;
+
+-- Participants of a booking may read its history; writes only happen through the trigger
+create policy "Allow booking participants to read transitions"
+  on public.booking_status_transitions
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.bookings
+      left join public.streamers on streamers.id = bookings.streamer_id
+      where bookings.id = booking_status_transitions.booking_id
+        and (bookings.client_id = auth.uid() or streamers.user_id = auth.uid())
+    )
+  );
+
+comment on policy "Allow booking participants to read transitions" on public.booking_status_transitions is 'The brand and the streamer of a booking can see how its status changed.';
+
+create or replace function public.record_booking_status_transition()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' or new.status is distinct from old.status then
+    insert into public.booking_status_transitions (
+      booking_id,
+      from_status,
+      to_status,
+      actor_type,
+      actor_id,
+      reason
+    )
+    values (
+      new.id,
+      case when tg_op = 'INSERT' then null else old.status end,
+      new.status,
+      coalesce(new.status_actor, 'unknown'),
+      new.status_actor_id,
+      new.status_reason
+    );
+  end if;
+  return new;
+end;
+$$;
+
+create trigger bookings_record_status_transition
+  after insert or update of status on public.bookings
+  for each row
+  execute function public.record_booking_status_transition();
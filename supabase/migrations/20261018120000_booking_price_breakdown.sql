@@ -0,0 +1,11 @@
+-- Migration: Booking price breakdown
+-- Description: Stores the server-computed price components on each booking so
+--              invoices and refunds can be derived without recalculating.
+-- Affected tables: bookings
+-- Special considerations: Existing bookings keep a null breakdown; bookings.price
+--                         remains the charged total.
+
+alter table public.bookings
+  add column if not exists price_breakdown jsonb;
+
+comment on column public.bookings.price_breakdown is 'Hourly rate, hours, subtotal, discount, platform fee, tax and total in IDR, as computed by /api/payments/create.';
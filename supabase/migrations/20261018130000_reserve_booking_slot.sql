@@ -0,0 +1,161 @@
+-- Migration: Atomic booking slot reservation
+-- Description: Prevents two bookings from holding the same streamer time range and
+--              adds reserve_booking_slot, which creates a booking as a short-lived
+--              hold while the client pays.
+-- Affected tables: bookings, payments, payment_status_history
+-- Special considerations: Requires btree_gist. The constraint cannot be created while
+--                         overlapping active bookings exist; resolve those first.
+--                         Unpaid holds past hold_expires_at are expired, with their
+--                         payments, by reserve_booking_slot when they are in the
+--                         way, and by the hold expiry job otherwise. Only the service role may
+--                         call reserve_booking_slot: checkout validates the
+--                         request and computes the price on the server first.
+
+create extension if not exists btree_gist with schema extensions;
+
+alter table public.bookings
+  add column if not exists hold_expires_at timestamptz;
+
+comment on column public.bookings.hold_expires_at is 'When an unpaid (payment_pending) booking stops blocking its time range; matches the Snap token expiry.';
+
+-- Keep in sync with SLOT_BLOCKING_STATUSES in services/booking/booking-status.ts
+alter table public.bookings
+  add constraint bookings_no_overlapping_slots
+  exclude using gist (
+    streamer_id with =,
+    tstzrange(start_time, end_time, '[)') with &&
+  )
+  where (status in ('payment_pending', 'pending', 'accepted', 'live'));
+
+-- Expires unpaid holds past hold_expires_at that overlap [p_start_time, p_end_time)
+-- and closes their pending payments with a history entry, as the hold expiry job
+-- does. The gateway transaction is left alone: its Snap token expired with the
+-- hold, and reconciliation reports any capture that still arrives.
+create or replace function public.expire_overlapping_holds(
+  p_streamer_id bigint,
+  p_start_time timestamptz,
+  p_end_time timestamptz
+)
+returns void
+language plpgsql
+set search_path = public
+as $$
+begin
+  with expired_bookings as (
+    update public.bookings
+    set status = 'expired',
+        status_actor = 'system',
+        status_actor_id = null,
+        status_reason = 'hold_expired'
+    where streamer_id = p_streamer_id
+      and status = 'payment_pending'
+      and hold_expires_at <= now()
+      and tstzrange(start_time, end_time, '[)') && tstzrange(p_start_time, p_end_time, '[)')
+    returning id
+  ),
+  expired_payments as (
+    update public.payments
+    set status = 'expired',
+        payment_status = 'expire',
+        updated_at = now()
+    where status = 'pending'
+      and booking_id in (select id from expired_bookings)
+    returning id
+  )
+  insert into public.payment_status_history (payment_id, notification_key, previous_status, new_status)
+  select id, 'hold-expiry:' || id, 'pending', 'expired'
+  from expired_payments
+  on conflict (notification_key) where notification_key is not null do nothing;
+end;
+$$;
+
+revoke execute on function public.expire_overlapping_holds from public, anon, authenticated;
+
+create or replace function public.reserve_booking_slot(
+  p_client_id uuid,
+  p_streamer_id bigint,
+  p_start_time timestamptz,
+  p_end_time timestamptz,
+  p_hold_minutes integer,
+  p_platform text,
+  p_special_request text,
+  p_sub_acc_link text,
+  p_sub_acc_pass text,
+  p_price numeric,
+  p_price_breakdown jsonb,
+  p_client_first_name text,
+  p_client_last_name text,
+  p_timezone text
+)
+returns public.bookings
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_booking public.bookings;
+begin
+  if p_client_id is null then
+    raise exception 'a booking needs a client' using errcode = '22004';
+  end if;
+
+  if p_hold_minutes not between 1 and 60 then
+    raise exception 'hold must last between 1 and 60 minutes' using errcode = '22023';
+  end if;
+
+  if p_end_time <= p_start_time then
+    raise exception 'booking must end after it starts' using errcode = '22023';
+  end if;
+
+  -- Stale holds in the range give way, closing their payments too
+  perform public.expire_overlapping_holds(p_streamer_id, p_start_time, p_end_time);
+
+  -- Raises 23P01 (exclusion_violation) when the range is already taken
+  insert into public.bookings (
+    client_id,
+    streamer_id,
+    start_time,
+    end_time,
+    hold_expires_at,
+    platform,
+    status,
+    status_actor,
+    status_actor_id,
+    special_request,
+    sub_acc_link,
+    sub_acc_pass,
+    price,
+    price_breakdown,
+    client_first_name,
+    client_last_name,
+    timezone
+  )
+  values (
+    p_client_id,
+    p_streamer_id,
+    p_start_time,
+    p_end_time,
+    now() + make_interval(mins => p_hold_minutes),
+    p_platform,
+    'payment_pending',
+    'client',
+    p_client_id,
+    p_special_request,
+    p_sub_acc_link,
+    p_sub_acc_pass,
+    p_price,
+    p_price_breakdown,
+    p_client_first_name,
+    p_client_last_name,
+    p_timezone
+  )
+  returning * into v_booking;
+
+  return v_booking;
+end;
+$$;
+
+comment on function public.reserve_booking_slot is 'Creates a payment_pending booking that holds a streamer time range for p_hold_minutes; fails with exclusion_violation if the range is taken.';
+
+revoke execute on function public.reserve_booking_slot from public, anon, authenticated;
+grant execute on function public.reserve_booking_slot to service_role;
@@ -0,0 +1,44 @@
+-- Migration: Refunds
+-- Description: Records refunds issued through Midtrans when a paid booking is
+--              cancelled or rejected.
+-- Affected tables: refunds (new)
+-- Special considerations: Rows are written with the service role only. One refund
+--                         per payment, enforced by the unique refund_key.
+
+create table public.refunds (
+  id bigint generated always as identity primary key,
+  payment_id bigint not null references public.payments (id) on delete restrict,
+  booking_id bigint not null references public.bookings (id) on delete cascade,
+  amount numeric(12,2) not null check (amount > 0),
+  refund_percent integer not null check (refund_percent between 0 and 100),
+  reason text not null,
+  refund_key text not null unique,
+  status text not null default 'pending' check (status in ('pending', 'succeeded', 'failed')),
+  initiated_by text not null check (initiated_by in ('client', 'streamer', 'system')),
+  initiated_by_id uuid,
+  midtrans_response jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+comment on table public.refunds is 'Refunds of booking payments, one per payment, with the Midtrans response for each attempt.';
+
+create index refunds_booking_id_idx on public.refunds (booking_id);
+
+alter table public.refunds enable row level security;
+
+create policy "Allow booking participants to read refunds"
+  on public.refunds
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.bookings
+      left join public.streamers on streamers.id = bookings.streamer_id
+      where bookings.id = refunds.booking_id
+        and (bookings.client_id = auth.uid() or streamers.user_id = auth.uid())
+    )
+  );
+
+comment on policy "Allow booking participants to read refunds" on public.refunds is 'The brand and the streamer of a booking can see its refunds.';
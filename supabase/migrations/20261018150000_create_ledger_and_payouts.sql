@@ -0,0 +1,255 @@
+-- Migration: Streamer earnings ledger and payouts
+-- Description: Double-entry ledger for booking money (capture, commission, tax,
+--              streamer earnings, refunds, payouts) and streamer payout requests
+--              with an admin approval queue.
+-- Affected tables: ledger_journals (new), ledger_entries (new), payout_requests (new)
+-- Special considerations: Journals are posted through post_ledger_journal, which
+--                         rejects unbalanced lines and is idempotent on the journal
+--                         key. Only the service role posts directly; streamers go
+--                         through request_streamer_payout.
+--
+-- Accounts (balance = credit - debit for liabilities/revenue, debit - credit for cash):
+--   platform_cash        money held by the platform at Midtrans or in the bank
+--   streamer_pending     streamer share of paid bookings that have not finished
+--   streamer_payable     streamer earnings available for payout
+--   payouts_in_transit   payouts requested and not yet paid out
+--   platform_commission  platform fee revenue
+--   tax_payable          PPN collected on bookings
+
+create table public.ledger_journals (
+  id bigint generated always as identity primary key,
+  journal_key text not null unique,
+  entry_type text not null check (
+    entry_type in (
+      'booking_captured',
+      'booking_refunded',
+      'earnings_released',
+      'payout_requested',
+      'payout_paid',
+      'payout_rejected'
+    )
+  ),
+  booking_id bigint references public.bookings (id) on delete set null,
+  payout_request_id bigint,
+  created_at timestamptz not null default now()
+);
+
+comment on table public.ledger_journals is 'One balanced ledger transaction; journal_key makes posting idempotent.';
+
+create table public.ledger_entries (
+  id bigint generated always as identity primary key,
+  journal_id bigint not null references public.ledger_journals (id) on delete restrict,
+  account text not null check (
+    account in (
+      'platform_cash',
+      'streamer_pending',
+      'streamer_payable',
+      'payouts_in_transit',
+      'platform_commission',
+      'tax_payable'
+    )
+  ),
+  streamer_id bigint references public.streamers (id) on delete restrict,
+  booking_id bigint references public.bookings (id) on delete set null,
+  debit numeric(12,2) not null default 0 check (debit >= 0),
+  credit numeric(12,2) not null default 0 check (credit >= 0),
+  created_at timestamptz not null default now(),
+  check ((debit = 0) <> (credit = 0))
+);
+
+comment on table public.ledger_entries is 'Debit and credit lines of ledger_journals. Streamer accounts carry streamer_id.';
+
+create index ledger_entries_streamer_account_idx on public.ledger_entries (streamer_id, account);
+create index ledger_entries_booking_id_idx on public.ledger_entries (booking_id);
+
+create table public.payout_requests (
+  id bigint generated always as identity primary key,
+  streamer_id bigint not null references public.streamers (id) on delete restrict,
+  amount numeric(12,2) not null check (amount > 0),
+  bank_name text not null,
+  account_number text not null,
+  account_holder_name text not null,
+  status text not null default 'requested' check (status in ('requested', 'paid', 'rejected')),
+  admin_note text,
+  processed_by uuid references auth.users (id),
+  processed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+comment on table public.payout_requests is 'Streamer requests to withdraw available earnings to a bank account; processed by an admin.';
+
+alter table public.ledger_journals
+  add constraint ledger_journals_payout_request_id_fkey
+  foreign key (payout_request_id) references public.payout_requests (id) on delete restrict;
+
+create index payout_requests_status_idx on public.payout_requests (status, created_at);
+
+alter table public.ledger_journals enable row level security;
+alter table public.ledger_entries enable row level security;
+alter table public.payout_requests enable row level security;
+
+create policy "Allow streamers to read their ledger entries"
+  on public.ledger_entries
+  for select
+  to authenticated
+  using (
+    streamer_id in (select id from public.streamers where user_id = auth.uid())
+  );
+
+comment on policy "Allow streamers to read their ledger entries" on public.ledger_entries is 'Streamers see the lines on their own pending and payable accounts.';
+
+create policy "Allow streamers to read their ledger journals"
+  on public.ledger_journals
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.ledger_entries
+      join public.streamers on streamers.id = ledger_entries.streamer_id
+      where ledger_entries.journal_id = ledger_journals.id
+        and streamers.user_id = auth.uid()
+    )
+  );
+
+comment on policy "Allow streamers to read their ledger journals" on public.ledger_journals is 'Streamers see the journals that touch their accounts, for entry descriptions.';
+
+create policy "Allow streamers to read their payout requests"
+  on public.payout_requests
+  for select
+  to authenticated
+  using (
+    streamer_id in (select id from public.streamers where user_id = auth.uid())
+  );
+
+comment on policy "Allow streamers to read their payout requests" on public.payout_requests is 'Streamers see their own payout history; requests are created through request_streamer_payout.';
+
+-- Pending and available balance per streamer
+create view public.streamer_balances
+  with (security_invoker = true)
+as
+select
+  streamer_id,
+  coalesce(sum(credit - debit) filter (where account = 'streamer_pending'), 0) as pending,
+  coalesce(sum(credit - debit) filter (where account = 'streamer_payable'), 0) as available
+from public.ledger_entries
+where streamer_id is not null
+group by streamer_id;
+
+comment on view public.streamer_balances is 'Streamer pending (booked, not yet streamed) and available (payable) earnings.';
+
+-- p_lines: [{"account": text, "streamer_id": bigint|null, "debit": numeric, "credit": numeric}]
+create or replace function public.post_ledger_journal(
+  p_journal_key text,
+  p_entry_type text,
+  p_booking_id bigint,
+  p_payout_request_id bigint,
+  p_lines jsonb
+)
+returns bigint
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_journal_id bigint;
+  v_debits numeric;
+  v_credits numeric;
+begin
+  select coalesce(sum((line->>'debit')::numeric), 0), coalesce(sum((line->>'credit')::numeric), 0)
+  into v_debits, v_credits
+  from jsonb_array_elements(p_lines) as line;
+
+  if v_debits <> v_credits or v_debits = 0 then
+    raise exception 'unbalanced journal %: debits % credits %', p_journal_key, v_debits, v_credits
+      using errcode = '22023';
+  end if;
+
+  insert into public.ledger_journals (journal_key, entry_type, booking_id, payout_request_id)
+  values (p_journal_key, p_entry_type, p_booking_id, p_payout_request_id)
+  on conflict (journal_key) do nothing
+  returning id into v_journal_id;
+
+  -- Already posted
+  if v_journal_id is null then
+    select id into v_journal_id from public.ledger_journals where journal_key = p_journal_key;
+    return v_journal_id;
+  end if;
+
+  insert into public.ledger_entries (journal_id, account, streamer_id, booking_id, debit, credit)
+  select
+    v_journal_id,
+    line->>'account',
+    (line->>'streamer_id')::bigint,
+    p_booking_id,
+    coalesce((line->>'debit')::numeric, 0),
+    coalesce((line->>'credit')::numeric, 0)
+  from jsonb_array_elements(p_lines) as line
+  where coalesce((line->>'debit')::numeric, 0) > 0 or coalesce((line->>'credit')::numeric, 0) > 0;
+
+  return v_journal_id;
+end;
+$$;
+
+comment on function public.post_ledger_journal is 'Posts a balanced set of ledger lines once per journal key; returns the journal id.';
+
+revoke execute on function public.post_ledger_journal from public, anon, authenticated;
+grant execute on function public.post_ledger_journal to service_role;
+
+-- Creates a payout request for the signed-in streamer and moves the amount out
+-- of their available balance, serialised per streamer so balances cannot be
+-- overdrawn by concurrent requests.
+create or replace function public.request_streamer_payout(
+  p_amount numeric,
+  p_bank_name text,
+  p_account_number text,
+  p_account_holder_name text
+)
+returns public.payout_requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_streamer_id bigint;
+  v_available numeric;
+  v_request public.payout_requests;
+begin
+  select id into v_streamer_id from public.streamers where user_id = auth.uid();
+
+  if v_streamer_id is null then
+    raise exception 'streamer profile not found' using errcode = '42501';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('streamer_payout'), v_streamer_id::integer);
+
+  select coalesce(sum(credit - debit), 0) into v_available
+  from public.ledger_entries
+  where streamer_id = v_streamer_id and account = 'streamer_payable';
+
+  if p_amount <= 0 or p_amount > v_available then
+    raise exception 'payout amount exceeds available balance' using errcode = '22023';
+  end if;
+
+  insert into public.payout_requests (streamer_id, amount, bank_name, account_number, account_holder_name)
+  values (v_streamer_id, p_amount, p_bank_name, p_account_number, p_account_holder_name)
+  returning * into v_request;
+
+  perform public.post_ledger_journal(
+    'payout-requested:' || v_request.id,
+    'payout_requested',
+    null,
+    v_request.id,
+    jsonb_build_array(
+      jsonb_build_object('account', 'streamer_payable', 'streamer_id', v_streamer_id, 'debit', p_amount, 'credit', 0),
+      jsonb_build_object('account', 'payouts_in_transit', 'streamer_id', v_streamer_id, 'debit', 0, 'credit', p_amount)
+    )
+  );
+
+  return v_request;
+end;
+$$;
+
+comment on function public.request_streamer_payout is 'Streamer-facing payout request; fails with invalid_parameter_value when the amount exceeds the available balance.';
+
+revoke execute on function public.request_streamer_payout from public, anon;
+grant execute on function public.request_streamer_payout to authenticated;
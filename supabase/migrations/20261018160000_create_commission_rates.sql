@@ -0,0 +1,44 @@
+-- Migration: Configurable commission rates
+-- Description: Moves the platform commission out of the checkout page into a table
+--              keyed by streamer category or tier, and adds a tier to streamers.
+-- Affected tables: commission_rates (new), streamers
+-- Special considerations: The default row keeps the previous 30% commission so
+--                         prices do not change until rates are edited. The brand
+--                         service fee and PPN rate are environment settings
+--                         (BRAND_SERVICE_FEE, VAT_RATE). Each booking keeps the
+--                         rates it was priced with in bookings.price_breakdown.
+
+alter table public.streamers
+  add column if not exists tier text;
+
+comment on column public.streamers.tier is 'Commercial tier (e.g. standard, pro); selects a tier-specific commission rate when one exists.';
+
+create table public.commission_rates (
+  id bigint generated always as identity primary key,
+  category text,
+  tier text,
+  rate numeric(5,4) not null check (rate >= 0 and rate < 1),
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  check (category is null or tier is null)
+);
+
+comment on table public.commission_rates is 'Platform commission charged on top of the streamer rate. Lookup order: tier, then category, then the default row (both null).';
+
+create unique index commission_rates_active_scope_idx
+  on public.commission_rates (coalesce(category, ''), coalesce(tier, ''))
+  where is_active;
+
+alter table public.commission_rates enable row level security;
+
+-- Rates are shown in the checkout summary, so anyone may read them
+create policy "Allow everyone to read active commission rates"
+  on public.commission_rates
+  for select
+  to anon, authenticated
+  using (is_active);
+
+comment on policy "Allow everyone to read active commission rates" on public.commission_rates is 'The checkout quote reads the rate that applies to the streamer being booked.';
+
+insert into public.commission_rates (category, tier, rate)
+values (null, null, 0.30);
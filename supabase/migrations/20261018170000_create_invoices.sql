@@ -0,0 +1,135 @@
+-- Migration: Booking invoices
+-- Description: Issues one numbered invoice per paid booking, with the buyer's tax
+--              details captured at issue time, and adds NPWP fields to users.
+-- Affected tables: users, invoice_counters (new), invoices (new)
+-- Special considerations: Invoice numbers are gapless per calendar year
+--                         (INV/2026/000001), allocated under a row lock in
+--                         issue_invoice. Invoices are written by the service role
+--                         only and never updated, so later profile or rate changes
+--                         do not alter an issued invoice.
+
+alter table public.users
+  add column if not exists npwp text,
+  add column if not exists npwp_name text,
+  add column if not exists npwp_address text;
+
+comment on column public.users.npwp is 'Brand tax ID (NPWP), printed on invoices when present.';
+
+create table public.invoice_counters (
+  year integer primary key,
+  last_number integer not null default 0
+);
+
+comment on table public.invoice_counters is 'Last invoice number used per year; incremented by issue_invoice.';
+
+create table public.invoices (
+  id bigint generated always as identity primary key,
+  invoice_number text not null unique,
+  booking_id bigint not null unique references public.bookings (id) on delete restrict,
+  payment_id bigint not null references public.payments (id) on delete restrict,
+  client_id uuid not null references auth.users (id),
+  buyer_name text not null,
+  buyer_brand_name text,
+  buyer_email text,
+  buyer_npwp text,
+  buyer_npwp_name text,
+  buyer_npwp_address text,
+  price_breakdown jsonb not null,
+  total numeric(12,2) not null,
+  issued_at timestamptz not null default now()
+);
+
+comment on table public.invoices is 'Issued invoices; a snapshot of the buyer and price breakdown at payment time.';
+
+create index invoices_client_id_idx on public.invoices (client_id);
+
+alter table public.invoice_counters enable row level security;
+alter table public.invoices enable row level security;
+
+create policy "Allow brands to read their invoices"
+  on public.invoices
+  for select
+  to authenticated
+  using (client_id = auth.uid());
+
+comment on policy "Allow brands to read their invoices" on public.invoices is 'Brands can list and download invoices for their own bookings.';
+
+create or replace function public.issue_invoice(p_booking_id bigint)
+returns public.invoices
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_invoice public.invoices;
+  v_booking public.bookings;
+  v_payment public.payments;
+  v_buyer public.users;
+  v_email text;
+  v_year integer;
+  v_number integer;
+begin
+  select * into v_invoice from public.invoices where booking_id = p_booking_id;
+  if found then
+    return v_invoice;
+  end if;
+
+  select * into v_booking from public.bookings where id = p_booking_id;
+  if not found then
+    raise exception 'booking % not found', p_booking_id using errcode = 'P0002';
+  end if;
+
+  select * into v_payment
+  from public.payments
+  where booking_id = p_booking_id and status in ('completed', 'refunded');
+  if not found then
+    raise exception 'booking % has no completed payment', p_booking_id using errcode = '22023';
+  end if;
+
+  select * into v_buyer from public.users where id = v_booking.client_id;
+  select email into v_email from auth.users where id = v_booking.client_id;
+
+  v_year := extract(year from now() at time zone 'Asia/Jakarta');
+
+  insert into public.invoice_counters (year, last_number)
+  values (v_year, 1)
+  on conflict (year) do update set last_number = public.invoice_counters.last_number + 1
+  returning last_number into v_number;
+
+  insert into public.invoices (
+    invoice_number,
+    booking_id,
+    payment_id,
+    client_id,
+    buyer_name,
+    buyer_brand_name,
+    buyer_email,
+    buyer_npwp,
+    buyer_npwp_name,
+    buyer_npwp_address,
+    price_breakdown,
+    total
+  )
+  values (
+    format('INV/%s/%s', v_year, lpad(v_number::text, 6, '0')),
+    v_booking.id,
+    v_payment.id,
+    v_booking.client_id,
+    trim(coalesce(v_buyer.first_name, v_booking.client_first_name, '') || ' ' || coalesce(v_buyer.last_name, v_booking.client_last_name, '')),
+    v_buyer.brand_name,
+    v_email,
+    v_buyer.npwp,
+    v_buyer.npwp_name,
+    v_buyer.npwp_address,
+    coalesce(v_booking.price_breakdown, jsonb_build_object('total', v_payment.amount)),
+    v_payment.amount
+  )
+  returning * into v_invoice;
+
+  return v_invoice;
+end;
+$$;
+
+comment on function public.issue_invoice is 'Returns the invoice for a paid booking, issuing it with the next number of the year on first call.';
+
+revoke execute on function public.issue_invoice from public, anon, authenticated;
+grant execute on function public.issue_invoice to service_role;
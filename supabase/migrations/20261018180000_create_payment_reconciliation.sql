@@ -0,0 +1,45 @@
+-- Migration: Payment reconciliation
+-- Description: Records runs of the payment reconciliation job and the
+--              discrepancies it finds between stored payments and the payment
+--              gateway's transaction status.
+-- Affected tables: reconciliation_runs (new), payment_discrepancies (new)
+-- Special considerations: Both tables are written by the service role and read by
+--                         admins through server actions, so RLS is enabled with
+--                         no policies. A discrepancy is recorded once per payment
+--                         and kind, so repeated runs do not reopen resolved ones.
+
+create table public.reconciliation_runs (
+  id bigint generated always as identity primary key,
+  started_at timestamptz not null default now(),
+  finished_at timestamptz,
+  checked integer not null default 0,
+  applied integer not null default 0,
+  discrepancies integer not null default 0,
+  failed integer not null default 0
+);
+
+comment on table public.reconciliation_runs is 'One row per run of the payment reconciliation job, with what it checked and changed.';
+
+create table public.payment_discrepancies (
+  id bigint generated always as identity primary key,
+  payment_id bigint not null references public.payments (id) on delete cascade,
+  booking_id bigint references public.bookings (id) on delete set null,
+  order_id text not null,
+  kind text not null check (kind in ('amount_mismatch', 'orphan_transaction', 'duplicate_capture')),
+  details jsonb not null default '{}'::jsonb,
+  gateway_status jsonb,
+  run_id bigint references public.reconciliation_runs (id) on delete set null,
+  detected_at timestamptz not null default now(),
+  resolved_at timestamptz,
+  resolved_by uuid references auth.users (id),
+  resolution_note text,
+  unique (payment_id, kind)
+);
+
+comment on table public.payment_discrepancies is 'Mismatches between stored payments and the gateway that need an admin to look at them.';
+comment on column public.payment_discrepancies.kind is 'amount_mismatch: gateway amount differs from the payment; orphan_transaction: money captured for a payment or booking that is no longer active; duplicate_capture: more than one captured payment for a booking.';
+
+create index payment_discrepancies_unresolved_idx on public.payment_discrepancies (detected_at) where resolved_at is null;
+
+alter table public.reconciliation_runs enable row level security;
+alter table public.payment_discrepancies enable row level security;
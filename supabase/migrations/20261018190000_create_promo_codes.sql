@@ -0,0 +1,198 @@
+-- Migration: Promo codes
+-- Description: Discount codes for brand checkout, with percentage or fixed
+--              amounts, validity windows, global and per-brand usage limits and
+--              optional restriction to categories or streamers. The applied code
+--              is recorded on the booking.
+-- Affected tables: promo_codes (new), bookings, ledger_entries
+-- Special considerations: reserve_booking_slot gains p_promo_code_id and re-checks
+--                         usage limits under a per-code advisory lock, so two
+--                         checkouts cannot both take the last use. A use counts
+--                         while its booking is active or paid through; bookings
+--                         that expire, are cancelled or are rejected give it back.
+--                         Platform-funded discounts are booked to the new
+--                         promo_expense ledger account and leave the streamer's
+--                         share untouched.
+
+create table public.promo_codes (
+  id bigint generated always as identity primary key,
+  code text not null unique check (code = upper(code) and code ~ '^[A-Z0-9_-]{3,32}$'),
+  description text,
+  discount_type text not null check (discount_type in ('percent', 'fixed')),
+  discount_value numeric(12,2) not null check (discount_value > 0),
+  -- Cap for percentage discounts
+  max_discount numeric(12,2) check (max_discount > 0),
+  min_subtotal numeric(12,2) not null default 0,
+  funded_by text not null default 'platform' check (funded_by in ('platform', 'streamer')),
+  starts_at timestamptz,
+  ends_at timestamptz,
+  usage_limit integer check (usage_limit > 0),
+  per_brand_limit integer check (per_brand_limit > 0),
+  categories text[],
+  streamer_ids bigint[],
+  is_active boolean not null default true,
+  created_by uuid references auth.users (id),
+  created_at timestamptz not null default now(),
+  check (discount_type <> 'percent' or discount_value <= 100),
+  check (ends_at is null or starts_at is null or ends_at > starts_at)
+);
+
+comment on table public.promo_codes is 'Checkout discount codes. Managed by admins through server actions; read by the service role only.';
+comment on column public.promo_codes.funded_by is 'platform: the platform absorbs the discount and the streamer is paid in full; streamer: the discount comes out of the streamer''s rate.';
+comment on column public.promo_codes.categories is 'Streamer categories the code applies to; null for any.';
+comment on column public.promo_codes.streamer_ids is 'Streamers the code applies to; null for any.';
+
+alter table public.promo_codes enable row level security;
+
+alter table public.bookings
+  add column if not exists promo_code_id bigint references public.promo_codes (id) on delete restrict;
+
+comment on column public.bookings.promo_code_id is 'Promo code applied at checkout; the discount itself is in price_breakdown.';
+
+create index bookings_promo_code_id_idx on public.bookings (promo_code_id, client_id) where promo_code_id is not null;
+
+alter table public.ledger_entries
+  drop constraint ledger_entries_account_check;
+
+alter table public.ledger_entries
+  add constraint ledger_entries_account_check check (
+    account in (
+      'platform_cash',
+      'streamer_pending',
+      'streamer_payable',
+      'payouts_in_transit',
+      'platform_commission',
+      'tax_payable',
+      'promo_expense'
+    )
+  );
+
+comment on column public.ledger_entries.account is 'See the ledger migration for account meanings; promo_expense holds platform-funded discounts.';
+
+-- Uses of a code that still count against its limits
+create or replace function public.count_promo_code_uses(p_promo_code_id bigint, p_client_id uuid default null)
+returns integer
+language sql
+stable
+set search_path = public
+as $$
+  select count(*)::integer
+  from public.bookings
+  where promo_code_id = p_promo_code_id
+    and status not in ('expired', 'cancelled', 'rejected')
+    and (p_client_id is null or client_id = p_client_id);
+$$;
+
+revoke execute on function public.count_promo_code_uses from public, anon, authenticated;
+grant execute on function public.count_promo_code_uses to service_role;
+
+drop function public.reserve_booking_slot(
+  uuid, bigint, timestamptz, timestamptz, integer, text, text, text, text, numeric, jsonb, text, text, text
+);
+
+create or replace function public.reserve_booking_slot(
+  p_client_id uuid,
+  p_streamer_id bigint,
+  p_start_time timestamptz,
+  p_end_time timestamptz,
+  p_hold_minutes integer,
+  p_platform text,
+  p_special_request text,
+  p_sub_acc_link text,
+  p_sub_acc_pass text,
+  p_price numeric,
+  p_price_breakdown jsonb,
+  p_client_first_name text,
+  p_client_last_name text,
+  p_timezone text,
+  p_promo_code_id bigint default null
+)
+returns public.bookings
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_booking public.bookings;
+  v_promo public.promo_codes;
+begin
+  if p_client_id is null then
+    raise exception 'a booking needs a client' using errcode = '22004';
+  end if;
+
+  if p_hold_minutes not between 1 and 60 then
+    raise exception 'hold must last between 1 and 60 minutes' using errcode = '22023';
+  end if;
+
+  if p_end_time <= p_start_time then
+    raise exception 'booking must end after it starts' using errcode = '22023';
+  end if;
+
+  -- Stale holds in the range give way, closing their payments too
+  perform public.expire_overlapping_holds(p_streamer_id, p_start_time, p_end_time);
+
+  if p_promo_code_id is not null then
+    perform pg_advisory_xact_lock(hashtext('promo_code'), p_promo_code_id::integer);
+
+    select * into v_promo from public.promo_codes where id = p_promo_code_id and is_active;
+
+    -- Validity and eligibility were checked when the price was quoted; only
+    -- the limits can change between then and now
+    if not found
+      or (v_promo.usage_limit is not null and public.count_promo_code_uses(v_promo.id) >= v_promo.usage_limit)
+      or (v_promo.per_brand_limit is not null and public.count_promo_code_uses(v_promo.id, p_client_id) >= v_promo.per_brand_limit)
+    then
+      raise exception 'promo code is no longer available' using errcode = 'PR001';
+    end if;
+  end if;
+
+  -- Raises 23P01 (exclusion_violation) when the range is already taken
+  insert into public.bookings (
+    client_id,
+    streamer_id,
+    start_time,
+    end_time,
+    hold_expires_at,
+    platform,
+    status,
+    status_actor,
+    status_actor_id,
+    special_request,
+    sub_acc_link,
+    sub_acc_pass,
+    price,
+    price_breakdown,
+    promo_code_id,
+    client_first_name,
+    client_last_name,
+    timezone
+  )
+  values (
+    p_client_id,
+    p_streamer_id,
+    p_start_time,
+    p_end_time,
+    now() + make_interval(mins => p_hold_minutes),
+    p_platform,
+    'payment_pending',
+    'client',
+    p_client_id,
+    p_special_request,
+    p_sub_acc_link,
+    p_sub_acc_pass,
+    p_price,
+    p_price_breakdown,
+    p_promo_code_id,
+    p_client_first_name,
+    p_client_last_name,
+    p_timezone
+  )
+  returning * into v_booking;
+
+  return v_booking;
+end;
+$$;
+
+comment on function public.reserve_booking_slot is 'Creates a payment_pending booking that holds a streamer time range for p_hold_minutes; fails with exclusion_violation if the range is taken, or PR001 if the promo code has run out.';
+
+revoke execute on function public.reserve_booking_slot from public, anon, authenticated;
+grant execute on function public.reserve_booking_slot to service_role;
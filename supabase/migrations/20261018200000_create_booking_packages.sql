@@ -0,0 +1,340 @@
+-- Migration: Booking packages
+-- Description: Recurring multi-session bookings with one streamer, paid in a
+--              single checkout. A package groups its occurrence bookings; the
+--              payment belongs to the package instead of a single booking.
+-- Affected tables: booking_packages (new), bookings, payments
+-- Special considerations: payments.booking_id becomes nullable; every payment
+--                         references either a booking or a package. Each
+--                         occurrence keeps its own price and price_breakdown
+--                         (one session's price), so ledger postings, refunds and
+--                         invoices stay per booking. reserve_booking_package
+--                         inserts all occurrences in one transaction; if any of
+--                         them overlaps another booking the whole package fails
+--                         with exclusion_violation. Packages and their payments
+--                         are only written by the service role, after checkout
+--                         has priced the package on the server.
+
+create table public.booking_packages (
+  id bigint generated always as identity primary key,
+  client_id uuid not null references auth.users (id),
+  streamer_id bigint not null references public.streamers (id),
+  pattern jsonb not null,
+  sessions integer not null check (sessions > 0),
+  hours_per_session integer not null check (hours_per_session > 0),
+  platform text not null,
+  price numeric(12,2) not null,
+  session_price_breakdown jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+comment on table public.booking_packages is 'Recurring sessions booked and paid together; the sessions themselves are rows in bookings.';
+comment on column public.booking_packages.pattern is 'Weekly pattern the package was booked with: startDate, weeks, weekdays, startHour, hours.';
+comment on column public.booking_packages.price is 'Total paid for the package; each occurrence''s price is one session.';
+
+create index booking_packages_client_id_idx on public.booking_packages (client_id);
+create index booking_packages_streamer_id_idx on public.booking_packages (streamer_id);
+
+alter table public.booking_packages enable row level security;
+
+create policy "Allow participants to read their packages"
+  on public.booking_packages
+  for select
+  to authenticated
+  using (
+    client_id = auth.uid()
+    or exists (
+      select 1 from public.streamers
+      where streamers.id = booking_packages.streamer_id
+        and streamers.user_id = auth.uid()
+    )
+  );
+
+comment on policy "Allow participants to read their packages" on public.booking_packages is 'The brand that booked the package and the streamer it was booked with can read it.';
+
+alter table public.bookings
+  add column if not exists package_id bigint references public.booking_packages (id) on delete cascade;
+
+comment on column public.bookings.package_id is 'Package this booking is an occurrence of; null for single bookings.';
+
+create index bookings_package_id_idx on public.bookings (package_id) where package_id is not null;
+
+alter table public.payments
+  add column if not exists package_id bigint references public.booking_packages (id) on delete cascade;
+
+alter table public.payments
+  alter column booking_id drop not null;
+
+alter table public.payments
+  add constraint payments_owner_check check (booking_id is not null or package_id is not null);
+
+comment on column public.payments.package_id is 'Package paid for by this payment; booking_id is null for package payments.';
+
+create unique index payments_package_id_key on public.payments (package_id) where package_id is not null;
+
+create policy "Allow brands to read their package payments"
+  on public.payments
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.booking_packages
+      where booking_packages.id = payments.package_id
+        and booking_packages.client_id = auth.uid()
+    )
+  );
+
+-- Stale package holds give way too; a package's payment is closed along with
+-- the occurrences in the way, and the hold expiry job releases the rest
+create or replace function public.expire_overlapping_holds(
+  p_streamer_id bigint,
+  p_start_time timestamptz,
+  p_end_time timestamptz
+)
+returns void
+language plpgsql
+set search_path = public
+as $$
+begin
+  with expired_bookings as (
+    update public.bookings
+    set status = 'expired',
+        status_actor = 'system',
+        status_actor_id = null,
+        status_reason = 'hold_expired'
+    where streamer_id = p_streamer_id
+      and status = 'payment_pending'
+      and hold_expires_at <= now()
+      and tstzrange(start_time, end_time, '[)') && tstzrange(p_start_time, p_end_time, '[)')
+    returning id, package_id
+  ),
+  expired_payments as (
+    update public.payments
+    set status = 'expired',
+        payment_status = 'expire',
+        updated_at = now()
+    where status = 'pending'
+      and (
+        booking_id in (select id from expired_bookings)
+        or package_id in (select package_id from expired_bookings where package_id is not null)
+      )
+    returning id
+  )
+  insert into public.payment_status_history (payment_id, notification_key, previous_status, new_status)
+  select id, 'hold-expiry:' || id, 'pending', 'expired'
+  from expired_payments
+  on conflict (notification_key) where notification_key is not null do nothing;
+end;
+$$;
+
+create or replace function public.reserve_booking_package(
+  p_client_id uuid,
+  p_streamer_id bigint,
+  p_occurrences jsonb,
+  p_hold_minutes integer,
+  p_pattern jsonb,
+  p_hours_per_session integer,
+  p_platform text,
+  p_special_request text,
+  p_sub_acc_link text,
+  p_sub_acc_pass text,
+  p_session_price numeric,
+  p_session_price_breakdown jsonb,
+  p_client_first_name text,
+  p_client_last_name text,
+  p_timezone text
+)
+returns public.booking_packages
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_package public.booking_packages;
+  v_occurrence jsonb;
+  v_start timestamptz;
+  v_end timestamptz;
+begin
+  if p_client_id is null then
+    raise exception 'a package needs a client' using errcode = '22004';
+  end if;
+
+  if p_hold_minutes not between 1 and 60 then
+    raise exception 'hold must last between 1 and 60 minutes' using errcode = '22023';
+  end if;
+
+  if jsonb_typeof(p_occurrences) <> 'array' or jsonb_array_length(p_occurrences) = 0 then
+    raise exception 'a package needs at least one occurrence' using errcode = '22023';
+  end if;
+
+  insert into public.booking_packages (
+    client_id,
+    streamer_id,
+    pattern,
+    sessions,
+    hours_per_session,
+    platform,
+    price,
+    session_price_breakdown
+  )
+  values (
+    p_client_id,
+    p_streamer_id,
+    p_pattern,
+    jsonb_array_length(p_occurrences),
+    p_hours_per_session,
+    p_platform,
+    p_session_price * jsonb_array_length(p_occurrences),
+    p_session_price_breakdown
+  )
+  returning * into v_package;
+
+  for v_occurrence in select * from jsonb_array_elements(p_occurrences)
+  loop
+    v_start := (v_occurrence ->> 'start_time')::timestamptz;
+    v_end := (v_occurrence ->> 'end_time')::timestamptz;
+
+    if v_end <= v_start then
+      raise exception 'booking must end after it starts' using errcode = '22023';
+    end if;
+
+    -- Stale holds in the range give way, closing their payments too
+    perform public.expire_overlapping_holds(p_streamer_id, v_start, v_end);
+
+    -- Raises 23P01 (exclusion_violation) when the range is already taken,
+    -- rolling back the package and every occurrence inserted so far
+    insert into public.bookings (
+      client_id,
+      streamer_id,
+      package_id,
+      start_time,
+      end_time,
+      hold_expires_at,
+      platform,
+      status,
+      status_actor,
+      status_actor_id,
+      special_request,
+      sub_acc_link,
+      sub_acc_pass,
+      price,
+      price_breakdown,
+      client_first_name,
+      client_last_name,
+      timezone
+    )
+    values (
+      p_client_id,
+      p_streamer_id,
+      v_package.id,
+      v_start,
+      v_end,
+      now() + make_interval(mins => p_hold_minutes),
+      p_platform,
+      'payment_pending',
+      'client',
+      p_client_id,
+      p_special_request,
+      p_sub_acc_link,
+      p_sub_acc_pass,
+      p_session_price,
+      p_session_price_breakdown,
+      p_client_first_name,
+      p_client_last_name,
+      p_timezone
+    );
+  end loop;
+
+  return v_package;
+end;
+$$;
+
+comment on function public.reserve_booking_package is 'Creates a package and one payment_pending booking per occurrence, all holding their time ranges for p_hold_minutes; fails with exclusion_violation if any range is taken.';
+
+revoke execute on function public.reserve_booking_package from public, anon, authenticated;
+grant execute on function public.reserve_booking_package to service_role;
+
+-- Occurrences of a package are invoiced one by one against the package payment
+create or replace function public.issue_invoice(p_booking_id bigint)
+returns public.invoices
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_invoice public.invoices;
+  v_booking public.bookings;
+  v_payment public.payments;
+  v_buyer public.users;
+  v_email text;
+  v_total numeric(12,2);
+  v_year integer;
+  v_number integer;
+begin
+  select * into v_invoice from public.invoices where booking_id = p_booking_id;
+  if found then
+    return v_invoice;
+  end if;
+
+  select * into v_booking from public.bookings where id = p_booking_id;
+  if not found then
+    raise exception 'booking % not found', p_booking_id using errcode = 'P0002';
+  end if;
+
+  if v_booking.package_id is not null then
+    select * into v_payment
+    from public.payments
+    where package_id = v_booking.package_id and status in ('completed', 'refunded');
+    v_total := v_booking.price;
+  else
+    select * into v_payment
+    from public.payments
+    where booking_id = p_booking_id and status in ('completed', 'refunded');
+    v_total := v_payment.amount;
+  end if;
+
+  if v_payment.id is null then
+    raise exception 'booking % has no completed payment', p_booking_id using errcode = '22023';
+  end if;
+
+  select * into v_buyer from public.users where id = v_booking.client_id;
+  select email into v_email from auth.users where id = v_booking.client_id;
+
+  v_year := extract(year from now() at time zone 'Asia/Jakarta');
+
+  insert into public.invoice_counters (year, last_number)
+  values (v_year, 1)
+  on conflict (year) do update set last_number = public.invoice_counters.last_number + 1
+  returning last_number into v_number;
+
+  insert into public.invoices (
+    invoice_number,
+    booking_id,
+    payment_id,
+    client_id,
+    buyer_name,
+    buyer_brand_name,
+    buyer_email,
+    buyer_npwp,
+    buyer_npwp_name,
+    buyer_npwp_address,
+    price_breakdown,
+    total
+  )
+  values (
+    format('INV/%s/%s', v_year, lpad(v_number::text, 6, '0')),
+    v_booking.id,
+    v_payment.id,
+    v_booking.client_id,
+    trim(coalesce(v_buyer.first_name, v_booking.client_first_name, '') || ' ' || coalesce(v_buyer.last_name, v_booking.client_last_name, '')),
+    v_buyer.brand_name,
+    v_email,
+    v_buyer.npwp,
+    v_buyer.npwp_name,
+    v_buyer.npwp_address,
+    coalesce(v_booking.price_breakdown, jsonb_build_object('total', v_total)),
+    v_total
+  )
+  returning * into v_invoice;
+
+  return v_invoice;
+end;
+$$;
@@ -0,0 +1,183 @@
+-- Migration: Streamer service packages
+-- Description: Lets streamers sell fixed-price service tiers (for example a
+--              one-hour live, a premium live with a product review video, or a
+--              discounted multi-hour bundle) alongside their hourly rate. A
+--              booking records the package it was bought with.
+-- Affected tables: streamer_packages (new), bookings
+-- Special considerations: reserve_booking_slot gains p_service_package_id. The
+--                         package price is copied into the booking's
+--                         price_breakdown when the booking is made, so editing
+--                         or deleting a package never changes existing bookings.
+
+create table public.streamer_packages (
+  id bigint generated always as identity primary key,
+  streamer_id bigint not null references public.streamers (id) on delete cascade,
+  name text not null check (length(trim(name)) between 1 and 80),
+  description text,
+  duration_hours integer not null check (duration_hours between 1 and 24),
+  price numeric(12,2) not null check (price > 0),
+  deliverables text[] not null default '{}',
+  max_products integer check (max_products > 0),
+  is_active boolean not null default true,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+comment on table public.streamer_packages is 'Fixed-price service tiers a streamer offers in addition to the hourly rate.';
+comment on column public.streamer_packages.price is 'Price for the whole package before platform fees and tax.';
+comment on column public.streamer_packages.deliverables is 'What the brand gets, one item per entry, e.g. a product review video.';
+comment on column public.streamer_packages.max_products is 'Most products the streamer will feature in one session; null for no limit.';
+
+create index streamer_packages_streamer_id_idx on public.streamer_packages (streamer_id, sort_order);
+
+alter table public.streamer_packages enable row level security;
+
+create policy "Allow anyone to read active streamer packages"
+  on public.streamer_packages
+  for select
+  to anon, authenticated
+  using (is_active);
+
+comment on policy "Allow anyone to read active streamer packages" on public.streamer_packages is 'Packages are shown on public streamer profiles and in the booking modal.';
+
+create policy "Allow streamers to manage their packages"
+  on public.streamer_packages
+  for all
+  to authenticated
+  using (
+    exists (
+      select 1 from public.streamers
+      where streamers.id = streamer_packages.streamer_id
+        and streamers.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.streamers
+      where streamers.id = streamer_packages.streamer_id
+        and streamers.user_id = auth.uid()
+    )
+  );
+
+comment on policy "Allow streamers to manage their packages" on public.streamer_packages is 'Streamers create, edit and remove their own packages from /settings.';
+
+alter table public.bookings
+  add column if not exists service_package_id bigint references public.streamer_packages (id) on delete set null;
+
+comment on column public.bookings.service_package_id is 'Streamer package the booking was bought as; null for hourly bookings. Its price at booking time is in price_breakdown.';
+
+drop function public.reserve_booking_slot(
+  uuid, bigint, timestamptz, timestamptz, integer, text, text, text, text, numeric, jsonb, text, text, text, bigint
+);
+
+create or replace function public.reserve_booking_slot(
+  p_client_id uuid,
+  p_streamer_id bigint,
+  p_start_time timestamptz,
+  p_end_time timestamptz,
+  p_hold_minutes integer,
+  p_platform text,
+  p_special_request text,
+  p_sub_acc_link text,
+  p_sub_acc_pass text,
+  p_price numeric,
+  p_price_breakdown jsonb,
+  p_client_first_name text,
+  p_client_last_name text,
+  p_timezone text,
+  p_promo_code_id bigint default null,
+  p_service_package_id bigint default null
+)
+returns public.bookings
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_booking public.bookings;
+  v_promo public.promo_codes;
+begin
+  if p_client_id is null then
+    raise exception 'a booking needs a client' using errcode = '22004';
+  end if;
+
+  if p_hold_minutes not between 1 and 60 then
+    raise exception 'hold must last between 1 and 60 minutes' using errcode = '22023';
+  end if;
+
+  if p_end_time <= p_start_time then
+    raise exception 'booking must end after it starts' using errcode = '22023';
+  end if;
+
+  -- Stale holds in the range give way, closing their payments too
+  perform public.expire_overlapping_holds(p_streamer_id, p_start_time, p_end_time);
+
+  if p_promo_code_id is not null then
+    perform pg_advisory_xact_lock(hashtext('promo_code'), p_promo_code_id::integer);
+
+    select * into v_promo from public.promo_codes where id = p_promo_code_id and is_active;
+
+    -- Validity and eligibility were checked when the price was quoted; only
+    -- the limits can change between then and now
+    if not found
+      or (v_promo.usage_limit is not null and public.count_promo_code_uses(v_promo.id) >= v_promo.usage_limit)
+      or (v_promo.per_brand_limit is not null and public.count_promo_code_uses(v_promo.id, p_client_id) >= v_promo.per_brand_limit)
+    then
+      raise exception 'promo code is no longer available' using errcode = 'PR001';
+    end if;
+  end if;
+
+  -- Raises 23P01 (exclusion_violation) when the range is already taken
+  insert into public.bookings (
+    client_id,
+    streamer_id,
+    start_time,
+    end_time,
+    hold_expires_at,
+    platform,
+    status,
+    status_actor,
+    status_actor_id,
+    special_request,
+    sub_acc_link,
+    sub_acc_pass,
+    price,
+    price_breakdown,
+    promo_code_id,
+    service_package_id,
+    client_first_name,
+    client_last_name,
+    timezone
+  )
+  values (
+    p_client_id,
+    p_streamer_id,
+    p_start_time,
+    p_end_time,
+    now() + make_interval(mins => p_hold_minutes),
+    p_platform,
+    'payment_pending',
+    'client',
+    p_client_id,
+    p_special_request,
+    p_sub_acc_link,
+    p_sub_acc_pass,
+    p_price,
+    p_price_breakdown,
+    p_promo_code_id,
+    p_service_package_id,
+    p_client_first_name,
+    p_client_last_name,
+    p_timezone
+  )
+  returning * into v_booking;
+
+  return v_booking;
+end;
+$$;
+
+comment on function public.reserve_booking_slot is 'Creates a payment_pending booking that holds a streamer time range for p_hold_minutes; fails with exclusion_violation if the range is taken, or PR001 if the promo code has run out.';
+
+revoke execute on function public.reserve_booking_slot from public, anon, authenticated;
+grant execute on function public.reserve_booking_slot to service_role;
@@ -0,0 +1,27 @@
+-- Migration: Streamer time zones
+-- Description: Records each streamer's IANA time zone so schedules, days off and
+--              booked hours can be read as the streamer's wall-clock time while
+--              bookings stay UTC instants.
+-- Affected tables: streamers, bookings, streamer_active_schedules, streamer_day_offs
+-- Special considerations: Existing streamers are backfilled from their city;
+--                         cities outside the WITA and WIT lists, and unknown
+--                         ones, get Asia/Jakarta (WIB). bookings.timezone was
+--                         previously filled with the server's zone; it now holds
+--                         the brand's browser zone and old rows are left as-is.
+
+alter table public.streamers
+  add column if not exists timezone text not null default 'Asia/Jakarta';
+
+comment on column public.streamers.timezone is 'IANA zone the streamer works in, derived from their city; schedules and days off are in this zone.';
+
+update public.streamers
+set timezone = case
+  when lower(trim(location)) in ('makassar', 'denpasar', 'manado', 'samarinda', 'banjarmasin', 'balikpapan', 'mataram') then 'Asia/Makassar'
+  when lower(trim(location)) in ('ambon', 'jayapura') then 'Asia/Jayapura'
+  when lower(trim(location)) = 'pontianak' then 'Asia/Pontianak'
+  else 'Asia/Jakarta'
+end;
+
+comment on column public.bookings.timezone is 'IANA zone of the brand when they booked, used to show them their local time.';
+comment on column public.streamer_active_schedules.schedule is 'Weekly slots as HH:mm wall-clock times in streamers.timezone.';
+comment on column public.streamer_day_offs.date is 'Calendar date in streamers.timezone.';
@@ -0,0 +1,16 @@
+-- Migration: Streamer slot length
+-- Description: Lets each streamer choose the booking grid (15, 30 or 60
+--              minutes) brands pick start and end times on, so sessions no
+--              longer have to be whole hours.
+-- Affected tables: streamers
+-- Special considerations: Existing streamers keep 60-minute slots. Booking
+--                         lengths are validated against slot_minutes when the
+--                         payment is created; overlaps are still enforced on
+--                         the exact time ranges by bookings_no_overlapping_slots.
+--                         price_breakdown.hours may now be fractional.
+
+alter table public.streamers
+  add column if not exists slot_minutes integer not null default 60
+    check (slot_minutes in (15, 30, 60));
+
+comment on column public.streamers.slot_minutes is 'Booking grid in minutes; every booking with this streamer is a whole number of slots long.';
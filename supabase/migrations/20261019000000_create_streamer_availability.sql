@@ -0,0 +1,125 @@
+-- Migration: Unified streamer availability
+-- Description: Replaces the hourly streamer_schedule rows, the JSON string in
+--              streamer_active_schedules and the legacy accepted_bookings copy
+--              of bookings with one weekly template, streamer_availability.
+--              Days off stay in streamer_day_offs and booked time is read from
+--              bookings directly.
+-- Affected tables: streamer_availability (new), streamer_schedule (dropped),
+--                  streamer_active_schedules (dropped), accepted_bookings (dropped)
+-- Special considerations: Each streamer's template is folded from their
+--                         available streamer_schedule rows, or from
+--                         streamer_active_schedules when they have none, with
+--                         touching hours joined into one window. Streamers with
+--                         neither were bookable 09:00-17:00 every day through a
+--                         fallback in the booking modal; they get that as an
+--                         explicit template so nothing they offered disappears.
+--                         accepted_bookings only duplicated accepted rows of
+--                         bookings and is dropped without copying.
+
+create table public.streamer_availability (
+  id bigint generated always as identity primary key,
+  streamer_id bigint not null references public.streamers (id) on delete cascade,
+  weekday smallint not null check (weekday between 0 and 6),
+  start_time time not null,
+  end_time time not null,
+  created_at timestamptz not null default now(),
+  check (end_time > start_time),
+  unique (streamer_id, weekday, start_time)
+);
+
+comment on table public.streamer_availability is 'Weekly template of bookable windows per streamer; days off and bookings are subtracted from it.';
+comment on column public.streamer_availability.weekday is '0 (Sunday) - 6 (Saturday).';
+comment on column public.streamer_availability.start_time is 'Wall-clock time in streamers.timezone.';
+comment on column public.streamer_availability.end_time is 'Wall-clock time in streamers.timezone; 24:00 for a window running to midnight.';
+
+create index streamer_availability_streamer_id_idx on public.streamer_availability (streamer_id);
+
+alter table public.streamer_availability enable row level security;
+
+create policy "Allow anyone to read streamer availability"
+  on public.streamer_availability
+  for select
+  to anon, authenticated
+  using (true);
+
+comment on policy "Allow anyone to read streamer availability" on public.streamer_availability is 'Brands browse availability before signing in, as they did with streamer_active_schedules.';
+
+create policy "Allow streamers to manage their availability"
+  on public.streamer_availability
+  for all
+  to authenticated
+  using (
+    exists (
+      select 1 from public.streamers
+      where streamers.id = streamer_availability.streamer_id
+        and streamers.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.streamers
+      where streamers.id = streamer_availability.streamer_id
+        and streamers.user_id = auth.uid()
+    )
+  );
+
+comment on policy "Allow streamers to manage their availability" on public.streamer_availability is 'A streamer edits only their own weekly template.';
+
+-- Hours from the schedule editor's rows, and from the JSON for streamers
+-- whose rows were never written
+with hours as (
+  select streamer_id, day_of_week::smallint as weekday, start_time::time as start_time,
+    case when end_time::time = '00:00' then '24:00'::time else end_time::time end as end_time
+  from public.streamer_schedule
+  where is_available
+
+  union
+
+  select active.streamer_id, (day ->> 'day')::smallint, (slot ->> 'start')::time,
+    case when (slot ->> 'end')::time = '00:00' then '24:00'::time else (slot ->> 'end')::time end
+  from public.streamer_active_schedules active
+  cross join lateral jsonb_array_elements(active.schedule::jsonb) as day
+  cross join lateral jsonb_array_elements(coalesce(day -> 'slots', '[]'::jsonb)) as slot
+  where jsonb_typeof(active.schedule::jsonb) = 'array'
+    and not exists (
+      select 1 from public.streamer_schedule
+      where streamer_schedule.streamer_id = active.streamer_id
+    )
+),
+-- A window starts at every hour that does not continue the one before it
+starts as (
+  select *,
+    case when start_time <= max(end_time) over (
+      partition by streamer_id, weekday
+      order by start_time
+      rows between unbounded preceding and 1 preceding
+    ) then 0 else 1 end as is_new_window
+  from hours
+  where end_time > start_time
+),
+numbered as (
+  select *, sum(is_new_window) over (partition by streamer_id, weekday order by start_time) as window_number
+  from starts
+)
+insert into public.streamer_availability (streamer_id, weekday, start_time, end_time)
+select streamer_id, weekday, min(start_time), max(end_time)
+from numbered
+where weekday between 0 and 6
+group by streamer_id, weekday, window_number;
+
+insert into public.streamer_availability (streamer_id, weekday, start_time, end_time)
+select streamers.id, weekday, '09:00', '17:00'
+from public.streamers
+cross join generate_series(0, 6) as weekday
+where not exists (
+  select 1 from public.streamer_schedule
+  where streamer_schedule.streamer_id = streamers.id
+)
+and not exists (
+  select 1 from public.streamer_active_schedules
+  where streamer_active_schedules.streamer_id = streamers.id
+);
+
+drop table if exists public.streamer_schedule;
+drop table if exists public.streamer_active_schedules;
+drop table if exists public.accepted_bookings;
@@ -0,0 +1,78 @@
+-- Migration: Availability exceptions
+-- Description: Date-ranged overrides of a streamer's weekly template: time
+--              off (whole days or some hours), days with only certain hours,
+--              and extra hours outside the template. Replaces
+--              streamer_day_offs, whose single whole days become one-day
+--              time-off exceptions.
+-- Affected tables: streamer_availability_exceptions (new),
+--                  streamer_day_offs (dropped)
+-- Special considerations: Exceptions apply to every date from start_date to
+--                         end_date inclusive, on the streamer's calendar.
+--                         On a date, 'only' windows replace the template,
+--                         'extra' windows are added to it and 'off' windows
+--                         are taken out; an 'off' exception without times
+--                         takes the whole day off. Bookings already made are
+--                         not affected.
+
+create table public.streamer_availability_exceptions (
+  id bigint generated always as identity primary key,
+  streamer_id bigint not null references public.streamers (id) on delete cascade,
+  kind text not null check (kind in ('off', 'only', 'extra')),
+  start_date date not null,
+  end_date date not null,
+  start_time time,
+  end_time time,
+  note text,
+  created_at timestamptz not null default now(),
+  check (end_date >= start_date),
+  check ((start_time is null) = (end_time is null)),
+  check (start_time is null or end_time > start_time),
+  check (kind = 'off' or start_time is not null)
+);
+
+comment on table public.streamer_availability_exceptions is 'Date-ranged overrides of streamer_availability: time off, only-these-hours days and extra hours.';
+comment on column public.streamer_availability_exceptions.kind is 'off: unavailable (whole day when no times); only: bookable only in these hours; extra: bookable in these hours as well.';
+comment on column public.streamer_availability_exceptions.start_date is 'First calendar day covered, in streamers.timezone.';
+comment on column public.streamer_availability_exceptions.end_date is 'Last calendar day covered, inclusive.';
+comment on column public.streamer_availability_exceptions.start_time is 'Wall-clock time in streamers.timezone, applied on every covered day; null with end_time for a whole day.';
+comment on column public.streamer_availability_exceptions.end_time is 'Wall-clock time in streamers.timezone; 24:00 for a window running to midnight.';
+
+create index streamer_availability_exceptions_streamer_dates_idx
+  on public.streamer_availability_exceptions (streamer_id, start_date, end_date);
+
+alter table public.streamer_availability_exceptions enable row level security;
+
+create policy "Allow anyone to read availability exceptions"
+  on public.streamer_availability_exceptions
+  for select
+  to anon, authenticated
+  using (true);
+
+comment on policy "Allow anyone to read availability exceptions" on public.streamer_availability_exceptions is 'Brands see time off and extra hours in the booking calendar before signing in.';
+
+create policy "Allow streamers to manage their availability exceptions"
+  on public.streamer_availability_exceptions
+  for all
+  to authenticated
+  using (
+    exists (
+      select 1 from public.streamers
+      where streamers.id = streamer_availability_exceptions.streamer_id
+        and streamers.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.streamers
+      where streamers.id = streamer_availability_exceptions.streamer_id
+        and streamers.user_id = auth.uid()
+    )
+  );
+
+comment on policy "Allow streamers to manage their availability exceptions" on public.streamer_availability_exceptions is 'A streamer edits only their own exceptions.';
+
+insert into public.streamer_availability_exceptions (streamer_id, kind, start_date, end_date)
+select distinct streamer_id, 'off', date::date, date::date
+from public.streamer_day_offs;
+
+drop table if exists public.streamer_day_offs;
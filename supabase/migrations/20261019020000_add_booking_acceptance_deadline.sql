@@ -0,0 +1,35 @@
+-- Migration: Booking acceptance deadline
+-- Description: Gives every paid booking a deadline for the streamer to accept
+--              it. The acceptance-deadlines cron job reminds the streamer as
+--              the deadline approaches and declines bookings still pending
+--              after it, refunding the brand in full.
+-- Affected tables: bookings
+-- Special considerations: accept_by is set when the payment settles
+--                         (ACCEPTANCE_WINDOW_MINUTES, never past the start of
+--                         the session; a package's occurrences share the first
+--                         one's deadline). Bookings already pending get a fresh
+--                         window from now so they are not declined on deploy.
+--                         Auto-declines are recorded with status_actor
+--                         'system' and status_reason 'acceptance_timeout'.
+
+alter table public.bookings
+  add column if not exists accept_by timestamptz,
+  add column if not exists acceptance_reminders_sent integer not null default 0;
+
+comment on column public.bookings.accept_by is 'Deadline for the streamer to accept a paid booking; past it the booking is declined and refunded.';
+comment on column public.bookings.acceptance_reminders_sent is 'Reminders sent to the streamer about accept_by so far.';
+
+create index bookings_pending_accept_by_idx on public.bookings (accept_by) where status = 'pending';
+
+with first_sessions as (
+  select coalesce('package-' || package_id, 'booking-' || id) as group_key, min(start_time) as first_start
+  from public.bookings
+  where status = 'pending'
+  group by coalesce('package-' || package_id, 'booking-' || id)
+)
+update public.bookings
+set accept_by = least(now() + interval '60 minutes', first_sessions.first_start)
+from first_sessions
+where bookings.status = 'pending'
+  and bookings.accept_by is null
+  and first_sessions.group_key = coalesce('package-' || bookings.package_id, 'booking-' || bookings.id);
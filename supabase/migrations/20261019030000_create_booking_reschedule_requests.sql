@@ -0,0 +1,175 @@
+-- Migration: Booking reschedule requests
+-- Description: Lets the brand or the streamer of an accepted booking propose
+--              a new time for it. The other party accepts or declines; the
+--              proposer may withdraw while it is pending. Accepting moves the
+--              booking to the proposed time.
+-- Affected tables: booking_reschedule_requests (new), bookings
+-- Special considerations: A booking has at most one pending request. The
+--                         proposed time keeps the booking's length, so its
+--                         price, payment, ledger postings and invoice stay as
+--                         they are. respond_booking_reschedule moves the booking
+--                         in the same transaction as the response; if the new
+--                         range overlaps another booking it fails with
+--                         exclusion_violation and nothing changes. Requests
+--                         are only answered through that function.
+
+create table public.booking_reschedule_requests (
+  id bigint generated always as identity primary key,
+  booking_id bigint not null references public.bookings (id) on delete cascade,
+  proposed_by text not null check (proposed_by in ('client', 'streamer')),
+  proposed_by_id uuid not null references auth.users (id),
+  previous_start_time timestamptz not null,
+  previous_end_time timestamptz not null,
+  start_time timestamptz not null,
+  end_time timestamptz not null,
+  note text,
+  status text not null default 'pending' check (status in ('pending', 'accepted', 'declined', 'withdrawn')),
+  responded_by_id uuid references auth.users (id),
+  responded_at timestamptz,
+  created_at timestamptz not null default now(),
+  check (end_time > start_time),
+  check (end_time - start_time = previous_end_time - previous_start_time)
+);
+
+comment on table public.booking_reschedule_requests is 'Proposals to move an accepted booking to another time, answered by the other participant.';
+comment on column public.booking_reschedule_requests.proposed_by is 'Which side of the booking proposed the new time.';
+comment on column public.booking_reschedule_requests.previous_start_time is 'Booking start when the request was made; the request can only be accepted while the booking is still there.';
+comment on column public.booking_reschedule_requests.start_time is 'Proposed start; the proposed range has the same length as the booking.';
+comment on column public.booking_reschedule_requests.status is 'pending until the other party accepts or declines it, or the proposer withdraws it.';
+
+create unique index booking_reschedule_requests_one_pending_idx
+  on public.booking_reschedule_requests (booking_id)
+  where status = 'pending';
+
+alter table public.booking_reschedule_requests enable row level security;
+
+create policy "Allow booking participants to read reschedule requests"
+  on public.booking_reschedule_requests
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.bookings
+      left join public.streamers on streamers.id = bookings.streamer_id
+      where bookings.id = booking_reschedule_requests.booking_id
+        and (bookings.client_id = auth.uid() or streamers.user_id = auth.uid())
+    )
+  );
+
+comment on policy "Allow booking participants to read reschedule requests" on public.booking_reschedule_requests is 'The brand and the streamer of a booking see the times proposed for it.';
+
+create policy "Allow booking participants to propose a new time"
+  on public.booking_reschedule_requests
+  for insert
+  to authenticated
+  with check (
+    status = 'pending'
+    and proposed_by_id = auth.uid()
+    and exists (
+      select 1
+      from public.bookings
+      left join public.streamers on streamers.id = bookings.streamer_id
+      where bookings.id = booking_reschedule_requests.booking_id
+        and bookings.status = 'accepted'
+        and bookings.start_time = booking_reschedule_requests.previous_start_time
+        and bookings.end_time = booking_reschedule_requests.previous_end_time
+        and (
+          (booking_reschedule_requests.proposed_by = 'client' and bookings.client_id = auth.uid())
+          or (booking_reschedule_requests.proposed_by = 'streamer' and streamers.user_id = auth.uid())
+        )
+    )
+  );
+
+comment on policy "Allow booking participants to propose a new time" on public.booking_reschedule_requests is 'Either side of an accepted booking may propose a new time for it, as themselves.';
+
+create or replace function public.respond_booking_reschedule(
+  p_request_id bigint,
+  p_status text
+)
+returns public.booking_reschedule_requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.booking_reschedule_requests;
+  v_booking public.bookings;
+  v_responder text;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated' using errcode = '42501';
+  end if;
+
+  if p_status not in ('accepted', 'declined', 'withdrawn') then
+    raise exception 'invalid response %', p_status using errcode = '22023';
+  end if;
+
+  select * into v_request
+  from public.booking_reschedule_requests
+  where id = p_request_id
+  for update;
+
+  if not found then
+    raise exception 'reschedule request not found' using errcode = 'P0002';
+  end if;
+
+  select * into v_booking
+  from public.bookings
+  where id = v_request.booking_id
+  for update;
+
+  select case
+    when v_booking.client_id = auth.uid() then 'client'
+    when exists (select 1 from public.streamers where id = v_booking.streamer_id and user_id = auth.uid()) then 'streamer'
+  end into v_responder;
+
+  if v_responder is null then
+    raise exception 'reschedule request not found' using errcode = 'P0002';
+  end if;
+
+  -- The proposer may only withdraw; the other side accepts or declines
+  if (p_status = 'withdrawn') <> (v_responder = v_request.proposed_by) then
+    raise exception 'not allowed to % this request', p_status using errcode = '42501';
+  end if;
+
+  if v_request.status <> 'pending' then
+    raise exception 'reschedule request is already %', v_request.status using errcode = '55000';
+  end if;
+
+  if p_status = 'accepted' then
+    if v_booking.status <> 'accepted'
+      or v_booking.start_time <> v_request.previous_start_time
+      or v_booking.end_time <> v_request.previous_end_time then
+      raise exception 'booking has changed since the new time was proposed' using errcode = '55000';
+    end if;
+
+    if v_request.start_time <= now() then
+      raise exception 'the proposed time has already passed' using errcode = '55000';
+    end if;
+
+    -- Stale holds in the range give way, closing their payments too
+    perform public.expire_overlapping_holds(v_booking.streamer_id, v_request.start_time, v_request.end_time);
+
+    -- Raises 23P01 (exclusion_violation) when the new range is taken
+    update public.bookings
+    set start_time = v_request.start_time,
+        end_time = v_request.end_time
+    where id = v_booking.id;
+  end if;
+
+  update public.booking_reschedule_requests
+  set status = p_status,
+      responded_by_id = auth.uid(),
+      responded_at = now()
+  where id = v_request.id
+  returning * into v_request;
+
+  return v_request;
+end;
+$$;
+
+comment on function public.respond_booking_reschedule is 'Accepts, declines or withdraws a pending reschedule request; accepting moves the booking and fails with exclusion_violation if the new range is taken.';
+
+revoke execute on function public.respond_booking_reschedule from public, anon;
+grant execute on function public.respond_booking_reschedule to authenticated;
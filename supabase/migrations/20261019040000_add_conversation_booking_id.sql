@@ -0,0 +1,22 @@
+-- Migration: Booking-scoped conversations
+-- Description: Lets a conversation belong to one booking, so the brief and
+--              coordination for each campaign get their own thread instead
+--              of mixing in the brand's single conversation with the
+--              streamer.
+-- Affected tables: conversations
+-- Special considerations: A thread is created when a booking's payment
+--                         settles. The sessions of a package share one thread,
+--                         scoped to the package's first booking (lowest id).
+--                         Conversations without a booking_id stay as the
+--                         general chat between a brand and a streamer.
+--                         Bookings paid before this migration get their
+--                         thread the first time it is opened.
+
+alter table public.conversations
+  add column if not exists booking_id bigint references public.bookings (id) on delete set null;
+
+comment on column public.conversations.booking_id is 'Booking this thread is about (the first booking of a package); null for the general chat between the brand and the streamer.';
+
+create unique index if not exists conversations_booking_id_key
+  on public.conversations (booking_id)
+  where booking_id is not null;
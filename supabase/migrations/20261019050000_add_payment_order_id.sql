@@ -0,0 +1,38 @@
+-- Migration: Payment order ids
+-- Description: Keeps the order id a payment was sent to the gateway with in its
+--              own column. transaction_id used to hold it until the first
+--              notification overwrote it with the gateway's transaction id,
+--              after which refunds, cancellations and status lookups could no
+--              longer find the order.
+-- Affected tables: payments
+-- Special considerations: Rows whose transaction_id still holds an order id are
+--                         backfilled from it; settled rows from the order id in
+--                         their first recorded notification. Rows with neither
+--                         keep a null order_id and have to be looked up by hand.
+
+alter table public.payments
+  add column if not exists order_id text;
+
+comment on column public.payments.order_id is 'Order id sent to the payment gateway at checkout; transaction_id is the gateway''s own id once it reports one.';
+
+update public.payments
+set order_id = transaction_id
+where order_id is null
+  and transaction_id ~ '^(SALDA-V\d+-P?\d+-\d+|BOOKING[-_]\d+[-_]\d+)$';
+
+update public.payments
+set order_id = first_notification.order_id
+from (
+  select distinct on (payment_id)
+    payment_id,
+    midtrans_notification ->> 'order_id' as order_id
+  from public.payment_status_history
+  where midtrans_notification ? 'order_id'
+  order by payment_id, id
+) as first_notification
+where payments.order_id is null
+  and first_notification.payment_id = payments.id;
+
+create unique index if not exists payments_order_id_key
+  on public.payments (order_id)
+  where order_id is not null;
@@ -0,0 +1,104 @@
+-- Migration: Enforce booking status transitions
+-- Description: Rejects booking status changes the state machine does not allow,
+--              so a direct update through the API cannot skip steps that
+--              transitionBooking would refuse. Brands and streamers updating a
+--              booking directly may only make the changes their side is allowed
+--              to make; creating bookings, confirming payment, expiring holds
+--              and the price, time and ownership columns are left to the
+--              server.
+-- Affected tables: bookings
+-- Special considerations: Keep booking_transition_allowed in sync with
+--                         BOOKING_TRANSITIONS in services/booking/booking-status.ts.
+--                         The transition table applies to every role. Updates
+--                         made as anon or authenticated also get the actor check;
+--                         the service role and security definer functions act as
+--                         the system.
+
+create or replace function public.booking_transition_allowed(p_from text, p_to text, p_actor text default null)
+returns boolean
+language sql
+immutable
+as $$
+  select exists (
+    select 1
+    from (values
+      ('payment_pending', 'pending', array['system']),
+      ('payment_pending', 'cancelled', array['client', 'system']),
+      ('payment_pending', 'expired', array['system']),
+      ('pending', 'accepted', array['streamer']),
+      ('pending', 'rejected', array['streamer', 'system']),
+      ('pending', 'cancelled', array['client', 'system']),
+      ('accepted', 'live', array['streamer']),
+      ('accepted', 'cancelled', array['client', 'streamer', 'system']),
+      ('live', 'completed', array['streamer', 'system'])
+    ) as transitions (from_status, to_status, actors)
+    where from_status = p_from
+      and to_status = p_to
+      and (p_actor is null or p_actor = any (actors))
+  );
+$$;
+
+comment on function public.booking_transition_allowed is 'Whether p_actor (any actor when null) may move a booking from p_from to p_to; mirrors BOOKING_TRANSITIONS in services/booking/booking-status.ts.';
+
+create or replace function public.enforce_booking_status_transition()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_actor text;
+begin
+  -- Bookings are created by checkout, which writes as the service role
+  if tg_op = 'INSERT' then
+    if current_user in ('anon', 'authenticated') then
+      raise exception 'bookings are created through checkout' using errcode = '42501';
+    end if;
+    return new;
+  end if;
+
+  if new.status is distinct from old.status
+    and not public.booking_transition_allowed(old.status, new.status) then
+    raise exception 'booking % cannot move from % to %', old.id, old.status, new.status
+      using errcode = '23514';
+  end if;
+
+  -- Direct API requests; the server writes as the service role
+  if current_user not in ('anon', 'authenticated') then
+    return new;
+  end if;
+
+  if new.client_id is distinct from old.client_id
+    or new.streamer_id is distinct from old.streamer_id
+    or new.package_id is distinct from old.package_id
+    or new.price is distinct from old.price
+    or new.price_breakdown is distinct from old.price_breakdown
+    or new.promo_code_id is distinct from old.promo_code_id
+    or new.service_package_id is distinct from old.service_package_id
+    or new.start_time is distinct from old.start_time
+    or new.end_time is distinct from old.end_time
+    or new.hold_expires_at is distinct from old.hold_expires_at
+    or new.accept_by is distinct from old.accept_by then
+    raise exception 'booking % can only be repriced, moved or reassigned by the server', old.id
+      using errcode = '42501';
+  end if;
+
+  if new.status is distinct from old.status then
+    select case
+      when old.client_id = auth.uid() then 'client'
+      when exists (select 1 from public.streamers where id = old.streamer_id and user_id = auth.uid()) then 'streamer'
+    end into v_actor;
+
+    if v_actor is null or not public.booking_transition_allowed(old.status, new.status, v_actor) then
+      raise exception 'not allowed to move booking % from % to %', old.id, old.status, new.status
+        using errcode = '42501';
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger bookings_enforce_status_transition
+  before insert or update on public.bookings
+  for each row
+  execute function public.enforce_booking_status_transition();
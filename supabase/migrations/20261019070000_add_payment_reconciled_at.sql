@@ -0,0 +1,16 @@
+-- Migration: Payment reconciliation cursor
+-- Description: Records when the reconciliation job last checked a pending
+--              payment, so each run starts with the payments checked longest
+--              ago. Payments the gateway keeps reporting as unchanged no longer
+--              fill every batch ahead of newer ones.
+-- Affected tables: payments
+-- Special considerations: Only the pending pass of the job writes the column.
+
+alter table public.payments
+  add column if not exists reconciled_at timestamptz;
+
+comment on column public.payments.reconciled_at is 'When the reconciliation job last asked the gateway about this payment while it was pending; null if never.';
+
+create index if not exists payments_pending_reconciled_at_idx
+  on public.payments (reconciled_at nulls first, created_at)
+  where status = 'pending';
@@ -21,6 +21,11 @@ declare module 'midtrans-client' {
       callbacks?: {
         finish?: string;
       };
+      expiry?: {
+        start_time?: string;
+        unit: 'second' | 'minute' | 'hour' | 'day';
+        duration: number;
+      };
     }
   
     interface TransactionResponse {
@@ -32,4 +37,37 @@ declare module 'midtrans-client' {
       constructor(config: SnapConfig);
       createTransaction(details: TransactionDetails): Promise<TransactionResponse>;
     }
+
+    interface TransactionStatusResponse {
+      status_code: string;
+      status_message?: string;
+      transaction_id?: string;
+      order_id?: string;
+      transaction_status?: string;
+      gross_amount?: string;
+      [key: string]: unknown;
+    }
+
+    interface RefundParameter {
+      refund_key?: string;
+      amount?: number;
+      reason?: string;
+    }
+
+    interface Transaction {
+      status(transactionId: string): Promise<TransactionStatusResponse>;
+      cancel(transactionId: string): Promise<TransactionStatusResponse>;
+      expire(transactionId: string): Promise<TransactionStatusResponse>;
+      refund(transactionId: string, parameter?: RefundParameter): Promise<TransactionStatusResponse>;
+    }
+
+    export class CoreApi {
+      constructor(config: SnapConfig);
+      transaction: Transaction;
+    }
+
+    export class MidtransError extends Error {
+      httpStatusCode: number | null;
+      ApiResponse: unknown;
+    }
 }
\ No newline at end of file
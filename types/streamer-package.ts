@@ -0,0 +1,12 @@
+export interface StreamerPackage {
+  id: number;
+  streamer_id: number;
+  name: string;
+  description: string | null;
+  duration_hours: number;
+  price: number;
+  deliverables: string[];
+  max_products: number | null;
+  is_active: boolean;
+  sort_order: number;
+}
@@ -0,0 +1,15 @@
+import { createClient as createSupabaseClient } from "@supabase/supabase-js";
+
+// Service-role client for server-to-server callers (payment webhooks, scheduled
+// jobs) that run without a user session. Never import this from client code.
+export const createAdminClient = () =>
+  createSupabaseClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    },
+  );
@@ -37,7 +37,8 @@ export const updateSession = async (request: NextRequest) => {
     // Protected routes handling
     const isAuthRoute = request.nextUrl.pathname.startsWith('/auth');
     const isProtectedRoute = request.nextUrl.pathname.startsWith('/protected') || 
-                            request.nextUrl.pathname.startsWith('/booking-detail');
+                            request.nextUrl.pathname.startsWith('/booking-detail') ||
+                            request.nextUrl.pathname.startsWith('/package-detail');
 
     if (isProtectedRoute && !session) {
       const redirectUrl = new URL('/sign-in', request.url);